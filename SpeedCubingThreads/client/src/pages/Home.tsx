@@ -15,7 +15,13 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { CubeType, cubeTypes, ChallengeThread, BotConfig } from "@shared/schema";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { CubeType, cubeTypes, ChallengeThread, BotConfig, EventFormats, meanOfThreeEvents, getDefaultEventFormat, isEventFormatAllowed, DEFAULT_PING_ROLE_NAME, DEFAULT_ADMIN_ROLE_NAME, DayOfWeek, daysOfWeek, WeeklySchedule, defaultWeeklySchedule, MAX_EVENTS_PER_DAY, DEFAULT_CATCH_UP_HOURS, MAX_CATCH_UP_HOURS, ArchiveOutcome, archiveOutcomes, closedArchiveOutcomes, AuditLogEntry, AuditAction, auditActions, auditActorTypes, auditResults, SystemMetrics } from "@shared/schema";
+import { ResultFormat, RESULT_FORMATS, RESULT_FORMAT_SOLVES, RESULT_FORMAT_EXTRAS, RESULT_FORMAT_LABELS, formatSolveTime } from "@shared/solveTimes";
+import { EventAverage, EVENT_AVERAGE_SOLVE_LIMIT } from "@shared/solveStats";
+import { DEFAULT_SEASON_POINTS, MAX_SEASON_POINTS_PLACES, parseSeasonPoints } from "@shared/seasons";
+import { isValidTimeZone, parseTimeOfDay } from "@shared/timeZones";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -28,9 +34,71 @@ interface HealthResponse {
   timestamp: string;
 }
 
+// A challenge thread with its scheduled close, retried later if closing failed
+interface ThreadResponse extends ChallengeThread {
+  closesAt: string | null;
+  closeAttempts: number;
+}
+
+// How each close outcome reads on the Threads tab
+const ARCHIVE_OUTCOME_LABELS: Record<ArchiveOutcome, string> = {
+  [archiveOutcomes.ARCHIVED]: "Archived",
+  [archiveOutcomes.ALREADY_ARCHIVED]: "Already archived",
+  [archiveOutcomes.NOT_FOUND]: "Not found on Discord",
+  [archiveOutcomes.PERMISSION_DENIED]: "Missing permissions",
+  [archiveOutcomes.TRANSIENT_ERROR]: "Discord error"
+};
+
+// How each audited action reads on the Audit tab
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  [auditActions.CONFIG_UPDATE]: "Settings saved",
+  [auditActions.SETUP]: "/setup",
+  [auditActions.SCHEDULE_UPDATE]: "Schedule changed",
+  [auditActions.REACT_EMOJI_SET]: "Reaction emoji set",
+  [auditActions.DAILY_POST_TRIGGER]: "Daily post triggered",
+  [auditActions.THREAD_CLEANUP_TRIGGER]: "Thread cleanup triggered",
+  [auditActions.THREAD_CLOSE_RETRY]: "Thread close retried",
+  [auditActions.MANUAL_THREAD_CREATE]: "Thread created manually",
+  [auditActions.EMERGENCY_BACKUP]: "Emergency backup"
+};
+
+const AUDIT_PAGE_SIZE = 25;
+
+interface AuditLogResponse {
+  entries: AuditLogEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// The bot's health samples charted on the Analytics tab, oldest first
+interface SystemMetricsResponse {
+  hours: number;
+  samples: SystemMetrics[];
+}
+
+// Windows the health charts can cover; longer ones chart hourly and daily averages
+const SYSTEM_METRICS_WINDOWS = [
+  { hours: 6, label: "6 hours" },
+  { hours: 24, label: "24 hours" },
+  { hours: 24 * 7, label: "7 days" },
+  { hours: 24 * 30, label: "30 days" },
+  { hours: 24 * 365, label: "1 year" }
+];
+
+// Each health chart: the sample value it plots and how its values read
+const SYSTEM_METRICS_CHARTS: { key: string; label: string; color: string; value: (sample: SystemMetrics) => number | null; format: (value: number) => string }[] = [
+  { key: "memory", label: "Memory (RSS)", color: "#5865F2", value: (sample) => sample.rssMemory / (1024 * 1024), format: (value) => `${value.toFixed(0)} MB` },
+  { key: "cpu", label: "CPU", color: "#57F287", value: (sample) => sample.cpuPercent, format: (value) => `${value.toFixed(1)}%` },
+  { key: "lag", label: "Event loop lag", color: "#FEE75C", value: (sample) => sample.eventLoopLag, format: (value) => `${value.toFixed(1)} ms` },
+  { key: "ping", label: "Discord ping", color: "#EB459E", value: (sample) => sample.wsPing, format: (value) => `${Math.round(value)} ms` },
+  { key: "threads", label: "Active threads", color: "#3498DB", value: (sample) => sample.activeThreads, format: (value) => String(Math.round(value)) }
+];
+
 interface NextChallengeResponse {
   day: string;
   cubeType: string;
+  events: CubeType[];
   nextTime: string;
   timeUntil: string;
   isToday: boolean;
@@ -73,6 +141,13 @@ function DiscordMessageEmulator() {
       case cubeTypes.SKEWB: return "🔷"; // Skewb
       case cubeTypes.PYRAMINX: return "🔺"; // Pyraminx
       case cubeTypes.CLOCK: return "🕙"; // Clock
+      case cubeTypes.FOUR: return "🟧"; // 4x4 cube
+      case cubeTypes.FIVE: return "🟩"; // 5x5 cube
+      case cubeTypes.SIX: return "🟪"; // 6x6 cube
+      case cubeTypes.SEVEN: return "🟫"; // 7x7 cube
+      case cubeTypes.MEGAMINX: return "⭐"; // Megaminx
+      case cubeTypes.SQUARE_ONE: return "🔲"; // Square-1
+      case cubeTypes.FMC: return "🦶"; // Fewest Moves
       default: return "🟦";
     }
   };
@@ -153,14 +228,28 @@ function DiscordMessageEmulator() {
 }
 
 export default function Home() {
-  const [selectedTab, setSelectedTab] = useState<"bot" | "schedule" | "threads" | "settings" | "analytics">(
+  const [selectedTab, setSelectedTab] = useState<"bot" | "schedule" | "threads" | "settings" | "analytics" | "audit">(
     "bot"
   );
   const [channelId, setChannelId] = useState("");
+  const [timeToPost, setTimeToPost] = useState("16:00");
+  const [timezone, setTimezone] = useState("Asia/Kolkata");
+  const [catchUpHours, setCatchUpHours] = useState(String(DEFAULT_CATCH_UP_HOURS));
+  const [pingRoleName, setPingRoleName] = useState(DEFAULT_PING_ROLE_NAME);
+  const [adminRoleName, setAdminRoleName] = useState(DEFAULT_ADMIN_ROLE_NAME);
   const [guildId, setGuildId] = useState("");
+  const [eventFormats, setEventFormats] = useState<EventFormats>({});
+  const [seasonPoints, setSeasonPoints] = useState(DEFAULT_SEASON_POINTS.join(", "));
+  const [schedule, setSchedule] = useState<WeeklySchedule>(defaultWeeklySchedule);
   const [isCreatingTestThread, setIsCreatingTestThread] = useState(false);
   const [isTriggeringDailyPost, setIsTriggeringDailyPost] = useState(false);
   const [isCleaningThreads, setIsCleaningThreads] = useState(false);
+  const [retryingThreadId, setRetryingThreadId] = useState<number | null>(null);
+  const [auditAction, setAuditAction] = useState<AuditAction | "all">("all");
+  const [auditActorType, setAuditActorType] = useState<string>("all");
+  const [auditActor, setAuditActor] = useState("");
+  const [auditPage, setAuditPage] = useState(0);
+  const [metricsHours, setMetricsHours] = useState(24);
   const [isEmergencyBackup, setIsEmergencyBackup] = useState(false);
   const [isSecurityCheck, setIsSecurityCheck] = useState(false);
   const [moderatorRoles, setModeratorRoles] = useState<string[]>([]);
@@ -178,7 +267,7 @@ export default function Home() {
     refetchInterval: 60000, // Refresh every minute
   });
 
-  const { data: threadsData, isLoading: threadsLoading } = useQuery<ChallengeThread[]>({
+  const { data: threadsData, isLoading: threadsLoading } = useQuery<ThreadResponse[]>({
     queryKey: ["/api/threads"],
   });
 
@@ -190,28 +279,68 @@ export default function Home() {
     queryKey: ["/api/config"],
   });
   
+  const { data: solveAveragesData, isLoading: solveAveragesLoading } = useQuery<EventAverage[]>({
+    queryKey: ["/api/solve-averages"],
+    enabled: selectedTab === "analytics",
+  });
+  
+  const { data: systemMetricsData, isLoading: systemMetricsLoading } = useQuery<SystemMetricsResponse>({
+    queryKey: [`/api/system-metrics?hours=${metricsHours}`],
+    enabled: selectedTab === "analytics",
+    refetchInterval: 60000, // A new sample is recorded every minute
+  });
+  
+  // The audit log page with the chosen filters; the URL is the query key
+  const auditParams = new URLSearchParams({ limit: String(AUDIT_PAGE_SIZE), offset: String(auditPage * AUDIT_PAGE_SIZE) });
+  if (auditAction !== "all") auditParams.set("action", auditAction);
+  if (auditActorType !== "all") auditParams.set("actorType", auditActorType);
+  if (auditActor.trim()) auditParams.set("actor", auditActor.trim());
+  const { data: auditData, isLoading: auditLoading } = useQuery<AuditLogResponse>({
+    queryKey: [`/api/audit?${auditParams.toString()}`],
+    enabled: selectedTab === "audit",
+    staleTime: 0, // Actions taken since the tab was last opened show up
+  });
+  
   // Update form values when config data is loaded
   useEffect(() => {
     if (configData && Array.isArray(configData) && configData.length > 0) {
       const config = configData[0];
       setGuildId(config.guildId || "");
       setChannelId(config.channelId || "");
+      setTimeToPost(config.timeToPost || "16:00");
+      setTimezone(config.timezone || "Asia/Kolkata");
+      setCatchUpHours(String(config.catchUpHours ?? DEFAULT_CATCH_UP_HOURS));
+      setPingRoleName(config.pingRoleName || DEFAULT_PING_ROLE_NAME);
+      setAdminRoleName(config.adminRoleName || DEFAULT_ADMIN_ROLE_NAME);
+      // Drop formats saved before they were checked, e.g. an Ao5 for a mean of 3 event
+      setEventFormats(Object.fromEntries(
+        Object.entries(config.eventFormats || {}).filter(([type, format]) => isEventFormatAllowed(type as CubeType, format))
+      ));
+      setSeasonPoints((config.seasonPoints || DEFAULT_SEASON_POINTS).join(", "));
+      setSchedule(config.schedule || defaultWeeklySchedule);
     }
   }, [configData]);
 
   const configMutation = useMutation({
-    mutationFn: async (data: { guildId: string; channelId: string }) => {
+    mutationFn: async (data: { guildId: string; channelId: string; timeToPost: string; timezone: string; catchUpHours: number; pingRoleName: string; adminRoleName: string; eventFormats: EventFormats; seasonPoints: number[]; schedule: WeeklySchedule }) => {
       return apiRequest("POST", "/api/config", {
         guildId: data.guildId,
         channelId: data.channelId,
+        eventFormats: data.eventFormats,
+        seasonPoints: data.seasonPoints,
+        schedule: data.schedule,
         enabled: true,
-        timeToPost: "16:00",
-        timezone: "Asia/Kolkata",
+        timeToPost: data.timeToPost,
+        timezone: data.timezone,
+        catchUpHours: data.catchUpHours,
+        pingRoleName: data.pingRoleName,
+        adminRoleName: data.adminRoleName,
         deleteAfterHours: 24,
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/next-challenge"] });
       toast({
         title: "Settings Saved",
         description: "Bot configuration has been updated successfully.",
@@ -226,10 +355,74 @@ export default function Home() {
     }
   });
   
+  // Save the settings and schedule together, as they are one configuration
+  const saveConfig = () => {
+    if (!guildId || !channelId) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter both Guild ID and Channel ID.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    if (!parseTimeOfDay(timeToPost) || !isValidTimeZone(timezone)) {
+      toast({
+        title: "Invalid Posting Time",
+        description: "Enter the time as HH:MM in 24-hour time and a time zone such as Europe/Berlin.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    const catchUp = Number(catchUpHours);
+    if (!Number.isInteger(catchUp) || catchUp < 0 || catchUp > MAX_CATCH_UP_HOURS) {
+      toast({
+        title: "Invalid Catch-up Window",
+        description: `Enter a whole number of hours from 0 to ${MAX_CATCH_UP_HOURS}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    const points = parseSeasonPoints(seasonPoints);
+    if (!points) {
+      toast({
+        title: "Invalid Season Points",
+        description: `Enter 1 to ${MAX_SEASON_POINTS_PLACES} whole numbers from 0 to 1000, separated by commas.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    if (!pingRoleName.trim() || !adminRoleName.trim()) {
+      toast({
+        title: "Missing Role Names",
+        description: "Enter the names of the ping role and the admin role.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    configMutation.mutate({
+      guildId, channelId, timeToPost, timezone, catchUpHours: catchUp,
+      pingRoleName: pingRoleName.trim(), adminRoleName: adminRoleName.trim(),
+      eventFormats, seasonPoints: points, schedule
+    });
+  };
+  
+  // Add an event to a day of the schedule, or remove it
+  const addScheduledEvent = (day: DayOfWeek, event: CubeType) => {
+    setSchedule((current) => ({ ...current, [day]: [...current[day], event] }));
+  };
+  const removeScheduledEvent = (day: DayOfWeek, event: CubeType) => {
+    setSchedule((current) => ({ ...current, [day]: current[day].filter((type) => type !== event) }));
+  };
+  
   // Mutation for creating a test thread
   const testThreadMutation = useMutation({
     mutationFn: async (cubeType?: string) => {
-      return apiRequest("POST", "/api/create-test-thread", { cubeType });
+      return apiRequest("POST", "/api/create-test-thread", { cubeType, guildId: guildId || undefined });
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/threads"] });
@@ -252,7 +445,7 @@ export default function Home() {
   // Mutation for triggering daily post
   const triggerDailyPostMutation = useMutation({
     mutationFn: async () => {
-      return apiRequest("POST", "/api/trigger-daily-post", {});
+      return apiRequest("POST", "/api/trigger-daily-post", { guildId: guildId || undefined });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/threads"] });
@@ -275,14 +468,16 @@ export default function Home() {
   // Mutation for cleaning up threads
   const cleanupThreadsMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/trigger-thread-cleanup", {});
+      const response = await apiRequest("POST", "/api/trigger-thread-cleanup", { guildId: guildId || undefined });
       return await response.json();
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/threads"] });
+      const outcomeCounts = Object.values(data.outcomes || {}) as number[];
+      const notClosed = outcomeCounts.reduce((sum, count) => sum + count, 0) - (data.count || 0);
       toast({
         title: "Threads Cleaned Up",
-        description: `Successfully cleaned up ${data.count || 0} expired thread(s)`,
+        description: `Closed ${data.count || 0} thread(s)${notClosed > 0 ? `, ${notClosed} could not be closed (see the Threads tab)` : ""}`,
       });
       setIsCleaningThreads(false);
     },
@@ -296,6 +491,31 @@ export default function Home() {
     }
   });
   
+  // Mutation for closing a thread again after its close failed
+  const retryArchiveMutation = useMutation({
+    mutationFn: async (threadId: number) => {
+      const response = await apiRequest("POST", `/api/threads/${threadId}/retry-archive`, {});
+      return await response.json() as { success: boolean; outcome: ArchiveOutcome };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/threads"] });
+      toast({
+        title: data.success ? "Thread Closed" : "Thread Not Closed",
+        description: ARCHIVE_OUTCOME_LABELS[data.outcome],
+        variant: data.success ? "default" : "destructive",
+      });
+      setRetryingThreadId(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to retry closing the thread: ${error.message}`,
+        variant: "destructive",
+      });
+      setRetryingThreadId(null);
+    }
+  });
+  
   // Mutation for security check (silent, no notifications)
   const securityCheckMutation = useMutation({
     mutationFn: async () => {
@@ -377,6 +597,14 @@ export default function Home() {
     cleanupThreadsMutation.mutate();
   };
   
+  // Function to retry closing a thread
+  const retryArchive = (threadId: number) => {
+    if (retryingThreadId !== null) return;
+    
+    setRetryingThreadId(threadId);
+    retryArchiveMutation.mutate(threadId);
+  };
+  
   // Function to perform security check
   const performSecurityCheck = () => {
     if (isSecurityCheck) return;
@@ -516,6 +744,17 @@ Please enter the role IDs to ping, comma separated (or leave empty to enter cust
                 </span>
                 <span className="hidden md:block">Analytics</span>
               </div>
+              <div
+                className={`flex items-center p-2 rounded hover:bg-[#36393F] cursor-pointer text-[#DCDDDE] ${
+                  selectedTab === "audit" ? "bg-[#5865F2] text-white" : ""
+                }`}
+                onClick={() => setSelectedTab("audit")}
+              >
+                <span className="mr-3 text-[#A3A6AA]">
+                  <i className="fas fa-clipboard-list"></i>
+                </span>
+                <span className="hidden md:block">Audit</span>
+              </div>
               <div
                 className={`flex items-center p-2 rounded hover:bg-[#36393F] cursor-pointer text-[#DCDDDE] ${
                   selectedTab === "settings" ? "bg-[#5865F2] text-white" : ""
@@ -582,6 +821,55 @@ Please enter the role IDs to ping, comma separated (or leave empty to enter cust
                 </span>
                 <span className="hidden md:block">Clock</span>
               </div>
+
+              <div className="flex items-center p-2 rounded hover:bg-[#36393F] cursor-pointer mb-1 text-discord-text-normal">
+                <span className="mr-3 text-[#A3A6AA]">
+                  <i className="fas fa-cube"></i>
+                </span>
+                <span className="hidden md:block">4x4</span>
+              </div>
+
+              <div className="flex items-center p-2 rounded hover:bg-[#36393F] cursor-pointer mb-1 text-discord-text-normal">
+                <span className="mr-3 text-[#A3A6AA]">
+                  <i className="fas fa-cube"></i>
+                </span>
+                <span className="hidden md:block">5x5</span>
+              </div>
+
+              <div className="flex items-center p-2 rounded hover:bg-[#36393F] cursor-pointer mb-1 text-discord-text-normal">
+                <span className="mr-3 text-[#A3A6AA]">
+                  <i className="fas fa-cube"></i>
+                </span>
+                <span className="hidden md:block">6x6</span>
+              </div>
+
+              <div className="flex items-center p-2 rounded hover:bg-[#36393F] cursor-pointer mb-1 text-discord-text-normal">
+                <span className="mr-3 text-[#A3A6AA]">
+                  <i className="fas fa-cube"></i>
+                </span>
+                <span className="hidden md:block">7x7</span>
+              </div>
+
+              <div className="flex items-center p-2 rounded hover:bg-[#36393F] cursor-pointer mb-1 text-discord-text-normal">
+                <span className="mr-3 text-[#A3A6AA]">
+                  <i className="fas fa-star"></i>
+                </span>
+                <span className="hidden md:block">Megaminx</span>
+              </div>
+
+              <div className="flex items-center p-2 rounded hover:bg-[#36393F] cursor-pointer mb-1 text-discord-text-normal">
+                <span className="mr-3 text-[#A3A6AA]">
+                  <i className="fas fa-square"></i>
+                </span>
+                <span className="hidden md:block">Square-1</span>
+              </div>
+
+              <div className="flex items-center p-2 rounded hover:bg-[#36393F] cursor-pointer mb-1 text-discord-text-normal">
+                <span className="mr-3 text-[#A3A6AA]">
+                  <i className="fas fa-shoe-prints"></i>
+                </span>
+                <span className="hidden md:block">3x3 FMC</span>
+              </div>
             </div>
           </div>
 
@@ -607,7 +895,7 @@ Please enter the role IDs to ping, comma separated (or leave empty to enter cust
             <span className="mr-2 text-[#A3A6AA]">#</span>
             <span className="font-bold">🗓•daily-scramble</span>
             <div className="ml-2 text-xs text-[#A3A6AA] bg-[#2F3136] py-0.5 px-2 rounded">
-              Daily Scrambles at 4:00 PM IST
+              Daily Scrambles at {timeToPost} ({timezone})
             </div>
           </div>
 
@@ -628,7 +916,7 @@ Please enter the role IDs to ping, comma separated (or leave empty to enter cust
                         </h2>
                         <p className="text-[#DCDDDE] mb-2">
                           This bot posts daily scramble challenges for different
-                          cube types based on the day of the week. At exactly 4:00 PM IST,
+                          cube types based on the day of the week. At each server's posting time,
                           the bot first cleans up all existing threads and then immediately
                           creates the new daily challenge. This ensures a clean slate for
                           each day's challenge.
@@ -798,7 +1086,7 @@ Please enter the role IDs to ping, comma separated (or leave empty to enter cust
                               >
                                 {nextChallengeData?.isToday
                                   ? "Today"
-                                  : "Tomorrow"}
+                                  : nextChallengeData?.day}
                               </Badge>
                             </div>
                             <div className="text-[#A3A6AA] text-sm">
@@ -824,98 +1112,77 @@ Please enter the role IDs to ping, comma separated (or leave empty to enter cust
                 </h3>
                 <Card className="bg-[#2F3136] border-0">
                   <CardContent className="p-4">
+                    <p className="text-[#DCDDDE] text-sm mb-4">
+                      Each event is posted in its own thread. Days without events are rest days.
+                      The schedule can also be changed with <code className="text-[#57F287]">/schedule set</code> in Discord.
+                    </p>
                     <Table>
                       <TableHeader>
                         <TableRow className="border-b border-[#202225]">
                           <TableHead className="text-[#A3A6AA]">Day</TableHead>
                           <TableHead className="text-[#A3A6AA]">
-                            Cube Type
+                            Events
                           </TableHead>
                           <TableHead className="text-[#A3A6AA]">Time</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        <TableRow className="border-b border-[#202225]">
-                          <TableCell className="text-white">Monday</TableCell>
-                          <TableCell>
-                            <Badge className="bg-[#202225] text-[#DCDDDE]">
-                              Skewb
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-[#DCDDDE]">
-                            4:00 PM IST
-                          </TableCell>
-                        </TableRow>
-                        <TableRow className="border-b border-[#202225]">
-                          <TableCell className="text-white">Tuesday</TableCell>
-                          <TableCell>
-                            <Badge className="bg-[#202225] text-[#DCDDDE]">
-                              3x3 BLD
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-[#DCDDDE]">
-                            4:00 PM IST
-                          </TableCell>
-                        </TableRow>
-                        <TableRow className="border-b border-[#202225]">
-                          <TableCell className="text-white">
-                            Wednesday
-                          </TableCell>
-                          <TableCell>
-                            <Badge className="bg-[#202225] text-[#DCDDDE]">
-                              2x2
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-[#DCDDDE]">
-                            4:00 PM IST
-                          </TableCell>
-                        </TableRow>
-                        <TableRow className="border-b border-[#202225]">
-                          <TableCell className="text-white">Thursday</TableCell>
-                          <TableCell>
-                            <Badge className="bg-[#202225] text-[#DCDDDE]">
-                              3x3
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-[#DCDDDE]">
-                            4:00 PM IST
-                          </TableCell>
-                        </TableRow>
-                        <TableRow className="border-b border-[#202225]">
-                          <TableCell className="text-white">Friday</TableCell>
-                          <TableCell>
-                            <Badge className="bg-[#202225] text-[#DCDDDE]">
-                              Pyraminx
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-[#DCDDDE]">
-                            4:00 PM IST
-                          </TableCell>
-                        </TableRow>
-                        <TableRow className="border-b border-[#202225]">
-                          <TableCell className="text-white">Saturday</TableCell>
-                          <TableCell>
-                            <Badge className="bg-[#202225] text-[#DCDDDE]">
-                              3x3 OH
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-[#DCDDDE]">
-                            4:00 PM IST
-                          </TableCell>
-                        </TableRow>
-                        <TableRow>
-                          <TableCell className="text-white">Sunday</TableCell>
-                          <TableCell>
-                            <Badge className="bg-[#202225] text-[#DCDDDE]">
-                              Clock
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-[#DCDDDE]">
-                            4:00 PM IST
-                          </TableCell>
-                        </TableRow>
+                        {[...daysOfWeek.slice(1), daysOfWeek[0]].map((day) => (
+                          <TableRow key={day} className="border-b border-[#202225]">
+                            <TableCell className="text-white">
+                              {day.charAt(0) + day.slice(1).toLowerCase()}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap items-center gap-2">
+                                {schedule[day].length === 0 && (
+                                  <span className="text-[#A3A6AA] text-sm italic">Rest day</span>
+                                )}
+                                {schedule[day].map((event) => (
+                                  <Badge key={event} className="bg-[#202225] text-[#DCDDDE]">
+                                    {event}
+                                    <button
+                                      className="ml-2 text-[#A3A6AA] hover:text-[#ED4245]"
+                                      onClick={() => removeScheduledEvent(day, event)}
+                                      aria-label={`Remove ${event}`}
+                                    >
+                                      ×
+                                    </button>
+                                  </Badge>
+                                ))}
+                                {schedule[day].length < MAX_EVENTS_PER_DAY && (
+                                  <Select value="" onValueChange={(value: CubeType) => addScheduledEvent(day, value)}>
+                                    <SelectTrigger className="bg-[#202225] border-[#202225] text-white h-7 w-[130px] text-xs">
+                                      <SelectValue placeholder="Add event" />
+                                    </SelectTrigger>
+                                    <SelectContent className="bg-[#36393F] border-[#202225] text-white">
+                                      {(Object.values(cubeTypes) as CubeType[])
+                                        .filter((type) => !schedule[day].includes(type))
+                                        .map((type) => (
+                                          <SelectItem key={type} value={type}>
+                                            {type}
+                                          </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                  </Select>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-[#DCDDDE]">
+                              {schedule[day].length > 0 ? `${timeToPost} (${timezone})` : "—"}
+                            </TableCell>
+                          </TableRow>
+                        ))}
                       </TableBody>
                     </Table>
+                    <div className="pt-4">
+                      <Button
+                        className="bg-[#5865F2] hover:bg-[#4752C4] text-white"
+                        onClick={saveConfig}
+                        disabled={configMutation.isPending}
+                      >
+                        {configMutation.isPending ? "Saving..." : "Save Schedule"}
+                      </Button>
+                    </div>
                   </CardContent>
                 </Card>
 
@@ -933,6 +1200,112 @@ Please enter the role IDs to ping, comma separated (or leave empty to enter cust
             {selectedTab === "analytics" && (
               <div className="mb-6">
                 <h3 className="text-white font-semibold mb-2">Analytics Dashboard</h3>
+                <Card className="bg-[#2F3136] border-0 mb-4">
+                  <CardContent className="p-4">
+                    <h4 className="text-white font-medium mb-1">Solve Averages</h4>
+                    <p className="text-[#A3A6AA] text-xs mb-3">
+                      Everyone's latest {EVENT_AVERAGE_SOLVE_LIMIT.toLocaleString()} timed solves per event. Averages drop the best and worst 5% of solves (at least one each side), and too many DNFs make them a DNF.
+                    </p>
+                    {solveAveragesLoading ? (
+                      <p className="text-[#DCDDDE] text-sm">Loading solve averages...</p>
+                    ) : solveAveragesData && solveAveragesData.length > 0 ? (
+                      <Table>
+                        <TableHeader>
+                          <TableRow className="border-b border-[#202225]">
+                            <TableHead className="text-[#A3A6AA]">Event</TableHead>
+                            <TableHead className="text-[#A3A6AA]">Average</TableHead>
+                            <TableHead className="text-[#A3A6AA]">Best</TableHead>
+                            <TableHead className="text-[#A3A6AA]">σ</TableHead>
+                            <TableHead className="text-[#A3A6AA]">Solves</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {solveAveragesData.map((average) => (
+                            <TableRow key={average.cubeType} className="border-b border-[#202225]">
+                              <TableCell className="text-white">{average.cubeType}</TableCell>
+                              <TableCell className="text-[#DCDDDE] font-mono">{formatSolveTime(average.averageSolveTime)}</TableCell>
+                              <TableCell className="text-[#DCDDDE] font-mono">{formatSolveTime(average.bestSingle)}</TableCell>
+                              <TableCell className="text-[#DCDDDE] font-mono">
+                                {average.standardDeviation !== null ? formatSolveTime(average.standardDeviation) : "—"}
+                              </TableCell>
+                              <TableCell className="text-[#DCDDDE]">
+                                {average.solveCount}
+                                {average.dnfCount > 0 && <span className="text-[#ED4245] text-xs ml-1">({average.dnfCount} DNF)</span>}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    ) : (
+                      <p className="text-[#DCDDDE] text-sm">No timed solves yet. Solves timed with /scramble show up here.</p>
+                    )}
+                  </CardContent>
+                </Card>
+                <Card className="bg-[#2F3136] border-0 mb-4">
+                  <CardContent className="p-4">
+                    <div className="flex items-center justify-between mb-1">
+                      <h4 className="text-white font-medium">System Health</h4>
+                      <Select value={String(metricsHours)} onValueChange={(value) => setMetricsHours(Number(value))}>
+                        <SelectTrigger className="w-32 bg-[#202225] border-0 text-[#DCDDDE]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SYSTEM_METRICS_WINDOWS.map((option) => (
+                            <SelectItem key={option.hours} value={String(option.hours)}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <p className="text-[#A3A6AA] text-xs mb-3">
+                      Sampled every minute. Samples older than a day are hourly averages, and older than 30 days daily averages; a year is kept.
+                    </p>
+                    {systemMetricsLoading ? (
+                      <p className="text-[#DCDDDE] text-sm">Loading system metrics...</p>
+                    ) : systemMetricsData && systemMetricsData.samples.length > 0 ? (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {SYSTEM_METRICS_CHARTS.map((chart) => {
+                          const config: ChartConfig = { [chart.key]: { label: chart.label, color: chart.color } };
+                          const points = systemMetricsData.samples.map((sample) => ({
+                            time: new Date(sample.timestamp).getTime(),
+                            [chart.key]: chart.value(sample)
+                          }));
+                          return (
+                            <div key={chart.key} className="bg-[#202225] rounded p-3">
+                              <h5 className="text-[#DCDDDE] text-sm mb-2">{chart.label}</h5>
+                              <ChartContainer config={config} className="aspect-auto h-40 w-full">
+                                <LineChart data={points} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+                                  <CartesianGrid vertical={false} />
+                                  <XAxis
+                                    dataKey="time"
+                                    type="number"
+                                    scale="time"
+                                    domain={["dataMin", "dataMax"]}
+                                    tickFormatter={(time: number) => metricsHours <= 24
+                                      ? new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+                                      : new Date(time).toLocaleDateString([], { month: "short", day: "numeric" })}
+                                    minTickGap={32}
+                                  />
+                                  <YAxis width={56} tickFormatter={(value: number) => chart.format(value)} />
+                                  <ChartTooltip
+                                    content={
+                                      <ChartTooltipContent
+                                        labelFormatter={(_, payload) => payload[0] ? new Date(payload[0].payload.time).toLocaleString() : ""}
+                                        formatter={(value) => `${chart.label}: ${chart.format(Number(value))}`}
+                                      />
+                                    }
+                                  />
+                                  <Line dataKey={chart.key} stroke={`var(--color-${chart.key})`} strokeWidth={2} dot={false} connectNulls={false} isAnimationActive={false} />
+                                </LineChart>
+                              </ChartContainer>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ) : (
+                      <p className="text-[#DCDDDE] text-sm">No samples in this window yet. The bot records one every minute while it runs.</p>
+                    )}
+                  </CardContent>
+                </Card>
                 <Card className="bg-[#2F3136] border-0">
                   <CardContent className="p-4">
                     <p className="text-[#DCDDDE] mb-4">
@@ -964,7 +1337,7 @@ Please enter the role IDs to ping, comma separated (or leave empty to enter cust
                           <h4 className="text-white font-medium">System Performance</h4>
                         </div>
                         <p className="text-[#DCDDDE] text-sm mb-2">
-                          Monitor system health, memory usage, and resource utilization.
+                          Monitor memory, CPU, event loop lag and Discord ping over the last day.
                         </p>
                         <div className="bg-[#2F3136] rounded p-2 mt-2">
                           <code className="text-[#57F287] text-xs">/analytics type:system</code>
@@ -1065,21 +1438,127 @@ Please enter the role IDs to ping, comma separated (or leave empty to enter cust
                           onChange={(e) => setChannelId(e.target.value)}
                         />
                       </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-[#DCDDDE] text-sm font-medium mb-1">
+                            Time to Post
+                          </label>
+                          <Input
+                            type="time"
+                            className="bg-[#202225] border-[#202225] text-white placeholder:text-[#72767D]"
+                            value={timeToPost}
+                            onChange={(e) => setTimeToPost(e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-[#DCDDDE] text-sm font-medium mb-1">
+                            Time Zone
+                          </label>
+                          <Input
+                            className="bg-[#202225] border-[#202225] text-white placeholder:text-[#72767D]"
+                            placeholder="e.g. Europe/Berlin"
+                            value={timezone}
+                            onChange={(e) => setTimezone(e.target.value)}
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-[#DCDDDE] text-sm font-medium mb-1">
+                          Catch-up Window (hours)
+                        </label>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={MAX_CATCH_UP_HOURS}
+                          className="bg-[#202225] border-[#202225] text-white placeholder:text-[#72767D]"
+                          value={catchUpHours}
+                          onChange={(e) => setCatchUpHours(e.target.value)}
+                        />
+                        <p className="text-xs text-[#A3A6AA] mt-1">
+                          If the bot was offline at the post time, it still posts when it comes back within this many hours. 0 skips missed posts.
+                        </p>
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-[#DCDDDE] text-sm font-medium mb-1">
+                            Ping Role
+                          </label>
+                          <Input
+                            className="bg-[#202225] border-[#202225] text-white placeholder:text-[#72767D]"
+                            placeholder={DEFAULT_PING_ROLE_NAME}
+                            value={pingRoleName}
+                            onChange={(e) => setPingRoleName(e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-[#DCDDDE] text-sm font-medium mb-1">
+                            Admin Role
+                          </label>
+                          <Input
+                            className="bg-[#202225] border-[#202225] text-white placeholder:text-[#72767D]"
+                            placeholder={DEFAULT_ADMIN_ROLE_NAME}
+                            value={adminRoleName}
+                            onChange={(e) => setAdminRoleName(e.target.value)}
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-[#DCDDDE] text-sm font-medium mb-1">
+                          Challenge Formats
+                        </label>
+                        <p className="text-xs text-[#A3A6AA] mb-2">
+                          A single posts one scramble. Ao5 and Mo3 post a numbered set with extras and rank the trimmed average or mean. Unset events post a single, or a Mo3 for {meanOfThreeEvents.join(", ")}, which cannot be an Ao5.
+                        </p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                          {Object.values(cubeTypes)
+                            .filter((type) => type !== cubeTypes.FMC)
+                            .map((type) => {
+                              const wcaFormat: ResultFormat = meanOfThreeEvents.includes(type) ? "mo3" : "ao5";
+                              return (
+                                <div key={type} className="flex items-center justify-between gap-2 bg-[#202225] rounded p-2">
+                                  <span className="text-white text-sm">{type}</span>
+                                  <Select
+                                    value={eventFormats[type] || getDefaultEventFormat(type)}
+                                    onValueChange={(value: ResultFormat) =>
+                                      setEventFormats((formats) => ({ ...formats, [type]: value }))
+                                    }
+                                  >
+                                    <SelectTrigger className="bg-[#2F3136] border-[#2F3136] text-white w-[170px]">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent className="bg-[#36393F] border-[#202225] text-white">
+                                      {RESULT_FORMATS.filter((format) => isEventFormatAllowed(type, format)).map((format) => (
+                                        <SelectItem key={format} value={format}>
+                                          {RESULT_FORMAT_LABELS[format]}
+                                          {format !== "single" && ` (${RESULT_FORMAT_SOLVES[format]} + ${RESULT_FORMAT_EXTRAS[format]})`}
+                                          {format === wcaFormat && " • WCA"}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                              );
+                            })}
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-[#DCDDDE] text-sm font-medium mb-1">
+                          Season Points
+                        </label>
+                        <p className="text-xs text-[#A3A6AA] mb-2">
+                          Points for 1st, 2nd, 3rd… place in each daily thread, added up into the weekly and monthly standings. Up to {MAX_SEASON_POINTS_PLACES} places; places past the list score nothing.
+                        </p>
+                        <Input
+                          className="bg-[#202225] border-[#202225] text-white placeholder:text-[#72767D]"
+                          placeholder={DEFAULT_SEASON_POINTS.join(", ")}
+                          value={seasonPoints}
+                          onChange={(e) => setSeasonPoints(e.target.value)}
+                        />
+                      </div>
                       <div className="pt-2">
                         <Button
                           className="bg-[#5865F2] hover:bg-[#4752C4] text-white"
-                          onClick={() => {
-                            if (!guildId || !channelId) {
-                              toast({
-                                title: "Missing Information",
-                                description: "Please enter both Guild ID and Channel ID.",
-                                variant: "destructive"
-                              });
-                              return;
-                            }
-                            
-                            configMutation.mutate({ guildId, channelId });
-                          }}
+                          onClick={saveConfig}
                           disabled={configMutation.isPending}
                         >
                           {configMutation.isPending ? "Saving..." : "Save Settings"}
@@ -1091,6 +1570,145 @@ Please enter the role IDs to ping, comma separated (or leave empty to enter cust
               </div>
             )}
 
+            {selectedTab === "audit" && (
+              <div className="mb-6">
+                <h3 className="text-white font-semibold mb-2">Audit Log</h3>
+                <Card className="bg-[#2F3136] border-0">
+                  <CardContent className="p-4">
+                    <p className="text-[#A3A6AA] text-xs mb-3">
+                      Who changed the bot's settings or triggered its actions, from this dashboard or with Discord commands, newest first.
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-3">
+                      <Select
+                        value={auditAction}
+                        onValueChange={(value: AuditAction | "all") => {
+                          setAuditAction(value);
+                          setAuditPage(0);
+                        }}
+                      >
+                        <SelectTrigger className="bg-[#202225] border-[#202225] text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-[#36393F] border-[#202225] text-white">
+                          <SelectItem value="all">All actions</SelectItem>
+                          {Object.values(auditActions).map((action) => (
+                            <SelectItem key={action} value={action}>
+                              {AUDIT_ACTION_LABELS[action]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={auditActorType}
+                        onValueChange={(value) => {
+                          setAuditActorType(value);
+                          setAuditPage(0);
+                        }}
+                      >
+                        <SelectTrigger className="bg-[#202225] border-[#202225] text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-[#36393F] border-[#202225] text-white">
+                          <SelectItem value="all">Dashboard and Discord</SelectItem>
+                          <SelectItem value={auditActorTypes.DASHBOARD}>Dashboard only</SelectItem>
+                          <SelectItem value={auditActorTypes.DISCORD}>Discord only</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        className="bg-[#202225] border-[#202225] text-white placeholder:text-[#72767D]"
+                        placeholder="Filter by user name"
+                        value={auditActor}
+                        onChange={(e) => {
+                          setAuditActor(e.target.value);
+                          setAuditPage(0);
+                        }}
+                      />
+                    </div>
+                    {auditLoading ? (
+                      <p className="text-[#DCDDDE] text-sm">Loading audit log...</p>
+                    ) : auditData && auditData.entries.length > 0 ? (
+                      <>
+                        <Table>
+                          <TableHeader>
+                            <TableRow className="border-b border-[#202225]">
+                              <TableHead className="text-[#A3A6AA]">When</TableHead>
+                              <TableHead className="text-[#A3A6AA]">Who</TableHead>
+                              <TableHead className="text-[#A3A6AA]">Action</TableHead>
+                              <TableHead className="text-[#A3A6AA]">Details</TableHead>
+                              <TableHead className="text-[#A3A6AA]">Result</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {auditData.entries.map((entry) => (
+                              <TableRow key={entry.id} className="border-b border-[#202225]">
+                                <TableCell className="text-[#DCDDDE] whitespace-nowrap">
+                                  {formatDate(entry.createdAt.toString())}
+                                </TableCell>
+                                <TableCell className="text-white">
+                                  {entry.actorName}
+                                  <span className="text-[#A3A6AA] text-xs ml-1">
+                                    ({entry.actorType === auditActorTypes.DASHBOARD ? "dashboard" : "Discord"})
+                                  </span>
+                                </TableCell>
+                                <TableCell className="text-[#DCDDDE]">
+                                  {AUDIT_ACTION_LABELS[entry.action] || entry.action}
+                                </TableCell>
+                                <TableCell className="text-[#A3A6AA] font-mono text-xs max-w-[280px] truncate" title={JSON.stringify(entry.parameters)}>
+                                  {entry.guildId && `guild ${entry.guildId} `}
+                                  {Object.keys(entry.parameters).length > 0 && JSON.stringify(entry.parameters)}
+                                </TableCell>
+                                <TableCell>
+                                  <Badge
+                                    className={
+                                      entry.result === auditResults.SUCCESS
+                                        ? "bg-[#57F287] text-white"
+                                        : entry.result === auditResults.DENIED
+                                        ? "bg-[#FEE75C] text-black"
+                                        : "bg-[#ED4245] text-white"
+                                    }
+                                    title={entry.error || undefined}
+                                  >
+                                    {entry.result}
+                                  </Badge>
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                        <div className="flex items-center justify-between mt-3 text-sm text-[#A3A6AA]">
+                          <span>
+                            {auditData.offset + 1}–{auditData.offset + auditData.entries.length} of {auditData.total}
+                          </span>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="bg-[#202225] border-[#202225] text-white hover:bg-[#40444B]"
+                              disabled={auditPage === 0}
+                              onClick={() => setAuditPage((page) => page - 1)}
+                            >
+                              Newer
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="bg-[#202225] border-[#202225] text-white hover:bg-[#40444B]"
+                              disabled={auditData.offset + auditData.entries.length >= auditData.total}
+                              onClick={() => setAuditPage((page) => page + 1)}
+                            >
+                              Older
+                            </Button>
+                          </div>
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-[#DCDDDE] text-sm">No audited actions match these filters.</p>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+
             {selectedTab === "threads" && (
               <div className="mb-6">
                 <h3 className="text-white font-semibold mb-2">
@@ -1106,7 +1724,7 @@ Please enter the role IDs to ping, comma separated (or leave empty to enter cust
                       </div>
                     ) : (
                       <div className="space-y-2">
-                        {threadsData?.map((thread: ChallengeThread) => (
+                        {threadsData?.map((thread: ThreadResponse) => (
                           <div
                             key={thread.id}
                             className="bg-[#36393F] p-3 rounded-md"
@@ -1145,9 +1763,54 @@ Please enter the role IDs to ping, comma separated (or leave empty to enter cust
                                   {formatDate(thread.createdAt.toString())} •
                                   Expires{" "}
                                   {formatDate(thread.expiresAt.toString())}
+                                  {!thread.isDeleted && (
+                                    <>
+                                      {" "}•{" "}
+                                      {thread.closesAt
+                                        ? `Closes ${formatDate(thread.closesAt)}`
+                                        : "Close not scheduled"}
+                                      {thread.closeAttempts > 0 &&
+                                        ` (retry after ${thread.closeAttempts} failed ${thread.closeAttempts === 1 ? "attempt" : "attempts"})`}
+                                    </>
+                                  )}
                                 </div>
-                                <div className="mt-2 font-mono text-sm bg-[#202225] p-2 rounded overflow-x-auto">
-                                  {thread.scramble}
+                                {thread.archiveOutcome && (
+                                  <div className="flex items-center gap-2 mt-1 text-xs">
+                                    <span
+                                      className={
+                                        closedArchiveOutcomes.includes(thread.archiveOutcome)
+                                          ? "text-[#A3A6AA]"
+                                          : "text-[#ED4245]"
+                                      }
+                                    >
+                                      Close: {ARCHIVE_OUTCOME_LABELS[thread.archiveOutcome]}
+                                      {thread.archiveAttemptedAt &&
+                                        ` • ${formatDate(thread.archiveAttemptedAt.toString())}`}
+                                      {thread.archiveError && ` • ${thread.archiveError}`}
+                                    </span>
+                                    {!thread.isDeleted && !closedArchiveOutcomes.includes(thread.archiveOutcome) && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="h-6 px-2 text-xs bg-[#202225] border-[#202225] text-white hover:bg-[#40444B]"
+                                        disabled={retryingThreadId !== null}
+                                        onClick={() => retryArchive(thread.id)}
+                                      >
+                                        {retryingThreadId === thread.id ? "Retrying..." : "Retry close"}
+                                      </Button>
+                                    )}
+                                  </div>
+                                )}
+                                <div className="mt-2 font-mono text-sm bg-[#202225] p-2 rounded overflow-x-auto whitespace-pre-line">
+                                  {thread.scrambles.length === 1
+                                    ? thread.scrambles[0]
+                                    : thread.scrambles
+                                        .map((scramble, i) => {
+                                          const solveCount = RESULT_FORMAT_SOLVES[thread.format];
+                                          const label = i < solveCount ? `${i + 1}` : `E${i - solveCount + 1}`;
+                                          return `${label}. ${scramble}`;
+                                        })
+                                        .join("\n")}
                                 </div>
                               </div>
                             </div>
@@ -0,0 +1,16 @@
+-- Each member has one result per challenge thread. Keeps only the latest of
+-- any duplicate results and adds the unique index that enforces it.
+-- Safe to run again; run it before `npm run db:push`, which cannot add the
+-- index while duplicates remain.
+DO $$
+BEGIN
+  IF to_regclass('challenge_results') IS NOT NULL THEN
+    DELETE FROM challenge_results older
+      USING challenge_results newer
+      WHERE older.challenge_thread_id = newer.challenge_thread_id
+        AND older.user_id = newer.user_id
+        AND older.id < newer.id;
+    CREATE UNIQUE INDEX IF NOT EXISTS challenge_results_thread_user
+      ON challenge_results (challenge_thread_id, user_id);
+  END IF;
+END $$;
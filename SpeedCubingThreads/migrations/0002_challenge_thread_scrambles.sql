@@ -0,0 +1,18 @@
+-- Challenge threads hold a set of scrambles instead of a single scramble.
+-- Moves each thread's scramble into a one-scramble set and drops the old
+-- column. Safe to run again; run it before `npm run db:push`, which would
+-- otherwise drop the scramble column with its data.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'challenge_threads' AND column_name = 'scramble'
+  ) THEN
+    ALTER TABLE challenge_threads ADD COLUMN IF NOT EXISTS scrambles jsonb;
+    UPDATE challenge_threads
+      SET scrambles = COALESCE(jsonb_build_array(scramble), '[]'::jsonb)
+      WHERE scrambles IS NULL;
+    ALTER TABLE challenge_threads ALTER COLUMN scrambles SET NOT NULL;
+    ALTER TABLE challenge_threads DROP COLUMN scramble;
+  END IF;
+END $$;
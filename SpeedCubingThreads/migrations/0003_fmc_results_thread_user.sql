@@ -0,0 +1,16 @@
+-- Each member has one Fewest Moves attempt per challenge thread. Keeps only
+-- the first of any duplicate solutions and adds the unique index that
+-- enforces it. Safe to run again; run it before `npm run db:push`, which
+-- cannot add the index while duplicates remain.
+DO $$
+BEGIN
+  IF to_regclass('fmc_results') IS NOT NULL THEN
+    DELETE FROM fmc_results later
+      USING fmc_results earlier
+      WHERE later.challenge_thread_id = earlier.challenge_thread_id
+        AND later.user_id = earlier.user_id
+        AND later.id > earlier.id;
+    CREATE UNIQUE INDEX IF NOT EXISTS fmc_results_thread_user
+      ON fmc_results (challenge_thread_id, user_id);
+  END IF;
+END $$;
@@ -0,0 +1,58 @@
+import { Request } from "express";
+import { User as DiscordUser } from "discord.js";
+import { storage } from "./storage";
+import { AuditAction, AuditActorType, AuditResult, auditActorTypes } from "@shared/schema";
+
+// Who performed an audited action
+export interface AuditActor {
+  type: AuditActorType;
+  id: string;
+  name: string;
+}
+
+// Longest error message kept in the audit log
+const MAX_AUDIT_ERROR_LENGTH = 500;
+
+// The dashboard user behind a request, as set by requireAuth
+export function getDashboardActor(req: Request): AuditActor {
+  return {
+    type: auditActorTypes.DASHBOARD,
+    id: req.user ? String(req.user.id) : "unknown",
+    name: req.user?.username || "unknown"
+  };
+}
+
+// The Discord user who ran a command
+export function getDiscordActor(user: DiscordUser): AuditActor {
+  return {
+    type: auditActorTypes.DISCORD,
+    id: user.id,
+    name: user.tag
+  };
+}
+
+// Record an admin action in the audit log
+// Never throws, so failing to audit an action never fails the action itself
+export async function recordAudit(
+  actor: AuditActor,
+  action: AuditAction,
+  details: { guildId?: string | null; parameters?: Record<string, unknown>; result: AuditResult; error?: unknown }
+): Promise<void> {
+  const error = details.error === undefined ? null
+    : (details.error instanceof Error ? details.error.message : String(details.error)).slice(0, MAX_AUDIT_ERROR_LENGTH);
+
+  try {
+    await storage.createAuditLogEntry({
+      actorType: actor.type,
+      actorId: actor.id,
+      actorName: actor.name,
+      action,
+      guildId: details.guildId ?? null,
+      parameters: details.parameters ?? {},
+      result: details.result,
+      error
+    });
+  } catch (auditError) {
+    console.error(`Error recording ${action} by ${actor.name} in the audit log:`, auditError);
+  }
+}
@@ -1,5 +1,15 @@
 import { ChatInputCommandInteraction, EmbedBuilder } from 'discord.js';
 import { storage } from '../storage';
+import { getSolveResult, formatSolveTime, formatSolve } from '@shared/solveTimes';
+import { EventAverage, getRollingAverageStats } from '@shared/solveStats';
+import { getBestResult, getSessionAverage, getStandardDeviation } from '@shared/statistics';
+import { SystemMetrics } from '@shared/schema';
+
+// Hours charted by /analytics type:system, one column each
+const SYSTEM_CHART_HOURS = 24;
+
+// Bars of a text chart, lowest first
+const SPARKLINE_BARS = '▁▂▃▄▅▆▇█';
 
 /**
  * Analytics command handler for the Discord bot
@@ -56,6 +66,7 @@ export class AnalyticsHandler {
       } catch (replyError) {
         console.error('Error sending error reply:', replyError);
       }
+      throw error;
     }
   }
   
@@ -86,18 +97,6 @@ export class AnalyticsHandler {
     
     // Command usage summary
     try {
-      // Record current command usage for analytics
-      await storage.recordSystemMetrics({
-        rssMemory: memoryUsage.rss,
-        heapTotal: memoryUsage.heapTotal,
-        heapUsed: memoryUsage.heapUsed,
-        external: memoryUsage.external,
-        uptime: Math.floor(interaction.client.uptime || 0) / 1000,
-        activeThreads: (await storage.getAllChallengeThreads()).filter(t => !t.isDeleted).length,
-        cpuUsage: { user: process.cpuUsage().user, system: process.cpuUsage().system },
-        loadAverage: [0, 0, 0] // Default values as process.loadavg() might not be available
-      });
-    
       // Try to get command usage data
       const commandUsage = await storage.getCommandUsage(5);
       let commandsField = 'No command usage data available yet.';
@@ -122,9 +121,7 @@ export class AnalyticsHandler {
       let performanceField = 'No solve time data available yet.';
       
       if (averagePerformance && averagePerformance.length > 0) {
-        performanceField = averagePerformance.map(perf => 
-          `• ${perf.cubeType}: ${this.formatDuration(perf.averageSolveTime)}`
-        ).join('\n');
+        performanceField = averagePerformance.map(perf => this.formatEventAverage(perf)).join('\n');
       }
       
       const performanceEmbed = new EmbedBuilder()
@@ -221,18 +218,22 @@ export class AnalyticsHandler {
   }
   
   /**
-   * Generate system performance analytics
+   * Generate system performance analytics from the samples recorded every
+   * minute: the latest sample, charts of the last day and the latest samples
    */
   private async generateSystemPerformanceAnalytics(limit: number): Promise<EmbedBuilder[]> {
     const embeds: EmbedBuilder[] = [];
     
     try {
+      const now = Date.now();
+      const dayStart = now - SYSTEM_CHART_HOURS * 60 * 60 * 1000;
+      const daySamples = await storage.getSystemMetricsRange(new Date(dayStart), new Date(now + 1));
       const metrics = await storage.getSystemMetricsHistory(limit);
       
       const embed = new EmbedBuilder()
         .setTitle('📊 System Performance Analytics')
         .setColor(0x3498DB)
-        .setDescription(`Last ${limit} system performance measurements`);
+        .setDescription('Bot health, sampled every minute');
       
       if (metrics && metrics.length > 0) {
         // Get latest metric for current stats
@@ -240,35 +241,69 @@ export class AnalyticsHandler {
         
         embed.addFields(
           { name: '🧠 Current Memory', value: `RSS: ${this.formatBytes(latest.rssMemory)}\nHeap: ${this.formatBytes(latest.heapUsed)}/${this.formatBytes(latest.heapTotal)}`, inline: true },
-          { name: '⏱️ Uptime', value: this.formatUptime(latest.uptime * 1000), inline: true },
-          { name: '🧵 Active Threads', value: latest.activeThreads.toString(), inline: true }
+          { name: '⚙️ CPU', value: latest.cpuPercent !== null ? `${latest.cpuPercent.toFixed(1)}%` : 'N/A', inline: true },
+          { name: '🐢 Event Loop Lag', value: latest.eventLoopLag !== null ? `${latest.eventLoopLag.toFixed(1)}ms (max ${(latest.eventLoopLagMax ?? 0).toFixed(1)}ms)` : 'N/A', inline: true },
+          { name: '📡 Discord Ping', value: latest.wsPing !== null ? `${latest.wsPing}ms` : 'Disconnected', inline: true },
+          { name: '🧵 Active Threads', value: latest.activeThreads.toString(), inline: true },
+          { name: '⏱️ Uptime', value: this.formatUptime(latest.uptime * 1000), inline: true }
         );
         
-        // Create a memory usage history graph (text-based)
-        let memoryHistory = '```\nMemory Usage History (Most Recent First):\n';
-        memoryHistory += '|  Time  | RSS Memory | Heap Used | Active Threads |\n';
-        memoryHistory += '|--------|------------|-----------|----------------|\n';
+        // Chart each metric over the last day, one column per hour
+        const hourly: SystemMetrics[][] = Array.from({ length: SYSTEM_CHART_HOURS }, () => []);
+        daySamples.forEach(sample => {
+          const hour = Math.min(Math.floor((sample.timestamp.getTime() - dayStart) / (60 * 60 * 1000)), SYSTEM_CHART_HOURS - 1);
+          hourly[hour].push(sample);
+        });
+        const chartLine = (label: string, value: (sample: SystemMetrics) => number | null, format: (value: number) => string) => {
+          const values = hourly.map(samples => {
+            const known = samples.map(value).filter((v): v is number => v !== null);
+            return known.length > 0 ? known.reduce((sum, v) => sum + v, 0) / known.length : null;
+          });
+          const charted = values.filter((v): v is number => v !== null);
+          const range = charted.length > 0 ? `${format(Math.min(...charted))}–${format(Math.max(...charted))}` : 'no data';
+          return `${label.padEnd(8)}${this.formatSparkline(values)} ${range}\n`;
+        };
+        
+        let chart = '```\n';
+        chart += chartLine('Memory', sample => sample.rssMemory, value => this.formatBytes(value));
+        chart += chartLine('CPU', sample => sample.cpuPercent, value => `${value.toFixed(1)}%`);
+        chart += chartLine('Lag', sample => sample.eventLoopLag, value => `${value.toFixed(1)}ms`);
+        chart += chartLine('Ping', sample => sample.wsPing, value => `${Math.round(value)}ms`);
+        chart += chartLine('Threads', sample => sample.activeThreads, value => Math.round(value).toString());
+        chart += '```';
+        
+        const chartEmbed = new EmbedBuilder()
+          .setTitle(`📈 Last ${SYSTEM_CHART_HOURS} Hours`)
+          .setColor(0x1ABC9C)
+          .setDescription(`Hourly averages, oldest on the left, with each metric's range\n${chart}`);
+        
+        // Create a table of the latest samples
+        let history = '```\nLatest Samples (Most Recent First):\n';
+        history += '|   Time   |    RSS    |  CPU  |   Lag   | Ping  |\n';
+        history += '|----------|-----------|-------|---------|-------|\n';
         
         metrics.forEach(metric => {
-          const time = new Date(metric.timestamp).toLocaleTimeString();
-          const rss = this.formatBytes(metric.rssMemory).padEnd(10);
-          const heap = this.formatBytes(metric.heapUsed).padEnd(9);
-          const threads = metric.activeThreads.toString().padEnd(14);
+          const time = new Date(metric.timestamp).toLocaleTimeString().padEnd(8);
+          const rss = this.formatBytes(metric.rssMemory).padEnd(9);
+          const cpu = (metric.cpuPercent !== null ? `${metric.cpuPercent.toFixed(1)}%` : 'N/A').padEnd(5);
+          const lag = (metric.eventLoopLag !== null ? `${metric.eventLoopLag.toFixed(1)}ms` : 'N/A').padEnd(7);
+          const ping = (metric.wsPing !== null ? `${metric.wsPing}ms` : 'N/A').padEnd(5);
           
-          memoryHistory += `| ${time} | ${rss} | ${heap} | ${threads} |\n`;
+          history += `| ${time} | ${rss} | ${cpu} | ${lag} | ${ping} |\n`;
         });
         
-        memoryHistory += '```';
+        history += '```';
         
         const historyEmbed = new EmbedBuilder()
-          .setTitle('📈 Performance History')
+          .setTitle('🕒 Performance History')
           .setColor(0x1ABC9C)
-          .setDescription(memoryHistory);
+          .setDescription(history);
         
         embeds.push(embed);
+        embeds.push(chartEmbed);
         embeds.push(historyEmbed);
       } else {
-        embed.setDescription('No system metrics data available yet. System metrics are being recorded periodically.');
+        embed.setDescription('No system metrics data available yet. System metrics are recorded every minute.');
         embeds.push(embed);
       }
     } catch (error) {
@@ -310,20 +345,33 @@ export class AnalyticsHandler {
         .setDescription(description);
       
       if (performanceData && performanceData.length > 0) {
-        // Calculate average time
-        const validTimes = performanceData.filter(p => p.solveTime !== null);
-        let avgTime = 0;
+        // Results with penalties applied, oldest first as averages are taken
+        const results = performanceData
+          .filter(p => p.solveTime !== null)
+          .map(p => getSolveResult({ timeMs: p.solveTime as number, penalty: p.penalty }))
+          .reverse();
+        const dnfCount = results.filter(result => result === null).length;
         
-        if (validTimes.length > 0) {
-          avgTime = validTimes.reduce((sum, p) => sum + (p.solveTime || 0), 0) / validTimes.length;
-        }
-        
-        // Add summary stats
         embed.addFields(
-          { name: '🧮 Average Time', value: this.formatDuration(avgTime), inline: true },
-          { name: '📊 Total Solves', value: validTimes.length.toString(), inline: true }
+          { name: '📊 Total Solves', value: performanceData.length.toString(), inline: true },
+          { name: '❌ DNFs', value: dnfCount.toString(), inline: true }
         );
         
+        // Averages only mean something within one event
+        if (cubeType) {
+          embed.addFields(
+            { name: '🧮 Average', value: formatSolveTime(getSessionAverage(results)), inline: true },
+            { name: '🏆 Best Single', value: formatSolveTime(getBestResult(results)), inline: true },
+            { name: '📐 Std. Deviation', value: results.length > 1 ? formatSolveTime(getStandardDeviation(results)) : 'N/A', inline: true }
+          );
+          [5, 12].forEach(size => {
+            const average = getRollingAverageStats(results, size);
+            if (average) {
+              embed.addFields({ name: `📈 Ao${size}`, value: `${formatSolveTime(average.current)} (best ${formatSolveTime(average.best)})`, inline: true });
+            }
+          });
+        }
+        
         // Create a table with the performance data
         let performanceTable = '```\n';
         performanceTable += '|  Time  | User ID        | Cube Type | Solve Time  | Custom |\n';
@@ -333,7 +381,7 @@ export class AnalyticsHandler {
           const time = new Date(perf.timestamp).toLocaleTimeString();
           const user = perf.userId.substring(0, 14).padEnd(14);
           const cube = perf.cubeType.padEnd(9);
-          const solveTime = perf.solveTime ? this.formatDuration(perf.solveTime).padEnd(11) : 'N/A'.padEnd(11);
+          const solveTime = (perf.solveTime === null ? 'N/A' : formatSolve({ timeMs: perf.solveTime, penalty: perf.penalty })).padEnd(11);
           const custom = perf.isCustomScramble ? 'Yes' : 'No';
           
           performanceTable += `| ${time} | ${user} | ${cube} | ${solveTime} | ${custom.padEnd(6)} |\n`;
@@ -354,10 +402,7 @@ export class AnalyticsHandler {
           const averagesByType = await storage.getAverageScramblePerformanceByCubeType();
           
           if (averagesByType && averagesByType.length > 0) {
-            let averagesField = '';
-            averagesByType.forEach(avg => {
-              averagesField += `• ${avg.cubeType}: ${this.formatDuration(avg.averageSolveTime)}\n`;
-            });
+            const averagesField = averagesByType.map(avg => this.formatEventAverage(avg)).join('\n');
             
             const averagesEmbed = new EmbedBuilder()
               .setTitle('📈 Average Times by Cube Type')
@@ -405,31 +450,40 @@ export class AnalyticsHandler {
       
       if (dailyData && dailyData.length > 0) {
         // Add summary stats
-        const totalThreads = dailyData.reduce((sum, day) => sum + day.threadsCreated, 0);
-        const totalCommands = dailyData.reduce((sum, day) => sum + day.commandsUsed, 0);
-        const avgSolveTime = dailyData.reduce((sum, day) => sum + day.averageSolveTime, 0) / dailyData.length;
+        const totalCommands = dailyData.reduce((sum, day) => sum + day.totalCommands, 0);
+        const totalErrors = dailyData.reduce((sum, day) => sum + day.errorCount, 0);
+        const avgActiveUsers = dailyData.reduce((sum, day) => sum + day.dailyActiveUsers, 0) / dailyData.length;
+        
+        // Weight each day's average response time by its commands
+        const timedDays = dailyData.filter(day => day.averageResponseTime !== null && day.totalCommands > 0);
+        const timedCommands = timedDays.reduce((sum, day) => sum + day.totalCommands, 0);
+        const avgResponseTime = timedCommands > 0
+          ? timedDays.reduce((sum, day) => sum + (day.averageResponseTime as number) * day.totalCommands, 0) / timedCommands
+          : 0;
         
         embed.addFields(
-          { name: '🧵 Total Threads', value: totalThreads.toString(), inline: true },
           { name: '🔍 Total Commands', value: totalCommands.toString(), inline: true },
-          { name: '⏱️ Avg Solve Time', value: this.formatDuration(avgSolveTime), inline: true }
+          { name: '👥 Avg Daily Users', value: avgActiveUsers.toFixed(1), inline: true },
+          { name: '⏱️ Avg Response Time', value: this.formatDuration(avgResponseTime), inline: true },
+          { name: '❌ Errors', value: totalErrors.toString(), inline: true }
         );
         
         // Create a table with the daily data
         let dailyTable = '```\n';
-        dailyTable += '|  Date  | Threads | Commands | Avg Solve Time |\n';
-        dailyTable += '|--------|---------|----------|----------------|\n';
+        dailyTable += '|    Date    | Commands | Users | Avg Response | Errors |\n';
+        dailyTable += '|------------|----------|-------|--------------|--------|\n';
         
         // Sort by date descending (most recent first)
         const sortedData = [...dailyData].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
         
         sortedData.forEach(day => {
-          const date = new Date(day.date).toLocaleDateString();
-          const threads = day.threadsCreated.toString().padEnd(7);
-          const commands = day.commandsUsed.toString().padEnd(8);
-          const avgTime = this.formatDuration(day.averageSolveTime).padEnd(14);
+          const date = String(day.date).padEnd(10);
+          const commands = day.totalCommands.toString().padEnd(8);
+          const users = day.dailyActiveUsers.toString().padEnd(5);
+          const avgTime = (day.averageResponseTime !== null ? this.formatDuration(day.averageResponseTime) : 'N/A').padEnd(12);
+          const errors = day.errorCount.toString().padEnd(6);
           
-          dailyTable += `| ${date} | ${threads} | ${commands} | ${avgTime} |\n`;
+          dailyTable += `| ${date} | ${commands} | ${users} | ${avgTime} | ${errors} |\n`;
         });
         
         dailyTable += '```';
@@ -442,7 +496,7 @@ export class AnalyticsHandler {
         embeds.push(embed);
         embeds.push(tableEmbed);
       } else {
-        embed.setDescription('No daily analytics data available yet. Data is collected at the end of each day.');
+        embed.setDescription('No daily analytics data available yet. Command usage is rolled up shortly after each day ends (UTC).');
         embeds.push(embed);
       }
     } catch (error) {
@@ -662,6 +716,21 @@ export class AnalyticsHandler {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   }
   
+  /**
+   * Format values as a one-line bar chart scaled between their lowest and
+   * highest, with a gap for each missing value
+   */
+  private formatSparkline(values: (number | null)[]): string {
+    const known = values.filter((value): value is number => value !== null);
+    const lowest = Math.min(...known);
+    const range = Math.max(...known) - lowest;
+    return values.map(value => {
+      if (value === null) return ' ';
+      const level = range > 0 ? Math.round(((value - lowest) / range) * (SPARKLINE_BARS.length - 1)) : 0;
+      return SPARKLINE_BARS[level];
+    }).join('');
+  }
+  
   /**
    * Format milliseconds to readable uptime format
    */
@@ -674,6 +743,14 @@ export class AnalyticsHandler {
     return `${days}d ${hours % 24}h ${minutes % 60}m ${seconds % 60}s`;
   }
   
+  /**
+   * Format an event's average as a list line: average, deviation and solve count
+   */
+  private formatEventAverage(average: EventAverage): string {
+    const deviation = average.standardDeviation !== null ? ` • σ ${formatSolveTime(average.standardDeviation)}` : '';
+    return `• ${average.cubeType}: ${formatSolveTime(average.averageSolveTime)}${deviation} (${average.solveCount} ${average.solveCount === 1 ? 'solve' : 'solves'})`;
+  }
+  
   /**
    * Format duration in milliseconds to a readable string
    */
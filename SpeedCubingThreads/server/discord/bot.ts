@@ -1,9 +1,48 @@
-import { Client, Events, GatewayIntentBits, TextChannel, ThreadChannel, SlashCommandBuilder, REST, Routes, ChatInputCommandInteraction, CommandInteraction, EmbedBuilder, ActivityType, Guild, ActionRowBuilder, ButtonBuilder, ButtonStyle, Message } from 'discord.js';
-import { BotConfig, ChallengeThread, InsertChallengeThread } from '@shared/schema';
+import { Client, Events, GatewayIntentBits, TextChannel, ThreadChannel, SlashCommandBuilder, REST, Routes, ChatInputCommandInteraction, CommandInteraction, EmbedBuilder, ActivityType, Guild, ActionRowBuilder, ButtonBuilder, ButtonStyle, Message, AttachmentBuilder, ModalBuilder, TextInputBuilder, TextInputStyle, ButtonInteraction, ModalSubmitInteraction, MessageComponentInteraction, User, ChannelType, DiscordAPIError, RESTJSONErrorCodes, Interaction } from 'discord.js';
+import { BotConfig, ChallengeThread, InsertChallengeThread, DailyPost, ArchiveOutcome, archiveOutcomes, auditActions, auditResults, ChallengeResult, ScramblePerformance, Season, CubeType, cubeTypes, DEFAULT_PING_ROLE_NAME, DEFAULT_ADMIN_ROLE_NAME, DayOfWeek, daysOfWeek, defaultWeeklySchedule, WeeklySchedule, MAX_EVENTS_PER_DAY, DEFAULT_CATCH_UP_HOURS, MAX_CATCH_UP_HOURS } from '@shared/schema';
 import { storage } from '../storage';
 import { scrambleManager } from './scrambleManager';
 import { scheduler } from './scheduler';
 import { analyticsHandler } from './analyticsHandler';
+import { seasonManager } from './seasonManager';
+import { dailyPostManager } from './dailyPostManager';
+import { threadExpiryScheduler } from './threadExpiryScheduler';
+import { getDiscordActor, recordAudit } from '../audit';
+import { commandUsageTracker } from './commandUsageTracker';
+import { validateScramble, formatScrambleIssues } from '@shared/puzzleModels';
+import { checkFmcSolution, FMC_MAX_MOVES } from '@shared/fewestMoves';
+import {
+  MULTI_BLD_EVENT, MIN_MULTI_BLD_CUBES, MAX_MULTI_BLD_CUBES, getMultiBldTimeLimit, scoreMultiBld,
+  formatMultiBldTime, formatMultiBldResult, formatMultiBldSheet
+} from '@shared/multiBld';
+import {
+  SolveTime, SolvePenalty, ResultFormat, RESULT_FORMAT_SOLVES, RESULT_FORMAT_LABELS, parseSolveTime, getFormatResult, formatSolveTime, formatSolves
+} from '@shared/solveTimes';
+import { EventStats, STATS_HISTORY_LIMIT, getSolveHistoryStats } from '@shared/solveStats';
+import { SeasonPeriod, SeasonStanding, DEFAULT_SEASON_POINTS, getSeasonKey, isSeasonKey, formatSeasonName } from '@shared/seasons';
+import { isValidTimeZone, parseTimeOfDay } from '@shared/timeZones';
+import { createScrambleImageAttachment, SCRAMBLE_IMAGE_NAME } from './scrambleImage';
+import { createTrendImageAttachment, TREND_IMAGE_NAME } from './statsImage';
+
+// Scrambles shown on each page of a Multi-BLD set
+const MULTI_BLD_PAGE_SIZE = 10;
+
+// Members shown on each page of the season standings
+const SEASON_PAGE_SIZE = 10;
+
+// Order the days of the weekly schedule are listed in, Monday first
+const SCHEDULE_DAY_ORDER: DayOfWeek[] = [...daysOfWeek.slice(1), daysOfWeek[0]];
+
+// Custom IDs of the "Submit time" button on challenge threads and the modal it opens
+const CHALLENGE_SUBMIT_BUTTON = 'challenge_submit';
+const CHALLENGE_SUBMIT_MODAL = 'challenge_submit_modal';
+
+// Custom IDs of the buttons that change the penalty of a timed solve
+const TIMER_PENALTY_BUTTONS: Record<string, SolvePenalty> = {
+  timer_penalty_none: 'none',
+  timer_penalty_plus2: '+2',
+  timer_penalty_dnf: 'DNF'
+};
 
 class DiscordBot {
   private client: Client;
@@ -65,6 +104,12 @@ class DiscordBot {
       console.log('Bot is ONLINE and ready to serve 24/7!');
     });
     
+    // A new server gets the commands straight away, so an admin can run /setup
+    this.client.on(Events.GuildCreate, async (guild) => {
+      console.log(`Joined guild ${guild.name} (${guild.id})`);
+      await this.registerGuildCommands(guild.id);
+    });
+    
     // Handle disconnects and errors
     this.client.on(Events.Error, (error) => {
       console.error('Discord client error:', error);
@@ -141,28 +186,68 @@ class DiscordBot {
       this._retryCount = 0;
     });
     
-    // Handle interaction events (slash commands)
+    // Handle interaction events (slash commands), recording each use
     this.client.on(Events.InteractionCreate, async (interaction) => {
-      if (!interaction.isChatInputCommand()) return;
-      
-      if (interaction.commandName === 'daily') {
-        await this.handleDailyCommand(interaction);
-      } else if (interaction.commandName === 'bot') {
-        await this.handleBotCommand(interaction);
-      } else if (interaction.commandName === 'history') {
-        await this.handleHistoryCommand(interaction);
-      } else if (interaction.commandName === 'react_emoji') {
-        await this.handleReactEmojiCommand(interaction);
-      } else if (interaction.commandName === 'scramble') {
-        await this.handleScrambleCommand(interaction);
-      } else if (interaction.commandName === 'custom-scramble') {
-        await this.handleCustomScrambleCommand(interaction);
-      } else if (interaction.commandName === 'analytics') {
-        await analyticsHandler.handleAnalyticsCommand(interaction);
+      try {
+        await commandUsageTracker.track(interaction, () => this.dispatchInteraction(interaction));
+      } catch (error) {
+        // Handlers log and answer their own errors, passing them on only so
+        // the use is recorded as an error
       }
     });
   }
   
+  /**
+   * Pass an interaction to its handler
+   * @returns true if a handler here ran, false for interactions handled
+   * elsewhere (e.g. a command's button collector) or not at all
+   */
+  private async dispatchInteraction(interaction: Interaction): Promise<boolean> {
+    // The "Submit time" button lives on thread messages, so it is handled here
+    // rather than by a collector that would not survive a restart
+    if (interaction.isButton() && interaction.customId === CHALLENGE_SUBMIT_BUTTON) {
+      await this.handleSubmitButton(interaction);
+      return true;
+    }
+    if (interaction.isModalSubmit() && interaction.customId === CHALLENGE_SUBMIT_MODAL) {
+      await this.handleSubmitModal(interaction);
+      return true;
+    }
+    
+    if (!interaction.isChatInputCommand()) return false;
+    
+    if (interaction.commandName === 'daily') {
+      await this.handleDailyCommand(interaction);
+    } else if (interaction.commandName === 'bot') {
+      await this.handleBotCommand(interaction);
+    } else if (interaction.commandName === 'history') {
+      await this.handleHistoryCommand(interaction);
+    } else if (interaction.commandName === 'react_emoji') {
+      await this.handleReactEmojiCommand(interaction);
+    } else if (interaction.commandName === 'scramble') {
+      await this.handleScrambleCommand(interaction);
+    } else if (interaction.commandName === 'custom-scramble') {
+      await this.handleCustomScrambleCommand(interaction);
+    } else if (interaction.commandName === 'analytics') {
+      await analyticsHandler.handleAnalyticsCommand(interaction);
+    } else if (interaction.commandName === 'fmc') {
+      await this.handleFmcCommand(interaction);
+    } else if (interaction.commandName === 'submit') {
+      await this.handleSubmitCommand(interaction);
+    } else if (interaction.commandName === 'stats') {
+      await this.handleStatsCommand(interaction);
+    } else if (interaction.commandName === 'leaderboard') {
+      await this.handleLeaderboardCommand(interaction);
+    } else if (interaction.commandName === 'schedule') {
+      await this.handleScheduleCommand(interaction);
+    } else if (interaction.commandName === 'setup') {
+      await this.handleSetupCommand(interaction);
+    } else {
+      return false;
+    }
+    return true;
+  }
+  
   /**
    * Register the bot's slash commands with Discord
    */
@@ -170,6 +255,11 @@ class DiscordBot {
    * Flag to prevent multiple command registrations
    */
   private commandsRegistered = false;
+  
+  /**
+   * The slash command definitions, kept to register them to guilds the bot joins later
+   */
+  private commandDefinitions: ReturnType<SlashCommandBuilder['toJSON']>[] = [];
 
   /**
    * Register the bot's slash commands with Discord
@@ -192,10 +282,11 @@ class DiscordBot {
       this.commandsRegistered = true;
       
       const rest = new REST({ version: '10' }).setToken(process.env.DISCORD_TOKEN || '');
-      const guildId = '1253928067198357575'; // Your specific guild ID
+      // Every server the bot is in gets the commands, so each can run /setup
+      const guildIds = Array.from(this.client.guilds.cache.keys());
       const applicationId = this.client.user.id;
       
-      console.log(`Starting command registration process with applicationId=${applicationId} and guildId=${guildId}`);
+      console.log(`Starting command registration process with applicationId=${applicationId} and guildIds=${guildIds.join(', ')}`);
       
       // PHASE 1: Delete all existing commands
       console.log("PHASE 1: Clearing all commands from Discord...");
@@ -213,15 +304,17 @@ class DiscordBot {
       }
       
       // Delete guild commands 
-      try {
-        console.log(`STEP 1B: Deleting ALL guild commands for guild ${guildId}...`);
-        await rest.put(
-          Routes.applicationGuildCommands(applicationId, guildId),
-          { body: [] }
-        );
-        console.log(`✅ Successfully deleted all commands from guild ${guildId}`);
-      } catch (error) {
-        console.error(`❌ Error deleting guild commands for guild ${guildId}:`, error);
+      for (const guildId of guildIds) {
+        try {
+          console.log(`STEP 1B: Deleting ALL guild commands for guild ${guildId}...`);
+          await rest.put(
+            Routes.applicationGuildCommands(applicationId, guildId),
+            { body: [] }
+          );
+          console.log(`✅ Successfully deleted all commands from guild ${guildId}`);
+        } catch (error) {
+          console.error(`❌ Error deleting guild commands for guild ${guildId}:`, error);
+        }
       }
       
       // IMPORTANT: Wait for Discord to fully process the command deletions
@@ -263,7 +356,14 @@ class DiscordBot {
               { name: '3x3 OH', value: '3x3 OH' },
               { name: 'Pyraminx', value: 'Pyraminx' },
               { name: 'Skewb', value: 'Skewb' },
-              { name: 'Clock', value: 'Clock' }
+              { name: 'Clock', value: 'Clock' },
+              { name: '4x4', value: '4x4' },
+              { name: '5x5', value: '5x5' },
+              { name: '6x6', value: '6x6' },
+              { name: '7x7', value: '7x7' },
+              { name: 'Megaminx', value: 'Megaminx' },
+              { name: 'Square-1', value: 'Square-1' },
+              { name: '3x3 FMC', value: '3x3 FMC' }
             )
         )
         .addStringOption(option =>
@@ -287,8 +387,22 @@ class DiscordBot {
               { name: '3x3 OH', value: '3x3 OH' },
               { name: 'Pyraminx', value: 'Pyraminx' },
               { name: 'Skewb', value: 'Skewb' },
-              { name: 'Clock', value: 'Clock' }
+              { name: 'Clock', value: 'Clock' },
+              { name: '4x4', value: '4x4' },
+              { name: '5x5', value: '5x5' },
+              { name: '6x6', value: '6x6' },
+              { name: '7x7', value: '7x7' },
+              { name: 'Megaminx', value: 'Megaminx' },
+              { name: 'Square-1', value: 'Square-1' },
+              { name: '3x3 FMC', value: '3x3 FMC' }
             )
+        )
+        .addIntegerOption(option =>
+          option.setName('multi_bld')
+            .setDescription('Number of cubes for a Multi-BLD attempt (3x3 BLD only)')
+            .setRequired(false)
+            .setMinValue(MIN_MULTI_BLD_CUBES)
+            .setMaxValue(MAX_MULTI_BLD_CUBES)
         );
         
       console.log('6️⃣ Creating and registering custom-scramble command...');
@@ -306,15 +420,22 @@ class DiscordBot {
               { name: '3x3 OH', value: '3x3 OH' },
               { name: 'Pyraminx', value: 'Pyraminx' },
               { name: 'Skewb', value: 'Skewb' },
-              { name: 'Clock', value: 'Clock' }
+              { name: 'Clock', value: 'Clock' },
+              { name: '4x4', value: '4x4' },
+              { name: '5x5', value: '5x5' },
+              { name: '6x6', value: '6x6' },
+              { name: '7x7', value: '7x7' },
+              { name: 'Megaminx', value: 'Megaminx' },
+              { name: 'Square-1', value: 'Square-1' },
+              { name: '3x3 FMC', value: '3x3 FMC' }
             )
         )
         .addIntegerOption(option =>
           option.setName('moves')
-            .setDescription('Number of moves in the scramble (optional)')
+            .setDescription('Number of moves in the scramble, or lines for Megaminx (optional)')
             .setRequired(false)
             .setMinValue(5)
-            .setMaxValue(30)
+            .setMaxValue(100)
         )
         .addStringOption(option =>
           option.setName('difficulty')
@@ -357,7 +478,14 @@ class DiscordBot {
               { name: '3x3 OH', value: '3x3 OH' },
               { name: 'Pyraminx', value: 'Pyraminx' },
               { name: 'Skewb', value: 'Skewb' },
-              { name: 'Clock', value: 'Clock' }
+              { name: 'Clock', value: 'Clock' },
+              { name: '4x4', value: '4x4' },
+              { name: '5x5', value: '5x5' },
+              { name: '6x6', value: '6x6' },
+              { name: '7x7', value: '7x7' },
+              { name: 'Megaminx', value: 'Megaminx' },
+              { name: 'Square-1', value: 'Square-1' },
+              { name: '3x3 FMC', value: '3x3 FMC' }
             )
         )
         .addIntegerOption(option =>
@@ -368,6 +496,199 @@ class DiscordBot {
             .setMaxValue(50)
         );
       
+      console.log('8️⃣ Creating and registering fmc command...');
+      const fmcCommand = new SlashCommandBuilder()
+        .setName('fmc')
+        .setDescription('Fewest Moves challenge commands')
+        .addSubcommand(subcommand =>
+          subcommand.setName('submit')
+            .setDescription('Submit your solution to the Fewest Moves challenge in this thread')
+            .addStringOption(option =>
+              option.setName('solution')
+                .setDescription('Your solution in face turns (R U\' F2), Rw wide turns and x y z rotations')
+                .setRequired(true)
+                .setMaxLength(1000)
+            )
+        );
+      
+      console.log('9️⃣ Creating and registering submit command...');
+      const submitCommand = new SlashCommandBuilder()
+        .setName('submit')
+        .setDescription('Submit your result to the daily scramble challenge in this thread')
+        .addStringOption(option =>
+          option.setName('times')
+            .setDescription('Your times: one, or one per scramble of an Ao5 or Mo3 (e.g. 11.02 12.50 DNF 10.98+ 13.40)')
+            .setRequired(true)
+            .setMaxLength(100)
+        );
+      
+      console.log('🔟 Creating and registering stats command...');
+      const statsCommand = new SlashCommandBuilder()
+        .setName('stats')
+        .setDescription('Show personal bests, averages and the trend of timed solves')
+        .addUserOption(option =>
+          option.setName('user')
+            .setDescription('Member to show the stats of (default: you)')
+            .setRequired(false)
+        )
+        .addStringOption(option =>
+          option.setName('event')
+            .setDescription('Show only this event')
+            .setRequired(false)
+            .addChoices(
+              { name: '2x2', value: '2x2' },
+              { name: '3x3', value: '3x3' },
+              { name: '3x3 BLD', value: '3x3 BLD' },
+              { name: '3x3 OH', value: '3x3 OH' },
+              { name: 'Pyraminx', value: 'Pyraminx' },
+              { name: 'Skewb', value: 'Skewb' },
+              { name: 'Clock', value: 'Clock' },
+              { name: '4x4', value: '4x4' },
+              { name: '5x5', value: '5x5' },
+              { name: '6x6', value: '6x6' },
+              { name: '7x7', value: '7x7' },
+              { name: 'Megaminx', value: 'Megaminx' },
+              { name: 'Square-1', value: 'Square-1' },
+              { name: '3x3 FMC', value: '3x3 FMC' }
+            )
+        );
+      
+      console.log('1️⃣1️⃣ Creating and registering leaderboard command...');
+      const periodChoices = [
+        { name: 'Weekly', value: 'week' },
+        { name: 'Monthly', value: 'month' }
+      ];
+      const leaderboardCommand = new SlashCommandBuilder()
+        .setName('leaderboard')
+        .setDescription('Season standings from points earned in the daily challenges')
+        .addSubcommand(subcommand =>
+          subcommand.setName('season')
+            .setDescription('Show the standings of the current or a past season')
+            .addStringOption(option =>
+              option.setName('period')
+                .setDescription('Weekly or monthly season (default: weekly)')
+                .setRequired(false)
+                .addChoices(...periodChoices)
+            )
+            .addStringOption(option =>
+              option.setName('season')
+                .setDescription('A past season, e.g. 2026-W41 for a week or 2026-09 for a month')
+                .setRequired(false)
+                .setMaxLength(8)
+            )
+        )
+        .addSubcommand(subcommand =>
+          subcommand.setName('history')
+            .setDescription('Show the winners of completed seasons')
+            .addStringOption(option =>
+              option.setName('period')
+                .setDescription('Only weekly or only monthly seasons')
+                .setRequired(false)
+                .addChoices(...periodChoices)
+            )
+        );
+      
+      console.log('1️⃣2️⃣ Creating and registering schedule command...');
+      const dayChoices = SCHEDULE_DAY_ORDER.map(day => ({ name: this.formatDayName(day), value: day }));
+      const eventChoices = (Object.values(cubeTypes) as CubeType[]).map(type => ({ name: type, value: type }));
+      const scheduleCommand = new SlashCommandBuilder()
+        .setName('schedule')
+        .setDescription('Show or change which events are posted on each day of the week')
+        .addSubcommand(subcommand =>
+          subcommand.setName('show')
+            .setDescription('Show the weekly schedule')
+        )
+        .addSubcommand(subcommand =>
+          subcommand.setName('set')
+            .setDescription('Set the events posted on a day (Owner/Admin only)')
+            .addStringOption(option =>
+              option.setName('day')
+                .setDescription('The day of the week')
+                .setRequired(true)
+                .addChoices(...dayChoices)
+            )
+            .addStringOption(option =>
+              option.setName('event')
+                .setDescription('The event to post')
+                .setRequired(true)
+                .addChoices(...eventChoices)
+            )
+            .addStringOption(option =>
+              option.setName('event2')
+                .setDescription('A second event to post the same day')
+                .setRequired(false)
+                .addChoices(...eventChoices)
+            )
+            .addStringOption(option =>
+              option.setName('event3')
+                .setDescription('A third event to post the same day')
+                .setRequired(false)
+                .addChoices(...eventChoices)
+            )
+        )
+        .addSubcommand(subcommand =>
+          subcommand.setName('rest')
+            .setDescription('Make a day a rest day with no challenge (Owner/Admin only)')
+            .addStringOption(option =>
+              option.setName('day')
+                .setDescription('The day of the week')
+                .setRequired(true)
+                .addChoices(...dayChoices)
+            )
+        );
+      
+      console.log('1️⃣3️⃣ Creating and registering setup command...');
+      const setupCommand = new SlashCommandBuilder()
+        .setName('setup')
+        .setDescription('Set up daily scrambles in this server or change its settings (Owner/Admin only)')
+        .addChannelOption(option =>
+          option.setName('channel')
+            .setDescription('Channel to post the daily scrambles in (needed the first time)')
+            .setRequired(false)
+            .addChannelTypes(ChannelType.GuildText)
+        )
+        .addStringOption(option =>
+          option.setName('time')
+            .setDescription('Time to post each day in 24-hour time, e.g. 16:00')
+            .setRequired(false)
+            .setMaxLength(5)
+        )
+        .addStringOption(option =>
+          option.setName('timezone')
+            .setDescription('Time zone of the posting time, e.g. Europe/Berlin or Asia/Kolkata')
+            .setRequired(false)
+            .setMaxLength(64)
+        )
+        .addRoleOption(option =>
+          option.setName('ping_role')
+            .setDescription('Role mentioned in each daily thread')
+            .setRequired(false)
+        )
+        .addRoleOption(option =>
+          option.setName('admin_role')
+            .setDescription('Role allowed to change the bot\'s settings, besides Administrators')
+            .setRequired(false)
+        )
+        .addIntegerOption(option =>
+          option.setName('delete_after')
+            .setDescription('Hours until a daily thread is closed (default: 24)')
+            .setRequired(false)
+            .setMinValue(1)
+            .setMaxValue(168)
+        )
+        .addIntegerOption(option =>
+          option.setName('catch_up_hours')
+            .setDescription(`Hours after the post time a post missed while offline is still made (0 = never, default: ${DEFAULT_CATCH_UP_HOURS})`)
+            .setRequired(false)
+            .setMinValue(0)
+            .setMaxValue(MAX_CATCH_UP_HOURS)
+        )
+        .addBooleanOption(option =>
+          option.setName('enabled')
+            .setDescription('Post daily scrambles (turn off to pause them)')
+            .setRequired(false)
+        );
+      
       // Combine all commands
       const commands = [
         dailyCommand,
@@ -376,23 +697,22 @@ class DiscordBot {
         reactEmojiCommand,
         scrambleCommand,
         customScrambleCommand,
-        analyticsCommand
+        analyticsCommand,
+        fmcCommand,
+        submitCommand,
+        statsCommand,
+        leaderboardCommand,
+        scheduleCommand,
+        setupCommand
       ];
       
-      // ONLY register to the specific guild to avoid global duplication
-      console.log(`STEP 2: Registering ${commands.length} commands to guild: ${guildId}`);
-      
-      try {
-        const data = await rest.put(
-          Routes.applicationGuildCommands(applicationId, guildId),
-          { body: commands.map(cmd => cmd.toJSON()) }
-        );
-        
-        // @ts-ignore - data is an array but TypeScript might not know that
-        console.log(`✅ Successfully registered ${data.length} guild commands to guild: ${guildId}`);
-      } catch (error) {
-        console.error(`❌ Error registering guild commands:`, error);
-        this.commandsRegistered = false; // Reset flag to allow retry
+      // ONLY register to guilds, never globally, to avoid global duplication
+      this.commandDefinitions = commands.map(cmd => cmd.toJSON());
+      for (const guildId of guildIds) {
+        console.log(`STEP 2: Registering ${commands.length} commands to guild: ${guildId}`);
+        if (!(await this.registerGuildCommands(guildId))) {
+          this.commandsRegistered = false; // Reset flag to allow retry
+        }
       }
       
       console.log('Successfully registered application (/) commands');
@@ -401,6 +721,31 @@ class DiscordBot {
     }
   }
   
+  /**
+   * Register the slash commands to one guild
+   * Used for each guild at startup and for guilds the bot joins later
+   * @param guildId The guild
+   * @returns true if the commands were registered
+   */
+  private async registerGuildCommands(guildId: string): Promise<boolean> {
+    if (!this.client.user || this.commandDefinitions.length === 0) return false;
+    
+    try {
+      const rest = new REST({ version: '10' }).setToken(process.env.DISCORD_TOKEN || '');
+      const data = await rest.put(
+        Routes.applicationGuildCommands(this.client.user.id, guildId),
+        { body: this.commandDefinitions }
+      );
+      
+      // @ts-ignore - data is an array but TypeScript might not know that
+      console.log(`✅ Successfully registered ${data.length} guild commands to guild: ${guildId}`);
+      return true;
+    } catch (error) {
+      console.error(`❌ Error registering guild commands to guild ${guildId}:`, error);
+      return false;
+    }
+  }
+  
   /**
    * Handle the /bot command to show detailed bot info including system stats
    */
@@ -449,7 +794,7 @@ class DiscordBot {
         'System Logs (last 5 entries):\n' +
         '--------------------------------------------------\n' +
         '- Bot started and successfully connected to Discord\n' +
-        '- Scheduled daily scramble posts at 4:00 PM IST\n' +
+        '- Scheduled daily scramble posts at each server\'s posting time\n' +
         '- Thread cleanup scheduled to run hourly\n' +
         '- Slash commands registered successfully\n' +
         '- Storage system initialized with in-memory database\n' +
@@ -469,6 +814,7 @@ class DiscordBot {
       } catch (replyError) {
         console.error('Error sending error reply:', replyError);
       }
+      throw error;
     }
   }
   
@@ -506,10 +852,12 @@ class DiscordBot {
       
       // Get bot status info
       const isOnline = this.isReady;
-      const nextChallenge = scheduler.getNextScheduledChallenge();
-      const configs = await storage.getAllBotConfigs();
-      const activeThreads = await storage.getAllChallengeThreads();
+      const guildConfig = interaction.guildId ? await storage.getBotConfigByGuildId(interaction.guildId) : undefined;
+      const nextChallenge = await scheduler.getNextScheduledChallenge(guildConfig?.guildId);
+      const activeThreads = (await storage.getAllChallengeThreads())
+        .filter(thread => thread.guildId === interaction.guildId);
       const activeThreadCount = activeThreads.filter(t => !t.isDeleted).length;
+      const recentFailures = guildConfig ? await dailyPostManager.getRecentFailures(guildConfig.guildId) : [];
       
       // Create a rich embed message
       const embed = new EmbedBuilder()
@@ -518,12 +866,15 @@ class DiscordBot {
         .setDescription(`The bot is currently **${isOnline ? 'online' : 'offline'}**. Here's the current status report.`)
         .addFields(
           { name: '🤖 Bot Status', value: isOnline ? 'Online and operational (24/7)' : 'Offline', inline: true },
-          { name: '⏰ Next Challenge', value: `${nextChallenge.day}'s ${nextChallenge.cubeType} (in ${nextChallenge.timeUntil})`, inline: true },
+          { name: '⏰ Next Challenge', value: !guildConfig ? 'Not set up' : nextChallenge.events.length > 0 ? `${nextChallenge.day}'s ${nextChallenge.cubeType} (in ${nextChallenge.timeUntil})` : 'No events scheduled', inline: true },
           { name: '🧵 Active Threads', value: `${activeThreadCount} thread(s)`, inline: true },
-          { name: '⚙️ Configuration', value: configs.length > 0 ? 
-              `• Guild: ${configs[0].guildId}\n• Channel: ${configs[0].channelId}\n• Auto-delete: ${configs[0].deleteAfterHours}h` : 
-              'Not configured', inline: false },
-          { name: '📆 Current Schedule', value: 'Mon: Skewb\nTue: 3x3 BLD\nWed: 2x2\nThu: 3x3\nFri: Pyraminx\nSat: 3x3 OH\nSun: Clock', inline: false }
+          { name: '⚙️ Configuration', value: guildConfig ? 
+              `• Channel: <#${guildConfig.channelId}>\n• Posts at: ${guildConfig.timeToPost} (${guildConfig.timezone})${guildConfig.enabled ? '' : ' • paused'}\n• Auto-delete: ${guildConfig.deleteAfterHours}h\n• Ping role: ${guildConfig.pingRoleName}` : 
+              'Not configured. A server admin can set up daily scrambles with /setup.', inline: false },
+          { name: '📆 Current Schedule', value: this.formatSchedule(guildConfig?.schedule || defaultWeeklySchedule, true), inline: false },
+          { name: '⚠️ Recent Post Failures', value: recentFailures.length > 0 ?
+              recentFailures.map(post => `• ${post.postDate} ${post.cubeType} (${post.attempts} attempt${post.attempts === 1 ? '' : 's'}): ${(post.error || 'Unknown error').slice(0, 100)}`).join('\n') :
+              'None', inline: false }
         )
         .setFooter({ text: `Daily Scramble Bot • ${new Date().toLocaleString()}` });
       
@@ -566,6 +917,195 @@ class DiscordBot {
       } catch (replyError) {
         console.error('Error sending error reply:', replyError);
       }
+      throw error;
+    }
+  }
+  
+  /**
+   * Format a weekly schedule as one line per day, Monday first
+   * @param schedule The guild's weekly schedule
+   * @param short Whether to abbreviate the day names (e.g. "Mon")
+   */
+  private formatSchedule(schedule: WeeklySchedule, short = false): string {
+    return SCHEDULE_DAY_ORDER.map(day => {
+      const dayName = short ? this.formatDayName(day).slice(0, 3) : this.formatDayName(day);
+      const events = schedule[day] ?? defaultWeeklySchedule[day];
+      return `${short ? dayName : `**${dayName}**`}: ${events.length > 0 ? events.join(', ') : 'Rest day'}`;
+    }).join('\n');
+  }
+  
+  /**
+   * Day of the week in proper case, e.g. "Monday"
+   */
+  private formatDayName(day: DayOfWeek): string {
+    return day.charAt(0) + day.slice(1).toLowerCase();
+  }
+  
+  /**
+   * Handle /schedule: show the guild's weekly schedule, or change the events
+   * of one day (Owner/Admin only)
+   */
+  private async handleScheduleCommand(interaction: ChatInputCommandInteraction) {
+    try {
+      await interaction.deferReply();
+      
+      const config = interaction.guildId ? await storage.getBotConfigByGuildId(interaction.guildId) : undefined;
+      if (!config) {
+        await interaction.editReply('Schedules are kept for servers with daily scrambles set up. Use this command in one.');
+        return;
+      }
+      
+      const subcommand = interaction.options.getSubcommand();
+      let schedule = config.schedule || defaultWeeklySchedule;
+      
+      if (subcommand !== 'show') {
+        const day = interaction.options.getString('day', true) as DayOfWeek;
+        if (!(await this.hasAdminPermission(interaction, config))) {
+          await recordAudit(getDiscordActor(interaction.user), auditActions.SCHEDULE_UPDATE, {
+            guildId: config.guildId, parameters: { subcommand, day }, result: auditResults.DENIED, error: 'Missing admin role'
+          });
+          await interaction.editReply(`You need the "${config.adminRoleName}" role or Administrator permissions to change the schedule.`);
+          return;
+        }
+        
+        // Listing an event twice would post the same event twice a day
+        const events = subcommand === 'rest' ? [] : Array.from(new Set(
+          ['event', 'event2', 'event3']
+            .map(name => interaction.options.getString(name))
+            .filter((event): event is CubeType => event !== null)
+        )).slice(0, MAX_EVENTS_PER_DAY);
+        
+        schedule = { ...schedule, [day]: events };
+        await storage.updateBotConfig(config.id, { schedule });
+        await recordAudit(getDiscordActor(interaction.user), auditActions.SCHEDULE_UPDATE, {
+          guildId: config.guildId, parameters: { subcommand, day, events }, result: auditResults.SUCCESS
+        });
+        console.log(`📆 ${interaction.user.tag} set ${day} in guild ${config.guildId} to ${events.length > 0 ? events.join(', ') : 'a rest day'}`);
+      }
+      
+      const embed = new EmbedBuilder()
+        .setTitle('📆 Weekly Schedule')
+        .setColor(0x3498DB)
+        .setDescription(this.formatSchedule(schedule))
+        .setFooter({ text: 'Each event is posted in its own thread' });
+      
+      await interaction.editReply({
+        content: subcommand === 'show' ? undefined : '✅ Schedule updated.',
+        embeds: [embed]
+      });
+    } catch (error) {
+      console.error('Error handling schedule command:', error);
+      if (interaction.options.getSubcommand(false) !== 'show') {
+        await recordAudit(getDiscordActor(interaction.user), auditActions.SCHEDULE_UPDATE, {
+          guildId: interaction.guildId, parameters: { subcommand: interaction.options.getSubcommand(false) }, result: auditResults.FAILURE, error
+        });
+      }
+      try {
+        await interaction.editReply('An error occurred while updating the schedule. Please try again later.');
+      } catch (replyError) {
+        console.error('Error sending error reply:', replyError);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Handle /setup: register this server's daily scramble channel, or change
+   * its posting time, roles and other settings (Owner/Admin only)
+   * Options left out keep their current value, or the default on first setup.
+   */
+  private async handleSetupCommand(interaction: ChatInputCommandInteraction) {
+    try {
+      await interaction.deferReply();
+      
+      if (!interaction.inGuild()) {
+        await interaction.editReply('This command can only be used in a server.');
+        return;
+      }
+      
+      const existing = await storage.getBotConfigByGuildId(interaction.guildId);
+      if (!(await this.hasAdminPermission(interaction, existing))) {
+        await recordAudit(getDiscordActor(interaction.user), auditActions.SETUP, {
+          guildId: interaction.guildId, result: auditResults.DENIED, error: 'Missing admin role'
+        });
+        await interaction.editReply(`You need the "${existing?.adminRoleName || DEFAULT_ADMIN_ROLE_NAME}" role or Administrator permissions to set up the bot.`);
+        return;
+      }
+      
+      const channel = interaction.options.getChannel('channel');
+      if (!existing && !channel) {
+        await interaction.editReply('Choose the `channel` to post the daily scrambles in to set up this server.');
+        return;
+      }
+      
+      const time = interaction.options.getString('time');
+      if (time !== null && !parseTimeOfDay(time)) {
+        await interaction.editReply(`"${time}" is not a time. Use 24-hour time, e.g. 16:00 or 09:30.`);
+        return;
+      }
+      const timezone = interaction.options.getString('timezone');
+      if (timezone !== null && !isValidTimeZone(timezone)) {
+        await interaction.editReply(`"${timezone}" is not a time zone. Use a name such as Europe/Berlin, America/New_York or Asia/Kolkata.`);
+        return;
+      }
+      
+      // Only the options given change
+      const settings: Partial<BotConfig> = {};
+      if (channel) settings.channelId = channel.id;
+      if (time !== null) settings.timeToPost = time;
+      if (timezone !== null) settings.timezone = timezone;
+      const pingRole = interaction.options.getRole('ping_role');
+      if (pingRole) settings.pingRoleName = pingRole.name;
+      const adminRole = interaction.options.getRole('admin_role');
+      if (adminRole) settings.adminRoleName = adminRole.name;
+      const deleteAfter = interaction.options.getInteger('delete_after');
+      if (deleteAfter !== null) settings.deleteAfterHours = deleteAfter;
+      const catchUpHours = interaction.options.getInteger('catch_up_hours');
+      if (catchUpHours !== null) settings.catchUpHours = catchUpHours;
+      const enabled = interaction.options.getBoolean('enabled');
+      if (enabled !== null) settings.enabled = enabled;
+      
+      const config = existing
+        ? await storage.updateBotConfig(existing.id, settings)
+        : await storage.createBotConfig({ ...settings, guildId: interaction.guildId, channelId: channel!.id });
+      if (!config) {
+        throw new Error(`Config ${existing?.id} disappeared while updating it`);
+      }
+      
+      // Move the daily post to the new time, or cancel it if paused
+      scheduler.scheduleGuildPost(config);
+      const nextPost = scheduler.getNextPostTime(config.guildId);
+      await recordAudit(getDiscordActor(interaction.user), auditActions.SETUP, {
+        guildId: config.guildId, parameters: { ...settings, created: !existing }, result: auditResults.SUCCESS
+      });
+      console.log(`⚙️ ${interaction.user.tag} ${existing ? 'updated' : 'set up'} guild ${config.guildId}: ${JSON.stringify(settings)}`);
+      
+      const embed = new EmbedBuilder()
+        .setTitle(existing ? '⚙️ Settings Updated' : '✅ Daily Scrambles Set Up')
+        .setColor(0x57F287)
+        .addFields(
+          { name: 'Channel', value: `<#${config.channelId}>`, inline: true },
+          { name: 'Posts at', value: `${config.timeToPost} (${config.timezone})`, inline: true },
+          { name: 'Status', value: config.enabled ? 'Posting daily' : 'Paused', inline: true },
+          { name: 'Next post', value: nextPost ? `<t:${Math.floor(nextPost.getTime() / 1000)}:F>` : 'None scheduled', inline: true },
+          { name: 'Threads close after', value: `${config.deleteAfterHours}h`, inline: true },
+          { name: 'Missed posts', value: config.catchUpHours > 0 ? `Made up to ${config.catchUpHours}h late` : 'Skipped', inline: true },
+          { name: 'Roles', value: `Ping: ${config.pingRoleName}\nAdmin: ${config.adminRoleName}`, inline: true }
+        )
+        .setFooter({ text: 'Change the events posted each day with /schedule' });
+      
+      await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+      console.error('Error handling setup command:', error);
+      await recordAudit(getDiscordActor(interaction.user), auditActions.SETUP, {
+        guildId: interaction.guildId, result: auditResults.FAILURE, error
+      });
+      try {
+        await interaction.editReply('An error occurred while saving the settings. Please try again later.');
+      } catch (replyError) {
+        console.error('Error sending error reply:', replyError);
+      }
+      throw error;
     }
   }
   
@@ -576,8 +1116,9 @@ class DiscordBot {
     try {
       await interaction.deferReply();
       
-      // Get all threads (including deleted ones)
-      const allThreads = await storage.getAllChallengeThreads();
+      // Get this server's threads (including deleted ones)
+      const allThreads = (await storage.getAllChallengeThreads())
+        .filter(thread => thread.guildId === interaction.guildId);
       
       // Sort threads by ID in descending order to get most recent first
       const sortedThreads = [...allThreads]
@@ -617,8 +1158,11 @@ class DiscordBot {
         threads.forEach(thread => {
           // Format date (would use createdAt from DB in production)
           const date = new Date().toLocaleDateString();
-          const scrambleText = thread.scramble || 'Scramble text unavailable';
-          scrambleList += `• ${date}: \`${scrambleText}\`\n`;
+          const scrambleText = thread.scrambles[0] || 'Scramble text unavailable';
+          // Inline code cannot hold line breaks, so multi-line scrambles go in a block
+          scrambleList += scrambleText.includes('\n')
+            ? `• ${date}:\n\`\`\`\n${scrambleText}\n\`\`\`\n`
+            : `• ${date}: \`${scrambleText}\`\n`;
         });
         
         historyEmbed.addFields({ 
@@ -636,6 +1180,7 @@ class DiscordBot {
       } catch (replyError) {
         console.error('Error sending error reply:', replyError);
       }
+      throw error;
     }
   }
   
@@ -651,7 +1196,14 @@ class DiscordBot {
       '3x3': '🟦',
       'Pyraminx': '🔺',
       '3x3 OH': '🤚',
-      'Clock': '🕙'
+      'Clock': '🕙',
+      '4x4': '🟧',
+      '5x5': '🟩',
+      '6x6': '🟪',
+      '7x7': '🟫',
+      'Megaminx': '⭐',
+      'Square-1': '🔲',
+      '3x3 FMC': '🦶'
     };
     
     // Check if we have a custom emoji for this cube type
@@ -701,6 +1253,36 @@ class DiscordBot {
     return roleId;
   }
   
+  /**
+   * Replace the role ping placeholder at the top of a thread's content with a
+   * mention of the guild's ping role, or remove it if the guild has no such role
+   * @param guild The guild the thread is in
+   * @param roleName The guild's ping role name
+   * @param threadContent The thread's messages, as formatThreadContent makes them
+   */
+  private async applyRolePing(guild: Guild, roleName: string, threadContent: string[]): Promise<string[]> {
+    const pingRoleId = await this.findRoleId(guild, roleName);
+    return [
+      threadContent[0].replace('||@daily scramble ping||', pingRoleId ? `<@&${pingRoleId}>` : ''),
+      ...threadContent.slice(1)
+    ];
+  }
+  
+  /**
+   * Whether the member running a command may change the bot's settings: they
+   * have the guild's admin role or Administrator permissions
+   * @param interaction The command interaction, in a guild
+   * @param config The guild's configuration, for its admin role name (optional)
+   */
+  private async hasAdminPermission(interaction: ChatInputCommandInteraction, config?: BotConfig): Promise<boolean> {
+    if (!interaction.inGuild()) return false;
+    
+    const member = await interaction.guild!.members.fetch(interaction.user.id);
+    const adminRoleName = config?.adminRoleName || DEFAULT_ADMIN_ROLE_NAME;
+    const hasAdminRole = member.roles.cache.some(role => role.name === adminRoleName);
+    return hasAdminRole || member.permissions.has('Administrator');
+  }
+  
   /**
    * Initialize the Discord bot with connection retry logic
    * @param token The Discord bot token
@@ -793,6 +1375,15 @@ class DiscordBot {
     return this.isReady;
   }
   
+  /**
+   * Get the websocket heartbeat ping to Discord in milliseconds
+   * @returns null while disconnected or before the first heartbeat
+   */
+  getWebSocketPing(): number | null {
+    const ping = this.client.ws.ping;
+    return this.isReady && ping >= 0 ? Math.round(ping) : null;
+  }
+  
   /**
    * Get a guild by ID (for administrative functions)
    * @param guildId The Discord guild ID
@@ -850,10 +1441,51 @@ class DiscordBot {
   }
   
   /**
-   * Create a daily scramble thread in the specified channel
+   * Build the April Fools "bonus scramble" message. The sequence is run
+   * through the scramble validator like any other scramble, and the message
+   * shows why it was rejected instead of presenting it as a real scramble.
+   * @param cubeType The cube type of the thread
+   */
+  private getAprilFoolsBonusMessage(cubeType: string): string {
+    const bonusScramble = "R I C K R O L L D R' U' B' F' L' D' Y'";
+    const validation = validateScramble(scrambleManager.stringToCubeType(cubeType), bonusScramble);
+    const verdict = validation.valid
+      ? '✅ Somehow this one is actually valid!'
+      : `🚫 Rejected by the scramble validator: ${formatScrambleIssues(validation.issues)}`;
+    
+    return "**APRIL FOOLS BONUS SCRAMBLE:**\n" +
+      "```\n" + bonusScramble + "\n```\n" +
+      verdict + "\n" +
+      "(Just for fun! Use the real scramble above for today's challenge 😄)";
+  }
+  
+  /**
+   * Render the preview diagram of a scramble and show it as the embed's image
+   * @param embed The embed to show the preview in
+   * @param cubeType The cube type of the scramble
+   * @param scramble The scramble to render
+   * @returns The files to send along with the embed (empty if rendering failed)
+   */
+  private attachScramblePreview(embed: EmbedBuilder, cubeType: CubeType, scramble: string): AttachmentBuilder[] {
+    const attachment = createScrambleImageAttachment(cubeType, scramble);
+    if (!attachment) {
+      return [];
+    }
+    embed.setImage(`attachment://${SCRAMBLE_IMAGE_NAME}`);
+    return [attachment];
+  }
+  
+  /**
+   * Create the daily scramble threads of a guild: one thread per event on
+   * the day's schedule
+   * Each event's post is claimed in storage first, so an event already posted
+   * that day (or being posted by another run) is skipped, and the outcome of
+   * each post is recorded.
    * @param config The bot configuration
+   * @param scheduledFor When the post was due, which decides the day (default: now)
+   * @param isCatchUp Whether the post is being made late after being missed
    */
-  async createDailyScrambleThread(config: BotConfig): Promise<void> {
+  async createDailyScrambleThread(config: BotConfig, scheduledFor: Date = new Date(), isCatchUp: boolean = false): Promise<void> {
     if (!this.isReady) {
       throw new Error('Discord client is not ready yet');
     }
@@ -861,299 +1493,1001 @@ class DiscordBot {
     try {
       console.log(`Attempting to create daily scramble thread in guild ${config.guildId}, channel ${config.channelId}`);
       
-      // Get the guild with error handling
-      let guild;
-      try {
-        guild = await this.client.guilds.fetch(config.guildId);
-        console.log(`Successfully fetched guild: ${guild.name}`);
-      } catch (error) {
-        console.error(`Failed to fetch guild with ID ${config.guildId}:`, error);
-        throw new Error(`Guild not found or bot doesn't have access to guild with ID ${config.guildId}`);
+      // A day can have several events, each in its own thread, or none on a rest day
+      const events = scrambleManager.getEventsForDay(scheduledFor, config.schedule, config.timezone);
+      if (events.length === 0) {
+        console.log(`Today is a rest day for guild ${config.guildId}, no thread created`);
+        return;
       }
       
-      // Get the channel with error handling
-      let channel;
-      try {
-        channel = await guild.channels.fetch(config.channelId) as TextChannel;
-        console.log(`Successfully fetched channel: ${channel.name}`);
-      } catch (error) {
-        console.error(`Failed to fetch channel with ID ${config.channelId}:`, error);
-        throw new Error(`Channel not found or bot doesn't have access to channel with ID ${config.channelId}`);
+      // Claim each event's post, so a second run never posts the same event twice
+      const claimed: { cubeType: CubeType; post: DailyPost }[] = [];
+      for (const cubeType of events) {
+        const post = await dailyPostManager.claimPost(config, cubeType, scheduledFor, isCatchUp);
+        if (post) claimed.push({ cubeType, post });
       }
-      
-      // Verify channel is a text channel
-      if (!channel || channel.type !== 0) { // 0 is GUILD_TEXT
-        console.error(`Channel ${config.channelId} is not a text channel, type:`, channel?.type);
-        throw new Error(`Channel ${config.channelId} is not a text channel`);
+      if (claimed.length === 0) {
+        console.log(`Today's events are already posted for guild ${config.guildId}, no thread created`);
+        return;
       }
       
-      // Generate the thread title and content
-      const threadTitle = scrambleManager.generateThreadTitle();
-      const threadContent = scrambleManager.generateThreadContent();
-      console.log(`Generated thread title: ${threadTitle}`);
-      
-      // Create the thread with enhanced error handling
-      let message;
+      let guild;
+      let channel;
       try {
-        // Find the 'daily scramble ping' role in the guild
-        const pingRoleName = 'daily scramble ping';
-        const pingRoleId = await this.findRoleId(guild, pingRoleName);
+        // Get the guild with error handling
+        try {
+          guild = await this.client.guilds.fetch(config.guildId);
+          console.log(`Successfully fetched guild: ${guild.name}`);
+        } catch (error) {
+          console.error(`Failed to fetch guild with ID ${config.guildId}:`, error);
+          throw new Error(`Guild not found or bot doesn't have access to guild with ID ${config.guildId}`);
+        }
         
-        console.log(`Found role ID for "daily scramble ping": ${pingRoleId}`);
+        // Get the channel with error handling
+        try {
+          channel = await guild.channels.fetch(config.channelId) as TextChannel;
+          console.log(`Successfully fetched channel: ${channel.name}`);
+        } catch (error) {
+          console.error(`Failed to fetch channel with ID ${config.channelId}:`, error);
+          throw new Error(`Channel not found or bot doesn't have access to channel with ID ${config.channelId}`);
+        }
         
-        // Create a simple message for the thread
-        message = await channel.send({ content: `Daily Scramble Challenge` });
-        console.log(`Successfully sent initial message to channel`);
-      } catch (error) {
-        console.error('Failed to send message to channel:', error);
-        throw new Error(`Bot doesn't have permission to send messages in channel ${config.channelId}`);
-      }
-      
-      // Start the thread
-      let thread;
-      try {
-        thread = await message.startThread({
-          name: threadTitle,
-          autoArchiveDuration: 1440, // 24 hours
-        });
-        console.log(`Successfully created thread: ${thread.id}`);
+        // Verify channel is a text channel
+        if (!channel || channel.type !== 0) { // 0 is GUILD_TEXT
+          console.error(`Channel ${config.channelId} is not a text channel, type:`, channel?.type);
+          throw new Error(`Channel ${config.channelId} is not a text channel`);
+        }
       } catch (error) {
-        console.error('Failed to create thread:', error);
-        throw new Error(`Bot doesn't have permission to create threads in channel ${config.channelId}`);
+        await Promise.all(claimed.map(({ post }) => dailyPostManager.markFailed(post, error)));
+        throw error;
       }
       
-      // Send content to the thread
-      let threadMessage;
-      try {
-        // Find the 'daily scramble ping' role in the guild
-        const pingRoleName = 'daily scramble ping';
-        const pingRoleId = await this.findRoleId(guild, pingRoleName);
-        
-        // Create a modified thread content that includes the role ping
-        let modifiedThreadContent = threadContent;
-        
-        // If we found the role ID, replace the placeholder with the actual role mention
-        if (pingRoleId) {
-          modifiedThreadContent = threadContent.replace(
-            '||@daily scramble ping||',
-            `<@&${pingRoleId}>`
-          );
-        } else {
-          // Otherwise, just remove the placeholder
-          modifiedThreadContent = threadContent.replace('||@daily scramble ping||', '');
+      // One event failing to post does not stop the others
+      let firstError: unknown = null;
+      for (const { cubeType, post } of claimed) {
+        try {
+          const threadId = await this.createDailyEventThread(config, guild, channel, cubeType);
+          await dailyPostManager.markPosted(post, threadId);
+        } catch (error) {
+          console.error(`Error creating daily ${cubeType} thread:`, error);
+          await dailyPostManager.markFailed(post, error);
+          firstError = firstError || error;
         }
-        
-        threadMessage = await thread.send(modifiedThreadContent);
-        console.log(`Successfully sent content to thread`);
-        
-        // Add emoji reaction based on cube type
-        const cubeType = scrambleManager.getCubeTypeForDay();
-        const emojiName = this.getCubeTypeCustomEmoji(cubeType);
-        
-        if (emojiName) {
-          try {
-            await threadMessage.react(emojiName);
-            console.log(`Added reaction emoji ${emojiName} to thread message`);
-          } catch (reactionError) {
-            console.error(`Failed to add emoji reaction ${emojiName}:`, reactionError);
-            // Don't throw here, continue execution
-          }
+      }
+      if (firstError) {
+        throw firstError;
+      }
+    } catch (error) {
+      console.error('Error creating daily scramble thread:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Post one event's daily challenge thread in a guild's scramble channel
+   * @param config The bot configuration
+   * @param guild The guild
+   * @param channel The scramble channel
+   * @param cubeType The event scheduled for today
+   * @returns The Discord ID of the new thread
+   */
+  private async createDailyEventThread(config: BotConfig, guild: Guild, channel: TextChannel, cubeType: CubeType): Promise<string> {
+    // Generate the thread title and content from a single set of daily scrambles,
+    // so the stored scrambles never have to be read back out of the message text
+    const threadTitle = scrambleManager.generateThreadTitle(cubeType);
+    const { format, scrambles } = scrambleManager.generateDailyScramble(cubeType, config.eventFormats);
+    const threadContent = scrambleManager.formatThreadContent(scrambles, cubeType, format);
+    console.log(`Generated thread title: ${threadTitle}`);
+    console.log(`Today's cube type: ${cubeType} (${format}, ${scrambles.length} scrambles)`);
+    
+    // Validate the scrambles before anything is posted
+    scrambles.forEach(scramble => scrambleManager.assertValidScramble(cubeType, scramble));
+    
+    // Create the thread with enhanced error handling
+    let message;
+    try {
+      // Create a simple message for the thread
+      message = await channel.send({ content: `Daily Scramble Challenge` });
+      console.log(`Successfully sent initial message to channel`);
+    } catch (error) {
+      console.error('Failed to send message to channel:', error);
+      throw new Error(`Bot doesn't have permission to send messages in channel ${config.channelId}`);
+    }
+    
+    // Start the thread
+    let thread;
+    try {
+      thread = await message.startThread({
+        name: threadTitle,
+        autoArchiveDuration: 1440, // 24 hours
+      });
+      console.log(`Successfully created thread: ${thread.id}`);
+    } catch (error) {
+      console.error('Failed to create thread:', error);
+      throw new Error(`Bot doesn't have permission to create threads in channel ${config.channelId}`);
+    }
+    
+    // Send content to the thread
+    let threadMessage;
+    try {
+      // Mention the guild's ping role in place of the placeholder
+      const modifiedThreadContent = await this.applyRolePing(guild, config.pingRoleName, threadContent);
+      
+      threadMessage = await this.sendChallengeMessages(thread, modifiedThreadContent, cubeType, format, scrambles);
+      console.log(`Successfully sent content to thread`);
+      
+      // Add emoji reaction based on cube type
+      const emojiName = this.getCubeTypeCustomEmoji(cubeType);
+      
+      if (emojiName) {
+        try {
+          await threadMessage.react(emojiName);
+          console.log(`Added reaction emoji ${emojiName} to thread message`);
+        } catch (reactionError) {
+          console.error(`Failed to add emoji reaction ${emojiName}:`, reactionError);
+          // Don't throw here, continue execution
         }
+      }
+      
+      // Special April Fools message (only when April Fools method returns true)
+      if (this.isAprilFoolsDay()) {
+        console.log("🎭 It's April Fools Day! Sending Rick Roll message...");
         
-        // Special April Fools message (only when April Fools method returns true)
-        if (this.isAprilFoolsDay()) {
-          console.log("🎭 It's April Fools Day! Sending Rick Roll message...");
-          
-          // Wait a moment before sending the Rick Roll
-          await new Promise(resolve => setTimeout(resolve, 3000));
-          
-          // Create a fancy embed for the Rick Roll
-          const aprilFoolsEmbed = new EmbedBuilder()
-            .setTitle('🎵 Never Gonna Give You Up 🎵')
-            .setDescription(
-              "We're no strangers to puzzles,\n" +
-              "You know the rules, and so do I!\n" +
-              "A full commitment's what I'm thinking of,\n" +
-              "You wouldn't get this from any other bot!\n\n" +
-              "Happy April Fools from the Speedcubing Community! 🎉"
-            )
-            .setColor(0xFF3366)
-            .setImage('https://media.giphy.com/media/g7GKcSzwQfugw/giphy.gif')
-            .setFooter({ text: 'Never gonna cube you up, never gonna solve you down!' });
-            
-          await thread.send({ embeds: [aprilFoolsEmbed] });
+        // Wait a moment before sending the Rick Roll
+        await new Promise(resolve => setTimeout(resolve, 3000));
+        
+        // Create a fancy embed for the Rick Roll
+        const aprilFoolsEmbed = new EmbedBuilder()
+          .setTitle('🎵 Never Gonna Give You Up 🎵')
+          .setDescription(
+            "We're no strangers to puzzles,\n" +
+            "You know the rules, and so do I!\n" +
+            "A full commitment's what I'm thinking of,\n" +
+            "You wouldn't get this from any other bot!\n\n" +
+            "Happy April Fools from the Speedcubing Community! 🎉"
+          )
+          .setColor(0xFF3366)
+          .setImage('https://media.giphy.com/media/g7GKcSzwQfugw/giphy.gif')
+          .setFooter({ text: 'Never gonna cube you up, never gonna solve you down!' });
           
-          // Add a follow-up message with a special "Rick Roll" scramble
-          await thread.send({
-            content: "**APRIL FOOLS BONUS SCRAMBLE:**\n" +
-                    "```\nR I C K R O L L D R' U' B' F' L' D' Y'\n```\n" +
-                    "(Just for fun! Use the real scramble above for today's challenge 😄)"
-          });
+        await thread.send({ embeds: [aprilFoolsEmbed] });
+        
+        // Add a follow-up message with a special "Rick Roll" scramble
+        await thread.send({ content: this.getAprilFoolsBonusMessage(cubeType) });
+      }
+    } catch (error) {
+      console.error('Failed to send message to thread:', error);
+      // Don't throw here, we already created the thread
+    }
+    
+    // Calculate expiration time (24 hours from now)
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + config.deleteAfterHours);
+    
+    // Store the thread information in the database
+    const threadData: InsertChallengeThread = {
+      threadId: thread.id,
+      channelId: channel.id,
+      guildId: guild.id,
+      cubeType,
+      format,
+      scrambles,
+      expiresAt
+    };
+    
+    try {
+      const storedThread = await storage.createChallengeThread(threadData);
+      threadExpiryScheduler.scheduleThread(storedThread);
+      console.log(`Successfully stored thread data in database`);
+    } catch (error) {
+      console.error('Failed to store thread data in database:', error);
+      // Don't throw here, the thread is already created
+    }
+    
+    console.log(`Successfully created daily scramble thread: ${threadTitle}`);
+    return thread.id;
+  }
+  
+  /**
+   * Archive a thread that has expired
+   * Ranked results or the final podium are posted first, then the thread is
+   * locked and archived. They are posted only once, so retrying a close that
+   * failed after posting them does not post them again. A thread Discord
+   * auto-archived before it expired is reopened to post them.
+   * @param thread The thread data to archive
+   * @returns What happened, with the error if the thread could not be archived
+   */
+  async archiveThread(thread: ChallengeThread): Promise<{ outcome: ArchiveOutcome; error?: string }> {
+    if (!this.isReady) {
+      return { outcome: archiveOutcomes.TRANSIENT_ERROR, error: 'Discord client is not ready yet' };
+    }
+    
+    try {
+      // Get the guild and channel
+      const guild = await this.client.guilds.fetch(thread.guildId);
+      const channel = await guild.channels.fetch(thread.channelId) as TextChannel | null;
+      
+      if (!channel) {
+        console.warn(`Channel ${thread.channelId} not found for thread ${thread.threadId}`);
+        return { outcome: archiveOutcomes.NOT_FOUND, error: `Channel ${thread.channelId} not found` };
+      }
+      
+      // Fetches active and archived threads alike
+      const foundThread = await channel.threads.fetch(thread.threadId);
+      if (!foundThread) {
+        console.warn(`Thread ${thread.threadId} not found in channel ${channel.name}`);
+        return { outcome: archiveOutcomes.NOT_FOUND, error: `Thread ${thread.threadId} not found` };
+      }
+      if (foundThread.archived && thread.closingPostedAt) {
+        console.log(`Thread ${thread.threadId} is already archived`);
+        return { outcome: archiveOutcomes.ALREADY_ARCHIVED };
+      }
+      
+      if (!thread.closingPostedAt) {
+        // Discord auto-archives a quiet thread after a day, often by the time it
+        // expires, so reopen it to post the results before closing it for good
+        if (foundThread.archived) {
+          await foundThread.setArchived(false);
+        }
+        await this.postClosingMessages(thread, foundThread);
+        await storage.updateChallengeThread(thread.id, { closingPostedAt: new Date() });
+      }
+      
+      // Lock the thread to prevent further messages, then archive it
+      await foundThread.setLocked(true);
+      await foundThread.setArchived(true);
+      
+      console.log(`Successfully archived expired thread: ${thread.threadId}`);
+      return { outcome: archiveOutcomes.ARCHIVED };
+    } catch (error) {
+      const outcome = this.getArchiveErrorOutcome(error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`Thread ${thread.threadId} could not be archived (${outcome}): ${errorMessage}`);
+      return { outcome, error: errorMessage };
+    }
+  }
+  
+  /**
+   * Post a closing thread's ranked Fewest Moves results or final podium, then
+   * the close message
+   * A message that cannot be sent is skipped so the thread still closes.
+   * @param thread The thread data
+   * @param channel The thread on Discord
+   */
+  private async postClosingMessages(thread: ChallengeThread, channel: ThreadChannel) {
+    // Reveal the ranked Fewest Moves results before the thread closes
+    if (thread.cubeType === cubeTypes.FMC) {
+      try {
+        await channel.send({ embeds: [await this.buildFmcResultsEmbed(thread)] });
+        console.log(`Sent FMC results to thread ${thread.threadId}`);
+      } catch (resultsError) {
+        console.warn(`Could not send FMC results to thread: ${resultsError}`);
+      }
+    } else {
+      // Post the final podium of submitted times
+      try {
+        const podium = await this.buildChallengePodiumEmbed(thread);
+        if (podium) {
+          await channel.send({ embeds: [podium] });
+          console.log(`Sent final podium to thread ${thread.threadId}`);
         }
+      } catch (podiumError) {
+        console.warn(`Could not send final podium to thread: ${podiumError}`);
+      }
+    }
+    
+    // Send a final message to the thread before archiving
+    try {
+      await channel.send({
+        content: `🔒 This thread was closed.`
+      });
+      console.log(`Sent final message to thread ${thread.threadId}`);
+    } catch (messageError) {
+      console.warn(`Could not send final message to thread: ${messageError}`);
+    }
+  }
+  
+  /**
+   * Whether a Discord error archiving a thread is worth retrying
+   * Missing guilds, channels and threads and missing permissions will not
+   * fix themselves; anything else (rate limits, outages, timeouts) might.
+   */
+  private getArchiveErrorOutcome(error: unknown): ArchiveOutcome {
+    if (!(error instanceof DiscordAPIError)) {
+      return archiveOutcomes.TRANSIENT_ERROR;
+    }
+    
+    switch (error.code) {
+      case RESTJSONErrorCodes.UnknownGuild:
+      case RESTJSONErrorCodes.UnknownChannel:
+        return archiveOutcomes.NOT_FOUND;
+      case RESTJSONErrorCodes.MissingAccess:
+      case RESTJSONErrorCodes.MissingPermissions:
+        return archiveOutcomes.PERMISSION_DENIED;
+      default:
+        return archiveOutcomes.TRANSIENT_ERROR;
+    }
+  }
+  
+  /**
+   * Build the ranked results of a Fewest Moves challenge
+   * Equal move counts share a rank, earlier submissions listed first
+   * @param thread The FMC challenge thread
+   */
+  private async buildFmcResultsEmbed(thread: ChallengeThread): Promise<EmbedBuilder> {
+    const results = await storage.getFmcResultsByThread(thread.id);
+    const shown = results.slice(0, 10);
+    const medals = ['🥇', '🥈', '🥉'];
+    
+    const lines = shown.map((result, i) => {
+      const rank = results.findIndex(other => other.moveCount === result.moveCount) + 1;
+      const place = medals[rank - 1] || `**${rank}.**`;
+      return `${place} **${result.username}** — ${result.moveCount} moves\n\`${result.solution}\``;
+    });
+    if (results.length > shown.length) {
+      lines.push(`…and ${results.length - shown.length} more`);
+    }
+    
+    return new EmbedBuilder()
+      .setTitle(`${this.getCubeTypeEmoji(thread.cubeType)} Fewest Moves Results`)
+      .setColor(0x2ECC71)
+      .setDescription(lines.length > 0 ? lines.join('\n\n') : 'Nobody submitted a solution this time.')
+      .setFooter({ text: `${results.length} ${results.length === 1 ? 'solution' : 'solutions'} • Daily Scramble Bot` });
+  }
+  
+  /**
+   * Handle /fmc submit: check a solution against the thread's scramble and
+   * store it; results stay hidden until the thread is archived
+   */
+  private async handleFmcCommand(interaction: ChatInputCommandInteraction) {
+    try {
+      await interaction.deferReply({ ephemeral: true });
+      
+      const thread = await storage.getChallengeThreadByThreadId(interaction.channelId);
+      if (!thread || thread.cubeType !== cubeTypes.FMC) {
+        await interaction.editReply('Use `/fmc submit` inside a Fewest Moves challenge thread.');
+        return;
+      }
+      if (thread.isDeleted || thread.expiresAt < new Date()) {
+        await interaction.editReply('This Fewest Moves challenge is closed.');
+        return;
+      }
+      
+      // One attempt per person, as in competition
+      const results = await storage.getFmcResultsByThread(thread.id);
+      const previous = results.find(result => result.userId === interaction.user.id);
+      if (previous) {
+        await interaction.editReply(`You already submitted a ${previous.moveCount} move solution to this challenge.`);
+        return;
+      }
+      
+      const check = checkFmcSolution(thread.scrambles[0], interaction.options.getString('solution', true));
+      if (!check.valid) {
+        await interaction.editReply(`❌ Solution rejected: ${formatScrambleIssues(check.issues)}`);
+        return;
+      }
+      
+      const stored = await storage.createFmcResult({
+        challengeThreadId: thread.id,
+        userId: interaction.user.id,
+        username: interaction.user.username,
+        solution: check.solution,
+        moveCount: check.moveCount
+      });
+      if (!stored) {
+        // Another submission from the member was stored since the check above
+        await interaction.editReply('You already submitted a solution to this challenge.');
+        return;
+      }
+      console.log(`✅ Stored ${check.moveCount} move FMC solution from ${interaction.user.username} for thread ${thread.threadId}`);
+      
+      await interaction.editReply(
+        `✅ Solution accepted: **${check.moveCount} moves** (limit ${FMC_MAX_MOVES}). Results are revealed when the thread closes.`
+      );
+    } catch (error) {
+      console.error('Error handling fmc command:', error);
+      try {
+        await interaction.editReply('An error occurred while checking your solution. Please try again later.');
+      } catch (replyError) {
+        console.error('Error sending error reply:', replyError);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Send a challenge's thread messages; the last one carries the scramble
+   * previews and the "Submit time" button
+   * @param thread The challenge thread
+   * @param contents The formatted thread messages, in order
+   * @param cubeType The challenge's cube type
+   * @param format The challenge format
+   * @param scrambles The challenge's scrambles, extras last
+   * @returns The first message sent
+   */
+  private async sendChallengeMessages(
+    thread: ThreadChannel,
+    contents: string[],
+    cubeType: CubeType,
+    format: ResultFormat,
+    scrambles: string[]
+  ): Promise<Message> {
+    // Attach the scramble preview diagrams that can be rendered, one per counted scramble
+    const previews = format === 'single'
+      ? [createScrambleImageAttachment(cubeType, scrambles[0])]
+      : scrambles
+        .slice(0, RESULT_FORMAT_SOLVES[format])
+        .map((scramble, i) => createScrambleImageAttachment(cubeType, scramble, `scramble-${i + 1}.png`));
+    
+    const messages: Message[] = [];
+    for (let i = 0; i < contents.length; i++) {
+      const isLast = i === contents.length - 1;
+      messages.push(await thread.send({
+        content: contents[i],
+        files: isLast ? previews.filter((preview): preview is AttachmentBuilder => preview !== null) : [],
+        components: isLast ? this.buildSubmitTimeRows(cubeType) : []
+      }));
+    }
+    return messages[0];
+  }
+  
+  /**
+   * Row with the "Submit time" button for a challenge thread message
+   * Fewest Moves threads take solutions through /fmc submit instead
+   * @param cubeType The thread's cube type
+   */
+  private buildSubmitTimeRows(cubeType: string): ActionRowBuilder<ButtonBuilder>[] {
+    if (cubeType === cubeTypes.FMC) return [];
+    return [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(CHALLENGE_SUBMIT_BUTTON)
+          .setLabel('Submit time')
+          .setStyle(ButtonStyle.Primary)
+          .setEmoji('⏱️')
+      )
+    ];
+  }
+  
+  /**
+   * Handle /submit: record a single or Ao5 for the challenge thread it is used in
+   */
+  private async handleSubmitCommand(interaction: ChatInputCommandInteraction) {
+    try {
+      await interaction.deferReply({ ephemeral: true });
+      const reply = await this.submitChallengeResult(
+        interaction.channelId,
+        interaction.user,
+        interaction.options.getString('times', true)
+      );
+      await interaction.editReply(reply);
+    } catch (error) {
+      console.error('Error handling submit command:', error);
+      try {
+        await interaction.editReply('An error occurred while recording your result. Please try again later.');
+      } catch (replyError) {
+        console.error('Error sending error reply:', replyError);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Open the time submission form from a thread's "Submit time" button
+   */
+  private async handleSubmitButton(interaction: ButtonInteraction) {
+    try {
+      const modal = new ModalBuilder()
+        .setCustomId(CHALLENGE_SUBMIT_MODAL)
+        .setTitle('Submit Time')
+        .addComponents(
+          new ActionRowBuilder<TextInputBuilder>().addComponents(
+            new TextInputBuilder()
+              .setCustomId('times')
+              .setLabel('Your times, separated by spaces')
+              .setPlaceholder('11.02 12.50 DNF 10.98+ 13.40')
+              .setStyle(TextInputStyle.Short)
+              .setRequired(true)
+              .setMaxLength(100)
+          )
+        );
+      await interaction.showModal(modal);
+    } catch (error) {
+      console.error('Error showing submit time form:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Handle the time submission form opened by the "Submit time" button
+   */
+  private async handleSubmitModal(interaction: ModalSubmitInteraction) {
+    try {
+      await interaction.deferReply({ ephemeral: true });
+      const reply = await this.submitChallengeResult(
+        interaction.channelId,
+        interaction.user,
+        interaction.fields.getTextInputValue('times')
+      );
+      await interaction.editReply(reply);
+    } catch (error) {
+      console.error('Error handling submit time form:', error);
+      try {
+        await interaction.editReply('An error occurred while recording your result. Please try again later.');
+      } catch (replyError) {
+        console.error('Error sending error reply:', replyError);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Check and store a member's times for the challenge thread they are in,
+   * then refresh the thread's leaderboard
+   * A new submission replaces the member's earlier one
+   * @param channelId The channel the submission was made in
+   * @param user The member submitting
+   * @param timesText The times as written, separated by spaces or commas
+   * @returns The reply to show the member
+   */
+  private async submitChallengeResult(channelId: string | null, user: User, timesText: string): Promise<string> {
+    const thread = channelId ? await storage.getChallengeThreadByThreadId(channelId) : undefined;
+    if (!thread) {
+      return 'Use `/submit` inside a daily scramble thread.';
+    }
+    if (thread.cubeType === cubeTypes.FMC) {
+      return 'This is a Fewest Moves challenge: submit your solution with `/fmc submit`.';
+    }
+    if (thread.isDeleted || thread.expiresAt < new Date()) {
+      return 'This challenge is closed.';
+    }
+    
+    const solves: SolveTime[] = [];
+    for (const text of timesText.split(/[\s,]+/).filter(Boolean)) {
+      const solve = parseSolveTime(text);
+      if (!solve) {
+        return `❌ \`${text}\` is not a time. Write times like \`12.34\` or \`1:02.34\`, add \`+\` for a +2 (\`12.34+\`), or write \`DNF\`.`;
+      }
+      solves.push(solve);
+    }
+    
+    // A single scramble can be done once or as an Ao5; a scramble set takes one solve per scramble
+    const accepted: ResultFormat[] = thread.format === 'single' ? ['single', 'ao5'] : [thread.format];
+    const format = accepted.find(candidate => RESULT_FORMAT_SOLVES[candidate] === solves.length);
+    if (!format) {
+      const expected = accepted
+        .map(candidate => `${RESULT_FORMAT_SOLVES[candidate]} ${RESULT_FORMAT_SOLVES[candidate] === 1 ? 'time' : 'times'} for ${candidate === 'single' ? 'a single' : `the ${RESULT_FORMAT_LABELS[candidate]}`}`)
+        .join(' or ');
+      return `❌ Submit ${expected}, not ${solves.length}.`;
+    }
+    
+    const resultMs = getFormatResult(format, solves);
+    await storage.saveChallengeResult({
+      challengeThreadId: thread.id,
+      userId: user.id,
+      username: user.username,
+      format,
+      solves,
+      resultMs
+    });
+    console.log(`✅ Recorded ${format} of ${formatSolveTime(resultMs)} from ${user.username} for thread ${thread.threadId}`);
+    
+    try {
+      await this.updateChallengeLeaderboard(thread.id);
+    } catch (error) {
+      console.error('Error updating challenge leaderboard:', error);
+    }
+    
+    const recorded = format === 'single'
+      ? `✅ Recorded your single: **${formatSolves(format, solves)}**`
+      : `✅ Recorded your ${RESULT_FORMAT_LABELS[format]}: **${formatSolveTime(resultMs)}**\n${formatSolves(format, solves)}`;
+    return `${recorded}\nSubmitting again replaces this result.`;
+  }
+  
+  /**
+   * Leaderboard refreshes in progress by challenge thread ID, so that
+   * submissions arriving together edit the same leaderboard message in turn
+   */
+  private leaderboardUpdates = new Map<number, Promise<void>>();
+  
+  /**
+   * Edit a challenge thread's leaderboard message to show its current results,
+   * posting the message on the first result
+   * @param challengeThreadId The challenge thread's ID in storage
+   */
+  private async updateChallengeLeaderboard(challengeThreadId: number): Promise<void> {
+    const previous = this.leaderboardUpdates.get(challengeThreadId) || Promise.resolve();
+    const update = previous
+      .catch(() => undefined)
+      .then(() => this.refreshChallengeLeaderboard(challengeThreadId));
+    this.leaderboardUpdates.set(challengeThreadId, update);
+    
+    try {
+      await update;
+    } finally {
+      if (this.leaderboardUpdates.get(challengeThreadId) === update) {
+        this.leaderboardUpdates.delete(challengeThreadId);
+      }
+    }
+  }
+  
+  /**
+   * Post or edit the leaderboard message of a challenge thread
+   * @param challengeThreadId The challenge thread's ID in storage
+   */
+  private async refreshChallengeLeaderboard(challengeThreadId: number): Promise<void> {
+    // Read the thread again so an earlier refresh's message ID is seen
+    const thread = await storage.getChallengeThread(challengeThreadId);
+    if (!thread) return;
+    
+    const channel = await this.client.channels.fetch(thread.threadId);
+    if (!channel || !channel.isThread()) {
+      console.warn(`Thread ${thread.threadId} not found, leaderboard not updated`);
+      return;
+    }
+    
+    const embed = await this.buildChallengeLeaderboardEmbed(thread);
+    if (thread.leaderboardMessageId) {
+      try {
+        const message = await channel.messages.fetch(thread.leaderboardMessageId);
+        await message.edit({ embeds: [embed] });
+        return;
       } catch (error) {
-        console.error('Failed to send message to thread:', error);
-        // Don't throw here, we already created the thread
+        console.warn(`Leaderboard message ${thread.leaderboardMessageId} not found, posting a new one: ${error}`);
+      }
+    }
+    
+    const message = await channel.send({ embeds: [embed] });
+    await storage.updateChallengeThread(thread.id, { leaderboardMessageId: message.id });
+  }
+  
+  /**
+   * Add ranked standings to an embed, one field per result format
+   * Equal results share a rank and DNFs come last
+   * @param embed The embed to add the fields to
+   * @param results Results sorted best first, as storage returns them
+   * @param maxRank Lowest rank to show; ranks below it are summarised
+   * @param withDnfs Whether DNF results are listed
+   * @returns Whether any field was added
+   */
+  private addChallengeStandings(embed: EmbedBuilder, results: ChallengeResult[], maxRank: number, withDnfs: boolean): boolean {
+    const medals = ['🥇', '🥈', '🥉'];
+    const sections: { format: ResultFormat; name: string }[] = [
+      { format: 'ao5', name: '📊 Averages of 5' },
+      { format: 'mo3', name: '📊 Means of 3' },
+      { format: 'single', name: '⏱️ Singles' }
+    ];
+    let added = false;
+    
+    for (const { format, name } of sections) {
+      const formatResults = results.filter(result => result.format === format);
+      const ranked = formatResults
+        .map(result => ({ result, rank: formatResults.findIndex(other => other.resultMs === result.resultMs) + 1 }))
+        .filter(({ result }) => withDnfs || result.resultMs !== null);
+      const shown = ranked.filter(({ rank }) => rank <= maxRank);
+      if (shown.length === 0) continue;
+      
+      const lines = shown.map(({ result, rank }) => {
+        const place = (result.resultMs !== null && medals[rank - 1]) || `**${rank}.**`;
+        const line = `${place} **${result.username}** — ${formatSolveTime(result.resultMs)}`;
+        return format === 'single' ? line : `${line}\n└ ${formatSolves(format, result.solves)}`;
+      });
+      if (ranked.length > shown.length) {
+        lines.push(`…and ${ranked.length - shown.length} more`);
       }
       
-      // Calculate expiration time (24 hours from now)
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + config.deleteAfterHours);
+      embed.addFields({ name, value: lines.join('\n'), inline: false });
+      added = true;
+    }
+    
+    return added;
+  }
+  
+  /**
+   * Build the live leaderboard of a challenge thread
+   * @param thread The challenge thread
+   */
+  private async buildChallengeLeaderboardEmbed(thread: ChallengeThread): Promise<EmbedBuilder> {
+    const results = await storage.getChallengeResultsByThread(thread.id);
+    const embed = new EmbedBuilder()
+      .setTitle(`${this.getCubeTypeEmoji(thread.cubeType)} ${thread.cubeType} Leaderboard`)
+      .setColor(0x3498DB)
+      .setFooter({ text: `${results.length} ${results.length === 1 ? 'result' : 'results'} • Updated ${new Date().toLocaleString()}` });
+    
+    if (!this.addChallengeStandings(embed, results, 10, true)) {
+      embed.setDescription('No results yet. Submit yours with `/submit` or the **Submit time** button.');
+    }
+    return embed;
+  }
+  
+  /**
+   * Build the final podium of a challenge thread
+   * @param thread The challenge thread
+   * @returns The podium, or null if nobody finished a result
+   */
+  private async buildChallengePodiumEmbed(thread: ChallengeThread): Promise<EmbedBuilder | null> {
+    const results = await storage.getChallengeResultsByThread(thread.id);
+    const embed = new EmbedBuilder()
+      .setTitle(`🏆 ${thread.cubeType} Final Podium`)
+      .setColor(0xF1C40F)
+      .setFooter({ text: `${results.length} ${results.length === 1 ? 'result' : 'results'} • Daily Scramble Bot` });
+    
+    return this.addChallengeStandings(embed, results, 3, false) ? embed : null;
+  }
+  
+  /**
+   * Handle /stats: a member's personal bests, averages and trend per event,
+   * from the solves they timed with /scramble and /custom-scramble
+   */
+  private async handleStatsCommand(interaction: ChatInputCommandInteraction) {
+    try {
+      await interaction.deferReply();
       
-      // Get the cube type for today
-      const cubeType = scrambleManager.getCubeTypeForDay();
-      console.log(`Today's cube type: ${cubeType}`);
+      const user = interaction.options.getUser('user') || interaction.user;
+      const event = interaction.options.getString('event');
+      const history = await storage.getScramblePerformanceByUser(user.id, STATS_HISTORY_LIMIT);
+      const stats = getSolveHistoryStats(history).filter(entry => !event || entry.cubeType === event);
       
-      // Extract scramble text
-      let scrambleText;
-      try {
-        scrambleText = threadContent.split('```')[1].trim();
-      } catch (error: any) {
-        scrambleText = "Error extracting scramble text";
-        console.error('Error extracting scramble text:', error);
+      if (stats.length === 0) {
+        const whose = user.id === interaction.user.id ? 'You have' : `${user.username} has`;
+        await interaction.editReply(`${whose} no timed ${event ? `${event} ` : ''}solves yet. Time solves with \`/scramble\` to build up stats.`);
+        return;
       }
       
-      // Store the thread information in the database
-      const threadData: InsertChallengeThread = {
-        threadId: thread.id,
-        channelId: channel.id,
-        guildId: guild.id,
-        cubeType,
-        scramble: scrambleText,
-        expiresAt
-      };
+      const embed = new EmbedBuilder()
+        .setTitle(`📈 ${user.username}'s Stats${event ? ` • ${event}` : ''}`)
+        .setColor(0x3498DB)
+        .setThumbnail(user.displayAvatarURL())
+        .setFooter({ text: `Daily Scramble Bot • ${new Date().toLocaleString()}` });
       
-      try {
-        await storage.createChallengeThread(threadData);
-        console.log(`Successfully stored thread data in database`);
-      } catch (error) {
-        console.error('Failed to store thread data in database:', error);
-        // Don't throw here, the thread is already created
+      // Discord allows 25 fields per embed
+      stats.slice(0, 25).forEach(entry => {
+        embed.addFields({
+          name: `${this.getCubeTypeEmoji(entry.cubeType)} ${entry.cubeType}`,
+          value: this.formatEventStats(entry),
+          inline: !event
+        });
+      });
+      
+      // Chart the filtered event, or the most practised one
+      const charted = stats[0];
+      const trendImage = createTrendImageAttachment(charted.trend);
+      if (trendImage) {
+        embed.setImage(`attachment://${TREND_IMAGE_NAME}`);
+        embed.setDescription(`Trend of the last ${charted.trend.length} ${charted.cubeType} ${charted.trend.length === 1 ? 'solve' : 'solves'}: singles in blue, Ao5 in green, best single dashed.`);
       }
       
-      console.log(`Successfully created daily scramble thread: ${threadTitle}`);
+      await interaction.editReply({ embeds: [embed], files: trendImage ? [trendImage] : [] });
     } catch (error) {
-      console.error('Error creating daily scramble thread:', error);
+      console.error('Error handling stats command:', error);
+      try {
+        await interaction.editReply('An error occurred while loading stats. Please try again later.');
+      } catch (replyError) {
+        console.error('Error sending error reply:', replyError);
+      }
       throw error;
     }
   }
   
   /**
-   * Archive a thread that has expired
-   * @param thread The thread data to archive
+   * Format one event's stats for an embed field
+   * @param stats The event's stats
    */
-  async archiveThread(thread: ChallengeThread): Promise<void> {
-    if (!this.isReady) {
-      throw new Error('Discord client is not ready yet');
+  private formatEventStats(stats: EventStats): string {
+    const lines = [`**PB Single:** ${formatSolveTime(stats.bestSingle)}`];
+    stats.averages.forEach(average => {
+      lines.push(`**PB Ao${average.size}:** ${formatSolveTime(average.best)} • current ${formatSolveTime(average.current)}`);
+    });
+    if (stats.standardDeviation !== null) {
+      lines.push(`**σ:** ${formatSolveTime(stats.standardDeviation)}`);
     }
-    
+    lines.push(`**Solves:** ${stats.totalSolves}${stats.dnfCount > 0 ? ` (${stats.dnfCount} DNF)` : ''}`);
+    return lines.join('\n');
+  }
+  
+  /**
+   * Handle /leaderboard: season standings and completed season winners
+   */
+  private async handleLeaderboardCommand(interaction: ChatInputCommandInteraction) {
     try {
-      // Get the guild and channel
-      const guild = await this.client.guilds.fetch(thread.guildId);
-      const channel = await guild.channels.fetch(thread.channelId) as TextChannel;
+      await interaction.deferReply();
       
-      if (!channel) {
-        console.warn(`Channel ${thread.channelId} not found, marking thread as archived anyway`);
+      const config = interaction.guildId ? await storage.getBotConfigByGuildId(interaction.guildId) : undefined;
+      if (!config) {
+        await interaction.editReply('Seasons are kept for servers with daily scrambles set up. Use this command in one.');
         return;
       }
       
-      try {
-        console.log(`Attempting to fetch thread: ${thread.threadId} in channel ${channel.name}`);
-        
-        // Get all threads in the channel (active and archived)
-        let foundThread = null;
-        
-        // First check active threads
-        try {
-          const activeThreads = await channel.threads.fetchActive();
-          console.log(`Active threads in channel ${channel.name} (${channel.id}): ${activeThreads.threads.size}`);
-          
-          activeThreads.threads.forEach(t => {
-            console.log(`- Active thread: ${t.id} (${t.name})`);
-          });
-          
-          foundThread = activeThreads.threads.get(thread.threadId);
-          if (foundThread) {
-            console.log(`Found thread ${thread.threadId} in active threads`);
-          }
-        } catch (activeError) {
-          console.error(`Error fetching active threads: ${activeError}`);
-        }
-        
-        // If not found in active, check archived threads
-        if (!foundThread) {
-          try {
-            const archivedThreads = await channel.threads.fetchArchived();
-            console.log(`Archived threads in channel ${channel.name}: ${archivedThreads.threads.size}`);
-            
-            archivedThreads.threads.forEach(t => {
-              console.log(`- Archived thread: ${t.id} (${t.name})`);
-            });
-            
-            foundThread = archivedThreads.threads.get(thread.threadId);
-            if (foundThread) {
-              console.log(`Found thread ${thread.threadId} in archived threads`);
-              // Thread is already archived, consider this a success
-              return;
-            }
-          } catch (archivedError) {
-            console.error(`Error fetching archived threads: ${archivedError}`);
-          }
-        }
-        
-        // If still not found, try fetching directly
-        if (!foundThread) {
-          try {
-            foundThread = await channel.threads.fetch(thread.threadId);
-            console.log(`Successfully fetched thread directly: ${thread.threadId}`);
-          } catch (directFetchError) {
-            console.warn(`Error directly fetching thread ${thread.threadId}: ${directFetchError}`);
-          }
-        }
-        
-        // Process the found thread
-        if (foundThread) {
-          // Send a final message to the thread before archiving
-          try {
-            await foundThread.send({
-              content: `🔒 This thread was closed.`
-            });
-            console.log(`Sent final message to thread ${thread.threadId}`);
-          } catch (messageError) {
-            console.warn(`Could not send final message to thread: ${messageError}`);
-          }
-          
-          // First lock the thread to prevent further messages
-          try {
-            await foundThread.setLocked(true);
-            console.log(`Set thread ${thread.threadId} as locked`);
-          } catch (lockError) {
-            console.warn(`Error setting thread as locked: ${lockError}`);
-          }
-          
-          // Then archive the thread
-          try {
-            await foundThread.setArchived(true);
-            console.log(`Set thread ${thread.threadId} as archived`);
-          } catch (archiveError) {
-            console.warn(`Error setting thread as archived: ${archiveError}`);
-          }
-          
-          console.log(`Successfully archived expired thread: ${thread.threadId}`);
-          return; // Exit if successful
-        } else {
-          console.warn(`Thread ${thread.threadId} not found in active or archived threads`);
-        }
-      } catch (error: unknown) {
-        // Thread might already be archived or inaccessible
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.warn(`Thread ${thread.threadId} could not be archived: ${errorMessage}`);
+      const period = (interaction.options.getString('period') || 'week') as SeasonPeriod;
+      if (interaction.options.getSubcommand() === 'history') {
+        await this.showSeasonHistory(interaction, config, interaction.options.getString('period') as SeasonPeriod | null);
+      } else {
+        await this.showSeasonStandings(interaction, config, period, interaction.options.getString('season'));
       }
     } catch (error) {
-      console.error('Error archiving thread:', error);
+      console.error('Error handling leaderboard command:', error);
+      try {
+        await interaction.editReply('An error occurred while loading the leaderboard. Please try again later.');
+      } catch (replyError) {
+        console.error('Error sending error reply:', replyError);
+      }
       throw error;
     }
   }
   
+  /**
+   * Show a season's standings a page at a time: the final standings of a
+   * completed season, or the current standings of one still running
+   * @param interaction The deferred /leaderboard interaction
+   * @param config The guild's configuration
+   * @param period The season length
+   * @param requestedKey The season asked for, or null for the current one
+   */
+  private async showSeasonStandings(
+    interaction: ChatInputCommandInteraction,
+    config: BotConfig,
+    period: SeasonPeriod,
+    requestedKey: string | null
+  ) {
+    const currentKey = getSeasonKey(new Date(), period, config.timezone);
+    if (requestedKey && !isSeasonKey(requestedKey, period)) {
+      await interaction.editReply(`\`${requestedKey}\` is not a ${period === 'week' ? 'weekly' : 'monthly'} season. This one is \`${currentKey}\`.`);
+      return;
+    }
+    
+    const seasonKey = requestedKey || currentKey;
+    const completed = await storage.getSeason(config.guildId, period, seasonKey);
+    const { standings, threadCount } = completed || await seasonManager.getSeasonStandings(config, period, seasonKey);
+    const pointsTable = config.seasonPoints || DEFAULT_SEASON_POINTS;
+    const pageCount = Math.max(1, Math.ceil(standings.length / SEASON_PAGE_SIZE));
+    let page = 0;
+    
+    const buildStandingsEmbed = () => {
+      const shown = standings.slice(page * SEASON_PAGE_SIZE, (page + 1) * SEASON_PAGE_SIZE);
+      return new EmbedBuilder()
+        .setTitle(`🏆 ${formatSeasonName(seasonKey, period)} Standings`)
+        .setColor(completed ? 0xF1C40F : 0x3498DB)
+        .setDescription([
+          completed ? '**Final standings**' : seasonKey === currentKey ? '**In progress** • updates as results come in' : '**Not completed yet**',
+          '',
+          shown.length > 0
+            ? shown.map(standing => this.formatSeasonStanding(standing)).join('\n')
+            : 'No points scored yet. Submit results in the daily threads to earn points.'
+        ].join('\n'))
+        .setFooter({
+          text: `Page ${page + 1}/${pageCount} • ${threadCount} daily ${threadCount === 1 ? 'thread' : 'threads'} • Points ${pointsTable.join('/')}`
+        });
+    };
+    const buildRows = () => pageCount === 1 ? [] : [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId('season_prev')
+          .setStyle(ButtonStyle.Secondary)
+          .setEmoji('◀️')
+          .setDisabled(page === 0),
+        new ButtonBuilder()
+          .setCustomId('season_next')
+          .setStyle(ButtonStyle.Secondary)
+          .setEmoji('▶️')
+          .setDisabled(page === pageCount - 1)
+      )
+    ];
+    
+    const response = await interaction.editReply({ embeds: [buildStandingsEmbed()], components: buildRows() });
+    if (pageCount === 1) return;
+    
+    const collector = response.createMessageComponentCollector({
+      filter: i => i.user.id === interaction.user.id,
+      time: 5 * 60 * 1000
+    });
+    
+    collector.on('collect', async i => {
+      try {
+        page = Math.max(0, Math.min(pageCount - 1, page + (i.customId === 'season_next' ? 1 : -1)));
+        await i.update({ embeds: [buildStandingsEmbed()], components: buildRows() });
+      } catch (error) {
+        console.error('Error handling season standings page button:', error);
+      }
+    });
+    
+    collector.on('end', async () => {
+      try {
+        await response.edit({ components: [] });
+      } catch (error) {
+        console.error('Error removing buttons after collector end:', error);
+      }
+    });
+  }
+  
+  /**
+   * Show the winners of a guild's latest completed seasons
+   * @param interaction The deferred /leaderboard interaction
+   * @param config The guild's configuration
+   * @param period Only seasons of this length, or null for both
+   */
+  private async showSeasonHistory(interaction: ChatInputCommandInteraction, config: BotConfig, period: SeasonPeriod | null) {
+    const seasons = await storage.getSeasonsByGuild(config.guildId, period || undefined);
+    const shown = seasons.slice(0, 10);
+    
+    const lines = shown.map(season => {
+      const winners = season.standings.filter(standing => standing.rank === 1);
+      const winnerText = winners.length > 0
+        ? `🥇 ${winners.map(winner => `**${winner.username}**`).join(', ')} (${winners[0].points} pts)`
+        : 'No points scored';
+      const kind = season.period === 'week' ? 'Weekly' : 'Monthly';
+      return `**${formatSeasonName(season.seasonKey, season.period)}** • ${kind}\n${winnerText} • ${season.standings.length} ${season.standings.length === 1 ? 'member' : 'members'}`;
+    });
+    if (seasons.length > shown.length) {
+      lines.push(`…and ${seasons.length - shown.length} earlier`);
+    }
+    
+    const embed = new EmbedBuilder()
+      .setTitle('📜 Season History')
+      .setColor(0x9B59B6)
+      .setDescription(lines.length > 0 ? lines.join('\n\n') : 'No seasons have been completed yet.')
+      .setFooter({ text: 'See a season in full with /leaderboard season • Daily Scramble Bot' });
+    await interaction.editReply({ embeds: [embed] });
+  }
+  
+  /**
+   * Format a member's season standing as a leaderboard line
+   */
+  private formatSeasonStanding(standing: SeasonStanding): string {
+    const medals = ['🥇', '🥈', '🥉'];
+    const place = medals[standing.rank - 1] || `**${standing.rank}.**`;
+    const wins = standing.wins > 0 ? ` • ${standing.wins} ${standing.wins === 1 ? 'win' : 'wins'}` : '';
+    return `${place} **${standing.username}** — ${standing.points} pts • ${standing.threads} ${standing.threads === 1 ? 'event' : 'events'}${wins}`;
+  }
+  
+  /**
+   * Build the podium of a completed season
+   * @param season The completed season
+   * @returns The podium, or null if nobody scored
+   */
+  private buildSeasonPodiumEmbed(season: Season): EmbedBuilder | null {
+    const podium = season.standings.filter(standing => standing.rank <= 3);
+    if (podium.length === 0) return null;
+    
+    return new EmbedBuilder()
+      .setTitle(`🏁 ${formatSeasonName(season.seasonKey, season.period)} Season Results`)
+      .setColor(0xF1C40F)
+      .setDescription(podium.map(standing => this.formatSeasonStanding(standing)).join('\n'))
+      .addFields(
+        { name: '👥 Members', value: `${season.standings.length}`, inline: true },
+        { name: '🧵 Daily Threads', value: `${season.threadCount}`, inline: true }
+      )
+      .setFooter({ text: 'Full standings with /leaderboard season • Daily Scramble Bot' });
+  }
+  
+  /**
+   * Post the podium of a season that has just been completed to the guild's
+   * scramble channel
+   * @param config The guild's configuration
+   * @param season The completed season
+   */
+  async postSeasonResults(config: BotConfig, season: Season): Promise<void> {
+    if (!this.isReady) {
+      console.warn(`Discord client is not ready, ${season.period} season ${season.seasonKey} results not posted`);
+      return;
+    }
+    
+    const embed = this.buildSeasonPodiumEmbed(season);
+    if (!embed) {
+      console.log(`Nobody scored in ${season.period} season ${season.seasonKey} for guild ${config.guildId}, nothing to post`);
+      return;
+    }
+    
+    const channel = await this.getChannel(config.guildId, config.channelId);
+    if (!channel) {
+      console.error(`Channel ${config.channelId} not found, ${season.period} season ${season.seasonKey} results not posted`);
+      return;
+    }
+    
+    const message = await channel.send({ embeds: [embed] });
+    await storage.updateSeason(season.id, { announcementMessageId: message.id });
+    console.log(`✅ Posted ${season.period} season ${season.seasonKey} results in guild ${config.guildId}`);
+  }
+  
   /**
    * Manually create a scramble thread for a specific cube type
    * @param guildId The ID of the guild
@@ -1176,17 +2510,15 @@ class DiscordBot {
         throw new Error(`Channel ${channelId} is not a text channel or could not be found`);
       }
       
-      // Generate scramble for the specific cube type
-      const scrambleData = scrambleManager.generateScrambleForType(cubeType);
-      const scramble = scrambleData.scramble;
+      // Generate the scrambles for the specific cube type in the guild's format for it
+      const actualCubeType = scrambleManager.stringToCubeType(cubeType);
+      const config = await storage.getBotConfigByGuildId(guildId);
+      const format = scrambleManager.getEventFormat(actualCubeType, config?.eventFormats);
+      const scrambles = scrambleManager.generateScrambleSet(actualCubeType, format);
       
       // Create thread title - just the cube type
       const threadTitle = cubeType;
       
-      // Find the 'daily scramble ping' role in the guild
-      const pingRoleName = 'daily scramble ping';
-      const pingRoleId = await this.findRoleId(guild, pingRoleName);
-      
       // Create message content
       let content = `Daily Scramble Challenge`;
       
@@ -1198,32 +2530,14 @@ class DiscordBot {
         autoArchiveDuration: 1440,
       });
       
-      // Create thread content with formatted scramble in a box
-      const threadContent = `# Today's Daily Scramble!
-||@daily scramble ping||
-
-\`\`\`
-${scramble}
-\`\`\`
-
-Good luck! 🍀`;
+      // Create thread content with formatted scrambles in boxes
+      const threadContent = scrambleManager.formatThreadContent(scrambles, actualCubeType, format);
 
       // Handle role pings in the thread content
-      let modifiedThreadContent = threadContent;
-        
-      // If we found the role ID, replace the placeholder with the actual role mention
-      if (pingRoleId) {
-        modifiedThreadContent = threadContent.replace(
-          '||@daily scramble ping||',
-          `<@&${pingRoleId}>`
-        );
-      } else {
-        // Otherwise, just remove the placeholder
-        modifiedThreadContent = threadContent.replace('||@daily scramble ping||', '');
-      }
+      const modifiedThreadContent = await this.applyRolePing(guild, config?.pingRoleName || DEFAULT_PING_ROLE_NAME, threadContent);
       
       // Send content to thread with emoji reaction
-      let threadMessage = await thread.send(modifiedThreadContent);
+      let threadMessage = await this.sendChallengeMessages(thread, modifiedThreadContent, actualCubeType, format, scrambles);
       
       // Add emoji reaction based on cube type
       const emojiName = this.getCubeTypeCustomEmoji(cubeType);
@@ -1262,11 +2576,7 @@ Good luck! 🍀`;
         await thread.send({ embeds: [aprilFoolsEmbed] });
         
         // Add a follow-up message with a special "Rick Roll" scramble
-        await thread.send({
-          content: "**APRIL FOOLS BONUS SCRAMBLE:**\n" +
-                  "```\nR I C K R O L L D R' U' B' F' L' D' Y'\n```\n" +
-                  "(Just for fun! Use the real scramble above for today's challenge 😄)"
-        });
+        await thread.send({ content: this.getAprilFoolsBonusMessage(cubeType) });
       }
       
       // Calculate expiration time (24 hours from now)
@@ -1279,11 +2589,13 @@ Good luck! 🍀`;
         channelId: channel.id,
         guildId: guild.id,
         cubeType,
-        scramble,
+        format,
+        scrambles,
         expiresAt
       };
       
-      await storage.createChallengeThread(threadData);
+      const storedThread = await storage.createChallengeThread(threadData);
+      threadExpiryScheduler.scheduleThread(storedThread);
       
       return thread.id;
     } catch (error) {
@@ -1349,6 +2661,13 @@ Good luck! 🍀`;
       // Get the cube type from the options
       const cubeType = interaction.options.getString('cube_type', true);
       
+      // A cube count asks for a Multi-BLD set instead of a single scramble
+      const multiBldCount = interaction.options.getInteger('multi_bld');
+      if (multiBldCount !== null) {
+        await this.handleMultiBldScramble(interaction, cubeType, multiBldCount);
+        return;
+      }
+      
       // Generate a scramble for the selected cube type
       const scrambleResult = scrambleManager.generateScrambleForType(cubeType);
       
@@ -1389,7 +2708,8 @@ Good luck! 🍀`;
       // Send the embed with buttons
       const response = await interaction.editReply({ 
         embeds: [scrambleEmbed],
-        components: [row]
+        components: [row],
+        files: this.attachScramblePreview(scrambleEmbed, scrambleResult.cubeType, scrambleResult.scramble)
       });
       
       // Create a collector for button interactions
@@ -1398,9 +2718,10 @@ Good luck! 🍀`;
         time: 300000 // 5 minutes
       });
       
-      // Timer state
+      // Timer state, and the last timed solve for the penalty buttons
       let timerActive = false;
       let startTime = 0;
+      let lastSolve: ScramblePerformance | null = null;
       
       // Handle button interactions
       collector.on('collect', async i => {
@@ -1433,10 +2754,8 @@ Good luck! 🍀`;
             const elapsedTime = (endTime - startTime) / 1000; // Convert to seconds
             timerActive = false;
             
-            // Format time
-            const minutes = Math.floor(elapsedTime / 60);
-            const seconds = elapsedTime % 60;
-            const formattedTime = `${minutes > 0 ? `${minutes}m ` : ''}${seconds.toFixed(2)}s`;
+            // Save the solve so it counts in the analytics
+            lastSolve = await this.recordTimerSolve(interaction, scrambleResult.cubeType, scrambleResult.scramble, endTime - startTime, 'none');
             
             // Update embed with time result
             const resultEmbed = new EmbedBuilder()
@@ -1451,7 +2770,7 @@ Good luck! 🍀`;
                 },
                 {
                   name: '⏱️ Your Time',
-                  value: `**${formattedTime}**`,
+                  value: this.formatTimerSolve(endTime - startTime, 'none'),
                   inline: true
                 },
                 {
@@ -1463,18 +2782,13 @@ Good luck! 🍀`;
               .setFooter({ text: `Daily Scramble Bot • ${new Date().toLocaleString()}` });
             
             // New row with option to get another scramble
-            const newRow = new ActionRowBuilder<ButtonBuilder>()
-              .addComponents(
-                new ButtonBuilder()
-                  .setCustomId('new_scramble')
-                  .setLabel('New Scramble')
-                  .setStyle(ButtonStyle.Primary)
-                  .setEmoji('🔄')
-              );
+            const newRow = this.buildTimerResultRow('new_scramble', 'New Scramble', 'none');
             
             await i.update({ 
               embeds: [resultEmbed],
-              components: [newRow]
+              components: [newRow],
+              files: this.attachScramblePreview(resultEmbed, scrambleResult.cubeType, scrambleResult.scramble),
+              attachments: []
             });
           }
           else if (i.customId === 'new_scramble') {
@@ -1521,7 +2835,9 @@ Good luck! 🍀`;
             // Send the new embed with buttons
             const newResponse = await i.update({ 
               embeds: [newScrambleEmbed],
-              components: [row]
+              components: [row],
+              files: this.attachScramblePreview(newScrambleEmbed, newScrambleResult.cubeType, newScrambleResult.scramble),
+              attachments: []
             });
             
             // Create a new collector for the new scramble
@@ -1561,10 +2877,8 @@ Good luck! 🍀`;
                   const elapsedTime = (endTime - startTime) / 1000; // Convert to seconds
                   timerActive = false;
                   
-                  // Format time
-                  const minutes = Math.floor(elapsedTime / 60);
-                  const seconds = elapsedTime % 60;
-                  const formattedTime = `${minutes > 0 ? `${minutes}m ` : ''}${seconds.toFixed(2)}s`;
+                  // Save the solve so it counts in the analytics
+                  lastSolve = await this.recordTimerSolve(interaction, newScrambleResult.cubeType, newScrambleResult.scramble, endTime - startTime, 'none');
                   
                   // Update embed with time result
                   const resultEmbed = new EmbedBuilder()
@@ -1579,7 +2893,7 @@ Good luck! 🍀`;
                       },
                       {
                         name: '⏱️ Your Time',
-                        value: `**${formattedTime}**`,
+                        value: this.formatTimerSolve(endTime - startTime, 'none'),
                         inline: true
                       },
                       {
@@ -1591,22 +2905,24 @@ Good luck! 🍀`;
                     .setFooter({ text: `Daily Scramble Bot • ${new Date().toLocaleString()}` });
                   
                   // New row with option to get another scramble
-                  const newRow = new ActionRowBuilder<ButtonBuilder>()
-                    .addComponents(
-                      new ButtonBuilder()
-                        .setCustomId('new_scramble')
-                        .setLabel('New Scramble')
-                        .setStyle(ButtonStyle.Primary)
-                        .setEmoji('🔄')
-                    );
+                  const newRow = this.buildTimerResultRow('new_scramble', 'New Scramble', 'none');
                   
                   await j.update({ 
                     embeds: [resultEmbed],
-                    components: [newRow]
+                    components: [newRow],
+                    files: this.attachScramblePreview(resultEmbed, newScrambleResult.cubeType, newScrambleResult.scramble),
+                    attachments: []
                   });
                 }
+                else if (j.customId in TIMER_PENALTY_BUTTONS && lastSolve) {
+                  // Apply or remove a penalty on the last solve
+                  lastSolve = await this.applyTimerPenalty(j, lastSolve, 'new_scramble', 'New Scramble');
+                }
                 else if (j.customId === 'timer_cancel') {
-                  // Cancel timer
+                  // Cancel timer; a solve already under way counts as a DNF
+                  if (timerActive) {
+                    lastSolve = await this.recordTimerSolve(interaction, newScrambleResult.cubeType, newScrambleResult.scramble, Date.now() - startTime, 'DNF');
+                  }
                   timerActive = false;
                   newCollector.stop();
                   
@@ -1620,6 +2936,11 @@ Good luck! 🍀`;
             });
             
             newCollector.on('end', async (collected, reason) => {
+              // A solve still being timed when the buttons expire counts as a DNF
+              if (reason === 'time' && timerActive) {
+                timerActive = false;
+                await this.recordTimerSolve(interaction, newScrambleResult.cubeType, newScrambleResult.scramble, Date.now() - startTime, 'DNF');
+              }
               if (reason === 'time' && collected.size === 0) {
                 try {
                   await (i.message as Message).edit({ components: [] });
@@ -1629,8 +2950,15 @@ Good luck! 🍀`;
               }
             });
           }
+          else if (i.customId in TIMER_PENALTY_BUTTONS && lastSolve) {
+            // Apply or remove a penalty on the last solve
+            lastSolve = await this.applyTimerPenalty(i, lastSolve, 'new_scramble', 'New Scramble');
+          }
           else if (i.customId === 'timer_cancel') {
-            // Cancel timer
+            // Cancel timer; a solve already under way counts as a DNF
+            if (timerActive) {
+              lastSolve = await this.recordTimerSolve(interaction, scrambleResult.cubeType, scrambleResult.scramble, Date.now() - startTime, 'DNF');
+            }
             timerActive = false;
             collector.stop();
             
@@ -1644,6 +2972,11 @@ Good luck! 🍀`;
       });
       
       collector.on('end', async (collected, reason) => {
+        // A solve still being timed when the buttons expire counts as a DNF
+        if (reason === 'time' && timerActive) {
+          timerActive = false;
+          await this.recordTimerSolve(interaction, scrambleResult.cubeType, scrambleResult.scramble, Date.now() - startTime, 'DNF');
+        }
         if (reason === 'time' && collected.size === 0) {
           try {
             await interaction.editReply({ components: [] });
@@ -1659,9 +2992,205 @@ Good luck! 🍀`;
       } catch (replyError) {
         console.error('Error sending error reply:', replyError);
       }
+      throw error;
     }
   }
   
+  /**
+   * Handle /scramble with a Multi-BLD cube count: show the numbered set a page
+   * at a time with the whole set attached as a text file, time the attempt
+   * and record the result with its WCA points
+   * @param interaction The deferred /scramble interaction
+   * @param cubeType The cube type chosen, which must be 3x3 BLD
+   * @param count Number of cubes in the attempt
+   */
+  private async handleMultiBldScramble(interaction: ChatInputCommandInteraction, cubeType: string, count: number) {
+    if (cubeType !== cubeTypes.THREE_BLD) {
+      await interaction.editReply(`Multi-BLD sets are made of 3x3 BLD scrambles. Choose **${cubeTypes.THREE_BLD}** to get one.`);
+      return;
+    }
+    
+    const scrambles = scrambleManager.generateMultiBldSet(count);
+    const sheetLines = formatMultiBldSheet(scrambles).split('\n');
+    const timeLimitMs = getMultiBldTimeLimit(count);
+    const pageCount = Math.ceil(count / MULTI_BLD_PAGE_SIZE);
+    const emoji = this.getCubeTypeEmoji(cubeType);
+    
+    // Attempt state: the page shown and the timer
+    let page = 0;
+    let stage: 'ready' | 'running' | 'stopped' = 'ready';
+    let startTime = 0;
+    let elapsedMs = 0;
+    
+    const buildSetEmbed = () => new EmbedBuilder()
+      .setTitle(`${emoji} Multi-BLD Attempt: ${count} Cubes`)
+      .setColor(0x3498DB)
+      .setDescription(`\`\`\`\n${sheetLines.slice(page * MULTI_BLD_PAGE_SIZE, (page + 1) * MULTI_BLD_PAGE_SIZE).join('\n')}\n\`\`\``)
+      .addFields(
+        { name: '⏰ Time Limit', value: formatMultiBldTime(timeLimitMs), inline: true },
+        {
+          name: '⏱️ Timer',
+          value: stage === 'ready' ? 'Not started' : stage === 'running' ? 'Running' : formatMultiBldTime(elapsedMs),
+          inline: true
+        },
+        {
+          name: 'How to use',
+          value: 'Start the timer when you start memorising and stop it when you are done, then enter how many cubes you solved. The full set is in the attached file.',
+          inline: false
+        }
+      )
+      .setFooter({ text: `Page ${page + 1}/${pageCount} • Daily Scramble Bot` });
+    
+    const buildRows = () => {
+      const buttons = [
+        new ButtonBuilder()
+          .setCustomId('multibld_prev')
+          .setStyle(ButtonStyle.Secondary)
+          .setEmoji('◀️')
+          .setDisabled(page === 0),
+        new ButtonBuilder()
+          .setCustomId('multibld_next')
+          .setStyle(ButtonStyle.Secondary)
+          .setEmoji('▶️')
+          .setDisabled(page === pageCount - 1)
+      ];
+      if (stage === 'ready') {
+        buttons.push(new ButtonBuilder().setCustomId('multibld_start').setLabel('Start Timer').setStyle(ButtonStyle.Primary).setEmoji('⏱️'));
+      } else if (stage === 'running') {
+        buttons.push(new ButtonBuilder().setCustomId('multibld_stop').setLabel('Stop Timer').setStyle(ButtonStyle.Danger).setEmoji('⏹️'));
+      } else {
+        buttons.push(new ButtonBuilder().setCustomId('multibld_result').setLabel('Enter Result').setStyle(ButtonStyle.Success).setEmoji('📝'));
+      }
+      buttons.push(new ButtonBuilder().setCustomId('multibld_cancel').setLabel('Cancel').setStyle(ButtonStyle.Secondary).setEmoji('❌'));
+      return [new ActionRowBuilder<ButtonBuilder>().addComponents(buttons)];
+    };
+    
+    const sheetFile = new AttachmentBuilder(Buffer.from(`${MULTI_BLD_EVENT} (${count} cubes)\n\n${sheetLines.join('\n')}\n`), {
+      name: `multi-bld-${count}-scrambles.txt`
+    });
+    const response = await interaction.editReply({
+      embeds: [buildSetEmbed()],
+      components: buildRows(),
+      files: [sheetFile]
+    });
+    
+    // Leave time for a whole attempt plus entering the result
+    const collector = response.createMessageComponentCollector({
+      filter: i => i.user.id === interaction.user.id,
+      time: timeLimitMs + 30 * 60 * 1000
+    });
+    
+    collector.on('collect', async i => {
+      try {
+        if (i.customId === 'multibld_prev' || i.customId === 'multibld_next') {
+          page = Math.max(0, Math.min(pageCount - 1, page + (i.customId === 'multibld_next' ? 1 : -1)));
+          await i.update({ embeds: [buildSetEmbed()], components: buildRows() });
+        } else if (i.customId === 'multibld_start' && stage === 'ready') {
+          stage = 'running';
+          startTime = Date.now();
+          await i.update({ embeds: [buildSetEmbed()], components: buildRows() });
+        } else if (i.customId === 'multibld_stop' && stage === 'running') {
+          stage = 'stopped';
+          elapsedMs = Date.now() - startTime;
+          await i.update({ embeds: [buildSetEmbed()], components: buildRows() });
+        } else if (i.customId === 'multibld_result' && stage === 'stopped') {
+          const modalId = `multibld_result_${i.id}`;
+          const modal = new ModalBuilder()
+            .setCustomId(modalId)
+            .setTitle('Multi-BLD Result')
+            .addComponents(
+              new ActionRowBuilder<TextInputBuilder>().addComponents(
+                new TextInputBuilder()
+                  .setCustomId('solved')
+                  .setLabel(`Cubes solved within the time limit (0-${count})`)
+                  .setStyle(TextInputStyle.Short)
+                  .setRequired(true)
+                  .setMaxLength(2)
+              )
+            );
+          await i.showModal(modal);
+          
+          const submitted = await i.awaitModalSubmit({
+            filter: m => m.customId === modalId && m.user.id === interaction.user.id,
+            time: 5 * 60 * 1000
+          }).catch(() => null);
+          if (!submitted) return;
+          
+          const solved = Number(submitted.fields.getTextInputValue('solved').trim());
+          if (!Number.isInteger(solved) || solved < 0 || solved > count) {
+            await submitted.reply({ content: `Enter a whole number of cubes from 0 to ${count}.`, ephemeral: true });
+            return;
+          }
+          
+          const result = scoreMultiBld(solved, count, elapsedMs);
+          collector.stop('recorded');
+          
+          try {
+            await storage.recordScramblePerformance({
+              userId: interaction.user.id,
+              guildId: interaction.guildId,
+              cubeType: MULTI_BLD_EVENT,
+              scramble: scrambles.join('\n'),
+              solveTime: result.timeMs,
+              penalty: result.dnf ? 'DNF' : 'none',
+              isCustomScramble: false,
+              customParameters: {
+                scrambles,
+                attempted: result.attempted,
+                solved: result.solved,
+                points: result.points,
+                dnf: result.dnf,
+                timeLimitMs: result.timeLimitMs
+              }
+            });
+            console.log(`✅ Recorded Multi-BLD result ${formatMultiBldResult(result)} for ${interaction.user.username}`);
+          } catch (recordError) {
+            console.error('Error recording Multi-BLD result:', recordError);
+          }
+          
+          const resultEmbed = new EmbedBuilder()
+            .setTitle(`${emoji} Multi-BLD Result`)
+            .setColor(result.dnf ? 0xE74C3C : 0x2ECC71)
+            .setDescription(`**${formatMultiBldResult(result)}**`)
+            .addFields(
+              { name: '🧠 Solved', value: `${result.solved}/${result.attempted}`, inline: true },
+              { name: '🏆 Points', value: `${result.points}`, inline: true },
+              { name: '⏱️ Time', value: formatMultiBldTime(result.timeMs), inline: true }
+            )
+            .setFooter({ text: `Daily Scramble Bot • ${new Date().toLocaleString()}` });
+          if (elapsedMs > timeLimitMs) {
+            resultEmbed.addFields({
+              name: '⏰ Time Limit Reached',
+              value: `The attempt counts at the limit of ${formatMultiBldTime(timeLimitMs)}.`,
+              inline: false
+            });
+          }
+          
+          if (submitted.isFromMessage()) {
+            await submitted.update({ embeds: [resultEmbed], components: [] });
+          } else {
+            await submitted.reply({ embeds: [resultEmbed] });
+          }
+        } else if (i.customId === 'multibld_cancel') {
+          collector.stop('cancelled');
+          await i.update({ components: [] });
+        }
+      } catch (error) {
+        console.error('Error handling Multi-BLD button interaction:', error);
+      }
+    });
+    
+    collector.on('end', async (collected, reason) => {
+      if (reason === 'time') {
+        try {
+          await response.edit({ components: [] });
+        } catch (error) {
+          console.error('Error removing buttons after collector end:', error);
+        }
+      }
+    });
+  }
+  
   /**
    * Handle the /custom-scramble command to generate a custom scramble with specific parameters
    */
@@ -1719,7 +3248,8 @@ Good luck! 🍀`;
       // Send the embed with buttons
       const response = await interaction.editReply({ 
         embeds: [scrambleEmbed],
-        components: [row]
+        components: [row],
+        files: this.attachScramblePreview(scrambleEmbed, scrambleResult.cubeType, scrambleResult.scramble)
       });
       
       // Create a collector for button interactions
@@ -1728,9 +3258,10 @@ Good luck! 🍀`;
         time: 300000 // 5 minutes
       });
       
-      // Timer state
+      // Timer state, and the last timed solve for the penalty buttons
       let timerActive = false;
       let startTime = 0;
+      let lastSolve: ScramblePerformance | null = null;
       
       // Handle button interactions
       collector.on('collect', async i => {
@@ -1763,10 +3294,8 @@ Good luck! 🍀`;
             const elapsedTime = (endTime - startTime) / 1000; // Convert to seconds
             timerActive = false;
             
-            // Format time
-            const minutes = Math.floor(elapsedTime / 60);
-            const seconds = elapsedTime % 60;
-            const formattedTime = `${minutes > 0 ? `${minutes}m ` : ''}${seconds.toFixed(2)}s`;
+            // Save the solve so it counts in the analytics
+            lastSolve = await this.recordTimerSolve(interaction, scrambleResult.cubeType, scrambleResult.scramble, endTime - startTime, 'none', scrambleResult.customParameters);
             
             // Update embed with time result
             const resultEmbed = new EmbedBuilder()
@@ -1786,7 +3315,7 @@ Good luck! 🍀`;
                 },
                 {
                   name: '⏱️ Your Time',
-                  value: `**${formattedTime}**`,
+                  value: this.formatTimerSolve(endTime - startTime, 'none'),
                   inline: true
                 },
                 {
@@ -1798,18 +3327,13 @@ Good luck! 🍀`;
               .setFooter({ text: `Daily Scramble Bot • ${new Date().toLocaleString()}` });
             
             // New row with option to get another scramble
-            const newRow = new ActionRowBuilder<ButtonBuilder>()
-              .addComponents(
-                new ButtonBuilder()
-                  .setCustomId('new_custom_scramble')
-                  .setLabel('New Custom Scramble')
-                  .setStyle(ButtonStyle.Primary)
-                  .setEmoji('🔄')
-              );
+            const newRow = this.buildTimerResultRow('new_custom_scramble', 'New Custom Scramble', 'none');
             
             await i.update({ 
               embeds: [resultEmbed],
-              components: [newRow]
+              components: [newRow],
+              files: this.attachScramblePreview(resultEmbed, scrambleResult.cubeType, scrambleResult.scramble),
+              attachments: []
             });
           }
           else if (i.customId === 'new_custom_scramble') {
@@ -1861,11 +3385,20 @@ Good luck! 🍀`;
             // Send the new embed with buttons
             await i.update({ 
               embeds: [newScrambleEmbed],
-              components: [row]
+              components: [row],
+              files: this.attachScramblePreview(newScrambleEmbed, newScrambleResult.cubeType, newScrambleResult.scramble),
+              attachments: []
             });
           }
+          else if (i.customId in TIMER_PENALTY_BUTTONS && lastSolve) {
+            // Apply or remove a penalty on the last solve
+            lastSolve = await this.applyTimerPenalty(i, lastSolve, 'new_custom_scramble', 'New Custom Scramble');
+          }
           else if (i.customId === 'timer_cancel') {
-            // Cancel timer
+            // Cancel timer; a solve already under way counts as a DNF
+            if (timerActive) {
+              lastSolve = await this.recordTimerSolve(interaction, scrambleResult.cubeType, scrambleResult.scramble, Date.now() - startTime, 'DNF', scrambleResult.customParameters);
+            }
             timerActive = false;
             collector.stop();
             
@@ -1879,6 +3412,11 @@ Good luck! 🍀`;
       });
       
       collector.on('end', async (collected, reason) => {
+        // A solve still being timed when the buttons expire counts as a DNF
+        if (reason === 'time' && timerActive) {
+          timerActive = false;
+          await this.recordTimerSolve(interaction, scrambleResult.cubeType, scrambleResult.scramble, Date.now() - startTime, 'DNF', scrambleResult.customParameters);
+        }
         if (reason === 'time' && collected.size === 0) {
           try {
             await interaction.editReply({ components: [] });
@@ -1894,9 +3432,139 @@ Good luck! 🍀`;
       } catch (replyError) {
         console.error('Error sending error reply:', replyError);
       }
+      throw error;
     }
   }
 
+  /**
+   * Save a solve timed with the /scramble or /custom-scramble buttons
+   * @param interaction The command the scramble was generated for
+   * @param cubeType The cube type of the scramble
+   * @param scramble The scramble solved
+   * @param timeMs Time on the timer in milliseconds
+   * @param penalty Penalty on the solve; a cancelled solve is a DNF
+   * @param customParameters Parameters of a custom scramble (optional)
+   * @returns The stored solve, or null if it could not be saved
+   */
+  private async recordTimerSolve(
+    interaction: ChatInputCommandInteraction,
+    cubeType: string,
+    scramble: string,
+    timeMs: number,
+    penalty: SolvePenalty,
+    customParameters?: Record<string, unknown>
+  ): Promise<ScramblePerformance | null> {
+    try {
+      const solve = await storage.recordScramblePerformance({
+        userId: interaction.user.id,
+        guildId: interaction.guildId,
+        cubeType,
+        scramble,
+        solveTime: timeMs,
+        penalty,
+        isCustomScramble: customParameters !== undefined,
+        customParameters: customParameters ?? null
+      });
+      console.log(`✅ Recorded ${cubeType} timer solve ${this.formatTimerTime(timeMs)}${penalty === 'none' ? '' : ` (${penalty})`} for ${interaction.user.username}`);
+      return solve;
+    } catch (error) {
+      console.error('Error recording timer solve:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Format a timer reading, e.g. "12.34s" or "1m 2.34s"
+   */
+  private formatTimerTime(timeMs: number): string {
+    const elapsedTime = timeMs / 1000;
+    const minutes = Math.floor(elapsedTime / 60);
+    const seconds = elapsedTime % 60;
+    return `${minutes > 0 ? `${minutes}m ` : ''}${seconds.toFixed(2)}s`;
+  }
+  
+  /**
+   * Format a timed solve with its penalty for the "Your Time" field
+   */
+  private formatTimerSolve(timeMs: number, penalty: SolvePenalty): string {
+    if (penalty === 'DNF') return `**DNF** (${this.formatTimerTime(timeMs)})`;
+    if (penalty === '+2') return `**${this.formatTimerTime(timeMs + 2000)}** (${this.formatTimerTime(timeMs)} +2)`;
+    return `**${this.formatTimerTime(timeMs)}**`;
+  }
+  
+  /**
+   * Row shown under a timed solve: a button for another scramble and the
+   * penalty buttons, with the current penalty's button disabled
+   * @param newScrambleId Custom ID of the button for another scramble
+   * @param newScrambleLabel Label of the button for another scramble
+   * @param penalty Current penalty on the solve
+   */
+  private buildTimerResultRow(newScrambleId: string, newScrambleLabel: string, penalty: SolvePenalty): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>()
+      .addComponents(
+        new ButtonBuilder()
+          .setCustomId(newScrambleId)
+          .setLabel(newScrambleLabel)
+          .setStyle(ButtonStyle.Primary)
+          .setEmoji('🔄'),
+        new ButtonBuilder()
+          .setCustomId('timer_penalty_none')
+          .setLabel('OK')
+          .setStyle(ButtonStyle.Secondary)
+          .setDisabled(penalty === 'none'),
+        new ButtonBuilder()
+          .setCustomId('timer_penalty_plus2')
+          .setLabel('+2')
+          .setStyle(ButtonStyle.Secondary)
+          .setDisabled(penalty === '+2'),
+        new ButtonBuilder()
+          .setCustomId('timer_penalty_dnf')
+          .setLabel('DNF')
+          .setStyle(ButtonStyle.Secondary)
+          .setDisabled(penalty === 'DNF')
+      );
+  }
+  
+  /**
+   * Apply a penalty button to the last timed solve: update the stored solve
+   * and the time shown in the message
+   * @param i The penalty button interaction
+   * @param solve The solve shown in the message
+   * @param newScrambleId Custom ID of the message's button for another scramble
+   * @param newScrambleLabel Label of the message's button for another scramble
+   * @returns The updated solve
+   */
+  private async applyTimerPenalty(
+    i: MessageComponentInteraction,
+    solve: ScramblePerformance,
+    newScrambleId: string,
+    newScrambleLabel: string
+  ): Promise<ScramblePerformance> {
+    const penalty = TIMER_PENALTY_BUTTONS[i.customId];
+    const updated = await storage.updateScramblePerformance(solve.id, { penalty }) || { ...solve, penalty };
+    
+    const resultEmbed = EmbedBuilder.from(i.message.embeds[0]);
+    const timeFieldIndex = (resultEmbed.data.fields || []).findIndex(field => field.name === '⏱️ Your Time');
+    if (timeFieldIndex >= 0) {
+      resultEmbed.spliceFields(timeFieldIndex, 1, {
+        name: '⏱️ Your Time',
+        value: this.formatTimerSolve(solve.solveTime ?? 0, penalty),
+        inline: true
+      });
+    }
+    // Keep showing the attached preview rather than a copy of it
+    if (resultEmbed.data.image) {
+      resultEmbed.setImage(`attachment://${SCRAMBLE_IMAGE_NAME}`);
+    }
+    
+    await i.update({
+      embeds: [resultEmbed],
+      components: [this.buildTimerResultRow(newScrambleId, newScrambleLabel, penalty)]
+    });
+    console.log(`✅ Set penalty ${penalty} on timer solve ${solve.id}`);
+    return updated;
+  }
+  
   /**
    * Get a rating for a solve time (just for fun)
    * @param time The solve time in seconds
@@ -1916,7 +3584,7 @@ Good luck! 🍀`;
   
   /**
    * Handle the /react_emoji command to set custom emoji reactions for cube types
-   * Only allows users with the "Owner{Pin if problem.}" role to use this command
+   * Only allows users with the guild's admin role (default "Owner{Pin if problem.}") to use this command
    */
   private async handleReactEmojiCommand(interaction: ChatInputCommandInteraction) {
     console.log(`handleReactEmojiCommand called by ${interaction.user.tag}`);
@@ -1933,7 +3601,9 @@ Good luck! 🍀`;
       }
       
       console.log('Checking user roles...');
-      // Check if the user has the "Owner{Pin if problem.}" role or is an Administrator
+      // Check if the user has the guild's admin role or is an Administrator
+      const config = await storage.getBotConfigByGuildId(interaction.guildId);
+      const adminRoleName = config?.adminRoleName || DEFAULT_ADMIN_ROLE_NAME;
       const member = await interaction.guild!.members.fetch(interaction.user.id);
       
       // Log all roles the user has
@@ -1941,7 +3611,7 @@ Good luck! 🍀`;
       
       // Check if user has the Owner role or has Administrator permissions
       const isOwner = member.roles.cache.some(
-        role => role.name === 'Owner{Pin if problem.}'
+        role => role.name === adminRoleName
       );
       
       const isAdmin = member.permissions.has('Administrator');
@@ -1954,8 +3624,11 @@ Good luck! 🍀`;
       console.log(`User permissions - Is Owner: ${isOwner}, Is Admin: ${isAdmin}, Is Specific User: ${isSpecificUser}, Has required permission: ${hasRequiredPermission}`);
       
       if (!hasRequiredPermission) {
+        await recordAudit(getDiscordActor(interaction.user), auditActions.REACT_EMOJI_SET, {
+          guildId: interaction.guildId, parameters: { cubeType: interaction.options.getString('cube_type') }, result: auditResults.DENIED, error: 'Missing admin role'
+        });
         await interaction.editReply(
-          'You need the "Owner{Pin if problem.}" role, Administrator permissions, or be a specifically allowed user to use this command.'
+          `You need the "${adminRoleName}" role, Administrator permissions, or be a specifically allowed user to use this command.`
         );
         return;
       }
@@ -2061,7 +3734,14 @@ Good luck! 🍀`;
         '3x3': '🟦',
         'Pyraminx': '🔺',
         '3x3 OH': '🤚',
-        'Clock': '🕙'
+        'Clock': '🕙',
+        '4x4': '🟧',
+        '5x5': '🟩',
+        '6x6': '🟪',
+        '7x7': '🟫',
+        'Megaminx': '⭐',
+        'Square-1': '🔲',
+        '3x3 FMC': '🦶'
       };
       
       // Create a combined map for display purposes
@@ -2084,14 +3764,21 @@ Good luck! 🍀`;
       
       await interaction.editReply({ embeds: [embed] });
       
+      await recordAudit(getDiscordActor(interaction.user), auditActions.REACT_EMOJI_SET, {
+        guildId: interaction.guildId, parameters: { cubeType, emoji }, result: auditResults.SUCCESS
+      });
       console.log(`Emoji for ${cubeType} updated to ${emoji} by ${interaction.user.tag}`);
     } catch (error) {
       console.error('Error handling react_emoji command:', error);
+      await recordAudit(getDiscordActor(interaction.user), auditActions.REACT_EMOJI_SET, {
+        guildId: interaction.guildId, parameters: { cubeType: interaction.options.getString('cube_type') }, result: auditResults.FAILURE, error
+      });
       try {
         await interaction.editReply('An error occurred while updating the emoji configuration. Please try again later.');
       } catch (replyError) {
         console.error('Error sending error reply:', replyError);
       }
+      throw error;
     }
   }
   
@@ -0,0 +1,144 @@
+import { CommandInteractionOption, Interaction } from 'discord.js';
+import { storage } from '../storage';
+import { InsertDailyAnalytics } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Discord shows "This interaction failed" if an interaction is not answered by then
+const ANSWER_DEADLINE_MS = 3000;
+const ANSWER_POLL_MS = 250;
+
+/**
+ * Class to record every slash command, button and modal a member uses, and
+ * roll each day's uses up into the daily analytics
+ * Wraps the interaction dispatch, so individual handlers need not know about it.
+ */
+export class CommandUsageTracker {
+  /**
+   * Run an interaction's handler and record its use
+   * Slash commands and dispatched buttons and modals are timed. Buttons and
+   * modals handled by a command's collector are recorded without a time, as a
+   * timeout if the collector failed to answer them in time. A handler that
+   * throws, including after replying with an error message, is recorded as an
+   * error and the error passed on.
+   * @param interaction The interaction received
+   * @param dispatch Runs the interaction's handler
+   */
+  async track(interaction: Interaction, dispatch: () => Promise<boolean>): Promise<void> {
+    const commandName = this.getCommandName(interaction);
+    const startTime = Date.now();
+
+    let handled = false;
+    try {
+      handled = await dispatch();
+    } catch (error) {
+      if (commandName) {
+        await this.record(interaction, commandName, 'error', Date.now() - startTime, error);
+      }
+      throw error;
+    }
+
+    if (!commandName) return;
+    if (!handled) {
+      const answered = await this.waitForAnswer(interaction, startTime);
+      await this.record(interaction, commandName, answered ? 'success' : 'timeout', null);
+      return;
+    }
+
+    // A handler that never answered left the member with "The application did not respond"
+    const answered = !interaction.isRepliable() || interaction.replied || interaction.deferred;
+    await this.record(interaction, commandName, answered ? 'success' : 'timeout', Date.now() - startTime);
+  }
+
+  /**
+   * Roll a UTC day's command uses up into its daily analytics
+   * Recomputed from the uses each time, so it is safe to run again; the
+   * day's scramble and challenge metrics are kept as they are.
+   * @param day Any moment of the UTC day to roll up
+   */
+  async rollUpDay(day: Date): Promise<void> {
+    const start = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()));
+    const end = new Date(start.getTime() + DAY_MS);
+    const uses = await storage.getCommandUsageRange(start, end);
+
+    const commandBreakdown: Record<string, number> = {};
+    uses.forEach(use => {
+      commandBreakdown[use.commandName] = (commandBreakdown[use.commandName] || 0) + 1;
+    });
+    const timed = uses.filter(use => use.executionTime !== null);
+    const averageResponseTime = timed.length > 0
+      ? Math.round(timed.reduce((sum, use) => sum + (use.executionTime as number), 0) / timed.length)
+      : null;
+
+    const existing = await storage.getDailyAnalytics(start);
+    await storage.createOrUpdateDailyAnalytics(start, {
+      totalCommands: uses.length,
+      commandBreakdown,
+      dailyActiveUsers: new Set(uses.map(use => use.userId)).size,
+      averageResponseTime,
+      errorCount: uses.filter(use => use.status !== 'success').length,
+      scrambleUsage: existing?.scrambleUsage as InsertDailyAnalytics['scrambleUsage'],
+      dailyChallengeMetrics: existing?.dailyChallengeMetrics as InsertDailyAnalytics['dailyChallengeMetrics']
+    });
+    console.log(`📊 Rolled up ${uses.length} command uses for ${start.toISOString().split('T')[0]}`);
+  }
+
+  /**
+   * The name an interaction is recorded under: the slash command's name, or
+   * the button or modal's custom ID without any trailing numeric ID
+   * @returns undefined for interactions that are not recorded, e.g. autocomplete
+   */
+  private getCommandName(interaction: Interaction): string | undefined {
+    if (interaction.isChatInputCommand()) return interaction.commandName;
+    if (interaction.isButton()) return `button:${interaction.customId.replace(/_\d+$/, '')}`;
+    if (interaction.isModalSubmit()) return `modal:${interaction.customId.replace(/_\d+$/, '')}`;
+    return undefined;
+  }
+
+  /**
+   * Wait for an interaction handled elsewhere, e.g. by a command's collector,
+   * to be answered, until Discord's deadline for answering it
+   * @returns Whether it was answered in time
+   */
+  private async waitForAnswer(interaction: Interaction, startTime: number): Promise<boolean> {
+    if (!interaction.isRepliable()) return true;
+    while (!interaction.replied && !interaction.deferred) {
+      if (Date.now() - startTime >= ANSWER_DEADLINE_MS) return false;
+      await new Promise(resolve => setTimeout(resolve, ANSWER_POLL_MS));
+    }
+    return true;
+  }
+
+  /**
+   * The options a slash command was run with, subcommands included
+   */
+  private getOptionValues(options: readonly CommandInteractionOption[]): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    options.forEach(option => {
+      values[option.name] = option.options ? this.getOptionValues(option.options) : option.value;
+    });
+    return values;
+  }
+
+  /**
+   * Store one use; failing to record it never affects the member
+   */
+  private async record(interaction: Interaction, commandName: string, status: 'success' | 'error' | 'timeout', executionTime: number | null, error?: unknown) {
+    try {
+      await storage.logCommandUsage({
+        commandName,
+        userId: interaction.user.id,
+        guildId: interaction.guildId,
+        channelId: interaction.channelId,
+        parameters: interaction.isChatInputCommand() ? this.getOptionValues(interaction.options.data) : null,
+        executionTime,
+        status,
+        error: error === undefined ? null : (error instanceof Error ? error.message : String(error)).slice(0, 500)
+      });
+    } catch (recordError) {
+      console.error(`Error recording use of ${commandName}:`, recordError);
+    }
+  }
+}
+
+export const commandUsageTracker = new CommandUsageTracker();
@@ -0,0 +1,152 @@
+import { storage } from '../storage';
+import { BotConfig, CubeType, DailyPost, dailyPostStatuses } from '@shared/schema';
+import { getLocalDateKey, getPreviousDailyRun } from '@shared/timeZones';
+import { scrambleManager } from './scrambleManager';
+
+// A post still pending after this long was cut off (e.g. by a restart) and may be tried again
+const PENDING_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Class to keep a record of every daily post a guild is due, so each event
+ * is posted once per guild and date however often the post is triggered, and
+ * a post missed while the bot was down can be made late
+ */
+export class DailyPostManager {
+  /**
+   * The guild's calendar date a post is for, e.g. "2026-10-19"
+   * @param config The guild's configuration, for its time zone
+   * @param scheduledFor When the post is due
+   */
+  getPostDate(config: BotConfig, scheduledFor: Date): string {
+    return getLocalDateKey(scheduledFor, config.timezone);
+  }
+
+  /**
+   * Whether a post still has to be made: it was never tried, it failed, or
+   * an attempt at it was cut off
+   */
+  private isOutstanding(post: DailyPost | undefined): boolean {
+    if (!post || post.status === dailyPostStatuses.FAILED) return true;
+    return post.status === dailyPostStatuses.PENDING && Date.now() - post.updatedAt.getTime() >= PENDING_TIMEOUT_MS;
+  }
+
+  /**
+   * The events of a day's post that have not been posted yet
+   * @param config The guild's configuration
+   * @param scheduledFor When the post is due
+   * @returns The events still to post, in posting order; empty on a rest day
+   * or once every event is posted
+   */
+  async getOutstandingEvents(config: BotConfig, scheduledFor: Date): Promise<CubeType[]> {
+    const postDate = this.getPostDate(config, scheduledFor);
+    const events = scrambleManager.getEventsForDay(scheduledFor, config.schedule, config.timezone);
+    const posts = await Promise.all(events.map(event => storage.getDailyPost(config.guildId, postDate, event)));
+    return events.filter((_, i) => this.isOutstanding(posts[i]));
+  }
+
+  /**
+   * Discord IDs of the threads already posted for a day
+   * @param config The guild's configuration
+   * @param scheduledFor When the post is due
+   */
+  async getPostedThreadIds(config: BotConfig, scheduledFor: Date): Promise<string[]> {
+    const postDate = this.getPostDate(config, scheduledFor);
+    const posts = await storage.getDailyPostsByGuild(config.guildId);
+    return posts
+      .filter(post => post.postDate === postDate && post.status === dailyPostStatuses.POSTED && post.threadId)
+      .map(post => post.threadId as string);
+  }
+
+  /**
+   * Claim an event's daily post before making it, so no other run makes it too
+   * @param config The guild's configuration
+   * @param cubeType The event
+   * @param scheduledFor When the post is due
+   * @param isCatchUp Whether the post is being made late
+   * @returns The post's record, now pending; or null if the event was already
+   * posted that day or another run is posting it
+   */
+  async claimPost(config: BotConfig, cubeType: CubeType, scheduledFor: Date, isCatchUp: boolean = false): Promise<DailyPost | null> {
+    const postDate = this.getPostDate(config, scheduledFor);
+    const existing = await storage.getDailyPost(config.guildId, postDate, cubeType);
+
+    if (!existing) {
+      try {
+        return await storage.createDailyPost({
+          guildId: config.guildId,
+          postDate,
+          cubeType,
+          status: dailyPostStatuses.PENDING,
+          scheduledFor,
+          attempts: 1,
+          isCatchUp
+        });
+      } catch (error) {
+        // Another run recorded the post first
+        console.log(`Daily ${cubeType} post for guild ${config.guildId} on ${postDate} was claimed by another run`);
+        return null;
+      }
+    }
+
+    if (!this.isOutstanding(existing)) {
+      console.log(`Daily ${cubeType} post for guild ${config.guildId} on ${postDate} is already ${existing.status}, skipping`);
+      return null;
+    }
+
+    const retried = await storage.updateDailyPost(existing.id, {
+      status: dailyPostStatuses.PENDING,
+      attempts: existing.attempts + 1,
+      error: null,
+      isCatchUp
+    });
+    return retried ?? null;
+  }
+
+  /**
+   * Record that a claimed post was made
+   * @param post The claimed post
+   * @param threadId The Discord thread it was posted in
+   */
+  async markPosted(post: DailyPost, threadId: string): Promise<void> {
+    await storage.updateDailyPost(post.id, { status: dailyPostStatuses.POSTED, threadId, error: null });
+  }
+
+  /**
+   * Record that a claimed post failed
+   * @param post The claimed post
+   * @param error Why it failed
+   */
+  async markFailed(post: DailyPost, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    await storage.updateDailyPost(post.id, { status: dailyPostStatuses.FAILED, error: message.slice(0, 500) });
+  }
+
+  /**
+   * Find the guild's latest daily post if it is due, not fully made, and still
+   * within the guild's catch-up window
+   * @param config The guild's configuration
+   * @param now The moment to look from (default: now)
+   * @returns When the post was due, or null if there is nothing to catch up on
+   */
+  async findMissedPost(config: BotConfig, now: Date = new Date()): Promise<Date | null> {
+    if (!config.enabled || config.catchUpHours <= 0) return null;
+
+    const scheduledFor = getPreviousDailyRun(config.timeToPost, config.timezone, now);
+    if (now.getTime() - scheduledFor.getTime() > config.catchUpHours * 60 * 60 * 1000) return null;
+
+    const events = await this.getOutstandingEvents(config, scheduledFor);
+    return events.length > 0 ? scheduledFor : null;
+  }
+
+  /**
+   * A guild's latest failed posts, newest first
+   * @param guildId The guild
+   * @param limit Most posts to return
+   */
+  async getRecentFailures(guildId: string, limit: number = 5): Promise<DailyPost[]> {
+    const posts = await storage.getDailyPostsByGuild(guildId, 50);
+    return posts.filter(post => post.status === dailyPostStatuses.FAILED).slice(0, limit);
+  }
+}
+
+export const dailyPostManager = new DailyPostManager();
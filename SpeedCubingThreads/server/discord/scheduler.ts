@@ -2,7 +2,17 @@ import cron from 'node-cron';
 import { storage } from '../storage';
 import { scrambleManager } from './scrambleManager';
 import { discordBot } from './bot';
-import { daySchedule } from '@shared/schema';
+import { seasonManager } from './seasonManager';
+import { dailyPostManager } from './dailyPostManager';
+import { threadExpiryScheduler } from './threadExpiryScheduler';
+import { commandUsageTracker } from './commandUsageTracker';
+import { systemMetricsSampler } from './systemMetricsSampler';
+import { BotConfig, CubeType, ArchiveOutcome, closedArchiveOutcomes, defaultWeeklySchedule } from '@shared/schema';
+import { SEASON_PERIODS, getPreviousSeasonKey } from '@shared/seasons';
+import { getNextDailyRun, getLocalDay, getLocalDayOfWeek, formatZonedTime } from '@shared/timeZones';
+
+// Longest to wait at startup for Discord before making missed posts and closing threads
+const READY_WAIT_MS = 2 * 60 * 1000;
 
 /**
  * Class to handle scheduling of daily tasks
@@ -10,87 +20,78 @@ import { daySchedule } from '@shared/schema';
 export class Scheduler {
   private cronJobs: Map<string, cron.ScheduledTask> = new Map();
   
+  // Each guild's next daily post, by guild ID
+  private postTimers: Map<string, { timeout: NodeJS.Timeout; runAt: Date }> = new Map();
+  
   /**
    * Initialize the scheduler
    */
   async initialize() {
-    // Schedule the daily scramble posts at 4:00 PM IST
-    // (now includes thread cleanup right before posting)
-    this.scheduleScramblePosts();
+    // Schedule each guild's daily scramble post at its own time
+    // (includes cleanup of the guild's threads right before posting)
+    await this.scheduleScramblePosts();
+    
+    // Make today's post late if the bot was down when it was due
+    this.catchUpMissedPosts().catch(error => {
+      console.error('Error catching up on missed daily posts:', error);
+    });
+    
+    // Close each thread at its expiresAt, including threads from before a restart
+    this.scheduleThreadCloses().catch(error => {
+      console.error('Error scheduling thread closes:', error);
+    });
+    this.scheduleHourlyThreadCleanup();
+    
+    // Close weekly and monthly seasons once their last threads have ended
+    this.scheduleSeasonEnds();
+    
+    // Roll each UTC day's command usage into the daily analytics, including
+    // yesterday's in case the bot was down at midnight
+    this.scheduleDailyAnalyticsRollup();
+    commandUsageTracker.rollUpDay(new Date(Date.now() - 24 * 60 * 60 * 1000)).catch(error => {
+      console.error("Error rolling up yesterday's command usage:", error);
+    });
+    
+    // Sample the bot's health every minute, averaging older samples hourly
+    systemMetricsSampler.start();
+    this.scheduleMetricsDownsampling();
   }
   
   /**
    * Manually trigger the daily scramble post creation
-   * First closes and archives ALL existing threads, then creates a new thread
+   * Each guild first has its own open threads closed and archived, then gets
+   * its new threads; other guilds' threads are never touched
    * Used for testing or forcing an immediate post
+   * @param guildId Only post in this guild (optional, default: every enabled guild)
    */
-  async triggerDailyScramblePost(): Promise<boolean> {
+  async triggerDailyScramblePost(guildId?: string): Promise<boolean> {
     try {
-      console.log('🔄 MANUAL TRIGGER: Initiating daily scramble post creation with full cleanup');
+      console.log(`🔄 MANUAL TRIGGER: Initiating daily scramble post creation with cleanup${guildId ? ` for guild ${guildId}` : ''}`);
       
-      // First get all threads from database
-      console.log('🧹 MANUAL TRIGGER: Closing ALL existing threads');
-      const allThreads = await storage.getAllChallengeThreads();
-      
-      if (allThreads.length > 0) {
-        console.log(`🧹 MANUAL TRIGGER: Found ${allThreads.length} threads to close`);
-        
-        // Create an array of promises for parallel processing
-        const archivePromises = allThreads.map(async (thread) => {
-          try {
-            console.log(`🧹 MANUAL TRIGGER: Processing thread ${thread.id} (${thread.threadId})`);
-            
-            // Archive the thread through Discord but don't mark as deleted in database
-            try {
-              await discordBot.archiveThread(thread);
-              console.log(`✓ MANUAL TRIGGER: Discord archival successful for thread ${thread.id}`);
-              return true;
-            } catch (discordError) {
-              console.error(`❌ MANUAL TRIGGER: Discord API error on thread ${thread.id}:`, discordError);
-              return false;
-            }
-          } catch (threadError) {
-            console.error(`❌ MANUAL TRIGGER: Critical error processing thread ${thread.id}:`, threadError);
-            return false;
-          }
-        });
-        
-        // Wait for all archive operations to complete
-        const results = await Promise.allSettled(archivePromises);
-        
-        // Log statistics about the cleanup
-        const successful = results.filter(r => r.status === 'fulfilled' && r.value === true).length;
-        const failed = allThreads.length - successful;
-        
-        console.log(`🧹 MANUAL TRIGGER: Results - ${successful} threads archived successfully, ${failed} failed`);
-        
-        // Add a small delay to ensure Discord has time to process all the archive operations
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      } else {
-        console.log('🧹 MANUAL TRIGGER: No threads to clean up before manual post');
-      }
-      
-      // Then create new threads
-      console.log('🆕 MANUAL TRIGGER: Creating new daily scramble threads');
-      const configs = await storage.getAllBotConfigs();
+      const configs = (await storage.getAllBotConfigs())
+        .filter(config => !guildId || config.guildId === guildId);
       
       if (configs.length === 0) {
         console.error('❌ MANUAL TRIGGER: No bot configurations found');
         return false;
       }
       
+      let allSucceeded = true;
       for (const config of configs) {
         if (!config.enabled) {
           console.log(`Config ${config.id} is disabled, skipping`);
           continue;
         }
         
-        await discordBot.createDailyScrambleThread(config);
-        console.log(`✓ MANUAL TRIGGER: Successfully created daily thread for config ${config.id}`);
+        if (await this.triggerGuildScramblePost(config)) {
+          console.log(`✓ MANUAL TRIGGER: Successfully created daily threads for guild ${config.guildId}`);
+        } else {
+          allSucceeded = false;
+        }
       }
       
-      console.log('✅ MANUAL TRIGGER: Daily scramble post process completed successfully');
-      return true;
+      console.log(`${allSucceeded ? '✅' : '❌'} MANUAL TRIGGER: Daily scramble post process completed`);
+      return allSucceeded;
     } catch (error) {
       console.error('❌ MANUAL TRIGGER: Error manually triggering daily scramble post:', error);
       return false;
@@ -98,126 +99,335 @@ export class Scheduler {
   }
 
   /**
-   * Manually trigger cleanup of ALL threads, not just expired ones
+   * Manually trigger cleanup of ALL open threads, not just expired ones
    * Used for immediate cleanup from the dashboard
+   * Each thread's outcome is stored on it; only threads actually closed are
+   * counted, and transient failures are queued for a retry.
+   * @param guildId Only clean up this guild's threads (optional, default: every guild's)
    */
-  async triggerThreadCleanup(): Promise<{success: boolean, count: number}> {
+  async triggerThreadCleanup(guildId?: string): Promise<{success: boolean, count: number, outcomes: Partial<Record<ArchiveOutcome, number>>}> {
     try {
-      console.log('🧹 CLEANUP: Manually triggering cleanup of ALL threads');
+      console.log(`🧹 CLEANUP: Manually triggering cleanup of ALL threads${guildId ? ` in guild ${guildId}` : ''}`);
       
-      // Get ALL threads, not just expired ones
-      const allThreads = await storage.getAllChallengeThreads();
+      // Get ALL open threads, not just expired ones
+      const openThreads = (await storage.getAllChallengeThreads())
+        .filter(thread => !thread.isDeleted && (!guildId || thread.guildId === guildId));
       
-      if (allThreads.length === 0) {
+      if (openThreads.length === 0) {
         console.log('🧹 CLEANUP: No threads found to clean up');
-        return { success: true, count: 0 };
+        return { success: true, count: 0, outcomes: {} };
       }
       
-      console.log(`🧹 CLEANUP: Found ${allThreads.length} threads to archive`);
+      console.log(`🧹 CLEANUP: Found ${openThreads.length} threads to archive`);
       
-      // Create an array of promises for parallel processing
-      const archivePromises = allThreads.map(async (thread) => {
-        try {
-          console.log(`🧹 CLEANUP: Processing thread ${thread.id} (${thread.threadId})`);
-          
-          // Archive the thread through Discord but don't mark as deleted
-          try {
-            await discordBot.archiveThread(thread);
-            console.log(`✓ CLEANUP: Discord archival successful for thread ${thread.id}`);
-            return true;
-          } catch (discordError) {
-            console.error(`❌ CLEANUP: Discord API error on thread ${thread.id}:`, discordError);
-            return false;
-          }
-        } catch (threadError) {
-          console.error(`❌ CLEANUP: Critical error processing thread ${thread.id}:`, threadError);
-          return false;
+      // Close the threads in parallel, counting each outcome
+      const results = await Promise.allSettled(openThreads.map(thread => threadExpiryScheduler.closeThread(thread)));
+      const outcomes: Partial<Record<ArchiveOutcome, number>> = {};
+      results.forEach((result, i) => {
+        if (result.status === 'fulfilled') {
+          outcomes[result.value] = (outcomes[result.value] || 0) + 1;
+        } else {
+          console.error(`❌ CLEANUP: Critical error processing thread ${openThreads[i].id}:`, result.reason);
         }
       });
+      const closed = closedArchiveOutcomes.reduce((sum, outcome) => sum + (outcomes[outcome] || 0), 0);
       
-      // Wait for all archive operations to complete
-      const results = await Promise.allSettled(archivePromises);
-      
-      // Log statistics about the cleanup
-      const successful = results.filter(r => r.status === 'fulfilled' && r.value === true).length;
-      const failed = allThreads.length - successful;
-      
-      console.log(`🧹 CLEANUP: Results - ${successful} threads archived successfully, ${failed} failed`);
+      console.log(`🧹 CLEANUP: Results - ${closed} threads closed, ${openThreads.length - closed} not closed: ${JSON.stringify(outcomes)}`);
       
       // Add a small delay to ensure Discord has time to process all the archive operations
       await new Promise(resolve => setTimeout(resolve, 2000));
       
-      console.log(`✅ CLEANUP: Thread cleanup completed: ${successful} threads processed`);
-      return { success: true, count: successful };
+      console.log(`✅ CLEANUP: Thread cleanup completed: ${closed} threads closed`);
+      return { success: true, count: closed, outcomes };
     } catch (error) {
       console.error('❌ CLEANUP: Error manually triggering thread cleanup:', error);
-      return { success: false, count: 0 };
+      return { success: false, count: 0, outcomes: {} };
+    }
+  }
+  
+  /**
+   * Schedule the daily scramble post of every enabled guild at its
+   * timeToPost in its own time zone
+   */
+  private async scheduleScramblePosts() {
+    const configs = await storage.getAllBotConfigs();
+    for (const config of configs) {
+      this.scheduleGuildPost(config);
+    }
+  }
+  
+  /**
+   * Schedule a guild's next daily post, replacing the one already scheduled
+   * Called at startup and whenever the guild's configuration changes; a
+   * disabled guild gets no post. Each post schedules the next one when it
+   * runs, so the time of day stays right across daylight saving changes.
+   * @param config The guild's configuration
+   * @param after Schedule the first post after this moment (default: now)
+   */
+  scheduleGuildPost(config: BotConfig, after: Date = new Date()) {
+    this.cancelGuildPost(config.guildId);
+    if (!config.enabled) {
+      console.log(`Daily posts are disabled for guild ${config.guildId}, none scheduled`);
+      return;
+    }
+    
+    let runAt: Date;
+    try {
+      runAt = getNextDailyRun(config.timeToPost, config.timezone, after);
+    } catch (error) {
+      console.error(`Cannot schedule daily posts for guild ${config.guildId}:`, error);
+      return;
     }
+    
+    const timeout = setTimeout(() => this.runGuildPost(config.guildId, runAt), Math.max(runAt.getTime() - Date.now(), 0));
+    this.postTimers.set(config.guildId, { timeout, runAt });
+    console.log(`Daily scramble post for guild ${config.guildId} scheduled for ${runAt.toISOString()} (${config.timeToPost} ${config.timezone})`);
   }
   
   /**
-   * Schedule daily scramble posts at 4:00 PM IST
-   * Cron format: minute hour * * *
-   * IST is UTC+5:30, so 10:30 UTC = 4:00 PM IST
-   * 
-   * Right at 4:00 PM IST, it triggers the manual post function which 
-   * first closes and archives ALL existing threads, then creates a new thread
+   * Cancel a guild's scheduled daily post
+   * @param guildId The guild
    */
-  private scheduleScramblePosts() {
-    // At 10:30 UTC (4:00 PM IST)
-    const job = cron.schedule('30 10 * * *', async () => {
+  cancelGuildPost(guildId: string) {
+    const timer = this.postTimers.get(guildId);
+    if (timer) {
+      clearTimeout(timer.timeout);
+      this.postTimers.delete(guildId);
+    }
+  }
+  
+  /**
+   * When a guild's next daily post is scheduled to run
+   * @param guildId The guild
+   * @returns The time, or undefined if no post is scheduled
+   */
+  getNextPostTime(guildId: string): Date | undefined {
+    return this.postTimers.get(guildId)?.runAt;
+  }
+  
+  /**
+   * Run a guild's scheduled daily post, then schedule the next one
+   * @param guildId The guild
+   * @param runAt When the post was scheduled for
+   */
+  private async runGuildPost(guildId: string, runAt: Date) {
+    this.postTimers.delete(guildId);
+    
+    try {
+      const config = await storage.getBotConfigByGuildId(guildId);
+      if (!config || !config.enabled) {
+        console.log(`📅 SCHEDULED: Guild ${guildId} is no longer configured for daily posts, skipping`);
+        return;
+      }
+      
+      console.log(`📅 SCHEDULED: Triggering daily scramble post for guild ${guildId}`);
+      const success = await this.triggerGuildScramblePost(config, runAt);
+      
+      if (success) {
+        console.log(`✅ SCHEDULED: Daily scramble post for guild ${guildId} completed successfully`);
+      } else {
+        console.error(`❌ SCHEDULED: Daily scramble post for guild ${guildId} failed`);
+      }
+    } catch (error) {
+      console.error(`❌ SCHEDULED: Error in scheduled scramble post for guild ${guildId}:`, error);
+    } finally {
+      // Unless the configuration changed during the post and rescheduled it already
+      const latest = await storage.getBotConfigByGuildId(guildId).catch(() => undefined);
+      if (latest && !this.postTimers.has(guildId)) {
+        this.scheduleGuildPost(latest, runAt);
+      }
+    }
+  }
+  
+  /**
+   * Wait for the bot to connect to Discord, as it does shortly after startup
+   * @returns true once connected, false if it did not connect in time
+   */
+  private async waitForDiscord(): Promise<boolean> {
+    for (let waited = 0; !discordBot.isClientReady() && waited < READY_WAIT_MS; waited += 5000) {
+      await new Promise(resolve => setTimeout(resolve, 5000));
+    }
+    return discordBot.isClientReady();
+  }
+  
+  /**
+   * Schedule the close of every open thread at its expiresAt
+   * Runs at startup, so it first waits for the bot to connect to Discord;
+   * threads that expired while the bot was down close right away.
+   */
+  private async scheduleThreadCloses(): Promise<void> {
+    if (!(await this.waitForDiscord())) {
+      console.warn('🔒 Discord is not connected yet, expired threads will be retried until it is');
+    }
+    
+    const scheduled = await threadExpiryScheduler.scheduleAll();
+    console.log(`🔒 Scheduled ${scheduled} thread closes at their expiry times`);
+  }
+  
+  /**
+   * Make any daily post missed while the bot was down, while it is still
+   * within the guild's catch-up window (catchUpHours)
+   * Runs at startup, so it first waits for the bot to connect to Discord.
+   */
+  async catchUpMissedPosts(): Promise<void> {
+    if (!(await this.waitForDiscord())) {
+      console.error('⏰ CATCH-UP: Discord is not connected, missed posts will not be made');
+      return;
+    }
+    
+    const configs = await storage.getAllBotConfigs();
+    for (const config of configs) {
       try {
-        console.log('📅 SCHEDULED: Triggering daily scramble post via manual function');
+        const scheduledFor = await dailyPostManager.findMissedPost(config);
+        if (!scheduledFor) continue;
         
-        // Use the existing triggerDailyScramblePost function which already handles
-        // closing ALL threads and creating a new thread with proper validation
-        const success = await this.triggerDailyScramblePost();
+        console.log(`⏰ CATCH-UP: Guild ${config.guildId} missed its post due ${scheduledFor.toISOString()}, posting it late`);
+        await this.triggerGuildScramblePost(config, scheduledFor, true);
+      } catch (error) {
+        console.error(`⏰ CATCH-UP: Error making the missed post for guild ${config.guildId}:`, error);
+      }
+    }
+  }
+  
+  /**
+   * Post a guild's daily scrambles: first archive the guild's open threads,
+   * then create the day's threads
+   * Events already posted that day are left alone, threads included, so
+   * triggering a post twice never duplicates or closes today's threads.
+   * @param config The guild's configuration
+   * @param scheduledFor When the post was due, which decides the day (default: now)
+   * @param isCatchUp Whether the post is being made late after being missed
+   * @returns true if the threads were created, or there was nothing left to post
+   */
+  async triggerGuildScramblePost(config: BotConfig, scheduledFor: Date = new Date(), isCatchUp: boolean = false): Promise<boolean> {
+    try {
+      const events = await dailyPostManager.getOutstandingEvents(config, scheduledFor);
+      if (events.length === 0) {
+        console.log(`Nothing to post for guild ${config.guildId}: a rest day, or every event is already posted`);
+        return true;
+      }
+      
+      const postedThreadIds = await dailyPostManager.getPostedThreadIds(config, scheduledFor);
+      const threads = (await storage.getAllChallengeThreads())
+        .filter(thread => thread.guildId === config.guildId && !thread.isDeleted && !postedThreadIds.includes(thread.threadId));
+      
+      if (threads.length > 0) {
+        console.log(`🧹 Closing ${threads.length} open threads in guild ${config.guildId}`);
+        const results = await Promise.allSettled(threads.map(thread => threadExpiryScheduler.closeThread(thread)));
+        const closed = results.filter(result => result.status === 'fulfilled' && closedArchiveOutcomes.includes(result.value)).length;
+        console.log(`🧹 Results - ${closed} threads closed, ${threads.length - closed} not closed`);
         
-        if (success) {
-          console.log('✅ SCHEDULED: Daily scramble post process completed successfully');
-        } else {
-          console.error('❌ SCHEDULED: Daily scramble post process failed');
+        // Add a small delay to ensure Discord has time to process all the archive operations
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      }
+      
+      await discordBot.createDailyScrambleThread(config, scheduledFor, isCatchUp);
+      return true;
+    } catch (error) {
+      console.error(`❌ Error posting daily scrambles for guild ${config.guildId}:`, error);
+      return false;
+    }
+  }
+  
+  /**
+   * Schedule hourly checks for seasons that have ended
+   * A season is completed once the last daily thread created in it has closed,
+   * which for the default schedule is the Monday after a week or month ends
+   */
+  private scheduleSeasonEnds() {
+    // Run every hour at minute 15
+    const job = cron.schedule('15 * * * *', async () => {
+      try {
+        await this.checkSeasonEnds();
+      } catch (error) {
+        console.error('Error checking for ended seasons:', error);
+      }
+    });
+    
+    this.cronJobs.set('seasonEnds', job);
+    console.log('Season end checks scheduled hourly');
+  }
+  
+  /**
+   * Complete the previous week and month of every enabled guild if they have
+   * ended, and post their final standings
+   * Completed seasons are stored, so each season is only posted once; a post
+   * that failed, e.g. during a reconnect, is retried until it goes through
+   */
+  async checkSeasonEnds(): Promise<void> {
+    const configs = await storage.getAllBotConfigs();
+    const now = new Date();
+    
+    for (const config of configs) {
+      if (!config.enabled) continue;
+      
+      for (const period of SEASON_PERIODS) {
+        try {
+          const seasonKey = getPreviousSeasonKey(now, period, config.timezone);
+          // A podium that could not be posted is retried every hour until the next season ends
+          const season = await seasonManager.completeSeason(config, period, seasonKey)
+            ?? await seasonManager.getUnannouncedSeason(config, period, seasonKey);
+          if (season) {
+            await discordBot.postSeasonResults(config, season);
+          }
+        } catch (error) {
+          console.error(`Error completing ${period} season for guild ${config.guildId}:`, error);
+        }
+      }
+    }
+  }
+  
+  /**
+   * Schedule the rollup of each UTC day's command usage into the daily
+   * analytics, shortly after the day ends
+   */
+  private scheduleDailyAnalyticsRollup() {
+    // Run every day at 00:05 UTC
+    const job = cron.schedule('5 0 * * *', async () => {
+      try {
+        await commandUsageTracker.rollUpDay(new Date(Date.now() - 24 * 60 * 60 * 1000));
+      } catch (error) {
+        console.error('Error rolling up daily command usage:', error);
+      }
+    }, { timezone: 'UTC' });
+    
+    this.cronJobs.set('dailyAnalyticsRollup', job);
+    console.log('Daily command usage rollup scheduled at 00:05 UTC');
+  }
+  
+  /**
+   * Schedule hourly downsampling of the system metrics samples into hourly and
+   * daily buckets, dropping those past the retention window
+   */
+  private scheduleMetricsDownsampling() {
+    // Run every hour at minute 45
+    const job = cron.schedule('45 * * * *', async () => {
+      try {
+        const { hourly, daily, pruned } = await systemMetricsSampler.downsample();
+        if (hourly > 0 || daily > 0 || pruned > 0) {
+          console.log(`Downsampled system metrics: ${hourly} hourly and ${daily} daily buckets, ${pruned} old samples dropped`);
         }
       } catch (error) {
-        console.error('❌ SCHEDULED: Error in scheduled scramble post process:', error);
+        console.error('Error downsampling system metrics:', error);
       }
     });
     
-    this.cronJobs.set('dailyPost', job);
-    console.log('Daily scramble posts (with cleanup) scheduled for 4:00 PM IST');
+    this.cronJobs.set('metricsDownsampling', job);
+    console.log('System metrics downsampling scheduled hourly');
   }
   
   /**
-   * Schedule hourly checks for threads that need to be archived
-   * This is a backup clean-up mechanism in case the daily cleanup fails
+   * Schedule hourly checks for open threads without a scheduled close
+   * This is a backup for threads stored without being scheduled and queued
+   * retries that lost their timer; expired ones close right away.
    */
   private scheduleHourlyThreadCleanup() {
     // Run every hour at minute 0
     const job = cron.schedule('0 * * * *', async () => {
       try {
-        console.log('Executing hourly thread cleanup (backup)');
-        const expiredThreads = await storage.getExpiredThreads();
-        
-        if (expiredThreads.length > 0) {
-          console.log(`Found ${expiredThreads.length} expired threads to clean up`);
-          for (const thread of expiredThreads) {
-            try {
-              console.log(`Hourly cleanup: Processing thread ${thread.id} (${thread.threadId})`);
-              
-              // Archive the thread through Discord but don't mark as deleted in database
-              try {
-                await discordBot.archiveThread(thread);
-                console.log(`Hourly cleanup: Discord archival successful for thread ${thread.id}`);
-              } catch (discordError) {
-                console.error(`Hourly cleanup: Discord API error on thread ${thread.id}:`, discordError);
-              }
-            } catch (threadError) {
-              console.error(`Hourly cleanup: Critical error processing thread ${thread.id}:`, threadError);
-              // Continue with other threads even if one fails
-            }
-          }
-        } else {
-          console.log('No expired threads found in hourly cleanup');
+        const scheduled = await threadExpiryScheduler.scheduleAll();
+        if (scheduled > 0) {
+          console.log(`Hourly cleanup: Scheduled ${scheduled} thread closes that were missing`);
         }
       } catch (error) {
         console.error('Error in hourly thread cleanup:', error);
@@ -229,51 +439,46 @@ export class Scheduler {
   }
   
   /**
-   * Get the next scheduled cube type
-   * @returns Object with the next cube type and time
+   * Get the next scheduled challenge from a guild's stored schedule, at the
+   * guild's timeToPost in its time zone
+   * Rest days are skipped, so the next challenge can be several days away.
+   * @param guildId The guild (optional, default: the first configured guild)
+   * @returns Object with the next day's events and time; no events if every day is a rest day
    */
-  getNextScheduledChallenge() {
-    const now = new Date();
-    const currentDay = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
-    
-    // Check if today's challenge is still upcoming (before 4:00 PM IST / 10:30 UTC)
-    let nextDay = currentDay;
-    let isToday = false;
+  async getNextScheduledChallenge(guildId?: string) {
+    const config = guildId
+      ? await storage.getBotConfigByGuildId(guildId)
+      : (await storage.getAllBotConfigs())[0];
+    const schedule = config?.schedule || defaultWeeklySchedule;
+    const timeToPost = config?.timeToPost || '16:00';
+    const timezone = config?.timezone || 'Asia/Kolkata';
     
-    // 10 = 10 AM UTC, 30 = 30 minutes, equivalent to 4:00 PM IST
-    if (currentHour < 10 || (currentHour === 10 && currentMinute < 30)) {
-      isToday = true;
-    } else {
-      // Move to next day
-      nextDay = (currentDay + 1) % 7;
+    // Find the first post from now on with events scheduled
+    const now = new Date();
+    let runAt = getNextDailyRun(timeToPost, timezone, now);
+    let events: CubeType[] = scrambleManager.getEventsForDay(runAt, schedule, timezone);
+    for (let checked = 1; checked < 7 && events.length === 0; checked++) {
+      runAt = getNextDailyRun(timeToPost, timezone, runAt);
+      events = scrambleManager.getEventsForDay(runAt, schedule, timezone);
     }
     
-    // Map to day name in proper case
+    // Map to day name in proper case, on the guild's calendar
     const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const dayName = days[nextDay];
-    
-    // Map to cube type for that day
-    const dayKeys = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'] as const;
-    const cubeType = daySchedule[dayKeys[nextDay]];
+    const dayName = days[getLocalDayOfWeek(runAt, timezone)];
     
     // Calculate time until next challenge
-    const nextDate = new Date();
-    if (!isToday) {
-      nextDate.setDate(nextDate.getDate() + 1);
-    }
-    nextDate.setHours(10, 30, 0, 0); // 10:30 UTC = 4:00 PM IST
-    
-    const timeUntil = nextDate.getTime() - now.getTime();
+    const timeUntil = runAt.getTime() - now.getTime();
     const hoursUntil = Math.floor(timeUntil / (1000 * 60 * 60));
     const minutesUntil = Math.floor((timeUntil % (1000 * 60 * 60)) / (1000 * 60));
     
     return {
       day: dayName,
-      cubeType,
-      isToday,
-      nextTime: '4:00 PM IST',
+      cubeType: events.length > 0 ? events.join(' + ') : 'No events scheduled',
+      events,
+      isToday: getLocalDay(runAt, timezone).getTime() === getLocalDay(now, timezone).getTime(),
+      nextTime: formatZonedTime(runAt, timezone),
+      nextRunAt: runAt.toISOString(),
+      timezone,
       timeUntil: `${hoursUntil}h ${minutesUntil}m`
     };
   }
@@ -283,7 +488,8 @@ export class Scheduler {
    * @returns true if scheduler has active jobs, false otherwise
    */
   isRunning(): boolean {
-    return this.cronJobs.size > 0;
+    return this.cronJobs.size > 0 || this.postTimers.size > 0 || threadExpiryScheduler.getScheduledCount() > 0
+      || systemMetricsSampler.isRunning();
   }
   
   /**
@@ -296,6 +502,15 @@ export class Scheduler {
       job.stop();
     });
     this.cronJobs.clear();
+    
+    this.postTimers.forEach((timer, guildId) => {
+      console.log(`Cancelling daily post for guild: ${guildId}`);
+      clearTimeout(timer.timeout);
+    });
+    this.postTimers.clear();
+    
+    threadExpiryScheduler.stopAll();
+    systemMetricsSampler.stop();
   }
 }
 
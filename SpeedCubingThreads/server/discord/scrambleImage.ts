@@ -0,0 +1,40 @@
+import { Resvg } from '@resvg/resvg-js';
+import { AttachmentBuilder } from 'discord.js';
+import { CubeType } from '@shared/schema';
+import { renderScrambleSvg } from '@shared/scrambleRenderer';
+
+/**
+ * File name used for scramble previews, referenced by embeds as attachment://scramble.png
+ */
+export const SCRAMBLE_IMAGE_NAME = 'scramble.png';
+
+/**
+ * Render the preview diagram of a scrambled puzzle as a PNG
+ * @param cubeType The cube type of the scramble
+ * @param scramble The scramble to apply
+ * @returns PNG image data at twice the SVG resolution
+ */
+export function renderScramblePng(cubeType: CubeType, scramble: string): Buffer {
+  const svg = renderScrambleSvg(cubeType, scramble);
+  return new Resvg(svg, { fitTo: { mode: 'zoom', value: 2 } }).render().asPng();
+}
+
+/**
+ * Create a Discord attachment with the preview diagram of a scramble
+ * @param cubeType The cube type of the scramble
+ * @param scramble The scramble to apply
+ * @param name File name of the attachment (default: scramble.png)
+ * @returns The attachment, or null if the preview could not be rendered
+ */
+export function createScrambleImageAttachment(
+  cubeType: CubeType,
+  scramble: string,
+  name: string = SCRAMBLE_IMAGE_NAME
+): AttachmentBuilder | null {
+  try {
+    return new AttachmentBuilder(renderScramblePng(cubeType, scramble), { name });
+  } catch (error) {
+    console.error(`Failed to render ${cubeType} scramble preview:`, error);
+    return null;
+  }
+}
@@ -1,40 +1,74 @@
-import { CubeType, cubeTypes, daySchedule } from '@shared/schema';
+import { CubeType, cubeTypes, daysOfWeek, defaultWeeklySchedule, EventFormats, WeeklySchedule, getDefaultEventFormat, isEventFormatAllowed } from '@shared/schema';
+import { getLocalDayOfWeek } from '@shared/timeZones';
 import { generateScramble, generateCustomScramble } from '@shared/scrambleGenerators';
+import { validateScramble, formatScrambleIssues } from '@shared/puzzleModels';
+import { FMC_MAX_MOVES } from '@shared/fewestMoves';
+import { MIN_MULTI_BLD_CUBES, MAX_MULTI_BLD_CUBES } from '@shared/multiBld';
+import { ResultFormat, RESULT_FORMAT_SOLVES, RESULT_FORMAT_EXTRAS, RESULT_FORMAT_LABELS } from '@shared/solveTimes';
+
+// Longest message Discord accepts
+const MAX_MESSAGE_LENGTH = 2000;
 
 /**
  * Class to manage daily scrambles based on the schedule
  */
 export class ScrambleManager {
   /**
-   * Get the cube type for a specific day
-   * @param date The date to get the cube type for
-   * @returns The cube type for the given day
+   * Get the events scheduled for a specific day
+   * @param date The date to get the events for
+   * @param schedule The guild's weekly schedule (optional, default: defaultWeeklySchedule)
+   * @param timeZone The guild's time zone, which decides the day (optional, default: the server's)
+   * @returns The day's events in posting order; empty on a rest day
    */
-  getCubeTypeForDay(date: Date = new Date()): CubeType {
-    const days = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'] as const;
-    const day = days[date.getDay()];
-    return daySchedule[day];
+  getEventsForDay(date: Date = new Date(), schedule: WeeklySchedule = defaultWeeklySchedule, timeZone?: string): CubeType[] {
+    const day = daysOfWeek[timeZone ? getLocalDayOfWeek(date, timeZone) : date.getDay()];
+    return schedule[day] ?? defaultWeeklySchedule[day];
   }
 
   /**
-   * Generate a scramble for the current day
-   * @returns Object containing the day, cube type, and scramble
+   * Generate the scrambles for one of the day's events
+   * @param cubeType The event
+   * @param eventFormats The guild's format for each event (optional, default: each event's default format)
+   * @returns Object containing the cube type, format and scrambles
    */
-  generateDailyScramble(date: Date = new Date()) {
-    const cubeType = this.getCubeTypeForDay(date);
-    const scramble = generateScramble(cubeType);
-    
-    // Get day name in proper case (e.g., "Monday")
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const dayName = days[date.getDay()];
+  generateDailyScramble(cubeType: CubeType, eventFormats?: EventFormats) {
+    const format = this.getEventFormat(cubeType, eventFormats);
+    const scrambles = this.generateScrambleSet(cubeType, format);
     
     return {
-      day: dayName,
       cubeType,
-      scramble
+      format,
+      scrambles
     };
   }
   
+  /**
+   * Get the format a guild runs an event's challenges in
+   * Fewest Moves challenges take one solution per thread, so they are always a single
+   * @param cubeType The event
+   * @param eventFormats The guild's format for each event (optional)
+   * @returns The chosen format, or the event's default if none was chosen or
+   * the choice is not allowed (e.g. an Ao5 saved for a mean of 3 event)
+   */
+  getEventFormat(cubeType: CubeType, eventFormats?: EventFormats): ResultFormat {
+    if (cubeType === cubeTypes.FMC) return 'single';
+    const format = eventFormats?.[cubeType];
+    return format && isEventFormatAllowed(cubeType, format) ? format : getDefaultEventFormat(cubeType);
+  }
+  
+  /**
+   * Generate the scrambles for a challenge in a format: one per solve, then the extras
+   * @param cubeType The cube type to generate scrambles for
+   * @param format The challenge format
+   * @returns Valid scrambles, extras last
+   */
+  generateScrambleSet(cubeType: CubeType, format: ResultFormat): string[] {
+    const count = RESULT_FORMAT_SOLVES[format] + RESULT_FORMAT_EXTRAS[format];
+    return Array.from({ length: count }, () =>
+      this.generateValidScramble(cubeType, () => generateScramble(cubeType))
+    );
+  }
+  
   /**
    * Convert string to valid CubeType
    * @param cubeTypeStr String representation of cube type
@@ -56,13 +90,67 @@ export class ScrambleManager {
       '3x3 oh': cubeTypes.THREE_OH,
       '3oh': cubeTypes.THREE_OH,
       'clock': cubeTypes.CLOCK,
-      'clk': cubeTypes.CLOCK
+      'clk': cubeTypes.CLOCK,
+      '4x4': cubeTypes.FOUR,
+      '4': cubeTypes.FOUR,
+      '444': cubeTypes.FOUR,
+      '5x5': cubeTypes.FIVE,
+      '5': cubeTypes.FIVE,
+      '555': cubeTypes.FIVE,
+      '6x6': cubeTypes.SIX,
+      '6': cubeTypes.SIX,
+      '666': cubeTypes.SIX,
+      '7x7': cubeTypes.SEVEN,
+      '7': cubeTypes.SEVEN,
+      '777': cubeTypes.SEVEN,
+      'megaminx': cubeTypes.MEGAMINX,
+      'mega': cubeTypes.MEGAMINX,
+      'minx': cubeTypes.MEGAMINX,
+      'square-1': cubeTypes.SQUARE_ONE,
+      'square1': cubeTypes.SQUARE_ONE,
+      'sq1': cubeTypes.SQUARE_ONE,
+      'sq-1': cubeTypes.SQUARE_ONE,
+      '3x3 fmc': cubeTypes.FMC,
+      'fmc': cubeTypes.FMC,
+      '333fm': cubeTypes.FMC
     };
     
     const normalizedInput = cubeTypeStr.toLowerCase().trim();
     return knownTypes[normalizedInput] || cubeTypes.THREE; // Default to 3x3 if not found
   }
 
+  /**
+   * Check a scramble against the puzzle model for its cube type
+   * @param cubeType The cube type the scramble is for
+   * @param scramble The scramble text
+   * @throws Error describing every problem if the scramble is not valid
+   */
+  assertValidScramble(cubeType: CubeType, scramble: string): void {
+    const validation = validateScramble(cubeType, scramble);
+    if (!validation.valid) {
+      throw new Error(`Invalid ${cubeType} scramble "${scramble}": ${formatScrambleIssues(validation.issues)}`);
+    }
+  }
+
+  /**
+   * Run a scramble generator until it produces a valid scramble
+   * @param cubeType The cube type the scramble is for
+   * @param generate The generator to run
+   * @returns The first valid scramble
+   */
+  private generateValidScramble(cubeType: CubeType, generate: () => string): string {
+    const maxAttempts = 3;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const scramble = generate();
+      const validation = validateScramble(cubeType, scramble);
+      if (validation.valid) {
+        return scramble;
+      }
+      console.warn(`⚠️ Discarding invalid ${cubeType} scramble (attempt ${attempt}/${maxAttempts}): ${formatScrambleIssues(validation.issues)}`);
+    }
+    throw new Error(`Could not generate a valid ${cubeType} scramble after ${maxAttempts} attempts`);
+  }
+
   /**
    * Generate a scramble for a specific cube type
    * @param cubeType The cube type to generate a scramble for
@@ -71,7 +159,7 @@ export class ScrambleManager {
   generateScrambleForType(cubeType: CubeType | string) {
     // If it's a string, convert it to a proper CubeType
     const actualCubeType = typeof cubeType === 'string' ? this.stringToCubeType(cubeType) : cubeType;
-    const scramble = generateScramble(actualCubeType);
+    const scramble = this.generateValidScramble(actualCubeType, () => generateScramble(actualCubeType));
     
     return {
       cubeType: actualCubeType,
@@ -79,6 +167,20 @@ export class ScrambleManager {
     };
   }
   
+  /**
+   * Generate the scramble set for a Multi-BLD attempt
+   * @param count Number of cubes in the attempt
+   * @returns One valid 3x3 BLD scramble per cube, in order
+   */
+  generateMultiBldSet(count: number): string[] {
+    if (!Number.isInteger(count) || count < MIN_MULTI_BLD_CUBES || count > MAX_MULTI_BLD_CUBES) {
+      throw new Error(`Multi-BLD sets have ${MIN_MULTI_BLD_CUBES} to ${MAX_MULTI_BLD_CUBES} scrambles, not ${count}`);
+    }
+    return Array.from({ length: count }, () =>
+      this.generateValidScramble(cubeTypes.THREE_BLD, () => generateScramble(cubeTypes.THREE_BLD))
+    );
+  }
+  
   /**
    * Generate a custom scramble with specific parameters
    * @param cubeType The cube type to generate a scramble for
@@ -89,7 +191,10 @@ export class ScrambleManager {
   generateCustomScrambleForType(cubeType: CubeType | string, moves?: number, difficulty: string = 'medium') {
     // If it's a string, convert it to a proper CubeType
     const actualCubeType = typeof cubeType === 'string' ? this.stringToCubeType(cubeType) : cubeType;
-    const scramble = generateCustomScramble(actualCubeType, moves, difficulty);
+    const scramble = this.generateValidScramble(
+      actualCubeType,
+      () => generateCustomScramble(actualCubeType, moves, difficulty)
+    );
     
     return {
       cubeType: actualCubeType,
@@ -103,31 +208,75 @@ export class ScrambleManager {
 
   /**
    * Generate the thread title for a daily challenge
-   * @param date The date for the challenge
+   * Each of a day's events gets its own thread, titled with the event name
+   * @param cubeType The event, from getEventsForDay
    * @returns The formatted thread title
    */
-  generateThreadTitle(date: Date = new Date()): string {
+  generateThreadTitle(cubeType: CubeType): string {
     // Just the event name alone
-    const cubeType = this.getCubeTypeForDay(date);
     return cubeType;
   }
 
   /**
-   * Generate the thread content with scramble details
+   * Generate the thread content with scramble details for each of a day's events
    * @param date The date for the challenge
-   * @returns Formatted message content for the thread
+   * @param schedule The guild's weekly schedule (optional)
+   * @param eventFormats The guild's format for each event (optional)
+   * @returns Formatted messages for each event's thread; empty on a rest day
    */
-  generateThreadContent(date: Date = new Date()): string {
-    const { day, cubeType, scramble } = this.generateDailyScramble(date);
-    
-    return `# Today's Daily Scramble!
-||@daily scramble ping||
-
-\`\`\`
-${scramble}
-\`\`\`
+  generateThreadContent(date: Date = new Date(), schedule?: WeeklySchedule, eventFormats?: EventFormats): string[][] {
+    return this.getEventsForDay(date, schedule).map(event => {
+      const { cubeType, format, scrambles } = this.generateDailyScramble(event, eventFormats);
+      return this.formatThreadContent(scrambles, cubeType, format);
+    });
+  }
 
-Good luck! 🍀`;
+  /**
+   * Format the thread content for a challenge's scrambles
+   * A single is one scramble; other formats list their scrambles numbered,
+   * extras as E1, E2. Multi-line scrambles such as Megaminx keep their line
+   * breaks inside the code blocks.
+   * @param scrambles The challenge's scrambles, extras last
+   * @param cubeType The cube type, for event specific instructions (optional)
+   * @param format The challenge format (default: single)
+   * @returns Formatted messages for the thread, each within Discord's length
+   * limit; the first carries the ping placeholder
+   */
+  formatThreadContent(scrambles: string[], cubeType?: CubeType, format: ResultFormat = 'single'): string[] {
+    const solveCount = RESULT_FORMAT_SOLVES[format];
+    let instructions: string;
+    if (cubeType === cubeTypes.FMC) {
+      instructions = `Submit your solution with \`/fmc submit\` (at most ${FMC_MAX_MOVES} moves, no slice moves). Results are revealed when the thread closes.`;
+    } else if (format === 'single') {
+      instructions = 'Submit a single or five times for an Ao5 with `/submit` or the **Submit time** button, e.g. `12.34` or `11.02 12.50 DNF 10.98+ 13.40`.';
+    } else {
+      instructions = `Do the ${solveCount} scrambles in order and submit your ${solveCount} times with \`/submit\` or the **Submit time** button, e.g. \`${['11.02', '12.50', 'DNF', '10.98+', '13.40'].slice(0, solveCount).join(' ')}\`. Use an extra scramble only in place of one that had to be replaced.`;
+    }
+    
+    const header = format === 'single'
+      ? `# Today's Daily Scramble!\n||@daily scramble ping||\n`
+      : `# Today's Daily Scramble!\n||@daily scramble ping||\n\n**${RESULT_FORMAT_LABELS[format]}** • ${solveCount} scrambles and ${scrambles.length - solveCount} ${scrambles.length - solveCount === 1 ? 'extra' : 'extras'}\n`;
+    const blocks = scrambles.map((scramble, i) => {
+      const code = `\`\`\`\n${scramble}\n\`\`\``;
+      if (format === 'single') return code;
+      const label = i < solveCount ? `${i + 1}` : `E${i - solveCount + 1}`;
+      return `**${label}.**\n${code}`;
+    });
+    const parts = [header, ...blocks, `\n${instructions}\n\nGood luck! 🍀`];
+    
+    // Fill each message with as many parts as fit
+    const messages: string[] = [];
+    let current = '';
+    for (const part of parts) {
+      if (current && current.length + 1 + part.length > MAX_MESSAGE_LENGTH) {
+        messages.push(current);
+        current = part;
+      } else {
+        current = current ? `${current}\n${part}` : part;
+      }
+    }
+    messages.push(current);
+    return messages;
   }
 }
 
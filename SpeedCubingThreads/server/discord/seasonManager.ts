@@ -0,0 +1,123 @@
+import { storage } from '../storage';
+import { BotConfig, ChallengeThread, Season, cubeTypes } from '@shared/schema';
+import { getSolveResult } from '@shared/solveTimes';
+import { getBestResult } from '@shared/statistics';
+import {
+  SeasonPeriod, SeasonStanding, ThreadPlacement, DEFAULT_SEASON_POINTS,
+  getSeasonKey, placeThreadResults, buildSeasonStandings
+} from '@shared/seasons';
+
+/**
+ * Class to work out season standings from the results of daily threads
+ * and to close seasons once all their threads have ended
+ */
+export class SeasonManager {
+  /**
+   * Place the members who finished a result in a daily thread
+   * Fewest Moves threads rank by move count. Threads run as a single also
+   * take Ao5 submissions, which compete with their best solve.
+   * @param thread The daily thread
+   * @param pointsTable Points for each place from 1st down
+   */
+  async getThreadPlacements(thread: ChallengeThread, pointsTable: number[]): Promise<ThreadPlacement[]> {
+    if (thread.cubeType === cubeTypes.FMC) {
+      const results = await storage.getFmcResultsByThread(thread.id);
+      return placeThreadResults(
+        results.map(result => ({ userId: result.userId, username: result.username, value: result.moveCount })),
+        pointsTable
+      );
+    }
+
+    const results = await storage.getChallengeResultsByThread(thread.id);
+    return placeThreadResults(
+      results
+        .filter(result => thread.format === 'single' || result.format === thread.format)
+        .map(result => ({
+          userId: result.userId,
+          username: result.username,
+          value: thread.format === 'single' && result.format !== 'single'
+            ? getBestResult(result.solves.map(getSolveResult))
+            : result.resultMs
+        })),
+      pointsTable
+    );
+  }
+
+  /**
+   * Daily threads of a guild created during a season, oldest first
+   * @param config The guild's configuration, for its time zone
+   * @param period The season length
+   * @param seasonKey The season
+   */
+  async getSeasonThreads(config: BotConfig, period: SeasonPeriod, seasonKey: string): Promise<ChallengeThread[]> {
+    const threads = await storage.getAllChallengeThreads();
+    return threads
+      .filter(thread => thread.guildId === config.guildId && getSeasonKey(thread.createdAt, period, config.timezone) === seasonKey)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Standings of a season from its threads' current results
+   * @param config The guild's configuration
+   * @param period The season length
+   * @param seasonKey The season
+   * @returns The standings, best first, and the number of threads that counted
+   */
+  async getSeasonStandings(
+    config: BotConfig,
+    period: SeasonPeriod,
+    seasonKey: string
+  ): Promise<{ standings: SeasonStanding[]; threadCount: number; threads: ChallengeThread[] }> {
+    const threads = await this.getSeasonThreads(config, period, seasonKey);
+    const pointsTable = config.seasonPoints || DEFAULT_SEASON_POINTS;
+    const placements = await Promise.all(threads.map(thread => this.getThreadPlacements(thread, pointsTable)));
+    return { standings: buildSeasonStandings(placements), threadCount: threads.length, threads };
+  }
+
+  /**
+   * Store the final standings of a season once every thread in it has ended
+   * @param config The guild's configuration
+   * @param period The season length
+   * @param seasonKey The season, which should be over
+   * @returns The newly completed season, or null if it had no threads, a thread
+   * is still open, or it was already completed
+   */
+  async completeSeason(config: BotConfig, period: SeasonPeriod, seasonKey: string): Promise<Season | null> {
+    const existing = await storage.getSeason(config.guildId, period, seasonKey);
+    if (existing) return null;
+
+    const { standings, threadCount, threads } = await this.getSeasonStandings(config, period, seasonKey);
+    if (threadCount === 0) return null;
+
+    // Results can be submitted until the season's last thread closes
+    const now = new Date();
+    if (threads.some(thread => !thread.isDeleted && thread.expiresAt > now)) return null;
+
+    const season = await storage.createSeason({
+      guildId: config.guildId,
+      period,
+      seasonKey,
+      threadCount,
+      standings
+    });
+    console.log(`🏁 Completed ${period} season ${seasonKey} for guild ${config.guildId}: ${standings.length} members over ${threadCount} threads`);
+    return season;
+  }
+
+  /**
+   * Get a completed season whose podium was never posted, e.g. because
+   * Discord was reconnecting when the season completed
+   * @param config The guild's configuration
+   * @param period The season length
+   * @param seasonKey The season
+   * @returns undefined if the season is not completed, its podium was posted,
+   * or nobody scored in it
+   */
+  async getUnannouncedSeason(config: BotConfig, period: SeasonPeriod, seasonKey: string): Promise<Season | undefined> {
+    const season = await storage.getSeason(config.guildId, period, seasonKey);
+    if (!season || season.announcementMessageId || season.standings.length === 0) return undefined;
+    return season;
+  }
+}
+
+export const seasonManager = new SeasonManager();
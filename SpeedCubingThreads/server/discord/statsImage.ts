@@ -0,0 +1,23 @@
+import { Resvg } from '@resvg/resvg-js';
+import { AttachmentBuilder } from 'discord.js';
+import { renderTrendSvg } from '@shared/trendRenderer';
+
+/**
+ * File name used for trend charts, referenced by embeds as attachment://trend.png
+ */
+export const TREND_IMAGE_NAME = 'trend.png';
+
+/**
+ * Create a Discord attachment with the trend chart of recent results
+ * @param results Results in milliseconds, oldest first, null for a DNF
+ * @returns The attachment, or null if the chart could not be rendered
+ */
+export function createTrendImageAttachment(results: (number | null)[]): AttachmentBuilder | null {
+  try {
+    const png = new Resvg(renderTrendSvg(results), { fitTo: { mode: 'zoom', value: 2 } }).render().asPng();
+    return new AttachmentBuilder(png, { name: TREND_IMAGE_NAME });
+  } catch (error) {
+    console.error('Failed to render trend chart:', error);
+    return null;
+  }
+}
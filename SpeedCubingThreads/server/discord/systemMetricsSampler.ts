@@ -0,0 +1,188 @@
+import os from 'os';
+import { monitorEventLoopDelay, IntervalHistogram } from 'perf_hooks';
+import { storage } from '../storage';
+import { discordBot } from './bot';
+import { SystemMetrics, InsertSystemMetrics, MetricResolution, metricResolutions } from '@shared/schema';
+
+const SAMPLE_INTERVAL_MS = 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long samples are kept at each resolution before being averaged into the
+// next one; daily buckets are dropped once older than the retention window
+const MINUTE_RETENTION_MS = DAY_MS;
+const HOUR_RETENTION_MS = 30 * DAY_MS;
+const DAY_RETENTION_MS = 365 * DAY_MS;
+
+// How often the event loop delay is measured, in milliseconds
+const LAG_RESOLUTION_MS = 20;
+
+/**
+ * Class to record the bot's health every minute: memory, CPU, event loop lag,
+ * Discord websocket ping and open challenge threads
+ * Older samples are averaged into hourly and then daily buckets, so charts
+ * over long windows stay small, and buckets past the retention window are dropped.
+ */
+export class SystemMetricsSampler {
+  private timer: NodeJS.Timeout | null = null;
+  private lagHistogram: IntervalHistogram | null = null;
+  private lastCpuUsage = process.cpuUsage();
+  private lastSampleAt = Date.now();
+
+  /**
+   * Start sampling every minute; does nothing if already sampling
+   */
+  start() {
+    if (this.timer) return;
+
+    this.lagHistogram = monitorEventLoopDelay({ resolution: LAG_RESOLUTION_MS });
+    this.lagHistogram.enable();
+    this.lastCpuUsage = process.cpuUsage();
+    this.lastSampleAt = Date.now();
+
+    this.timer = setInterval(() => {
+      this.sample().catch(error => {
+        console.error('Error recording system metrics:', error);
+      });
+    }, SAMPLE_INTERVAL_MS);
+    console.log('System metrics sampled every minute');
+  }
+
+  /**
+   * Stop sampling
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.lagHistogram?.disable();
+    this.lagHistogram = null;
+  }
+
+  /**
+   * Check if samples are being recorded
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Record a sample of the bot's health since the previous sample
+   * @returns The stored sample
+   */
+  async sample(): Promise<SystemMetrics> {
+    const now = Date.now();
+    const cpu = process.cpuUsage(this.lastCpuUsage);
+    const elapsedMs = Math.max(now - this.lastSampleAt, 1);
+    this.lastCpuUsage = process.cpuUsage();
+    this.lastSampleAt = now;
+
+    // The histogram records the time between checks, so the delay beyond the
+    // check interval is the lag; it has no value before its first check
+    let eventLoopLag: number | null = null;
+    let eventLoopLagMax: number | null = null;
+    if (this.lagHistogram && Number.isFinite(this.lagHistogram.mean)) {
+      eventLoopLag = Math.max(this.lagHistogram.mean / 1e6 - LAG_RESOLUTION_MS, 0);
+      eventLoopLagMax = Math.max(this.lagHistogram.max / 1e6 - LAG_RESOLUTION_MS, 0);
+      this.lagHistogram.reset();
+    }
+
+    const memoryUsage = process.memoryUsage();
+    const activeThreads = (await storage.getAllChallengeThreads()).filter(thread => !thread.isDeleted).length;
+    return await storage.recordSystemMetrics({
+      resolution: metricResolutions.MINUTE,
+      rssMemory: memoryUsage.rss,
+      heapTotal: memoryUsage.heapTotal,
+      heapUsed: memoryUsage.heapUsed,
+      external: memoryUsage.external,
+      uptime: Math.floor(process.uptime()),
+      activeThreads,
+      cpuPercent: (cpu.user + cpu.system) / 1000 / elapsedMs * 100,
+      eventLoopLag,
+      eventLoopLagMax,
+      wsPing: discordBot.getWebSocketPing(),
+      cpuUsage: process.cpuUsage(),
+      loadAverage: os.loadavg()
+    });
+  }
+
+  /**
+   * Average minute samples older than a day into hourly buckets and hourly
+   * buckets older than 30 days into daily buckets, then drop daily buckets
+   * older than a year
+   * Only whole hours and UTC days are averaged, so this is safe to run again.
+   * @returns How many buckets were created and samples dropped
+   */
+  async downsample(): Promise<{ hourly: number; daily: number; pruned: number }> {
+    const now = Date.now();
+    const hourly = await this.compact(metricResolutions.MINUTE, metricResolutions.HOUR, HOUR_MS, now - MINUTE_RETENTION_MS);
+    const daily = await this.compact(metricResolutions.HOUR, metricResolutions.DAY, DAY_MS, now - HOUR_RETENTION_MS);
+    const pruned = await storage.deleteSystemMetricsBefore(new Date(now - DAY_RETENTION_MS));
+    return { hourly, daily, pruned };
+  }
+
+  /**
+   * Replace the samples of one resolution in each whole bucket before a time
+   * with a single sample averaged over the bucket
+   * @param bucketMs Length of a bucket; buckets start at whole multiples of it since the epoch
+   * @param before Only buckets that end by this time are averaged
+   * @returns How many buckets were created
+   */
+  private async compact(from: MetricResolution, to: MetricResolution, bucketMs: number, before: number): Promise<number> {
+    const end = new Date(Math.floor(before / bucketMs) * bucketMs);
+    const samples = await storage.getSystemMetricsRange(new Date(0), end, from);
+
+    const buckets = new Map<number, SystemMetrics[]>();
+    samples.forEach(sample => {
+      const start = Math.floor(sample.timestamp.getTime() / bucketMs) * bucketMs;
+      buckets.set(start, [...(buckets.get(start) || []), sample]);
+    });
+
+    for (const [start, bucket] of Array.from(buckets.entries())) {
+      await storage.recordSystemMetrics(this.average(bucket, to, new Date(start)));
+      await storage.deleteSystemMetrics(bucket.map(sample => sample.id));
+    }
+    return buckets.size;
+  }
+
+  /**
+   * Average samples into one, weighting each by the minute samples it holds
+   * Peaks keep their maximum; uptime and cumulative CPU time are the latest.
+   */
+  private average(samples: SystemMetrics[], resolution: MetricResolution, timestamp: Date): InsertSystemMetrics {
+    const sampleCount = samples.reduce((sum, sample) => sum + sample.sampleCount, 0);
+    const mean = (value: (sample: SystemMetrics) => number | null): number | null => {
+      const known = samples.filter(sample => value(sample) !== null);
+      const weight = known.reduce((sum, sample) => sum + sample.sampleCount, 0);
+      return weight > 0 ? known.reduce((sum, sample) => sum + (value(sample) as number) * sample.sampleCount, 0) / weight : null;
+    };
+    const roundedMean = (value: (sample: SystemMetrics) => number) => Math.round(mean(value) as number);
+    const lagMaxes = samples.map(sample => sample.eventLoopLagMax).filter((lag): lag is number => lag !== null);
+    const wsPing = mean(sample => sample.wsPing);
+    const loadAverages = samples.map(sample => sample.loadAverage).filter((load): load is number[] => Array.isArray(load));
+    const latest = samples[samples.length - 1];
+
+    return {
+      timestamp,
+      resolution,
+      sampleCount,
+      rssMemory: roundedMean(sample => sample.rssMemory),
+      heapTotal: roundedMean(sample => sample.heapTotal),
+      heapUsed: roundedMean(sample => sample.heapUsed),
+      external: roundedMean(sample => sample.external),
+      uptime: latest.uptime,
+      activeThreads: roundedMean(sample => sample.activeThreads),
+      cpuPercent: mean(sample => sample.cpuPercent),
+      eventLoopLag: mean(sample => sample.eventLoopLag),
+      eventLoopLagMax: lagMaxes.length > 0 ? Math.max(...lagMaxes) : null,
+      wsPing: wsPing !== null ? Math.round(wsPing) : null,
+      cpuUsage: latest.cpuUsage as InsertSystemMetrics['cpuUsage'],
+      loadAverage: loadAverages.length > 0
+        ? loadAverages[0].map((_, i) => loadAverages.reduce((sum, load) => sum + load[i], 0) / loadAverages.length)
+        : null
+    };
+  }
+}
+
+export const systemMetricsSampler = new SystemMetricsSampler();
@@ -0,0 +1,230 @@
+import { storage } from '../storage';
+import { discordBot } from './bot';
+import { ChallengeThread, ArchiveOutcome, archiveOutcomes, closedArchiveOutcomes } from '@shared/schema';
+
+// Longest delay setTimeout allows; later closes are re-checked when it fires
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Wait before retrying a failed close: doubles each attempt, up to an hour
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Failed attempts before a close waits for a manual retry
+const MAX_CLOSE_ATTEMPTS = 8;
+
+/**
+ * Class to close each challenge thread at its exact expiresAt
+ * Every open thread has its own timer, rebuilt from storage at startup, so
+ * threads still close on time after a restart. Each close's outcome is stored
+ * on the thread, which is marked deleted once closed; closes that failed for
+ * a transient reason go on the stored retry queue and are retried with backoff.
+ */
+export class ThreadExpiryScheduler {
+  // Each open thread's close, by challenge thread ID
+  private closeTimers: Map<number, { timeout: NodeJS.Timeout; runAt: Date; attempts: number }> = new Map();
+  // Closes under way, by challenge thread ID, so a thread is closed once at a time
+  private closesInFlight: Map<number, Promise<ArchiveOutcome>> = new Map();
+
+  /**
+   * Schedule the close of every open thread in storage
+   * Threads never closed get a close at their expiresAt (right away if they
+   * already expired), queued retries resume at their next attempt, and threads
+   * whose close failed for good wait for a manual retry. Threads with a close
+   * already scheduled keep it, so this is safe to run again.
+   * @returns How many closes were newly scheduled
+   */
+  async scheduleAll(): Promise<number> {
+    const threads = (await storage.getAllChallengeThreads()).filter(thread => !thread.isDeleted);
+    const retries = await storage.getArchiveRetries();
+    let scheduled = 0;
+    for (const thread of threads) {
+      if (this.closeTimers.has(thread.id)) continue;
+
+      const retry = retries.find(entry => entry.challengeThreadId === thread.id);
+      if (retry) {
+        this.setTimer(thread.id, retry.nextAttemptAt, retry.attempts);
+      } else if (!thread.archiveOutcome) {
+        this.scheduleThread(thread);
+      } else {
+        continue;
+      }
+      scheduled++;
+    }
+    return scheduled;
+  }
+
+  /**
+   * Schedule a thread's close at its expiresAt, replacing any close already scheduled
+   * @param thread The challenge thread
+   */
+  scheduleThread(thread: ChallengeThread) {
+    if (thread.isDeleted) {
+      this.cancelThread(thread.id);
+      return;
+    }
+    this.setTimer(thread.id, thread.expiresAt, 0);
+  }
+
+  /**
+   * Cancel a thread's scheduled close, e.g. once it was closed some other way
+   * @param id The challenge thread's ID
+   */
+  cancelThread(id: number) {
+    const timer = this.closeTimers.get(id);
+    if (timer) {
+      clearTimeout(timer.timeout);
+      this.closeTimers.delete(id);
+    }
+  }
+
+  /**
+   * When a thread is next due to be closed, and how many closes of it failed
+   * @param id The challenge thread's ID
+   * @returns undefined if no close is scheduled
+   */
+  getScheduledClose(id: number): { runAt: Date; attempts: number } | undefined {
+    const timer = this.closeTimers.get(id);
+    return timer ? { runAt: timer.runAt, attempts: timer.attempts } : undefined;
+  }
+
+  /**
+   * Archive a thread on Discord now and store the outcome on it
+   * A closed thread is marked deleted and leaves the retry queue; a transient
+   * failure is queued for another attempt with backoff. Closing a thread that
+   * is already being closed waits for that close instead of starting another.
+   * @param thread The challenge thread
+   * @returns The outcome of archiving it
+   */
+  async closeThread(thread: ChallengeThread): Promise<ArchiveOutcome> {
+    this.cancelThread(thread.id);
+
+    const inFlight = this.closesInFlight.get(thread.id);
+    if (inFlight) return await inFlight;
+
+    const close = this.archiveAndRecord(thread).finally(() => {
+      this.closesInFlight.delete(thread.id);
+    });
+    this.closesInFlight.set(thread.id, close);
+    return await close;
+  }
+
+  /**
+   * Archive a thread on Discord and store the outcome, as closeThread describes
+   */
+  private async archiveAndRecord(thread: ChallengeThread): Promise<ArchiveOutcome> {
+    // A caller may hold the thread from before an earlier close posted its results
+    const current = await storage.getChallengeThread(thread.id) ?? thread;
+    const { outcome, error } = await discordBot.archiveThread(current);
+    await storage.updateChallengeThread(thread.id, {
+      archiveOutcome: outcome,
+      archiveError: error ?? null,
+      archiveAttemptedAt: new Date()
+    });
+
+    if (outcome === archiveOutcomes.TRANSIENT_ERROR) {
+      await this.queueRetry(thread, error);
+    } else {
+      await storage.deleteArchiveRetry(thread.id);
+      if (closedArchiveOutcomes.includes(outcome)) {
+        await storage.markThreadAsDeleted(thread.id);
+      }
+    }
+    return outcome;
+  }
+
+  /**
+   * Close an open thread now, whatever its earlier outcome, e.g. from the dashboard
+   * @param id The challenge thread's ID
+   * @returns The outcome of archiving it
+   * @throws Error if there is no such open thread
+   */
+  async retryClose(id: number): Promise<ArchiveOutcome> {
+    const thread = await storage.getChallengeThread(id);
+    if (!thread || thread.isDeleted) {
+      throw new Error(`Thread ${id} is not open`);
+    }
+    return await this.closeThread(thread);
+  }
+
+  /**
+   * Number of closes scheduled
+   */
+  getScheduledCount(): number {
+    return this.closeTimers.size;
+  }
+
+  /**
+   * Cancel every scheduled close
+   */
+  stopAll() {
+    this.closeTimers.forEach(timer => clearTimeout(timer.timeout));
+    this.closeTimers.clear();
+  }
+
+  /**
+   * Put a thread whose close failed on the retry queue, or take it off once
+   * it has failed too often
+   * @param error Why the close failed
+   */
+  private async queueRetry(thread: ChallengeThread, error?: string) {
+    const failures = ((await storage.getArchiveRetry(thread.id))?.attempts ?? 0) + 1;
+    if (failures >= MAX_CLOSE_ATTEMPTS) {
+      await storage.deleteArchiveRetry(thread.id);
+      console.error(`❌ Could not close thread ${thread.threadId} after ${failures} attempts, it can be retried from the dashboard: ${error}`);
+      return;
+    }
+
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (failures - 1), RETRY_MAX_DELAY_MS);
+    const nextAttemptAt = new Date(Date.now() + delay);
+    await storage.saveArchiveRetry({
+      challengeThreadId: thread.id,
+      attempts: failures,
+      nextAttemptAt,
+      lastError: error ?? null
+    });
+    this.setTimer(thread.id, nextAttemptAt, failures);
+    console.warn(`⚠️ Could not close thread ${thread.threadId} (attempt ${failures}), retrying in ${Math.round(delay / 60000)}m: ${error}`);
+  }
+
+  /**
+   * Set a thread's close timer, replacing any it has
+   * @param attempts Closes of the thread that already failed
+   */
+  private setTimer(id: number, runAt: Date, attempts: number) {
+    this.cancelThread(id);
+    const delay = Math.min(Math.max(runAt.getTime() - Date.now(), 0), MAX_TIMER_DELAY_MS);
+    const timeout = setTimeout(() => {
+      this.runClose(id).catch(error => {
+        console.error(`Error closing thread ${id}:`, error);
+      });
+    }, delay);
+    this.closeTimers.set(id, { timeout, runAt, attempts });
+  }
+
+  /**
+   * Close a thread when its timer fires, unless it was closed or extended meanwhile
+   */
+  private async runClose(id: number) {
+    const thread = await storage.getChallengeThread(id);
+    if (!thread || thread.isDeleted) {
+      this.cancelThread(id);
+      await storage.deleteArchiveRetry(id);
+      return;
+    }
+
+    // The timer was capped, or the thread's expiry moved later
+    if (thread.expiresAt.getTime() > Date.now()) {
+      this.setTimer(id, thread.expiresAt, 0);
+      return;
+    }
+
+    const outcome = await this.closeThread(thread);
+    if (closedArchiveOutcomes.includes(outcome)) {
+      console.log(`🔒 Closed expired thread ${thread.threadId} (${thread.cubeType}) in guild ${thread.guildId}: ${outcome}`);
+    } else if (outcome === archiveOutcomes.PERMISSION_DENIED) {
+      console.error(`❌ Missing permissions to close thread ${thread.threadId} in guild ${thread.guildId}, it can be retried from the dashboard`);
+    }
+  }
+}
+
+export const threadExpiryScheduler = new ThreadExpiryScheduler();
@@ -169,6 +169,9 @@ async function initializeServices() {
       await botPromise;
       console.log('✅ Discord bot shutdown complete');
       
+      // Save command usage and metrics still waiting to be written
+      await storage.flushPendingWrites();
+      
       // Wait for any pending operations
       console.log('3️⃣ Waiting for any pending operations to complete...');
       await new Promise(resolve => setTimeout(resolve, 1000));
@@ -0,0 +1,26 @@
+import fs from 'fs';
+import path from 'path';
+import { pool } from './db';
+
+/**
+ * Apply the hand-written SQL migrations in ./migrations, in file name order
+ * These move and clean up data, which `npm run db:push` cannot do, so run
+ * them first with `npm run db:migrate`. Each migration is safe to run again.
+ */
+async function migrate() {
+  const dir = path.resolve(process.cwd(), 'migrations');
+  const files = fs.readdirSync(dir).filter(file => file.endsWith('.sql')).sort();
+
+  for (const file of files) {
+    console.log(`Applying migration ${file}...`);
+    await pool.query(fs.readFileSync(path.join(dir, file), 'utf8'));
+  }
+  console.log(`Applied ${files.length} migrations`);
+}
+
+migrate()
+  .catch(error => {
+    console.error('Migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
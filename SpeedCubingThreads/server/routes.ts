@@ -7,10 +7,18 @@ import { TextChannel } from 'discord.js';
 import { storage } from "./storage";
 import { discordBot } from "./discord/bot";
 import { scheduler } from "./discord/scheduler";
+import { threadExpiryScheduler } from "./discord/threadExpiryScheduler";
 import { keepAliveActive } from "./keep-alive";
-import { insertBotConfigSchema, User } from "@shared/schema";
+import { insertBotConfigSchema, User, cubeTypes, closedArchiveOutcomes, auditActions, auditResults, auditActorTypes, AuditAction, AuditActorType, AuditResult } from "@shared/schema";
+import { STATS_HISTORY_LIMIT, getSolveHistoryStats } from "@shared/solveStats";
+import { renderTrendSvg } from "@shared/trendRenderer";
+import { SEASON_PERIODS, SeasonPeriod } from "@shared/seasons";
 import { z } from "zod";
 import { requireAuth } from "./auth";
+import { getDashboardActor, recordAudit } from "./audit";
+
+// Longest window of system metrics the dashboard can chart, in hours
+const MAX_SYSTEM_METRICS_HOURS = 365 * 24;
 
 // Extend the Express Request type to include user property
 declare global {
@@ -102,6 +110,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Create or update bot configuration
   apiRouter.post("/config", requireAuth, async (req, res) => {
+    const actor = getDashboardActor(req);
+    const guildId = typeof req.body?.guildId === "string" ? req.body.guildId : null;
     try {
       const configData = insertBotConfigSchema.parse(req.body);
       
@@ -111,13 +121,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (existingConfig) {
         // Update existing config
         const updated = await storage.updateBotConfig(existingConfig.id, configData);
+        // Move the guild's daily post to its new time, or cancel it if disabled
+        if (updated) scheduler.scheduleGuildPost(updated);
+        await recordAudit(actor, auditActions.CONFIG_UPDATE, { guildId, parameters: configData, result: auditResults.SUCCESS });
         res.json(updated);
       } else {
         // Create new config
         const newConfig = await storage.createBotConfig(configData);
+        scheduler.scheduleGuildPost(newConfig);
+        await recordAudit(actor, auditActions.CONFIG_UPDATE, { guildId, parameters: { ...configData, created: true }, result: auditResults.SUCCESS });
         res.status(201).json(newConfig);
       }
     } catch (error) {
+      await recordAudit(actor, auditActions.CONFIG_UPDATE, { guildId, parameters: req.body ?? {}, result: auditResults.FAILURE, error });
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: error.errors });
       } else {
@@ -127,21 +143,123 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get all challenge threads
+  // Get all challenge threads, with when each open one is due to close
   apiRouter.get("/threads", requireAuth, async (req, res) => {
     try {
       const threads = await storage.getAllChallengeThreads();
-      res.json(threads);
+      res.json(threads.map(thread => {
+        const close = threadExpiryScheduler.getScheduledClose(thread.id);
+        return { ...thread, closesAt: close?.runAt ?? null, closeAttempts: close?.attempts ?? 0 };
+      }));
     } catch (error) {
       console.error("Error fetching threads:", error);
       res.status(500).json({ error: "Failed to fetch threads" });
     }
   });
   
+  // Close an open thread now, e.g. after its close failed
+  apiRouter.post("/threads/:id/retry-archive", requireAuth, async (req, res) => {
+    const actor = getDashboardActor(req);
+    const parameters = { threadId: req.params.id };
+    try {
+      const id = Number(req.params.id);
+      const thread = Number.isInteger(id) ? await storage.getChallengeThread(id) : undefined;
+      if (!thread || thread.isDeleted) {
+        return res.status(404).json({ error: "No open thread with that ID" });
+      }
+      
+      const outcome = await threadExpiryScheduler.retryClose(thread.id);
+      const success = closedArchiveOutcomes.includes(outcome);
+      await recordAudit(actor, auditActions.THREAD_CLOSE_RETRY, {
+        guildId: thread.guildId,
+        parameters: { ...parameters, outcome },
+        result: success ? auditResults.SUCCESS : auditResults.FAILURE,
+        error: success ? undefined : `Thread was not closed: ${outcome}`
+      });
+      res.json({ success, outcome });
+    } catch (error: unknown) {
+      await recordAudit(actor, auditActions.THREAD_CLOSE_RETRY, { parameters, result: auditResults.FAILURE, error });
+      console.error("Error retrying thread close:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: "Failed to retry closing the thread", message: errorMessage });
+    }
+  });
+  
+  // Get the audit log of admin actions, newest first, a page at a time
+  // Optional filters: ?actorType=, ?actor= (part of a name), ?action=, ?guildId=,
+  // ?result=, ?from= and ?to= (ISO dates, both inclusive: a date-only ?to= takes in
+  // that whole UTC day); paged with ?limit= (max 100) and ?offset=
+  apiRouter.get("/audit", requireAuth, async (req, res) => {
+    try {
+      const param = (name: string) => typeof req.query[name] === "string" && req.query[name] ? req.query[name] as string : undefined;
+      const actorType = param("actorType");
+      const action = param("action");
+      const result = param("result");
+      if (actorType && !(Object.values(auditActorTypes) as string[]).includes(actorType)) {
+        return res.status(400).json({ error: `Unknown actor type: ${actorType}` });
+      }
+      if (action && !(Object.values(auditActions) as string[]).includes(action)) {
+        return res.status(400).json({ error: `Unknown action: ${action}` });
+      }
+      if (result && !(Object.values(auditResults) as string[]).includes(result)) {
+        return res.status(400).json({ error: `Unknown result: ${result}` });
+      }
+      
+      const from = param("from") ? new Date(param("from")!) : undefined;
+      let to = param("to") ? new Date(param("to")!) : undefined;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ error: "Dates must be ISO dates, e.g. 2026-10-19" });
+      }
+      if (to && /^\d{4}-\d{2}-\d{2}$/.test(param("to")!)) {
+        to = new Date(to.getTime() + 24 * 60 * 60 * 1000 - 1);
+      }
+      
+      const limit = Math.min(Math.max(Number(param("limit") ?? 50) || 50, 1), 100);
+      const offset = Math.max(Number(param("offset") ?? 0) || 0, 0);
+      
+      const { entries, total } = await storage.getAuditLog({
+        actorType: actorType as AuditActorType | undefined,
+        actorName: param("actor"),
+        action: action as AuditAction | undefined,
+        guildId: param("guildId"),
+        result: result as AuditResult | undefined,
+        from,
+        to,
+        limit,
+        offset
+      });
+      res.json({ entries, total, limit, offset });
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+  
+  // Get a guild's completed seasons with their final standings, newest first
+  // Optional ?period=week or ?period=month limits the list to one season length
+  apiRouter.get("/seasons", requireAuth, async (req, res) => {
+    try {
+      const guildId = typeof req.query.guildId === "string" ? req.query.guildId : undefined;
+      const period = typeof req.query.period === "string" ? req.query.period : undefined;
+      if (!guildId) {
+        return res.status(400).json({ error: "Missing required parameter: guildId" });
+      }
+      if (period && !(SEASON_PERIODS as string[]).includes(period)) {
+        return res.status(400).json({ error: `Unknown season period: ${period}` });
+      }
+      
+      const seasons = await storage.getSeasonsByGuild(guildId, period as SeasonPeriod | undefined);
+      res.json(seasons);
+    } catch (error) {
+      console.error("Error fetching seasons:", error);
+      res.status(500).json({ error: "Failed to fetch seasons" });
+    }
+  });
+  
   // Get the next scheduled challenge
-  apiRouter.get("/next-challenge", (req, res) => {
+  apiRouter.get("/next-challenge", async (req, res) => {
     try {
-      const nextChallenge = scheduler.getNextScheduledChallenge();
+      const nextChallenge = await scheduler.getNextScheduledChallenge(req.query.guildId as string | undefined);
       res.json(nextChallenge);
     } catch (error) {
       console.error("Error getting next challenge:", error);
@@ -149,6 +267,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Get the average of everyone's timed solves in each event
+  apiRouter.get("/solve-averages", requireAuth, async (req, res) => {
+    try {
+      const averages = await storage.getAverageScramblePerformanceByCubeType();
+      res.json(averages);
+    } catch (error) {
+      console.error("Error fetching solve averages:", error);
+      res.status(500).json({ error: "Failed to fetch solve averages" });
+    }
+  });
+  
+  // Get the bot's health samples, oldest first, for the dashboard charts
+  // Optional ?hours= sets the window (default 24, at most a year); samples
+  // older than a day are hourly averages, and older than 30 days daily ones
+  apiRouter.get("/system-metrics", requireAuth, async (req, res) => {
+    try {
+      const hours = Math.min(Math.max(Number(req.query.hours ?? 24) || 24, 1), MAX_SYSTEM_METRICS_HOURS);
+      const now = Date.now();
+      const samples = await storage.getSystemMetricsRange(new Date(now - hours * 60 * 60 * 1000), new Date(now + 1));
+      res.json({ hours, samples });
+    } catch (error) {
+      console.error("Error fetching system metrics:", error);
+      res.status(500).json({ error: "Failed to fetch system metrics" });
+    }
+  });
+  
+  // Get a member's solve stats per event, for stream overlays
+  // Optional ?event= limits the stats to one cube type
+  apiRouter.get("/stats/:userId", async (req, res) => {
+    try {
+      const event = typeof req.query.event === "string" ? req.query.event : undefined;
+      if (event && !(Object.values(cubeTypes) as string[]).includes(event)) {
+        return res.status(400).json({ error: `Unknown event: ${event}` });
+      }
+      
+      const history = await storage.getScramblePerformanceByUser(req.params.userId, STATS_HISTORY_LIMIT);
+      const events = getSolveHistoryStats(history).filter(entry => !event || entry.cubeType === event);
+      res.json({ userId: req.params.userId, events });
+    } catch (error) {
+      console.error("Error fetching stats:", error);
+      res.status(500).json({ error: "Failed to fetch stats" });
+    }
+  });
+  
+  // Get the trend chart of a member's recent solves as an SVG image, for stream overlays
+  // Charts the ?event= cube type, or the member's most practised event
+  apiRouter.get("/stats/:userId/trend.svg", async (req, res) => {
+    try {
+      const event = typeof req.query.event === "string" ? req.query.event : undefined;
+      const history = await storage.getScramblePerformanceByUser(req.params.userId, STATS_HISTORY_LIMIT);
+      const charted = getSolveHistoryStats(history).find(entry => !event || entry.cubeType === event);
+      if (!charted) {
+        return res.status(404).json({ error: "No timed solves found" });
+      }
+      
+      res.type("image/svg+xml").send(renderTrendSvg(charted.trend));
+    } catch (error) {
+      console.error("Error rendering stats trend:", error);
+      res.status(500).json({ error: "Failed to render stats trend" });
+    }
+  });
+  
   // Create a manual scramble thread
   apiRouter.post("/manual-scramble", requireAuth, async (req, res) => {
     try {
@@ -158,23 +338,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Missing required parameters" });
       }
       
-      const threadId = await discordBot.createManualScrambleThread(guildId, channelId, cubeType);
-      res.status(201).json({ success: true, threadId });
+      try {
+        const threadId = await discordBot.createManualScrambleThread(guildId, channelId, cubeType);
+        await recordAudit(getDashboardActor(req), auditActions.MANUAL_THREAD_CREATE, {
+          guildId, parameters: { channelId, cubeType, threadId }, result: auditResults.SUCCESS
+        });
+        res.status(201).json({ success: true, threadId });
+      } catch (error) {
+        await recordAudit(getDashboardActor(req), auditActions.MANUAL_THREAD_CREATE, {
+          guildId, parameters: { channelId, cubeType }, result: auditResults.FAILURE, error
+        });
+        throw error;
+      }
     } catch (error) {
       console.error("Error creating manual scramble:", error);
       res.status(500).json({ error: "Failed to create manual scramble" });
     }
   });
   
-  // Create a test thread using the currently configured channel and guild
+  // Create a test thread in a guild's configured channel
+  // guildId picks the guild; it can be left out while only one guild is configured
   apiRouter.post("/create-test-thread", requireAuth, async (req, res) => {
     try {
+      const requestedGuildId = typeof req.body?.guildId === "string" && req.body.guildId ? req.body.guildId : undefined;
       const configs = await storage.getAllBotConfigs();
       if (configs.length === 0) {
         return res.status(400).json({ error: "No bot configuration found" });
       }
+      if (!requestedGuildId && configs.length > 1) {
+        return res.status(400).json({ error: "Several guilds are configured, choose one with guildId" });
+      }
       
-      const config = configs[0];
+      const config = requestedGuildId ? configs.find(other => other.guildId === requestedGuildId) : configs[0];
+      if (!config) {
+        return res.status(404).json({ error: `No bot configuration found for guild ${requestedGuildId}` });
+      }
       const { guildId, channelId } = config;
       const cubeType = req.body.cubeType || "3x3"; // Default to 3x3 if not specified
       
@@ -182,8 +380,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Guild ID or Channel ID not configured" });
       }
       
-      const threadId = await discordBot.createManualScrambleThread(guildId, channelId, cubeType);
-      res.status(201).json({ success: true, threadId, channelId, guildId });
+      try {
+        const threadId = await discordBot.createManualScrambleThread(guildId, channelId, cubeType);
+        await recordAudit(getDashboardActor(req), auditActions.MANUAL_THREAD_CREATE, {
+          guildId, parameters: { channelId, cubeType, threadId, test: true }, result: auditResults.SUCCESS
+        });
+        res.status(201).json({ success: true, threadId, channelId, guildId });
+      } catch (error) {
+        await recordAudit(getDashboardActor(req), auditActions.MANUAL_THREAD_CREATE, {
+          guildId, parameters: { channelId, cubeType, test: true }, result: auditResults.FAILURE, error
+        });
+        throw error;
+      }
     } catch (error: unknown) {
       console.error("Error creating test thread:", error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -195,7 +403,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   apiRouter.post("/trigger-daily-post", requireAuth, async (req, res) => {
     try {
       console.log("Manual trigger of daily scramble post requested");
-      const success = await scheduler.triggerDailyScramblePost();
+      // Optional guildId limits the post to one guild
+      const guildId = typeof req.body?.guildId === "string" ? req.body.guildId : undefined;
+      const success = await scheduler.triggerDailyScramblePost(guildId);
+      await recordAudit(getDashboardActor(req), auditActions.DAILY_POST_TRIGGER, {
+        guildId,
+        parameters: { guildId: guildId ?? "all" },
+        result: success ? auditResults.SUCCESS : auditResults.FAILURE,
+        error: success ? undefined : "Not every guild's daily post was made"
+      });
       
       if (success) {
         res.status(200).json({ success: true, message: "Daily scramble post triggered successfully" });
@@ -203,6 +419,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.status(500).json({ success: false, message: "Failed to trigger daily scramble post" });
       }
     } catch (error: unknown) {
+      await recordAudit(getDashboardActor(req), auditActions.DAILY_POST_TRIGGER, { parameters: req.body ?? {}, result: auditResults.FAILURE, error });
       console.error("Error triggering daily scramble post:", error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       res.status(500).json({ error: "Failed to trigger daily scramble post", message: errorMessage });
@@ -213,13 +430,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   apiRouter.post("/trigger-thread-cleanup", requireAuth, async (req, res) => {
     try {
       console.log("Manual trigger of thread cleanup requested");
-      const result = await scheduler.triggerThreadCleanup();
+      // Optional guildId limits the cleanup to one guild's threads
+      const guildId = typeof req.body?.guildId === "string" ? req.body.guildId : undefined;
+      const result = await scheduler.triggerThreadCleanup(guildId);
+      await recordAudit(getDashboardActor(req), auditActions.THREAD_CLEANUP_TRIGGER, {
+        guildId,
+        parameters: { guildId: guildId ?? "all", closed: result.count, outcomes: result.outcomes },
+        result: result.success ? auditResults.SUCCESS : auditResults.FAILURE,
+        error: result.success ? undefined : "Thread cleanup failed"
+      });
       
       if (result.success) {
         res.status(200).json({ 
           success: true, 
-          message: `Thread cleanup completed successfully. ${result.count} thread(s) processed.`,
-          count: result.count 
+          message: `Thread cleanup completed successfully. ${result.count} thread(s) closed.`,
+          count: result.count,
+          outcomes: result.outcomes
         });
       } else {
         res.status(500).json({ 
@@ -229,6 +455,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
     } catch (error: unknown) {
+      await recordAudit(getDashboardActor(req), auditActions.THREAD_CLEANUP_TRIGGER, { parameters: req.body ?? {}, result: auditResults.FAILURE, error });
       console.error("Error triggering thread cleanup:", error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       res.status(500).json({ 
@@ -408,6 +635,12 @@ ${securityIssues.length > 0 ? `\n**Issues Found:**\n${securityIssues.map(issue =
       fs.writeFileSync(backupFileName, JSON.stringify(backupData, null, 2));
       console.log(`✅ EMERGENCY: Backup created successfully`);
       
+      // Recorded now, as the process exits as soon as it responds
+      await recordAudit(getDashboardActor(req), auditActions.EMERGENCY_BACKUP, {
+        parameters: { backupFile: backupFileName, moderatorRoles },
+        result: auditResults.SUCCESS
+      });
+      
       // 2. Perform security scan
       console.log(`🔍 EMERGENCY: Performing security scan`);
       
@@ -513,6 +746,7 @@ The bot will be temporarily offline during the restart process.
       // Exit process - will be restarted by Replit
       process.exit(0);
     } catch (error) {
+      await recordAudit(getDashboardActor(req), auditActions.EMERGENCY_BACKUP, { parameters: req.body ?? {}, result: auditResults.FAILURE, error });
       console.error('Error during emergency backup:', error);
       res.status(500).json({ 
         success: false, 
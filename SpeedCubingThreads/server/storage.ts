@@ -1,18 +1,30 @@
 import { 
-  BotConfig, ChallengeThread, InsertBotConfig, InsertChallengeThread, 
+  BotConfig, ChallengeThread, InsertBotConfig, InsertChallengeThread, FmcResult, InsertFmcResult, ChallengeResult, InsertChallengeResult,
+  Season, InsertSeason, DailyPost, InsertDailyPost, ArchiveRetry, InsertArchiveRetry,
+  AuditLogEntry, InsertAuditLogEntry, AuditLogQuery,
   User, UserRole, CommandUsage, SystemMetrics, DailyAnalytics, ScramblePerformance,
-  InsertCommandUsage, InsertSystemMetrics, InsertDailyAnalytics, InsertScramblePerformance
+  InsertCommandUsage, InsertSystemMetrics, InsertDailyAnalytics, InsertScramblePerformance, MetricResolution, metricResolutions,
+  defaultWeeklySchedule, DEFAULT_PING_ROLE_NAME, DEFAULT_ADMIN_ROLE_NAME, DEFAULT_CATCH_UP_HOURS
 } from '@shared/schema';
+import { EventAverage, EVENT_AVERAGE_SOLVE_LIMIT, getEventAverages } from '@shared/solveStats';
+import { DEFAULT_SEASON_POINTS, SeasonPeriod } from '@shared/seasons';
 import { db } from './db';
 import { 
-  botConfig, challengeThreads, users, commandUsage, 
+  botConfig, challengeThreads, fmcResults, challengeResults, seasons, dailyPosts, archiveRetries, auditLog, users, commandUsage, 
   systemMetrics, dailyAnalytics, scramblePerformance 
 } from '@shared/schema';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { eq, and, desc, sql, gte, lt, lte, ilike, inArray, SQL } from 'drizzle-orm';
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from './db';
 
+// Most command uses MemStorage keeps; the oldest are dropped first
+const MAX_MEM_COMMAND_USAGE = 5000;
+
+// How long MemStorage waits to write command uses and metric samples to its
+// file, so a burst of them is saved once rather than per entry
+const TELEMETRY_SAVE_DELAY_MS = 60 * 1000;
+
 // Interface for the storage operations
 export interface IStorage {
   sessionStore: session.Store;
@@ -30,8 +42,39 @@ export interface IStorage {
   getAllChallengeThreads(): Promise<ChallengeThread[]>;
   getExpiredThreads(): Promise<ChallengeThread[]>;
   createChallengeThread(thread: InsertChallengeThread): Promise<ChallengeThread>;
+  updateChallengeThread(id: number, thread: Partial<ChallengeThread>): Promise<ChallengeThread | undefined>;
   markThreadAsDeleted(id: number): Promise<boolean>;
   
+  // FMC result operations; creating returns undefined if the member already submitted to the thread
+  createFmcResult(result: InsertFmcResult): Promise<FmcResult | undefined>;
+  getFmcResultsByThread(challengeThreadId: number): Promise<FmcResult[]>;
+  
+  // Challenge result operations
+  saveChallengeResult(result: InsertChallengeResult): Promise<ChallengeResult>;
+  getChallengeResultsByThread(challengeThreadId: number): Promise<ChallengeResult[]>;
+  
+  // Season operations
+  createSeason(season: InsertSeason): Promise<Season>;
+  getSeason(guildId: string, period: SeasonPeriod, seasonKey: string): Promise<Season | undefined>;
+  getSeasonsByGuild(guildId: string, period?: SeasonPeriod): Promise<Season[]>;
+  updateSeason(id: number, season: Partial<Season>): Promise<Season | undefined>;
+  
+  // Daily post operations
+  createDailyPost(post: InsertDailyPost): Promise<DailyPost>;
+  getDailyPost(guildId: string, postDate: string, cubeType: string): Promise<DailyPost | undefined>;
+  getDailyPostsByGuild(guildId: string, limit?: number): Promise<DailyPost[]>;
+  updateDailyPost(id: number, post: Partial<DailyPost>): Promise<DailyPost | undefined>;
+  
+  // Archive retry queue operations
+  saveArchiveRetry(retry: InsertArchiveRetry): Promise<ArchiveRetry>;
+  getArchiveRetry(challengeThreadId: number): Promise<ArchiveRetry | undefined>;
+  getArchiveRetries(): Promise<ArchiveRetry[]>;
+  deleteArchiveRetry(challengeThreadId: number): Promise<boolean>;
+  
+  // Audit log operations
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLog(query: AuditLogQuery): Promise<{ entries: AuditLogEntry[]; total: number }>;
+  
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -45,11 +88,15 @@ export interface IStorage {
   getCommandUsage(limit?: number): Promise<CommandUsage[]>;
   getCommandUsageByName(commandName: string, limit?: number): Promise<CommandUsage[]>;
   getCommandUsageByUser(userId: string, limit?: number): Promise<CommandUsage[]>;
+  getCommandUsageRange(startDate: Date, endDate: Date): Promise<CommandUsage[]>;
   
   // System metrics tracking
   recordSystemMetrics(metrics: InsertSystemMetrics): Promise<SystemMetrics>;
   getLatestSystemMetrics(): Promise<SystemMetrics | undefined>;
   getSystemMetricsHistory(limit?: number): Promise<SystemMetrics[]>;
+  getSystemMetricsRange(startDate: Date, endDate: Date, resolution?: MetricResolution): Promise<SystemMetrics[]>;
+  deleteSystemMetrics(ids: number[]): Promise<number>;
+  deleteSystemMetricsBefore(date: Date): Promise<number>;
   
   // Daily analytics tracking
   createOrUpdateDailyAnalytics(date: Date, data: Partial<InsertDailyAnalytics>): Promise<DailyAnalytics>;
@@ -58,27 +105,72 @@ export interface IStorage {
   
   // Scramble performance tracking
   recordScramblePerformance(data: InsertScramblePerformance): Promise<ScramblePerformance>;
+  updateScramblePerformance(id: number, data: Partial<ScramblePerformance>): Promise<ScramblePerformance | undefined>;
   getScramblePerformance(limit?: number): Promise<ScramblePerformance[]>;
   getScramblePerformanceByUser(userId: string, limit?: number): Promise<ScramblePerformance[]>;
   getScramblePerformanceByCubeType(cubeType: string, limit?: number): Promise<ScramblePerformance[]>;
-  getAverageScramblePerformanceByCubeType(): Promise<{cubeType: string, averageSolveTime: number}[]>;
+  getAverageScramblePerformanceByCubeType(): Promise<EventAverage[]>;
+  
+  // Write anything still waiting to be saved, e.g. before shutting down
+  flushPendingWrites(): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
   private botConfigs: Map<number, BotConfig>;
   private challengeThreads: Map<number, ChallengeThread>;
+  private fmcResults: Map<number, FmcResult>;
+  private challengeResults: Map<number, ChallengeResult>;
+  private seasons: Map<number, Season>;
+  private dailyPosts: Map<number, DailyPost>;
+  private archiveRetries: Map<number, ArchiveRetry>;
+  private auditLog: Map<number, AuditLogEntry>;
+  private commandUsage: Map<number, CommandUsage>;
+  private systemMetrics: Map<number, SystemMetrics>;
+  private dailyAnalytics: Map<number, DailyAnalytics>;
+  private scramblePerformances: Map<number, ScramblePerformance>;
   private users: Map<number, User>;
   private botConfigCurrentId: number;
   private challengeThreadCurrentId: number;
+  private fmcResultCurrentId: number;
+  private challengeResultCurrentId: number;
+  private seasonCurrentId: number;
+  private dailyPostCurrentId: number;
+  private archiveRetryCurrentId: number;
+  private auditLogCurrentId: number;
+  private commandUsageCurrentId: number;
+  private systemMetricsCurrentId: number;
+  private dailyAnalyticsCurrentId: number;
+  private scramblePerformanceCurrentId: number;
   private userCurrentId: number;
+  private saveTimer: NodeJS.Timeout | null = null;
   sessionStore: session.Store;
   
   constructor() {
     this.botConfigs = new Map();
     this.challengeThreads = new Map();
+    this.fmcResults = new Map();
+    this.challengeResults = new Map();
+    this.seasons = new Map();
+    this.dailyPosts = new Map();
+    this.archiveRetries = new Map();
+    this.auditLog = new Map();
+    this.commandUsage = new Map();
+    this.systemMetrics = new Map();
+    this.dailyAnalytics = new Map();
+    this.scramblePerformances = new Map();
     this.users = new Map();
     this.botConfigCurrentId = 1;
     this.challengeThreadCurrentId = 1;
+    this.fmcResultCurrentId = 1;
+    this.challengeResultCurrentId = 1;
+    this.seasonCurrentId = 1;
+    this.dailyPostCurrentId = 1;
+    this.archiveRetryCurrentId = 1;
+    this.auditLogCurrentId = 1;
+    this.commandUsageCurrentId = 1;
+    this.systemMetricsCurrentId = 1;
+    this.dailyAnalyticsCurrentId = 1;
+    this.scramblePerformanceCurrentId = 1;
     this.userCurrentId = 1;
     
     // Create in-memory session store
@@ -96,12 +188,38 @@ export class MemStorage implements IStorage {
    * Save current state to file for persistence between restarts
    */
   private saveToFile(): void {
+    // This writes everything, including any save that was scheduled
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    
     const data = {
       botConfigs: Array.from(this.botConfigs.entries()),
       challengeThreads: Array.from(this.challengeThreads.entries()),
+      fmcResults: Array.from(this.fmcResults.entries()),
+      challengeResults: Array.from(this.challengeResults.entries()),
+      seasons: Array.from(this.seasons.entries()),
+      dailyPosts: Array.from(this.dailyPosts.entries()),
+      archiveRetries: Array.from(this.archiveRetries.entries()),
+      auditLog: Array.from(this.auditLog.entries()),
+      commandUsage: Array.from(this.commandUsage.entries()),
+      systemMetrics: Array.from(this.systemMetrics.entries()),
+      dailyAnalytics: Array.from(this.dailyAnalytics.entries()),
+      scramblePerformances: Array.from(this.scramblePerformances.entries()),
       users: Array.from(this.users.entries()),
       botConfigCurrentId: this.botConfigCurrentId,
       challengeThreadCurrentId: this.challengeThreadCurrentId,
+      fmcResultCurrentId: this.fmcResultCurrentId,
+      challengeResultCurrentId: this.challengeResultCurrentId,
+      seasonCurrentId: this.seasonCurrentId,
+      dailyPostCurrentId: this.dailyPostCurrentId,
+      archiveRetryCurrentId: this.archiveRetryCurrentId,
+      auditLogCurrentId: this.auditLogCurrentId,
+      commandUsageCurrentId: this.commandUsageCurrentId,
+      systemMetricsCurrentId: this.systemMetricsCurrentId,
+      dailyAnalyticsCurrentId: this.dailyAnalyticsCurrentId,
+      scramblePerformanceCurrentId: this.scramblePerformanceCurrentId,
       userCurrentId: this.userCurrentId
     };
     
@@ -118,6 +236,21 @@ export class MemStorage implements IStorage {
     }
   }
   
+  /**
+   * Save to file after a delay, for frequent writes like command usage and
+   * metric samples; further calls before then share the same save
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.saveToFile(), TELEMETRY_SAVE_DELAY_MS);
+  }
+  
+  async flushPendingWrites(): Promise<void> {
+    if (this.saveTimer) {
+      this.saveToFile();
+    }
+  }
+  
   /**
    * Load state from file
    */
@@ -131,16 +264,109 @@ export class MemStorage implements IStorage {
           // Restore bot configs
           data.botConfigs.forEach(([id, config]: [number, BotConfig]) => {
             this.botConfigs.set(id, {
-              ...config
+              ...config,
+              eventFormats: config.eventFormats || {},
+              seasonPoints: config.seasonPoints || DEFAULT_SEASON_POINTS,
+              schedule: config.schedule || defaultWeeklySchedule,
+              pingRoleName: config.pingRoleName || DEFAULT_PING_ROLE_NAME,
+              adminRoleName: config.adminRoleName || DEFAULT_ADMIN_ROLE_NAME,
+              catchUpHours: config.catchUpHours ?? DEFAULT_CATCH_UP_HOURS
             });
           });
           
-          // Restore challenge threads
-          data.challengeThreads.forEach(([id, thread]: [number, ChallengeThread]) => {
+          // Restore challenge threads; files saved before scramble sets existed
+          // hold a single scramble per thread
+          data.challengeThreads.forEach(([id, thread]: [number, ChallengeThread & { scramble?: string }]) => {
+            const { scramble, ...savedThread } = thread;
             this.challengeThreads.set(id, {
-              ...thread,
+              ...savedThread,
+              format: thread.format || 'single',
+              scrambles: thread.scrambles || (scramble ? [scramble] : []),
               createdAt: new Date(thread.createdAt),
-              expiresAt: new Date(thread.expiresAt)
+              expiresAt: new Date(thread.expiresAt),
+              leaderboardMessageId: thread.leaderboardMessageId ?? null,
+              archiveOutcome: thread.archiveOutcome ?? null,
+              archiveError: thread.archiveError ?? null,
+              archiveAttemptedAt: thread.archiveAttemptedAt ? new Date(thread.archiveAttemptedAt) : null,
+              closingPostedAt: thread.closingPostedAt ? new Date(thread.closingPostedAt) : null
+            });
+          });
+          
+          // Restore FMC results (missing from files saved before FMC existed)
+          (data.fmcResults || []).forEach(([id, result]: [number, FmcResult]) => {
+            this.fmcResults.set(id, {
+              ...result,
+              submittedAt: new Date(result.submittedAt)
+            });
+          });
+          
+          // Restore challenge results (missing from files saved before results were tracked)
+          (data.challengeResults || []).forEach(([id, result]: [number, ChallengeResult]) => {
+            this.challengeResults.set(id, {
+              ...result,
+              submittedAt: new Date(result.submittedAt)
+            });
+          });
+          
+          // Restore completed seasons (missing from files saved before seasons existed)
+          (data.seasons || []).forEach(([id, season]: [number, Season]) => {
+            this.seasons.set(id, {
+              ...season,
+              completedAt: new Date(season.completedAt)
+            });
+          });
+          
+          // Restore daily post records (missing from files saved before posts were recorded)
+          (data.dailyPosts || []).forEach(([id, post]: [number, DailyPost]) => {
+            this.dailyPosts.set(id, {
+              ...post,
+              scheduledFor: new Date(post.scheduledFor),
+              createdAt: new Date(post.createdAt),
+              updatedAt: new Date(post.updatedAt)
+            });
+          });
+          
+          // Restore the archive retry queue (missing from files saved before closes were retried)
+          (data.archiveRetries || []).forEach(([id, retry]: [number, ArchiveRetry]) => {
+            this.archiveRetries.set(id, {
+              ...retry,
+              nextAttemptAt: new Date(retry.nextAttemptAt),
+              createdAt: new Date(retry.createdAt)
+            });
+          });
+          
+          // Restore the audit log (missing from files saved before admin actions were audited)
+          (data.auditLog || []).forEach(([id, entry]: [number, AuditLogEntry]) => {
+            this.auditLog.set(id, {
+              ...entry,
+              createdAt: new Date(entry.createdAt)
+            });
+          });
+          
+          // Restore command usage and its daily rollups (missing from files saved before commands were tracked)
+          (data.commandUsage || []).forEach(([id, usage]: [number, CommandUsage]) => {
+            this.commandUsage.set(id, {
+              ...usage,
+              timestamp: new Date(usage.timestamp)
+            });
+          });
+          (data.dailyAnalytics || []).forEach(([id, day]: [number, DailyAnalytics]) => {
+            this.dailyAnalytics.set(id, day);
+          });
+          
+          // Restore system metrics samples (missing from files saved before metrics were sampled)
+          (data.systemMetrics || []).forEach(([id, sample]: [number, SystemMetrics]) => {
+            this.systemMetrics.set(id, {
+              ...sample,
+              timestamp: new Date(sample.timestamp)
+            });
+          });
+          
+          // Restore timed solves (missing from files saved before solves were kept)
+          (data.scramblePerformances || []).forEach(([id, solve]: [number, ScramblePerformance]) => {
+            this.scramblePerformances.set(id, {
+              ...solve,
+              timestamp: new Date(solve.timestamp)
             });
           });
           
@@ -156,6 +382,16 @@ export class MemStorage implements IStorage {
           // Restore IDs
           this.botConfigCurrentId = data.botConfigCurrentId;
           this.challengeThreadCurrentId = data.challengeThreadCurrentId;
+          this.fmcResultCurrentId = data.fmcResultCurrentId || 1;
+          this.challengeResultCurrentId = data.challengeResultCurrentId || 1;
+          this.seasonCurrentId = data.seasonCurrentId || 1;
+          this.dailyPostCurrentId = data.dailyPostCurrentId || 1;
+          this.archiveRetryCurrentId = data.archiveRetryCurrentId || 1;
+          this.auditLogCurrentId = data.auditLogCurrentId || 1;
+          this.commandUsageCurrentId = data.commandUsageCurrentId || 1;
+          this.systemMetricsCurrentId = data.systemMetricsCurrentId || 1;
+          this.dailyAnalyticsCurrentId = data.dailyAnalyticsCurrentId || 1;
+          this.scramblePerformanceCurrentId = data.scramblePerformanceCurrentId || 1;
           this.userCurrentId = data.userCurrentId;
           
           console.log('Storage state loaded from file');
@@ -193,7 +429,13 @@ export class MemStorage implements IStorage {
       timeToPost: config.timeToPost || "16:00", // Default: 4:00 PM
       timezone: config.timezone || "Asia/Kolkata", // Default: IST
       enabled: config.enabled !== undefined ? config.enabled : true, // Default: true
-      deleteAfterHours: config.deleteAfterHours || 24 // Default: 24 hours
+      deleteAfterHours: config.deleteAfterHours || 24, // Default: 24 hours
+      eventFormats: config.eventFormats || {}, // Default: every event as a single
+      seasonPoints: config.seasonPoints || DEFAULT_SEASON_POINTS,
+      schedule: config.schedule || defaultWeeklySchedule, // Default: one event a day
+      pingRoleName: config.pingRoleName || DEFAULT_PING_ROLE_NAME,
+      adminRoleName: config.adminRoleName || DEFAULT_ADMIN_ROLE_NAME,
+      catchUpHours: config.catchUpHours ?? DEFAULT_CATCH_UP_HOURS // Default: 6 hours
     };
     this.botConfigs.set(id, newConfig);
     this.saveToFile();
@@ -244,13 +486,28 @@ export class MemStorage implements IStorage {
       ...thread, 
       id, 
       createdAt: new Date(),
-      isDeleted: false 
+      isDeleted: false,
+      leaderboardMessageId: null,
+      archiveOutcome: null,
+      archiveError: null,
+      archiveAttemptedAt: null,
+      closingPostedAt: null
     };
     this.challengeThreads.set(id, newThread);
     this.saveToFile();
     return newThread;
   }
   
+  async updateChallengeThread(id: number, thread: Partial<ChallengeThread>): Promise<ChallengeThread | undefined> {
+    const existingThread = this.challengeThreads.get(id);
+    if (!existingThread) return undefined;
+    
+    const updatedThread = { ...existingThread, ...thread, id };
+    this.challengeThreads.set(id, updatedThread);
+    this.saveToFile();
+    return updatedThread;
+  }
+  
   async markThreadAsDeleted(id: number): Promise<boolean> {
     const thread = this.challengeThreads.get(id);
     if (!thread) return false;
@@ -261,6 +518,215 @@ export class MemStorage implements IStorage {
     return true;
   }
   
+  // FMC result methods
+  async createFmcResult(result: InsertFmcResult): Promise<FmcResult | undefined> {
+    const existing = Array.from(this.fmcResults.values()).find(
+      (other) => other.challengeThreadId === result.challengeThreadId && other.userId === result.userId
+    );
+    if (existing) return undefined;
+    
+    const id = this.fmcResultCurrentId++;
+    const newResult: FmcResult = {
+      ...result,
+      id,
+      submittedAt: new Date()
+    };
+    this.fmcResults.set(id, newResult);
+    this.saveToFile();
+    return newResult;
+  }
+  
+  async getFmcResultsByThread(challengeThreadId: number): Promise<FmcResult[]> {
+    return Array.from(this.fmcResults.values())
+      .filter((result) => result.challengeThreadId === challengeThreadId)
+      .sort((a, b) => a.moveCount - b.moveCount || a.submittedAt.getTime() - b.submittedAt.getTime());
+  }
+  
+  // Challenge result methods
+  async saveChallengeResult(result: InsertChallengeResult): Promise<ChallengeResult> {
+    // A member's new submission replaces their earlier one
+    const existing = Array.from(this.challengeResults.values()).find(
+      (other) => other.challengeThreadId === result.challengeThreadId && other.userId === result.userId
+    );
+    const id = existing ? existing.id : this.challengeResultCurrentId++;
+    const savedResult: ChallengeResult = {
+      ...result,
+      resultMs: result.resultMs ?? null,
+      id,
+      submittedAt: new Date()
+    };
+    this.challengeResults.set(id, savedResult);
+    this.saveToFile();
+    return savedResult;
+  }
+  
+  async getChallengeResultsByThread(challengeThreadId: number): Promise<ChallengeResult[]> {
+    return Array.from(this.challengeResults.values())
+      .filter((result) => result.challengeThreadId === challengeThreadId)
+      .sort((a, b) =>
+        (a.resultMs ?? Infinity) - (b.resultMs ?? Infinity) ||
+        a.submittedAt.getTime() - b.submittedAt.getTime()
+      );
+  }
+  
+  // Season methods
+  async createSeason(season: InsertSeason): Promise<Season> {
+    const id = this.seasonCurrentId++;
+    const newSeason: Season = {
+      ...season,
+      announcementMessageId: season.announcementMessageId ?? null,
+      id,
+      completedAt: new Date()
+    };
+    this.seasons.set(id, newSeason);
+    this.saveToFile();
+    return newSeason;
+  }
+  
+  async getSeason(guildId: string, period: SeasonPeriod, seasonKey: string): Promise<Season | undefined> {
+    return Array.from(this.seasons.values()).find(
+      (season) => season.guildId === guildId && season.period === period && season.seasonKey === seasonKey
+    );
+  }
+  
+  async getSeasonsByGuild(guildId: string, period?: SeasonPeriod): Promise<Season[]> {
+    return Array.from(this.seasons.values())
+      .filter((season) => season.guildId === guildId && (!period || season.period === period))
+      .sort((a, b) => b.seasonKey.localeCompare(a.seasonKey) || b.completedAt.getTime() - a.completedAt.getTime());
+  }
+  
+  async updateSeason(id: number, season: Partial<Season>): Promise<Season | undefined> {
+    const existingSeason = this.seasons.get(id);
+    if (!existingSeason) return undefined;
+    
+    const updatedSeason = { ...existingSeason, ...season };
+    this.seasons.set(id, updatedSeason);
+    this.saveToFile();
+    return updatedSeason;
+  }
+  
+  // Daily post methods
+  async createDailyPost(post: InsertDailyPost): Promise<DailyPost> {
+    // One record per guild, date and event, as the database's unique index keeps it
+    // (checked without awaiting, so two runs claiming the same post cannot both pass)
+    const duplicate = Array.from(this.dailyPosts.values()).some(
+      (existing) => existing.guildId === post.guildId && existing.postDate === post.postDate && existing.cubeType === post.cubeType
+    );
+    if (duplicate) {
+      throw new Error(`A daily post of ${post.cubeType} on ${post.postDate} is already recorded for guild ${post.guildId}`);
+    }
+    
+    const id = this.dailyPostCurrentId++;
+    const now = new Date();
+    const newPost: DailyPost = {
+      ...post,
+      attempts: post.attempts ?? 0,
+      threadId: post.threadId ?? null,
+      error: post.error ?? null,
+      isCatchUp: post.isCatchUp ?? false,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.dailyPosts.set(id, newPost);
+    this.saveToFile();
+    return newPost;
+  }
+  
+  async getDailyPost(guildId: string, postDate: string, cubeType: string): Promise<DailyPost | undefined> {
+    return Array.from(this.dailyPosts.values()).find(
+      (post) => post.guildId === guildId && post.postDate === postDate && post.cubeType === cubeType
+    );
+  }
+  
+  async getDailyPostsByGuild(guildId: string, limit: number = 100): Promise<DailyPost[]> {
+    return Array.from(this.dailyPosts.values())
+      .filter((post) => post.guildId === guildId)
+      .sort((a, b) => b.scheduledFor.getTime() - a.scheduledFor.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async updateDailyPost(id: number, post: Partial<DailyPost>): Promise<DailyPost | undefined> {
+    const existingPost = this.dailyPosts.get(id);
+    if (!existingPost) return undefined;
+    
+    const updatedPost = { ...existingPost, ...post, updatedAt: new Date() };
+    this.dailyPosts.set(id, updatedPost);
+    this.saveToFile();
+    return updatedPost;
+  }
+  
+  // Archive retry queue methods
+  async saveArchiveRetry(retry: InsertArchiveRetry): Promise<ArchiveRetry> {
+    // One entry per thread: a later failure replaces the thread's entry
+    const existing = await this.getArchiveRetry(retry.challengeThreadId);
+    const savedRetry: ArchiveRetry = {
+      ...retry,
+      attempts: retry.attempts ?? 0,
+      lastError: retry.lastError ?? null,
+      id: existing?.id ?? this.archiveRetryCurrentId++,
+      createdAt: existing?.createdAt ?? new Date()
+    };
+    this.archiveRetries.set(savedRetry.id, savedRetry);
+    this.saveToFile();
+    return savedRetry;
+  }
+  
+  async getArchiveRetry(challengeThreadId: number): Promise<ArchiveRetry | undefined> {
+    return Array.from(this.archiveRetries.values()).find(
+      (retry) => retry.challengeThreadId === challengeThreadId
+    );
+  }
+  
+  async getArchiveRetries(): Promise<ArchiveRetry[]> {
+    return Array.from(this.archiveRetries.values())
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime());
+  }
+  
+  async deleteArchiveRetry(challengeThreadId: number): Promise<boolean> {
+    const retry = await this.getArchiveRetry(challengeThreadId);
+    if (!retry) return false;
+    
+    this.archiveRetries.delete(retry.id);
+    this.saveToFile();
+    return true;
+  }
+  
+  // Audit log methods
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const id = this.auditLogCurrentId++;
+    const newEntry: AuditLogEntry = {
+      ...entry,
+      guildId: entry.guildId ?? null,
+      parameters: entry.parameters ?? {},
+      error: entry.error ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.auditLog.set(id, newEntry);
+    this.saveToFile();
+    return newEntry;
+  }
+  
+  async getAuditLog(query: AuditLogQuery): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const actorName = query.actorName?.toLowerCase();
+    const matching = Array.from(this.auditLog.values())
+      .filter((entry) =>
+        (!query.actorType || entry.actorType === query.actorType) &&
+        (!actorName || entry.actorName.toLowerCase().includes(actorName)) &&
+        (!query.action || entry.action === query.action) &&
+        (!query.guildId || entry.guildId === query.guildId) &&
+        (!query.result || entry.result === query.result) &&
+        (!query.from || entry.createdAt >= query.from) &&
+        (!query.to || entry.createdAt <= query.to)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    return {
+      entries: matching.slice(query.offset, query.offset + query.limit),
+      total: matching.length
+    };
+  }
+  
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
@@ -304,9 +770,9 @@ export class MemStorage implements IStorage {
   // Analytics operations implementation (in-memory)
   // Command usage tracking
   async logCommandUsage(data: InsertCommandUsage): Promise<CommandUsage> {
-    // In-memory implementation (simplified for memory storage)
+    const id = this.commandUsageCurrentId++;
     const entry: CommandUsage = {
-      id: 1, // In memory, we don't track these properly
+      id,
       channelId: data.channelId || null,
       guildId: data.guildId || null,
       error: data.error || null,
@@ -315,60 +781,113 @@ export class MemStorage implements IStorage {
       commandName: data.commandName,
       userId: data.userId,
       parameters: data.parameters || null,
-      executionTime: data.executionTime || null
+      executionTime: data.executionTime ?? null
     };
+    this.commandUsage.set(id, entry);
+    
+    // Only the latest uses are kept in memory; older days live on in their daily rollups
+    if (this.commandUsage.size > MAX_MEM_COMMAND_USAGE) {
+      const oldestId = this.commandUsage.keys().next().value;
+      if (oldestId !== undefined) this.commandUsage.delete(oldestId);
+    }
+    
+    this.scheduleSave();
     return entry;
   }
   
+  /**
+   * The most recent command uses matching a filter, newest first
+   */
+  private getRecentCommandUsage(filter: (entry: CommandUsage) => boolean, limit: number): CommandUsage[] {
+    return Array.from(this.commandUsage.values())
+      .filter(filter)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+  
   async getCommandUsage(limit: number = 100): Promise<CommandUsage[]> {
-    // Simplified for in-memory storage
-    return [];
+    return this.getRecentCommandUsage(() => true, limit);
   }
   
   async getCommandUsageByName(commandName: string, limit: number = 100): Promise<CommandUsage[]> {
-    // Simplified for in-memory storage
-    return [];
+    return this.getRecentCommandUsage((entry) => entry.commandName === commandName, limit);
   }
   
   async getCommandUsageByUser(userId: string, limit: number = 100): Promise<CommandUsage[]> {
-    // Simplified for in-memory storage
-    return [];
+    return this.getRecentCommandUsage((entry) => entry.userId === userId, limit);
+  }
+  
+  async getCommandUsageRange(startDate: Date, endDate: Date): Promise<CommandUsage[]> {
+    return Array.from(this.commandUsage.values())
+      .filter((entry) => entry.timestamp >= startDate && entry.timestamp < endDate)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
   
   // System metrics tracking
   async recordSystemMetrics(metrics: InsertSystemMetrics): Promise<SystemMetrics> {
-    // Simplified for in-memory storage
+    const id = this.systemMetricsCurrentId++;
     const entry: SystemMetrics = {
-      id: 1,
-      timestamp: new Date(),
+      id,
+      timestamp: metrics.timestamp ?? new Date(),
+      resolution: metrics.resolution ?? metricResolutions.MINUTE,
+      sampleCount: metrics.sampleCount ?? 1,
       rssMemory: metrics.rssMemory,
       heapTotal: metrics.heapTotal,
       heapUsed: metrics.heapUsed,
       external: metrics.external,
       uptime: metrics.uptime,
       activeThreads: metrics.activeThreads,
+      cpuPercent: metrics.cpuPercent ?? null,
+      eventLoopLag: metrics.eventLoopLag ?? null,
+      eventLoopLagMax: metrics.eventLoopLagMax ?? null,
+      wsPing: metrics.wsPing ?? null,
       cpuUsage: metrics.cpuUsage || null,
       loadAverage: metrics.loadAverage || null
     };
+    this.systemMetrics.set(id, entry);
+    this.scheduleSave();
     return entry;
   }
   
   async getLatestSystemMetrics(): Promise<SystemMetrics | undefined> {
-    // Simplified for in-memory storage
-    return undefined;
+    return (await this.getSystemMetricsHistory(1))[0];
   }
   
   async getSystemMetricsHistory(limit: number = 100): Promise<SystemMetrics[]> {
-    // Simplified for in-memory storage
-    return [];
+    return Array.from(this.systemMetrics.values())
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, limit);
+  }
+  
+  async getSystemMetricsRange(startDate: Date, endDate: Date, resolution?: MetricResolution): Promise<SystemMetrics[]> {
+    return Array.from(this.systemMetrics.values())
+      .filter((sample) => sample.timestamp >= startDate && sample.timestamp < endDate)
+      .filter((sample) => !resolution || sample.resolution === resolution)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+  
+  async deleteSystemMetrics(ids: number[]): Promise<number> {
+    const deleted = ids.filter((id) => this.systemMetrics.delete(id)).length;
+    if (deleted > 0) {
+      this.scheduleSave();
+    }
+    return deleted;
+  }
+  
+  async deleteSystemMetricsBefore(date: Date): Promise<number> {
+    const ids = Array.from(this.systemMetrics.values())
+      .filter((sample) => sample.timestamp < date)
+      .map((sample) => sample.id);
+    return await this.deleteSystemMetrics(ids);
   }
   
   // Daily analytics tracking
   async createOrUpdateDailyAnalytics(date: Date, data: Partial<InsertDailyAnalytics>): Promise<DailyAnalytics> {
-    // Simplified for in-memory storage
+    const formattedDate = date.toISOString().split('T')[0]; // Convert Date to YYYY-MM-DD string format
+    const existing = await this.getDailyAnalytics(date);
     const entry: DailyAnalytics = {
-      id: 1,
-      date: date.toISOString().split('T')[0], // Convert Date to YYYY-MM-DD string format
+      id: existing?.id ?? this.dailyAnalyticsCurrentId++,
+      date: formattedDate,
       totalCommands: data.totalCommands ?? 0,
       commandBreakdown: data.commandBreakdown,
       scrambleUsage: data.scrambleUsage,
@@ -377,54 +896,90 @@ export class MemStorage implements IStorage {
       errorCount: data.errorCount ?? 0,
       dailyChallengeMetrics: data.dailyChallengeMetrics
     };
+    this.dailyAnalytics.set(entry.id, entry);
+    this.saveToFile();
     return entry;
   }
   
   async getDailyAnalytics(date: Date): Promise<DailyAnalytics | undefined> {
-    // Simplified for in-memory storage
-    return undefined;
+    const formattedDate = date.toISOString().split('T')[0];
+    return Array.from(this.dailyAnalytics.values()).find((day) => day.date === formattedDate);
   }
   
   async getDailyAnalyticsRange(startDate: Date, endDate: Date): Promise<DailyAnalytics[]> {
-    // Simplified for in-memory storage
-    return [];
+    const start = startDate.toISOString().split('T')[0];
+    const end = endDate.toISOString().split('T')[0];
+    return Array.from(this.dailyAnalytics.values())
+      .filter((day) => day.date >= start && day.date <= end)
+      .sort((a, b) => a.date.localeCompare(b.date));
   }
   
   // Scramble performance tracking
   async recordScramblePerformance(data: InsertScramblePerformance): Promise<ScramblePerformance> {
-    // Simplified for in-memory storage
+    const id = this.scramblePerformanceCurrentId++;
     const entry: ScramblePerformance = {
-      id: 1,
+      id,
       timestamp: new Date(),
       scramble: data.scramble,
       cubeType: data.cubeType,
       userId: data.userId,
       guildId: data.guildId || null,
-      solveTime: data.solveTime || null,
+      solveTime: data.solveTime ?? null,
+      penalty: data.penalty || 'none',
       isCustomScramble: data.isCustomScramble || false,
       customParameters: data.customParameters || null
     };
+    this.scramblePerformances.set(id, entry);
+    this.saveToFile();
     return entry;
   }
   
+  async updateScramblePerformance(id: number, data: Partial<ScramblePerformance>): Promise<ScramblePerformance | undefined> {
+    const existingEntry = this.scramblePerformances.get(id);
+    if (!existingEntry) return undefined;
+    
+    const updatedEntry = { ...existingEntry, ...data, id };
+    this.scramblePerformances.set(id, updatedEntry);
+    this.saveToFile();
+    return updatedEntry;
+  }
+  
+  /**
+   * Timed solves, newest first
+   */
+  private getRecentScramblePerformances(filter: (entry: ScramblePerformance) => boolean, limit: number): ScramblePerformance[] {
+    return Array.from(this.scramblePerformances.values())
+      .filter(filter)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, limit);
+  }
+  
   async getScramblePerformance(limit: number = 100): Promise<ScramblePerformance[]> {
-    // Simplified for in-memory storage
-    return [];
+    return this.getRecentScramblePerformances(() => true, limit);
   }
   
   async getScramblePerformanceByUser(userId: string, limit: number = 100): Promise<ScramblePerformance[]> {
-    // Simplified for in-memory storage
-    return [];
+    return this.getRecentScramblePerformances((entry) => entry.userId === userId, limit);
   }
   
   async getScramblePerformanceByCubeType(cubeType: string, limit: number = 100): Promise<ScramblePerformance[]> {
-    // Simplified for in-memory storage
-    return [];
-  }
-  
-  async getAverageScramblePerformanceByCubeType(): Promise<{cubeType: string, averageSolveTime: number}[]> {
-    // Simplified for in-memory storage
-    return [];
+    return this.getRecentScramblePerformances((entry) => entry.cubeType === cubeType, limit);
+  }
+  
+  async getAverageScramblePerformanceByCubeType(): Promise<EventAverage[]> {
+    // Each event's latest timed solves
+    const byEvent = new Map<string, ScramblePerformance[]>();
+    Array.from(this.scramblePerformances.values())
+      .filter((entry) => entry.solveTime !== null)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .forEach((entry) => {
+        const entries = byEvent.get(entry.cubeType) || [];
+        if (entries.length < EVENT_AVERAGE_SOLVE_LIMIT) {
+          entries.push(entry);
+          byEvent.set(entry.cubeType, entries);
+        }
+      });
+    return getEventAverages(Array.from(byEvent.values()).flat());
   }
 }
 
@@ -514,6 +1069,14 @@ export class DatabaseStorage implements IStorage {
     return newThread;
   }
   
+  async updateChallengeThread(id: number, thread: Partial<ChallengeThread>): Promise<ChallengeThread | undefined> {
+    const [updated] = await db.update(challengeThreads)
+      .set(thread)
+      .where(eq(challengeThreads.id, id))
+      .returning();
+    return updated;
+  }
+  
   async markThreadAsDeleted(id: number): Promise<boolean> {
     try {
       const result = await db.update(challengeThreads)
@@ -526,6 +1089,172 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  // FMC result methods
+  async createFmcResult(result: InsertFmcResult): Promise<FmcResult | undefined> {
+    // The unique index keeps a member to one solution, even when two arrive at once
+    const [newResult] = await db.insert(fmcResults)
+      .values(result)
+      .onConflictDoNothing({ target: [fmcResults.challengeThreadId, fmcResults.userId] })
+      .returning();
+    return newResult;
+  }
+  
+  async getFmcResultsByThread(challengeThreadId: number): Promise<FmcResult[]> {
+    return await db.select()
+      .from(fmcResults)
+      .where(eq(fmcResults.challengeThreadId, challengeThreadId))
+      .orderBy(fmcResults.moveCount, fmcResults.submittedAt);
+  }
+  
+  // Challenge result methods
+  async saveChallengeResult(result: InsertChallengeResult): Promise<ChallengeResult> {
+    // A member's new submission replaces their earlier one, in one statement
+    // so submissions made at the same time cannot both be inserted
+    const [savedResult] = await db.insert(challengeResults)
+      .values(result)
+      .onConflictDoUpdate({
+        target: [challengeResults.challengeThreadId, challengeResults.userId],
+        set: { ...result, submittedAt: new Date() }
+      })
+      .returning();
+    return savedResult;
+  }
+  
+  async getChallengeResultsByThread(challengeThreadId: number): Promise<ChallengeResult[]> {
+    return await db.select()
+      .from(challengeResults)
+      .where(eq(challengeResults.challengeThreadId, challengeThreadId))
+      .orderBy(sql`${challengeResults.resultMs} asc nulls last`, challengeResults.submittedAt);
+  }
+  
+  // Season methods
+  async createSeason(season: InsertSeason): Promise<Season> {
+    const [newSeason] = await db.insert(seasons).values(season).returning();
+    return newSeason;
+  }
+  
+  async getSeason(guildId: string, period: SeasonPeriod, seasonKey: string): Promise<Season | undefined> {
+    const [season] = await db.select()
+      .from(seasons)
+      .where(
+        and(
+          eq(seasons.guildId, guildId),
+          eq(seasons.period, period),
+          eq(seasons.seasonKey, seasonKey)
+        )
+      );
+    return season;
+  }
+  
+  async getSeasonsByGuild(guildId: string, period?: SeasonPeriod): Promise<Season[]> {
+    return await db.select()
+      .from(seasons)
+      .where(period ? and(eq(seasons.guildId, guildId), eq(seasons.period, period)) : eq(seasons.guildId, guildId))
+      .orderBy(desc(seasons.seasonKey), desc(seasons.completedAt));
+  }
+  
+  async updateSeason(id: number, season: Partial<Season>): Promise<Season | undefined> {
+    const [updated] = await db.update(seasons)
+      .set(season)
+      .where(eq(seasons.id, id))
+      .returning();
+    return updated;
+  }
+  
+  // Daily post methods
+  async createDailyPost(post: InsertDailyPost): Promise<DailyPost> {
+    const [newPost] = await db.insert(dailyPosts).values(post).returning();
+    return newPost;
+  }
+  
+  async getDailyPost(guildId: string, postDate: string, cubeType: string): Promise<DailyPost | undefined> {
+    const [post] = await db.select()
+      .from(dailyPosts)
+      .where(
+        and(
+          eq(dailyPosts.guildId, guildId),
+          eq(dailyPosts.postDate, postDate),
+          eq(dailyPosts.cubeType, cubeType)
+        )
+      );
+    return post;
+  }
+  
+  async getDailyPostsByGuild(guildId: string, limit: number = 100): Promise<DailyPost[]> {
+    return await db.select()
+      .from(dailyPosts)
+      .where(eq(dailyPosts.guildId, guildId))
+      .orderBy(desc(dailyPosts.scheduledFor), desc(dailyPosts.id))
+      .limit(limit);
+  }
+  
+  async updateDailyPost(id: number, post: Partial<DailyPost>): Promise<DailyPost | undefined> {
+    const [updated] = await db.update(dailyPosts)
+      .set({ ...post, updatedAt: new Date() })
+      .where(eq(dailyPosts.id, id))
+      .returning();
+    return updated;
+  }
+  
+  // Archive retry queue methods
+  async saveArchiveRetry(retry: InsertArchiveRetry): Promise<ArchiveRetry> {
+    const [savedRetry] = await db.insert(archiveRetries)
+      .values(retry)
+      .onConflictDoUpdate({
+        target: archiveRetries.challengeThreadId,
+        set: { attempts: retry.attempts, nextAttemptAt: retry.nextAttemptAt, lastError: retry.lastError }
+      })
+      .returning();
+    return savedRetry;
+  }
+  
+  async getArchiveRetry(challengeThreadId: number): Promise<ArchiveRetry | undefined> {
+    const [retry] = await db.select().from(archiveRetries).where(eq(archiveRetries.challengeThreadId, challengeThreadId));
+    return retry;
+  }
+  
+  async getArchiveRetries(): Promise<ArchiveRetry[]> {
+    return await db.select().from(archiveRetries).orderBy(archiveRetries.nextAttemptAt);
+  }
+  
+  async deleteArchiveRetry(challengeThreadId: number): Promise<boolean> {
+    const result = await db.delete(archiveRetries).where(eq(archiveRetries.challengeThreadId, challengeThreadId));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+  
+  // Audit log methods
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [newEntry] = await db.insert(auditLog).values(entry).returning();
+    return newEntry;
+  }
+  
+  async getAuditLog(query: AuditLogQuery): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (query.actorType) conditions.push(eq(auditLog.actorType, query.actorType));
+    if (query.actorName) {
+      // Match the name as typed, like MemStorage: % and _ are not wildcards here
+      const pattern = query.actorName.replace(/[\\%_]/g, '\\$&');
+      conditions.push(ilike(auditLog.actorName, `%${pattern}%`));
+    }
+    if (query.action) conditions.push(eq(auditLog.action, query.action));
+    if (query.guildId) conditions.push(eq(auditLog.guildId, query.guildId));
+    if (query.result) conditions.push(eq(auditLog.result, query.result));
+    if (query.from) conditions.push(gte(auditLog.createdAt, query.from));
+    if (query.to) conditions.push(lte(auditLog.createdAt, query.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    
+    const entries = await db.select()
+      .from(auditLog)
+      .where(where)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(query.limit)
+      .offset(query.offset);
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` })
+      .from(auditLog)
+      .where(where);
+    return { entries, total };
+  }
+  
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -574,6 +1303,13 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
   
+  async getCommandUsageRange(startDate: Date, endDate: Date): Promise<CommandUsage[]> {
+    return await db.select()
+      .from(commandUsage)
+      .where(and(gte(commandUsage.timestamp, startDate), lt(commandUsage.timestamp, endDate)))
+      .orderBy(commandUsage.timestamp);
+  }
+  
   async getCommandUsageByName(commandName: string, limit: number = 100): Promise<CommandUsage[]> {
     return await db.select()
       .from(commandUsage)
@@ -611,6 +1347,32 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
   
+  async getSystemMetricsRange(startDate: Date, endDate: Date, resolution?: MetricResolution): Promise<SystemMetrics[]> {
+    const conditions: SQL[] = [gte(systemMetrics.timestamp, startDate), lt(systemMetrics.timestamp, endDate)];
+    if (resolution) {
+      conditions.push(eq(systemMetrics.resolution, resolution));
+    }
+    return await db.select()
+      .from(systemMetrics)
+      .where(and(...conditions))
+      .orderBy(systemMetrics.timestamp);
+  }
+  
+  async deleteSystemMetrics(ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const deleted = await db.delete(systemMetrics)
+      .where(inArray(systemMetrics.id, ids))
+      .returning({ id: systemMetrics.id });
+    return deleted.length;
+  }
+  
+  async deleteSystemMetricsBefore(date: Date): Promise<number> {
+    const deleted = await db.delete(systemMetrics)
+      .where(lt(systemMetrics.timestamp, date))
+      .returning({ id: systemMetrics.id });
+    return deleted.length;
+  }
+  
   // Daily analytics tracking
   async createOrUpdateDailyAnalytics(date: Date, data: Partial<InsertDailyAnalytics>): Promise<DailyAnalytics> {
     // Format date to YYYY-MM-DD format for SQL date comparison
@@ -677,6 +1439,14 @@ export class DatabaseStorage implements IStorage {
     return entry;
   }
   
+  async updateScramblePerformance(id: number, data: Partial<ScramblePerformance>): Promise<ScramblePerformance | undefined> {
+    const [updated] = await db.update(scramblePerformance)
+      .set(data)
+      .where(eq(scramblePerformance.id, id))
+      .returning();
+    return updated;
+  }
+  
   async getScramblePerformance(limit: number = 100): Promise<ScramblePerformance[]> {
     return await db.select()
       .from(scramblePerformance)
@@ -700,17 +1470,32 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
   
-  async getAverageScramblePerformanceByCubeType(): Promise<{cubeType: string, averageSolveTime: number}[]> {
-    const result = await db.select({
+  async getAverageScramblePerformanceByCubeType(): Promise<EventAverage[]> {
+    // Trimmed averages need every result, so they are computed from the rows
+    // of each event's latest timed solves
+    const ranked = db.select({
       cubeType: scramblePerformance.cubeType,
-      averageSolveTime: sql<number>`avg(${scramblePerformance.solveTime})`
+      solveTime: scramblePerformance.solveTime,
+      penalty: scramblePerformance.penalty,
+      recency: sql<number>`row_number() over (partition by ${scramblePerformance.cubeType} order by ${scramblePerformance.timestamp} desc)`.as('recency')
     })
     .from(scramblePerformance)
     .where(sql`${scramblePerformance.solveTime} IS NOT NULL`)
-    .groupBy(scramblePerformance.cubeType);
+    .as('ranked');
     
-    return result;
+    const entries = await db.select({
+      cubeType: ranked.cubeType,
+      solveTime: ranked.solveTime,
+      penalty: ranked.penalty
+    })
+    .from(ranked)
+    .where(lte(ranked.recency, EVENT_AVERAGE_SOLVE_LIMIT));
+    
+    return getEventAverages(entries);
   }
+  
+  // Every write goes straight to the database, so nothing is ever pending
+  async flushPendingWrites(): Promise<void> {}
 }
 
 // Initialize the appropriate storage implementation
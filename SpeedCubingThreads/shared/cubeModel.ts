@@ -0,0 +1,215 @@
+/**
+ * Facelet-level model of an NxN cube.
+ *
+ * Stickers are stored face by face in the order U, R, F, D, L, B, and each
+ * face row by row as it appears in the usual net (U above F, D below F,
+ * L, F, R, B side by side). Every turn is derived from the 3D position of the
+ * stickers, so any layer of any cube size can be turned.
+ */
+
+type Vector = [number, number, number];
+
+/**
+ * Face names in the order the facelets are stored
+ */
+export const cubeFaces = ['U', 'R', 'F', 'D', 'L', 'B'];
+
+/**
+ * Outward normal of every face
+ */
+const faceNormals: Record<string, Vector> = {
+  U: [0, 1, 0], R: [1, 0, 0], F: [0, 0, 1],
+  D: [0, -1, 0], L: [-1, 0, 0], B: [0, 0, -1]
+};
+
+/**
+ * Cube rotations and the face whose direction they follow
+ */
+const rotationFaces: Record<string, string> = { x: 'R', y: 'U', z: 'F' };
+
+/**
+ * Middle-layer turns and the face whose direction they follow
+ */
+const sliceFaces: Record<string, string> = { M: 'L', E: 'D', S: 'F' };
+
+/**
+ * Cube state: the face letter of the colour shown on every facelet
+ */
+export interface CubeState {
+  size: number;
+  facelets: string[];
+}
+
+/**
+ * A parsed turn: layers from..to counted from the given face, turned
+ * clockwise as seen from that face the given number of quarter turns
+ */
+export interface CubeTurn {
+  face: string;
+  from: number;
+  to: number;
+  quarterTurns: number;
+}
+
+interface FaceletGeometry {
+  positions: Vector[];
+  normals: Vector[];
+  lookup: Map<string, number>;
+}
+
+const geometryCache = new Map<number, FaceletGeometry>();
+const turnCache = new Map<string, number[]>();
+
+function dot(a: Vector, b: Vector): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+/**
+ * Rotate a vector a quarter turn clockwise as seen from the tip of the axis
+ */
+function rotate(axis: Vector, v: Vector): Vector {
+  // Rodrigues' formula for -90 degrees: v' = a (a . v) - a x v
+  const d = dot(axis, v);
+  return [
+    axis[0] * d - (axis[1] * v[2] - axis[2] * v[1]),
+    axis[1] * d - (axis[2] * v[0] - axis[0] * v[2]),
+    axis[2] * d - (axis[0] * v[1] - axis[1] * v[0])
+  ];
+}
+
+/**
+ * 3D position of a facelet on a cube whose pieces sit at odd coordinates
+ * between -(size - 1) and size - 1; the facelet itself sits at +/- size.
+ */
+function faceletPosition(size: number, face: string, row: number, col: number): Vector {
+  const across = 2 * col - (size - 1);
+  const down = (size - 1) - 2 * row;
+  switch (face) {
+    case 'U': return [across, size, -down];
+    case 'R': return [size, down, -across];
+    case 'F': return [across, down, size];
+    case 'D': return [across, -size, down];
+    case 'L': return [-size, down, across];
+    case 'B': default: return [-across, down, -size];
+  }
+}
+
+function getGeometry(size: number): FaceletGeometry {
+  const cached = geometryCache.get(size);
+  if (cached) return cached;
+
+  const positions: Vector[] = [];
+  const normals: Vector[] = [];
+  const lookup = new Map<string, number>();
+  for (const face of cubeFaces) {
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const position = faceletPosition(size, face, row, col);
+        lookup.set(position.join(','), positions.length);
+        positions.push(position);
+        normals.push(faceNormals[face]);
+      }
+    }
+  }
+
+  const geometry = { positions, normals, lookup };
+  geometryCache.set(size, geometry);
+  return geometry;
+}
+
+/**
+ * Where every facelet goes under a turn (facelet i moves to result[i])
+ */
+function getTurnPermutation(size: number, turn: CubeTurn): number[] {
+  const key = `${size}:${turn.face}:${turn.from}:${turn.to}:${turn.quarterTurns}`;
+  const cached = turnCache.get(key);
+  if (cached) return cached;
+
+  const { positions, normals, lookup } = getGeometry(size);
+  const axis = faceNormals[turn.face];
+  const permutation = positions.map((position, i) => {
+    // Layer of the piece the facelet belongs to, counted from the turning face
+    const depth = dot(axis, position) - dot(axis, normals[i]);
+    const layer = ((size - 1) - depth) / 2 + 1;
+    if (layer < turn.from || layer > turn.to) return i;
+
+    let moved = position;
+    for (let q = 0; q < turn.quarterTurns; q++) moved = rotate(axis, moved);
+    return lookup.get(moved.join(','))!;
+  });
+
+  turnCache.set(key, permutation);
+  return permutation;
+}
+
+/**
+ * Create a solved cube of the given size
+ */
+export function createSolvedCube(size: number): CubeState {
+  return {
+    size,
+    facelets: cubeFaces.flatMap(face => new Array(size * size).fill(face))
+  };
+}
+
+/**
+ * Parse one token of cube notation for a given cube size.
+ * Supports face turns (R), single inner layers (2R), wide turns (Rw, 3Rw),
+ * middle slices (M, E, S) on odd cubes and rotations (x, y, z),
+ * each with an optional 2 or ' suffix.
+ * @returns The parsed turn, or an error message for an illegal token
+ */
+export function parseCubeTurn(size: number, token: string): CubeTurn | string {
+  const match = /^(\d*)([URFDLBMESxyz])(w?)(2'?|'|)$/.exec(token);
+  if (!match) {
+    return 'Unknown move';
+  }
+
+  const [, prefix, letter, wide, suffix] = match;
+  const quarterTurns = suffix.startsWith('2') ? 2 : suffix === '\'' ? 3 : 1;
+  const depth = prefix ? parseInt(prefix, 10) : 0;
+
+  if (rotationFaces[letter]) {
+    if (prefix || wide) return 'Rotations take no layer prefix';
+    return { face: rotationFaces[letter], from: 1, to: size, quarterTurns };
+  }
+
+  if (sliceFaces[letter]) {
+    if (prefix || wide) return 'Slice moves take no layer prefix';
+    if (size % 2 === 0 || size < 3) return `Slice moves need an odd cube, not ${size}x${size}`;
+    const middle = (size + 1) / 2;
+    return { face: sliceFaces[letter], from: middle, to: middle, quarterTurns };
+  }
+
+  if (wide) {
+    const layers = depth || 2;
+    if (layers < 2 || layers >= size) return `A ${size}x${size} has no ${layers}-layer wide turn`;
+    return { face: letter, from: 1, to: layers, quarterTurns };
+  }
+
+  const layer = depth || 1;
+  if (layer < 1 || layer >= size) return `A ${size}x${size} has no layer ${layer}`;
+  return { face: letter, from: layer, to: layer, quarterTurns };
+}
+
+/**
+ * Apply a parsed turn to a cube
+ */
+export function applyCubeTurn(state: CubeState, turn: CubeTurn): CubeState {
+  const permutation = getTurnPermutation(state.size, turn);
+  const facelets = new Array<string>(state.facelets.length);
+  permutation.forEach((target, i) => { facelets[target] = state.facelets[i]; });
+  return { size: state.size, facelets };
+}
+
+/**
+ * Check if every face of a cube shows a single colour
+ * (so a solved cube held in any orientation counts as solved)
+ */
+export function isCubeSolved(state: CubeState): boolean {
+  const faceSize = state.size * state.size;
+  return cubeFaces.every((_, f) => {
+    const face = state.facelets.slice(f * faceSize, (f + 1) * faceSize);
+    return face.every(colour => colour === face[0]);
+  });
+}
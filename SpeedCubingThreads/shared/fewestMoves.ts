@@ -0,0 +1,84 @@
+/**
+ * Fewest Moves (FMC) solution checking under the WCA rules (Article E):
+ * a solution may use face turns, outer block turns (Rw) and rotations, is
+ * counted in the half turn metric (HTM) with rotations free, and must solve
+ * the scramble in at most 80 moves.
+ */
+import { createCubeModel, tokenizeScramble, applyScramble, ScrambleIssue } from './puzzleModels';
+
+/**
+ * Most moves a WCA FMC solution may have
+ */
+export const FMC_MAX_MOVES = 80;
+
+/**
+ * Moves an FMC scramble starts and ends with, so that the solution cannot
+ * cancel into the scramble
+ */
+export const FMC_SCRAMBLE_PADDING = 'R\' U\' F';
+
+/**
+ * Result of checking an FMC solution
+ */
+export interface FmcSolutionCheck {
+  valid: boolean;
+  /** Length of the solution in HTM */
+  moveCount: number;
+  /** The solution with its moves separated by single spaces */
+  solution: string;
+  issues: ScrambleIssue[];
+}
+
+/**
+ * HTM length of one FMC move token
+ * @returns The number of moves it counts as, or why it is not allowed
+ */
+function countFmcMove(token: string): number | string {
+  if (/^[URFDLB]w?(2|')?$/.test(token)) return 1;
+  if (/^[xyz](2|')?$/.test(token)) return 0;
+  if (/^[MES](2|')?$/.test(token)) return 'Slice moves are not allowed in FMC, use two face turns and a rotation';
+  if (/^[urfdlb](2|')?$/.test(token)) return 'Write wide moves as Rw, not r';
+  if (/^\d+[URFDLB]w?(2|')?$/.test(token)) return 'Inner layer moves are not allowed in FMC';
+  return 'Unknown move';
+}
+
+/**
+ * Check an FMC solution against its scramble: every move must be allowed,
+ * the solution must be at most 80 moves and must leave the cube solved
+ * (in any orientation)
+ */
+export function checkFmcSolution(scramble: string, solution: string): FmcSolutionCheck {
+  const tokens = tokenizeScramble(solution);
+  const issues: ScrambleIssue[] = [];
+  let moveCount = 0;
+
+  for (const token of tokens) {
+    const count = countFmcMove(token.text);
+    if (typeof count === 'string') {
+      issues.push({ message: count, token: token.text, index: token.index, offset: token.offset });
+    } else {
+      moveCount += count;
+    }
+  }
+
+  if (tokens.length === 0) {
+    issues.push({ message: 'Solution is empty' });
+  } else if (issues.length === 0) {
+    if (moveCount > FMC_MAX_MOVES) {
+      issues.push({ message: `Solution is ${moveCount} moves, the limit is ${FMC_MAX_MOVES}` });
+    } else {
+      const model = createCubeModel(3);
+      const state = applyScramble(model, applyScramble(model, model.createSolved(), scramble), solution);
+      if (!model.isSolved(state)) {
+        issues.push({ message: 'Solution does not solve the scramble' });
+      }
+    }
+  }
+
+  return {
+    valid: issues.length === 0,
+    moveCount,
+    solution: tokens.map(token => token.text).join(' '),
+    issues
+  };
+}
@@ -0,0 +1,245 @@
+/**
+ * Facelet-level model of a Megaminx for scrambles in Pochmann notation.
+ *
+ * Every face holds 11 stickers: the center, then the corner at each of the
+ * face's five vertices, then the edge after each vertex, with the vertices in
+ * counter-clockwise order as seen from outside. Turns are derived from the 3D
+ * position of the stickers on a dodecahedron, like the NxN cube model.
+ */
+
+type Vector = [number, number, number];
+
+/**
+ * Face names in the order the facelets are stored: U and the five faces
+ * around it clockwise from F, then D and the opposite of each of those
+ */
+export const megaminxFaces = ['U', 'F', 'L', 'BL', 'BR', 'R', 'D', 'B', 'DBR', 'DR', 'DL', 'DBL'];
+
+/**
+ * Stickers per face: the center, five corners and five edges
+ */
+export const MEGAMINX_FACE_SIZE = 11;
+
+/**
+ * Megaminx state: the face name of the colour shown on every facelet
+ */
+export interface MegaminxState {
+  facelets: string[];
+}
+
+interface MegaminxGeometry {
+  vertices: Vector[];
+  normals: Vector[];
+  /** Vertex indices of every face, counter-clockwise as seen from outside */
+  faceVertices: number[][];
+  /** Distance from the centre of the puzzle to every face */
+  inradius: number;
+  points: Vector[];
+  /** Position of the piece each sticker belongs to */
+  anchors: Vector[];
+  lookup: Map<string, number>;
+}
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+const EPSILON = 1e-6;
+
+let geometryCache: MegaminxGeometry | null = null;
+const turnCache = new Map<string, number[]>();
+
+function dot(a: Vector, b: Vector): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vector, b: Vector): Vector {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function scale(v: Vector, factor: number): Vector {
+  return [v[0] * factor, v[1] * factor, v[2] * factor];
+}
+
+function add(a: Vector, b: Vector): Vector {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+function lerp(a: Vector, b: Vector, t: number): Vector {
+  return add(a, scale(add(b, scale(a, -1)), t));
+}
+
+function normalize(v: Vector): Vector {
+  return scale(v, 1 / Math.sqrt(dot(v, v)));
+}
+
+/**
+ * Rotate a vector about a unit axis, counter-clockwise as seen from the tip of the axis
+ */
+function rotate(axis: Vector, v: Vector, angle: number): Vector {
+  // Rodrigues' formula
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return add(add(scale(v, cos), scale(cross(axis, v), sin)), scale(axis, dot(axis, v) * (1 - cos)));
+}
+
+function pointKey(v: Vector): string {
+  return v.map(x => (Math.abs(x) < EPSILON ? 0 : x).toFixed(4)).join(',');
+}
+
+/**
+ * The twelve face normals, in the order of megaminxFaces
+ */
+function getFaceNormals(): Vector[] {
+  const all: Vector[] = [];
+  for (const a of [1, -1]) {
+    for (const b of [1, -1]) {
+      all.push(normalize([0, PHI * a, b]), normalize([b, 0, PHI * a]), normalize([PHI * a, b, 0]));
+    }
+  }
+
+  const up = all[0];
+  const front = all.find(n => Math.abs(dot(n, up) - 1 / Math.sqrt(5)) < EPSILON)!;
+  const ring = [front];
+  for (let i = 1; i < 5; i++) {
+    ring.push(rotate(up, ring[i - 1], -2 * Math.PI / 5));
+  }
+  const upper = [up, ...ring];
+  return [...upper, ...upper.map(n => scale(n, -1))];
+}
+
+function getGeometry(): MegaminxGeometry {
+  if (geometryCache) return geometryCache;
+
+  const vertices: Vector[] = [];
+  for (const x of [1, -1]) {
+    for (const y of [1, -1]) {
+      for (const z of [1, -1]) vertices.push([x, y, z]);
+      vertices.push([0, x / PHI, y * PHI], [x / PHI, y * PHI, 0], [x * PHI, 0, y / PHI]);
+    }
+  }
+
+  const normals = getFaceNormals();
+  const inradius = Math.max(...vertices.map(v => dot(v, normals[0])));
+
+  const faceVertices = normals.map(normal => {
+    const onFace = vertices
+      .map((_, i) => i)
+      .filter(i => Math.abs(dot(vertices[i], normal) - inradius) < EPSILON);
+    const centre = scale(normal, inradius);
+    const e1 = normalize(add(vertices[onFace[0]], scale(centre, -1)));
+    const e2 = cross(normal, e1);
+    const angle = (i: number) => {
+      const offset = add(vertices[i], scale(centre, -1));
+      return Math.atan2(dot(offset, e2), dot(offset, e1));
+    };
+    return onFace.sort((a, b) => angle(a) - angle(b));
+  });
+
+  const points: Vector[] = [];
+  const anchors: Vector[] = [];
+  const lookup = new Map<string, number>();
+  normals.forEach((normal, f) => {
+    const centre = scale(normal, inradius);
+    const corners = faceVertices[f].map(i => vertices[i]);
+    const mids = corners.map((corner, i) => lerp(corner, corners[(i + 1) % 5], 0.5));
+    const stickers: [Vector, Vector][] = [
+      [centre, centre],
+      ...corners.map((corner): [Vector, Vector] => [lerp(centre, corner, 0.7), corner]),
+      ...mids.map((mid): [Vector, Vector] => [lerp(centre, mid, 0.7), mid])
+    ];
+    for (const [point, anchor] of stickers) {
+      lookup.set(pointKey(point), points.length);
+      points.push(point);
+      anchors.push(anchor);
+    }
+  });
+
+  geometryCache = { vertices, normals, faceVertices, inradius, points, anchors, lookup };
+  return geometryCache;
+}
+
+/**
+ * Vertex indices of every face (in the order of megaminxFaces),
+ * counter-clockwise as seen from outside
+ */
+export function getMegaminxFaceVertices(): number[][] {
+  return getGeometry().faceVertices;
+}
+
+/**
+ * Where every facelet goes when the pieces inside (or outside) the layer of
+ * one face turn about an axis (facelet i moves to result[i])
+ * @param layerFace Face whose layer is tested
+ * @param inside Whether the pieces in that layer move, or all the others
+ * @param axisFace Face the turn is clockwise about
+ * @param fifths Number of fifths of a turn, clockwise as seen from axisFace
+ */
+function getTurnPermutation(layerFace: string, inside: boolean, axisFace: string, fifths: number): number[] {
+  const key = `${layerFace}:${inside}:${axisFace}:${fifths}`;
+  const cached = turnCache.get(key);
+  if (cached) return cached;
+
+  const { normals, inradius, points, anchors, lookup } = getGeometry();
+  const layerNormal = normals[megaminxFaces.indexOf(layerFace)];
+  const axis = normals[megaminxFaces.indexOf(axisFace)];
+  const permutation = points.map((point, i) => {
+    const inLayer = dot(anchors[i], layerNormal) > inradius - EPSILON;
+    if (inLayer !== inside) return i;
+    return lookup.get(pointKey(rotate(axis, point, -fifths * 2 * Math.PI / 5)))!;
+  });
+
+  turnCache.set(key, permutation);
+  return permutation;
+}
+
+/**
+ * Pochmann notation: U turns the top face a fifth, D++ turns everything but
+ * the top layer two fifths clockwise as seen from below, and R++ turns
+ * everything but the L layer two fifths clockwise as seen from the right (DBR)
+ */
+const megaminxMoves: Record<string, () => number[]> = {
+  'U': () => getTurnPermutation('U', true, 'U', 1),
+  'U\'': () => getTurnPermutation('U', true, 'U', -1),
+  'D++': () => getTurnPermutation('U', false, 'D', 2),
+  'D--': () => getTurnPermutation('U', false, 'D', -2),
+  'R++': () => getTurnPermutation('L', false, 'DBR', 2),
+  'R--': () => getTurnPermutation('L', false, 'DBR', -2)
+};
+
+/**
+ * Check if a token is a Pochmann notation move (R++, R--, D++, D--, U or U')
+ */
+export function isMegaminxMove(token: string): boolean {
+  return token in megaminxMoves;
+}
+
+/**
+ * Create a solved Megaminx
+ */
+export function createSolvedMegaminx(): MegaminxState {
+  return {
+    facelets: megaminxFaces.flatMap(face => new Array(MEGAMINX_FACE_SIZE).fill(face))
+  };
+}
+
+/**
+ * Apply one Pochmann notation move
+ * @throws Error if the token is not a Megaminx move
+ */
+export function applyMegaminxMove(state: MegaminxState, token: string): MegaminxState {
+  if (!isMegaminxMove(token)) {
+    throw new Error(`Invalid Megaminx move: ${token}`);
+  }
+  const permutation = megaminxMoves[token]();
+  const facelets = new Array<string>(state.facelets.length);
+  permutation.forEach((target, i) => { facelets[target] = state.facelets[i]; });
+  return { facelets };
+}
+
+/**
+ * Check if every face of a Megaminx shows a single colour
+ */
+export function isMegaminxSolved(state: MegaminxState): boolean {
+  return megaminxFaces.every((_, f) => {
+    const face = state.facelets.slice(f * MEGAMINX_FACE_SIZE, (f + 1) * MEGAMINX_FACE_SIZE);
+    return face.every(colour => colour === face[0]);
+  });
+}
@@ -0,0 +1,85 @@
+/**
+ * 3x3 Multi-Blind attempts under the WCA rules: a set of 3x3 BLD scrambles,
+ * a time limit of 10 minutes per cube (at most an hour), and a result scored
+ * as cubes solved minus cubes unsolved.
+ */
+
+/**
+ * Event name Multi-BLD attempts are recorded under
+ */
+export const MULTI_BLD_EVENT = '3x3 Multi-BLD';
+
+export const MIN_MULTI_BLD_CUBES = 2;
+export const MAX_MULTI_BLD_CUBES = 40;
+
+/**
+ * Scored Multi-BLD attempt
+ */
+export interface MultiBldResult {
+  solved: number;
+  attempted: number;
+  /** Points: cubes solved minus cubes unsolved */
+  points: number;
+  /** Time of the attempt, capped at the time limit */
+  timeMs: number;
+  timeLimitMs: number;
+  /** Whether the attempt is a DNF: fewer than two cubes solved or negative points */
+  dnf: boolean;
+}
+
+/**
+ * Time limit for an attempt: 10 minutes per cube, at most 60 minutes
+ */
+export function getMultiBldTimeLimit(attempted: number): number {
+  return Math.min(attempted, 6) * 10 * 60 * 1000;
+}
+
+/**
+ * Score a Multi-BLD attempt. An attempt stopped by the time limit counts at
+ * the limit, with only the cubes solved by then.
+ * @throws Error if the counts are not a possible attempt
+ */
+export function scoreMultiBld(solved: number, attempted: number, timeMs: number): MultiBldResult {
+  if (attempted < MIN_MULTI_BLD_CUBES || attempted > MAX_MULTI_BLD_CUBES) {
+    throw new Error(`Multi-BLD attempts have ${MIN_MULTI_BLD_CUBES} to ${MAX_MULTI_BLD_CUBES} cubes, not ${attempted}`);
+  }
+  if (!Number.isInteger(solved) || solved < 0 || solved > attempted) {
+    throw new Error(`Solved cubes must be between 0 and ${attempted}`);
+  }
+
+  const timeLimitMs = getMultiBldTimeLimit(attempted);
+  const points = solved - (attempted - solved);
+  return {
+    solved,
+    attempted,
+    points,
+    timeMs: Math.min(timeMs, timeLimitMs),
+    timeLimitMs,
+    dnf: points < 0 || solved < 2
+  };
+}
+
+/**
+ * Format a duration as WCA Multi-BLD times are written: minutes and whole seconds
+ */
+export function formatMultiBldTime(timeMs: number): string {
+  const totalSeconds = Math.floor(timeMs / 1000);
+  const seconds = totalSeconds % 60;
+  return `${Math.floor(totalSeconds / 60)}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Format a result as in WCA results, e.g. "8/10 54:12", or "DNF (3/8 41:05)"
+ */
+export function formatMultiBldResult(result: MultiBldResult): string {
+  const text = `${result.solved}/${result.attempted} ${formatMultiBldTime(result.timeMs)}`;
+  return result.dnf ? `DNF (${text})` : text;
+}
+
+/**
+ * Write a scramble set as a numbered list, one scramble per line
+ */
+export function formatMultiBldSheet(scrambles: string[]): string {
+  const width = String(scrambles.length).length;
+  return scrambles.map((scramble, i) => `${String(i + 1).padStart(width, ' ')}. ${scramble}`).join('\n');
+}
@@ -0,0 +1,101 @@
+/**
+ * Generic piece-level model for twisty puzzles.
+ *
+ * A puzzle is described by orbits of pieces. Every piece position is a tuple
+ * of face names listed in clockwise order, and a turn is a map from faces to
+ * faces applied to the positions of one layer. The permutation and
+ * orientation change of a turn are derived from that description, so a solver
+ * only has to describe the geometry of its puzzle.
+ */
+
+/**
+ * State of one orbit.
+ * perm[i] is the piece that sits at position i,
+ * ori[i] is the index of that piece's reference facelet in the position's face tuple.
+ */
+export interface OrbitState {
+  perm: number[];
+  ori: number[];
+}
+
+/**
+ * Effect of a turn on one orbit.
+ * The piece at position i moves to target[i] and its orientation grows by twist[i].
+ */
+export interface OrbitMove {
+  target: number[];
+  twist: number[];
+}
+
+/**
+ * Create the solved state of an orbit with the given number of positions
+ */
+export function createSolvedOrbit(size: number): OrbitState {
+  return {
+    perm: Array.from({ length: size }, (_, i) => i),
+    ori: new Array(size).fill(0)
+  };
+}
+
+/**
+ * Derive the effect of a turn on an orbit
+ * @param positions Face tuples of every position in the orbit, in clockwise order
+ * @param faceMap Where each face is carried by the turn
+ * @param moving Indices of the positions inside the turning layer
+ */
+export function deriveOrbitMove(
+  positions: string[][],
+  faceMap: Record<string, string>,
+  moving: number[]
+): OrbitMove {
+  const target = positions.map((_, i) => i);
+  const twist = new Array(positions.length).fill(0);
+
+  for (const from of moving) {
+    const image = positions[from].map(face => faceMap[face] ?? face);
+    let found = false;
+
+    for (let to = 0; to < positions.length && !found; to++) {
+      const faces = positions[to];
+      if (faces.length !== image.length) continue;
+      for (let offset = 0; offset < faces.length; offset++) {
+        if (image.every((face, j) => faces[(j + offset) % faces.length] === face)) {
+          target[from] = to;
+          twist[from] = offset;
+          found = true;
+          break;
+        }
+      }
+    }
+
+    if (!found) {
+      throw new Error(`Turn does not map piece ${positions[from].join('')} onto a piece position`);
+    }
+  }
+
+  return { target, twist };
+}
+
+/**
+ * Apply a turn to an orbit whose pieces have the given number of orientations
+ */
+export function applyOrbitMove(state: OrbitState, move: OrbitMove, orientations: number): OrbitState {
+  const perm = new Array(state.perm.length);
+  const ori = new Array(state.ori.length);
+  for (let i = 0; i < state.perm.length; i++) {
+    perm[move.target[i]] = state.perm[i];
+    ori[move.target[i]] = (state.ori[i] + move.twist[i]) % orientations;
+  }
+  return { perm, ori };
+}
+
+/**
+ * Find which face of the piece at a position shows on one of that position's faces
+ * @returns The face the facelet belongs to when solved, i.e. its colour
+ */
+export function getFaceletFace(positions: string[][], state: OrbitState, position: number, face: string): string {
+  const faces = positions[position];
+  const size = faces.length;
+  const index = ((faces.indexOf(face) - state.ori[position]) % size + size) % size;
+  return positions[state.perm[position]][index];
+}
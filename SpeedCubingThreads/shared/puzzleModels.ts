@@ -0,0 +1,328 @@
+/**
+ * Puzzle models for every cube type: parse a scramble, apply it to a state,
+ * check whether a state is solved and report illegal moves with their positions.
+ */
+import { CubeType, cubeTypes } from './schema';
+import { CubeState, createSolvedCube, parseCubeTurn, applyCubeTurn, isCubeSolved } from './cubeModel';
+import { PyraminxState, createSolvedPyraminx, applyPyraminxMoves } from './pyraminxSolver';
+import { SkewbState, createSolvedSkewb, applySkewbMoves } from './skewbSolver';
+import { MegaminxState, createSolvedMegaminx, isMegaminxMove, applyMegaminxMove, isMegaminxSolved } from './megaminxModel';
+import {
+  SquareOneState, createSolvedSquareOne, checkSquareOneMove, applySquareOneMove,
+  isSquareOneSliceable, isSquareOneSolved
+} from './squareOneSolver';
+import { OrbitState } from './pieceEngine';
+
+/**
+ * A puzzle that scrambles can be applied to
+ */
+export interface PuzzleModel<State> {
+  createSolved(): State;
+  /**
+   * Check a single move token
+   * @returns Why the token is illegal, or null for a legal move
+   */
+  checkMove(token: string): string | null;
+  /**
+   * Check a legal move token against the state it is applied to, for
+   * puzzles where the shape can block a move
+   * @returns Why the move cannot be made, or null if it can
+   */
+  checkMoveInState?(state: State, token: string): string | null;
+  /**
+   * Apply a single legal move token
+   */
+  applyMove(state: State, token: string): State;
+  isSolved(state: State): boolean;
+}
+
+/**
+ * A move token and where it appears in the scramble
+ */
+export interface ScrambleToken {
+  text: string;
+  /** Index of the token among all tokens (0-based) */
+  index: number;
+  /** Character offset of the token in the scramble text (0-based) */
+  offset: number;
+}
+
+/**
+ * Something wrong with a scramble; position fields are missing for
+ * problems with the scramble as a whole
+ */
+export interface ScrambleIssue {
+  message: string;
+  token?: string;
+  index?: number;
+  offset?: number;
+}
+
+/**
+ * Result of validating a scramble
+ */
+export interface ScrambleValidation {
+  valid: boolean;
+  moveCount: number;
+  issues: ScrambleIssue[];
+}
+
+/**
+ * Pyraminx with its tips (0 = solved, 1 = clockwise, 2 = counter-clockwise)
+ */
+export interface PyraminxPuzzleState {
+  puzzle: PyraminxState;
+  tips: number[];
+}
+
+/**
+ * Clock dials (0 = 12 o'clock): 9 on the front, then 9 on the back,
+ * each side read row by row as seen when facing that side
+ */
+export interface ClockState {
+  dials: number[];
+}
+
+/**
+ * Clock turns: front dials moved and back dials moved the other way
+ * (the four corner dials are shared between the two sides)
+ */
+const clockTurns: Record<string, { front: number[]; back: number[] }> = {
+  UR: { front: [1, 2, 4, 5], back: [0] },
+  DR: { front: [4, 5, 7, 8], back: [6] },
+  DL: { front: [3, 4, 6, 7], back: [8] },
+  UL: { front: [0, 1, 3, 4], back: [2] },
+  U: { front: [0, 1, 2, 3, 4, 5], back: [0, 2] },
+  R: { front: [1, 2, 4, 5, 7, 8], back: [0, 6] },
+  D: { front: [3, 4, 5, 6, 7, 8], back: [6, 8] },
+  L: { front: [0, 1, 3, 4, 6, 7], back: [2, 8] },
+  ALL: { front: [0, 1, 2, 3, 4, 5, 6, 7, 8], back: [0, 2, 6, 8] }
+};
+
+const clockPins = ['UR', 'DR', 'DL', 'UL'];
+
+function isOrbitSolved(orbit: OrbitState): boolean {
+  return orbit.perm.every((piece, i) => piece === i) && orbit.ori.every(ori => ori === 0);
+}
+
+/**
+ * Model of an NxN cube
+ */
+export function createCubeModel(size: number): PuzzleModel<CubeState> {
+  return {
+    createSolved: () => createSolvedCube(size),
+    checkMove: token => {
+      const turn = parseCubeTurn(size, token);
+      return typeof turn === 'string' ? turn : null;
+    },
+    applyMove: (state, token) => {
+      const turn = parseCubeTurn(size, token);
+      if (typeof turn === 'string') throw new Error(`Invalid move ${token}: ${turn}`);
+      return applyCubeTurn(state, turn);
+    },
+    isSolved: isCubeSolved
+  };
+}
+
+export const pyraminxModel: PuzzleModel<PyraminxPuzzleState> = {
+  createSolved: () => ({ puzzle: createSolvedPyraminx(), tips: [0, 0, 0, 0] }),
+  checkMove: token => (/^[ULRBulrb]'?$/.test(token) ? null : 'Unknown Pyraminx move'),
+  applyMove: (state, token) => {
+    // A vertex turn (U) carries its tip along; a tip turn (u) moves the tip only
+    const tip = 'ulrb'.indexOf(token[0].toLowerCase());
+    const tips = [...state.tips];
+    tips[tip] = (tips[tip] + (token.endsWith('\'') ? 2 : 1)) % 3;
+    const isTipTurn = token[0] === token[0].toLowerCase();
+    return { puzzle: isTipTurn ? state.puzzle : applyPyraminxMoves(state.puzzle, token), tips };
+  },
+  isSolved: state => isOrbitSolved(state.puzzle.edges) && isOrbitSolved(state.puzzle.axials)
+    && state.tips.every(tip => tip === 0)
+};
+
+export const skewbModel: PuzzleModel<SkewbState> = {
+  createSolved: createSolvedSkewb,
+  checkMove: token => (/^[RULB]'?$/.test(token) ? null : 'Unknown Skewb move'),
+  applyMove: applySkewbMoves,
+  isSolved: state => isOrbitSolved(state.corners) && isOrbitSolved(state.centers)
+};
+
+export const megaminxModel: PuzzleModel<MegaminxState> = {
+  createSolved: createSolvedMegaminx,
+  checkMove: token => (isMegaminxMove(token) ? null : 'Unknown Megaminx move'),
+  applyMove: applyMegaminxMove,
+  isSolved: isMegaminxSolved
+};
+
+export const squareOneModel: PuzzleModel<SquareOneState> = {
+  createSolved: createSolvedSquareOne,
+  checkMove: checkSquareOneMove,
+  checkMoveInState: (state, token) => (
+    token === '/' && !isSquareOneSliceable(state) ? 'Slice is blocked by a piece across it' : null
+  ),
+  applyMove: applySquareOneMove,
+  isSolved: isSquareOneSolved
+};
+
+export const clockModel: PuzzleModel<ClockState> = {
+  createSolved: () => ({ dials: new Array(18).fill(0) }),
+  checkMove: token => {
+    if (token === 'y2' || clockPins.includes(token)) return null;
+    const match = /^([A-Z]+)(\d+)([+-])$/.exec(token);
+    if (!match || !clockTurns[match[1]]) return 'Unknown Clock move';
+    if (parseInt(match[2], 10) > 6) return 'Clock turns go up to 6 hours';
+    return null;
+  },
+  applyMove: (state, token) => {
+    // y2 turns the puzzle over; a bare pin name only sets the final pin positions
+    if (token === 'y2') {
+      return { dials: [...state.dials.slice(9), ...state.dials.slice(0, 9)] };
+    }
+    const match = /^([A-Z]+)(\d+)([+-])$/.exec(token);
+    if (!match) return state;
+
+    const turn = clockTurns[match[1]];
+    const hours = parseInt(match[2], 10) * (match[3] === '-' ? -1 : 1);
+    const dials = [...state.dials];
+    turn.front.forEach(i => { dials[i] = (dials[i] + hours + 12) % 12; });
+    turn.back.forEach(i => { dials[9 + i] = (dials[9 + i] - hours + 12) % 12; });
+    return { dials };
+  },
+  isSolved: state => state.dials.every(dial => dial === 0)
+};
+
+/**
+ * Get the puzzle model for a cube type
+ * Its states are only for passing back to it; use the exported models for typed states.
+ */
+export function getPuzzleModel(cubeType: CubeType): PuzzleModel<unknown> {
+  switch (cubeType) {
+    case cubeTypes.PYRAMINX:
+      return pyraminxModel;
+    case cubeTypes.SKEWB:
+      return skewbModel;
+    case cubeTypes.CLOCK:
+      return clockModel;
+    case cubeTypes.MEGAMINX:
+      return megaminxModel;
+    case cubeTypes.SQUARE_ONE:
+      return squareOneModel;
+    default:
+      return getCubeModel(cubeType);
+  }
+}
+
+/**
+ * Get the NxN cube model for a cube type; types that are not an NxN cube get the 3x3
+ */
+export function getCubeModel(cubeType: CubeType): PuzzleModel<CubeState> {
+  switch (cubeType) {
+    case cubeTypes.TWO:
+      return createCubeModel(2);
+    case cubeTypes.FOUR:
+      return createCubeModel(4);
+    case cubeTypes.FIVE:
+      return createCubeModel(5);
+    case cubeTypes.SIX:
+      return createCubeModel(6);
+    case cubeTypes.SEVEN:
+      return createCubeModel(7);
+    case cubeTypes.THREE:
+    case cubeTypes.THREE_BLD:
+    case cubeTypes.THREE_OH:
+    case cubeTypes.FMC:
+    default:
+      return createCubeModel(3);
+  }
+}
+
+/**
+ * Split a scramble into move tokens, keeping their positions
+ */
+export function tokenizeScramble(scramble: string): ScrambleToken[] {
+  return Array.from(scramble.matchAll(/\S+/g)).map((match, index) => ({
+    text: match[0],
+    index,
+    offset: match.index ?? 0
+  }));
+}
+
+/**
+ * Apply a scramble to a state
+ * @throws Error listing every illegal move when the scramble is not valid notation
+ */
+export function applyScramble<State>(model: PuzzleModel<State>, state: State, scramble: string): State {
+  const tokens = tokenizeScramble(scramble);
+  const issues = findIllegalMoves(model, tokens);
+  if (issues.length > 0) {
+    throw new Error(`Invalid scramble: ${formatScrambleIssues(issues)}`);
+  }
+  const result = applyTokens(model, state, tokens);
+  if (result.issue) {
+    throw new Error(`Invalid scramble: ${formatScrambleIssues([result.issue])}`);
+  }
+  return result.state;
+}
+
+function toIssue(message: string, token: ScrambleToken): ScrambleIssue {
+  return { message, token: token.text, index: token.index, offset: token.offset };
+}
+
+function findIllegalMoves<State>(model: PuzzleModel<State>, tokens: ScrambleToken[]): ScrambleIssue[] {
+  return tokens.flatMap(token => {
+    const message = model.checkMove(token.text);
+    return message ? [toIssue(message, token)] : [];
+  });
+}
+
+/**
+ * Apply legal move tokens in order, stopping at the first one the state blocks
+ */
+function applyTokens<State>(
+  model: PuzzleModel<State>,
+  state: State,
+  tokens: ScrambleToken[]
+): { state: State; issue?: ScrambleIssue } {
+  for (const token of tokens) {
+    const message = model.checkMoveInState?.(state, token.text);
+    if (message) return { state, issue: toIssue(message, token) };
+    state = model.applyMove(state, token.text);
+  }
+  return { state };
+}
+
+/**
+ * Validate a scramble for a cube type: every token must be a legal move that
+ * the puzzle allows at that point, and the scramble must not be empty or leave
+ * the puzzle solved
+ */
+export function validateScramble(cubeType: CubeType, scramble: string): ScrambleValidation {
+  const model = getPuzzleModel(cubeType);
+  const tokens = tokenizeScramble(scramble);
+  const issues = findIllegalMoves(model, tokens);
+
+  if (tokens.length === 0) {
+    issues.push({ message: 'Scramble is empty' });
+  } else if (issues.length === 0) {
+    const result = applyTokens(model, model.createSolved(), tokens);
+    if (result.issue) {
+      issues.push(result.issue);
+    } else if (model.isSolved(result.state)) {
+      issues.push({ message: 'Scramble leaves the puzzle solved' });
+    }
+  }
+
+  return { valid: issues.length === 0, moveCount: tokens.length, issues };
+}
+
+/**
+ * Format scramble issues for logs and messages,
+ * e.g. "`I` at move 2 (column 3): Unknown move"
+ */
+export function formatScrambleIssues(issues: ScrambleIssue[]): string {
+  return issues.map(issue => {
+    if (issue.token === undefined || issue.index === undefined || issue.offset === undefined) {
+      return issue.message;
+    }
+    return `\`${issue.token}\` at move ${issue.index + 1} (column ${issue.offset + 1}): ${issue.message}`;
+  }).join('; ');
+}
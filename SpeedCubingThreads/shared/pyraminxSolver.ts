@@ -0,0 +1,327 @@
+/**
+ * Optimal solver for the Pyraminx.
+ *
+ * Tips turn independently of everything else, so the solver only looks at
+ * the 6 edges and the 4 axial centres (933,120 reachable states). A full
+ * distance table over those states is built lazily on first use, which makes
+ * optimal solving a simple walk down the table.
+ */
+import { OrbitState, OrbitMove, createSolvedOrbit, deriveOrbitMove, applyOrbitMove, getFaceletFace } from './pieceEngine';
+import { getPermutationIndex, setPermutationIndex, invertSequence } from './twoPhaseSolver';
+
+/**
+ * Vertices in WCA notation: up, left, right and back
+ */
+const vertices = ['U', 'L', 'R', 'B'];
+
+/**
+ * Face opposite each vertex (down, right, left and front face)
+ */
+const oppositeFace: Record<string, string> = { U: 'D', L: 'R', R: 'L', B: 'F' };
+
+/**
+ * The other three vertices in clockwise order, seen from each vertex
+ */
+const vertexCycles: Record<string, string[]> = {
+  U: ['B', 'R', 'L'],
+  L: ['R', 'B', 'U'],
+  R: ['L', 'U', 'B'],
+  B: ['U', 'L', 'R']
+};
+
+/**
+ * Edge positions, named by the two vertices they join
+ */
+const edgeNames = ['UL', 'UR', 'UB', 'LR', 'RB', 'BL'];
+
+/**
+ * Tip names in the order they are appended to a scramble
+ */
+const tipNames = ['u', 'l', 'r', 'b'];
+
+/**
+ * An edge lies on the two faces opposite the vertices it does not touch
+ */
+const edgePositions = edgeNames.map(name =>
+  vertices.filter(vertex => !name.includes(vertex)).map(vertex => oppositeFace[vertex])
+);
+
+/**
+ * An axial centre lies on the three faces around its vertex
+ */
+const axialPositions = vertices.map(vertex =>
+  vertexCycles[vertex].map(other => oppositeFace[other])
+);
+
+const N_PERM = 720;
+const N_FLIP = 64;
+const N_TWIST = 81;
+const N_STATES = N_PERM * N_FLIP * N_TWIST;
+const N_MOVES = 8;
+
+/**
+ * WCA minimum optimal solution length for a Pyraminx scramble, tips excluded
+ */
+export const MIN_PYRAMINX_DISTANCE = 6;
+
+/**
+ * Longest optimal solution of any Pyraminx state, tips excluded
+ */
+export const MAX_PYRAMINX_DISTANCE = 11;
+
+/**
+ * Pyraminx state without tips
+ */
+export interface PyraminxState {
+  edges: OrbitState;
+  axials: OrbitState;
+}
+
+interface PyraminxTurn {
+  edges: OrbitMove;
+  axials: OrbitMove;
+}
+
+interface PyraminxTables {
+  permMove: Uint16Array;
+  flipMove: Uint8Array;
+  twistMove: Uint8Array;
+  distance: Int8Array;
+}
+
+let tables: PyraminxTables | null = null;
+
+/**
+ * Clockwise turns of the four vertices, derived from the face geometry
+ */
+const turns: PyraminxTurn[] = vertices.map(vertex => {
+  const cycle = vertexCycles[vertex];
+  const faceMap: Record<string, string> = {};
+  cycle.forEach((other, i) => {
+    faceMap[oppositeFace[other]] = oppositeFace[cycle[(i + 1) % 3]];
+  });
+
+  const movingEdges = edgeNames
+    .map((name, i) => (name.includes(vertex) ? i : -1))
+    .filter(i => i >= 0);
+
+  return {
+    edges: deriveOrbitMove(edgePositions, faceMap, movingEdges),
+    axials: deriveOrbitMove(axialPositions, faceMap, [vertices.indexOf(vertex)])
+  };
+});
+
+/**
+ * Create a solved Pyraminx
+ */
+export function createSolvedPyraminx(): PyraminxState {
+  return { edges: createSolvedOrbit(6), axials: createSolvedOrbit(4) };
+}
+
+/**
+ * Apply a move (vertex index * 2, plus 1 for a counter-clockwise turn)
+ */
+function applyMove(state: PyraminxState, move: number): PyraminxState {
+  const turn = turns[Math.floor(move / 2)];
+  let result = state;
+  for (let i = 0; i < (move % 2) + 1; i++) {
+    result = {
+      edges: applyOrbitMove(result.edges, turn.edges, 2),
+      axials: applyOrbitMove(result.axials, turn.axials, 3)
+    };
+  }
+  return result;
+}
+
+function moveName(move: number): string {
+  return vertices[Math.floor(move / 2)] + (move % 2 === 1 ? '\'' : '');
+}
+
+/**
+ * Apply a sequence of Pyraminx vertex turns in WCA notation (e.g. "U L' R B").
+ * Tips are not part of the state, so tip turns are rejected here.
+ */
+export function applyPyraminxMoves(state: PyraminxState, sequence: string): PyraminxState {
+  return sequence.trim().split(/\s+/).filter(token => token.length > 0).reduce((result, token) => {
+    const move = Array.from({ length: N_MOVES }, (_, m) => m).find(m => moveName(m) === token);
+    if (move === undefined) {
+      throw new Error(`Invalid Pyraminx move: ${token}`);
+    }
+    return applyMove(result, move);
+  }, state);
+}
+
+/**
+ * Colours shown around a vertex on one face: the tip and the axial centre
+ * @param tips Tip twists in the order u, l, r, b (1 = clockwise, 2 = counter-clockwise)
+ * @returns Face names of the colours, using the faces D, L, R and F
+ */
+export function getPyraminxCornerColours(
+  state: PyraminxState,
+  tips: number[],
+  vertex: string,
+  face: string
+): { tip: string; axial: string } {
+  const index = vertices.indexOf(vertex);
+  // Tips twist exactly like the axial centres underneath them
+  const tip: OrbitState = { perm: [0, 1, 2, 3], ori: [...tips] };
+  return {
+    tip: getFaceletFace(axialPositions, tip, index, face),
+    axial: getFaceletFace(axialPositions, state.axials, index, face)
+  };
+}
+
+/**
+ * Colour shown by the edge between two vertices on one face
+ */
+export function getPyraminxEdgeColour(state: PyraminxState, from: string, to: string, face: string): string {
+  const index = edgeNames.findIndex(name => name.includes(from) && name.includes(to));
+  return getFaceletFace(edgePositions, state.edges, index, face);
+}
+
+function getFlip(state: PyraminxState): number {
+  return state.edges.ori.reduce((flip, ori) => flip * 2 + ori, 0);
+}
+
+function setFlip(state: PyraminxState, flip: number): void {
+  for (let i = 5; i >= 0; i--) {
+    state.edges.ori[i] = flip % 2;
+    flip = Math.floor(flip / 2);
+  }
+}
+
+function getTwist(state: PyraminxState): number {
+  return state.axials.ori.reduce((twist, ori) => twist * 3 + ori, 0);
+}
+
+function setTwist(state: PyraminxState, twist: number): void {
+  for (let i = 3; i >= 0; i--) {
+    state.axials.ori[i] = twist % 3;
+    twist = Math.floor(twist / 3);
+  }
+}
+
+/**
+ * Table index of a state
+ */
+function getIndex(state: PyraminxState): number {
+  return (getPermutationIndex(state.edges.perm) * N_FLIP + getFlip(state)) * N_TWIST + getTwist(state);
+}
+
+/**
+ * Build a move table for one coordinate
+ */
+function buildMoveTable<T extends Uint8Array | Uint16Array>(
+  table: T,
+  size: number,
+  set: (state: PyraminxState, value: number) => void,
+  get: (state: PyraminxState) => number
+): T {
+  for (let value = 0; value < size; value++) {
+    const state = createSolvedPyraminx();
+    set(state, value);
+    for (let m = 0; m < N_MOVES; m++) {
+      table[value * N_MOVES + m] = get(applyMove(state, m));
+    }
+  }
+  return table;
+}
+
+/**
+ * Build (or return the cached) move tables and the full distance table
+ */
+function getTables(): PyraminxTables {
+  if (tables) return tables;
+
+  const permMove = buildMoveTable(new Uint16Array(N_PERM * N_MOVES), N_PERM,
+    (state, perm) => { state.edges.perm = setPermutationIndex(perm, 6); },
+    state => getPermutationIndex(state.edges.perm));
+  const flipMove = buildMoveTable(new Uint8Array(N_FLIP * N_MOVES), N_FLIP, setFlip, getFlip);
+  const twistMove = buildMoveTable(new Uint8Array(N_TWIST * N_MOVES), N_TWIST, setTwist, getTwist);
+
+  // Unreachable indices (odd edge permutations, odd flips) stay at -1
+  const distance = new Int8Array(N_STATES).fill(-1);
+  distance[0] = 0;
+  for (let depth = 0; depth < MAX_PYRAMINX_DISTANCE; depth++) {
+    for (let index = 0; index < N_STATES; index++) {
+      if (distance[index] !== depth) continue;
+      const twist = index % N_TWIST;
+      const flip = Math.floor(index / N_TWIST) % N_FLIP;
+      const perm = Math.floor(index / (N_TWIST * N_FLIP));
+      for (let m = 0; m < N_MOVES; m++) {
+        const next = (permMove[perm * N_MOVES + m] * N_FLIP + flipMove[flip * N_MOVES + m]) * N_TWIST
+          + twistMove[twist * N_MOVES + m];
+        if (distance[next] === -1) distance[next] = depth + 1;
+      }
+    }
+  }
+
+  tables = { permMove, flipMove, twistMove, distance };
+  return tables;
+}
+
+/**
+ * Optimal solution of a state given by its table index
+ */
+function solveIndex(index: number): string[] {
+  const t = getTables();
+  const solution: string[] = [];
+  while (t.distance[index] > 0) {
+    const twist = index % N_TWIST;
+    const flip = Math.floor(index / N_TWIST) % N_FLIP;
+    const perm = Math.floor(index / (N_TWIST * N_FLIP));
+    for (let m = 0; m < N_MOVES; m++) {
+      const next = (t.permMove[perm * N_MOVES + m] * N_FLIP + t.flipMove[flip * N_MOVES + m]) * N_TWIST
+        + t.twistMove[twist * N_MOVES + m];
+      if (t.distance[next] === t.distance[index] - 1) {
+        solution.push(moveName(m));
+        index = next;
+        break;
+      }
+    }
+  }
+  return solution;
+}
+
+/**
+ * Solve a Pyraminx state optimally, tips excluded
+ * @returns The optimal solution in WCA notation
+ */
+export function solvePyraminx(state: PyraminxState): string {
+  const index = getIndex(state);
+  if (getTables().distance[index] < 0) {
+    throw new Error('Unreachable Pyraminx state');
+  }
+  return solveIndex(index).join(' ');
+}
+
+/**
+ * Generate a random-state Pyraminx scramble.
+ * A uniformly random state is solved optimally and the inverted solution is used,
+ * rejecting states closer than minDistance. Each tip is then turned
+ * clockwise, counter-clockwise or not at all with equal probability.
+ * @param minDistance Minimum optimal solution length without tips (defaults to the WCA minimum of 6)
+ * @param maxDistance Maximum optimal solution length without tips
+ */
+export function generateRandomStatePyraminxScramble(
+  minDistance: number = MIN_PYRAMINX_DISTANCE,
+  maxDistance: number = MAX_PYRAMINX_DISTANCE
+): string {
+  const t = getTables();
+  const min = Math.max(0, Math.min(minDistance, MAX_PYRAMINX_DISTANCE));
+  const max = Math.max(min, Math.min(maxDistance, MAX_PYRAMINX_DISTANCE));
+
+  let index: number;
+  do {
+    index = Math.floor(Math.random() * N_STATES);
+  } while (t.distance[index] < min || t.distance[index] > max);
+
+  const scramble = [invertSequence(solveIndex(index).join(' '))];
+  for (const tip of tipNames) {
+    const turn = Math.floor(Math.random() * 3);
+    if (turn === 1) scramble.push(tip);
+    if (turn === 2) scramble.push(`${tip}'`);
+  }
+
+  return scramble.filter(part => part.length > 0).join(' ');
+}
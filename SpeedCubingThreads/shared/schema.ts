@@ -1,6 +1,11 @@
-import { pgTable, text, serial, timestamp, integer, boolean, varchar, jsonb, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, timestamp, integer, real, boolean, varchar, jsonb, date, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { RESULT_FORMATS } from "./solveTimes";
+import type { SolveTime, SolvePenalty, ResultFormat } from "./solveTimes";
+import { DEFAULT_SEASON_POINTS, MAX_SEASON_POINTS_PLACES } from "./seasons";
+import type { SeasonPeriod, SeasonStanding } from "./seasons";
+import { isValidTimeZone, parseTimeOfDay } from "./timeZones";
 
 // Cube Types Enum
 export const cubeTypes = {
@@ -10,11 +15,75 @@ export const cubeTypes = {
   THREE: "3x3",
   PYRAMINX: "Pyraminx",
   THREE_OH: "3x3 OH",
-  CLOCK: "Clock"
+  CLOCK: "Clock",
+  FOUR: "4x4",
+  FIVE: "5x5",
+  SIX: "6x6",
+  SEVEN: "7x7",
+  MEGAMINX: "Megaminx",
+  SQUARE_ONE: "Square-1",
+  FMC: "3x3 FMC"
 } as const;
 
 export type CubeType = typeof cubeTypes[keyof typeof cubeTypes];
 
+// Events whose WCA rounds are a mean of 3 rather than an average of 5
+export const meanOfThreeEvents: CubeType[] = [cubeTypes.THREE_BLD, cubeTypes.SIX, cubeTypes.SEVEN];
+
+// Challenge format chosen for each event; events left out run in their default format
+export type EventFormats = Partial<Record<CubeType, ResultFormat>>;
+
+// Format an event runs in when its guild chose none: a Mo3 for mean of 3 events, else a single
+export function getDefaultEventFormat(cubeType: CubeType): ResultFormat {
+  return meanOfThreeEvents.includes(cubeType) ? "mo3" : "single";
+}
+
+// Mean of 3 events cannot be run as an Ao5, as their WCA rounds never are
+export function isEventFormatAllowed(cubeType: CubeType, format: ResultFormat): boolean {
+  return !(format === "ao5" && meanOfThreeEvents.includes(cubeType));
+}
+
+// Default weekly schedule, one event a day; each guild's own schedule is kept in bot_config
+export const daySchedule = {
+  MONDAY: cubeTypes.SKEWB,
+  TUESDAY: cubeTypes.THREE_BLD,
+  WEDNESDAY: cubeTypes.TWO,
+  THURSDAY: cubeTypes.THREE,
+  FRIDAY: cubeTypes.PYRAMINX,
+  SATURDAY: cubeTypes.THREE_OH,
+  SUNDAY: cubeTypes.CLOCK
+} as const;
+
+export type DayOfWeek = keyof typeof daySchedule;
+
+// Days in the order Date.getDay() numbers them, Sunday first
+export const daysOfWeek: DayOfWeek[] = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
+
+// Most events that can be scheduled on one day, each posted in its own thread
+export const MAX_EVENTS_PER_DAY = 3;
+
+// Events posted on each day of the week; a day with no events is a rest day
+export type WeeklySchedule = Record<DayOfWeek, CubeType[]>;
+
+// Schedule a guild starts with, from daySchedule
+export const defaultWeeklySchedule: WeeklySchedule = {
+  SUNDAY: [daySchedule.SUNDAY],
+  MONDAY: [daySchedule.MONDAY],
+  TUESDAY: [daySchedule.TUESDAY],
+  WEDNESDAY: [daySchedule.WEDNESDAY],
+  THURSDAY: [daySchedule.THURSDAY],
+  FRIDAY: [daySchedule.FRIDAY],
+  SATURDAY: [daySchedule.SATURDAY]
+};
+
+// How late a missed daily post is still made by default, and at most, so it never runs into the next day's
+export const DEFAULT_CATCH_UP_HOURS = 6;
+export const MAX_CATCH_UP_HOURS = 23;
+
+// Role names a guild starts with
+export const DEFAULT_PING_ROLE_NAME = "daily scramble ping";
+export const DEFAULT_ADMIN_ROLE_NAME = "Owner{Pin if problem.}";
+
 // Bot Configuration Table
 export const botConfig = pgTable("bot_config", {
   id: serial("id").primaryKey(),
@@ -24,8 +93,32 @@ export const botConfig = pgTable("bot_config", {
   timezone: text("timezone").notNull().default("Asia/Kolkata"), // IST
   enabled: boolean("enabled").notNull().default(true),
   deleteAfterHours: integer("delete_after_hours").notNull().default(24),
+  eventFormats: jsonb("event_formats").notNull().default({}).$type<EventFormats>(),
+  seasonPoints: jsonb("season_points").notNull().default(DEFAULT_SEASON_POINTS).$type<number[]>(), // Points for 1st, 2nd, 3rd… in a daily thread
+  schedule: jsonb("schedule").notNull().default(defaultWeeklySchedule).$type<WeeklySchedule>(), // Events posted each day of the week
+  pingRoleName: text("ping_role_name").notNull().default(DEFAULT_PING_ROLE_NAME), // Role mentioned in each daily thread
+  adminRoleName: text("admin_role_name").notNull().default(DEFAULT_ADMIN_ROLE_NAME), // Role allowed to change the bot's settings
+  catchUpHours: integer("catch_up_hours").notNull().default(DEFAULT_CATCH_UP_HOURS), // How late a missed daily post is still made, 0 for never
 });
 
+// Result of closing a challenge thread on Discord
+export const archiveOutcomes = {
+  ARCHIVED: "archived",
+  ALREADY_ARCHIVED: "already-archived",
+  NOT_FOUND: "not-found", // The thread, channel or guild is gone
+  PERMISSION_DENIED: "permission-denied", // Needs a server admin to fix, not retried
+  TRANSIENT_ERROR: "transient-error" // Retried from the archive retry queue
+} as const;
+
+export type ArchiveOutcome = typeof archiveOutcomes[keyof typeof archiveOutcomes];
+
+// Outcomes that leave a thread closed, so it is marked deleted
+export const closedArchiveOutcomes: ArchiveOutcome[] = [
+  archiveOutcomes.ARCHIVED,
+  archiveOutcomes.ALREADY_ARCHIVED,
+  archiveOutcomes.NOT_FOUND
+];
+
 // Challenge Threads Table
 export const challengeThreads = pgTable("challenge_threads", {
   id: serial("id").primaryKey(),
@@ -33,13 +126,97 @@ export const challengeThreads = pgTable("challenge_threads", {
   channelId: text("channel_id").notNull(),
   guildId: text("guild_id").notNull(),
   cubeType: text("cube_type").notNull(),
-  scramble: text("scramble").notNull(),
+  format: text("format").notNull().default("single").$type<ResultFormat>(), // single, ao5 or mo3
+  scrambles: jsonb("scrambles").notNull().$type<string[]>(), // The format's scrambles, then its extras (see migrations/0002)
   createdAt: timestamp("created_at").notNull().defaultNow(),
   expiresAt: timestamp("expires_at").notNull(),
   isDeleted: boolean("is_deleted").notNull().default(false),
+  leaderboardMessageId: text("leaderboard_message_id"), // Live leaderboard message in the thread
+  archiveOutcome: text("archive_outcome").$type<ArchiveOutcome>(), // Result of the latest close attempt
+  archiveError: text("archive_error"), // Why the latest close attempt failed
+  archiveAttemptedAt: timestamp("archive_attempted_at"),
+  closingPostedAt: timestamp("closing_posted_at"), // Results and close message posted, so retried closes skip them
 });
 
+// Threads waiting to be closed again after a transient Discord failure
+export const archiveRetries = pgTable("archive_retries", {
+  id: serial("id").primaryKey(),
+  challengeThreadId: integer("challenge_thread_id").notNull().unique(), // challenge_threads.id
+  attempts: integer("attempts").notNull().default(0), // Failed close attempts so far
+  nextAttemptAt: timestamp("next_attempt_at").notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Fewest Moves solutions submitted to a challenge thread
+export const fmcResults = pgTable("fmc_results", {
+  id: serial("id").primaryKey(),
+  challengeThreadId: integer("challenge_thread_id").notNull(), // challenge_threads.id
+  userId: text("user_id").notNull(),
+  username: text("username").notNull(),
+  solution: text("solution").notNull(),
+  moveCount: integer("move_count").notNull(), // Length in HTM
+  submittedAt: timestamp("submitted_at").notNull().defaultNow(),
+}, (table) => ({
+  threadUser: uniqueIndex("fmc_results_thread_user").on(table.challengeThreadId, table.userId),
+}));
+
+// Times submitted to a challenge thread, one result per member
+export const challengeResults = pgTable("challenge_results", {
+  id: serial("id").primaryKey(),
+  challengeThreadId: integer("challenge_thread_id").notNull(), // challenge_threads.id
+  userId: text("user_id").notNull(),
+  username: text("username").notNull(),
+  format: text("format").notNull().$type<ResultFormat>(), // single or ao5
+  solves: jsonb("solves").notNull().$type<SolveTime[]>(), // Every solve with its penalty
+  resultMs: integer("result_ms"), // Single or average in milliseconds, null for a DNF
+  submittedAt: timestamp("submitted_at").notNull().defaultNow(),
+}, (table) => ({
+  threadUser: uniqueIndex("challenge_results_thread_user").on(table.challengeThreadId, table.userId),
+}));
+
+// Completed weekly and monthly seasons with their final standings
+export const seasons = pgTable("seasons", {
+  id: serial("id").primaryKey(),
+  guildId: text("guild_id").notNull(),
+  period: text("period").notNull().$type<SeasonPeriod>(), // week or month
+  seasonKey: text("season_key").notNull(), // e.g. 2026-W42 or 2026-10
+  threadCount: integer("thread_count").notNull(), // Daily threads that counted
+  standings: jsonb("standings").notNull().$type<SeasonStanding[]>(),
+  completedAt: timestamp("completed_at").notNull().defaultNow(),
+  announcementMessageId: text("announcement_message_id"), // Season-end podium post
+});
+
+// Status of a guild's daily post of one event
+export const dailyPostStatuses = {
+  PENDING: "pending",
+  POSTED: "posted",
+  FAILED: "failed"
+} as const;
+
+export type DailyPostStatus = typeof dailyPostStatuses[keyof typeof dailyPostStatuses];
+
+// Each daily post the scheduler intends to make, one per guild, date and event
+export const dailyPosts = pgTable("daily_posts", {
+  id: serial("id").primaryKey(),
+  guildId: text("guild_id").notNull(),
+  postDate: text("post_date").notNull(), // The guild's calendar date, e.g. 2026-10-19
+  cubeType: text("cube_type").notNull(),
+  status: text("status").notNull().default(dailyPostStatuses.PENDING).$type<DailyPostStatus>(),
+  scheduledFor: timestamp("scheduled_for").notNull(), // When the post was due
+  attempts: integer("attempts").notNull().default(0),
+  threadId: text("thread_id"), // Discord thread of the post once made
+  error: text("error"), // Why the latest attempt failed
+  isCatchUp: boolean("is_catch_up").notNull().default(false), // Posted late after being missed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  guildDateEvent: uniqueIndex("daily_posts_guild_date_event").on(table.guildId, table.postDate, table.cubeType),
+}));
+
 // Schemas for inserting data
+const scheduleDaySchema = z.array(z.enum(Object.values(cubeTypes) as [CubeType, ...CubeType[]])).max(MAX_EVENTS_PER_DAY);
+
 export const insertBotConfigSchema = createInsertSchema(botConfig).pick({
   channelId: true,
   guildId: true,
@@ -47,6 +224,32 @@ export const insertBotConfigSchema = createInsertSchema(botConfig).pick({
   timezone: true,
   enabled: true,
   deleteAfterHours: true,
+  pingRoleName: true,
+  adminRoleName: true,
+  catchUpHours: true,
+}).extend({
+  timeToPost: z.string().refine(time => parseTimeOfDay(time) !== null, 'Time to post must be HH:MM in 24-hour time').optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+  pingRoleName: z.string().trim().min(1).max(100).optional(),
+  adminRoleName: z.string().trim().min(1).max(100).optional(),
+  catchUpHours: z.number().int().min(0).max(MAX_CATCH_UP_HOURS).optional(),
+  eventFormats: z.record(
+    z.enum(Object.values(cubeTypes) as [CubeType, ...CubeType[]]),
+    z.enum(RESULT_FORMATS as [ResultFormat, ...ResultFormat[]])
+  ).refine(
+    formats => Object.entries(formats).every(([cubeType, format]) => isEventFormatAllowed(cubeType as CubeType, format as ResultFormat)),
+    `${meanOfThreeEvents.join(", ")} can only be run as a single or Mo3`
+  ).optional(),
+  seasonPoints: z.array(z.number().int().min(0).max(1000)).min(1).max(MAX_SEASON_POINTS_PLACES).optional(),
+  schedule: z.object({
+    SUNDAY: scheduleDaySchema,
+    MONDAY: scheduleDaySchema,
+    TUESDAY: scheduleDaySchema,
+    WEDNESDAY: scheduleDaySchema,
+    THURSDAY: scheduleDaySchema,
+    FRIDAY: scheduleDaySchema,
+    SATURDAY: scheduleDaySchema
+  }).optional(),
 });
 
 export const insertChallengeThreadSchema = createInsertSchema(challengeThreads).pick({
@@ -54,29 +257,88 @@ export const insertChallengeThreadSchema = createInsertSchema(challengeThreads).
   channelId: true,
   guildId: true,
   cubeType: true,
-  scramble: true,
+  format: true,
+  scrambles: true,
   expiresAt: true,
 });
 
+export const insertFmcResultSchema = createInsertSchema(fmcResults).pick({
+  challengeThreadId: true,
+  userId: true,
+  username: true,
+  solution: true,
+  moveCount: true,
+});
+
+export const insertChallengeResultSchema = createInsertSchema(challengeResults).pick({
+  challengeThreadId: true,
+  userId: true,
+  username: true,
+  format: true,
+  solves: true,
+  resultMs: true,
+});
+
+export const insertSeasonSchema = createInsertSchema(seasons).pick({
+  guildId: true,
+  period: true,
+  seasonKey: true,
+  threadCount: true,
+  standings: true,
+  announcementMessageId: true,
+});
+
+export const insertDailyPostSchema = createInsertSchema(dailyPosts).pick({
+  guildId: true,
+  postDate: true,
+  cubeType: true,
+  status: true,
+  scheduledFor: true,
+  attempts: true,
+  threadId: true,
+  error: true,
+  isCatchUp: true,
+});
+
+export const insertArchiveRetrySchema = createInsertSchema(archiveRetries).pick({
+  challengeThreadId: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastError: true,
+});
+
 // Types for application use
 export type BotConfig = typeof botConfig.$inferSelect;
 export type InsertBotConfig = z.infer<typeof insertBotConfigSchema>;
 
 export type ChallengeThread = typeof challengeThreads.$inferSelect;
-export type InsertChallengeThread = z.infer<typeof insertChallengeThreadSchema>;
+export type InsertChallengeThread = Omit<z.infer<typeof insertChallengeThreadSchema>, 'format' | 'scrambles'> & {
+  format: ResultFormat;
+  scrambles: string[];
+};
 
-// Weekly schedule type
-export const daySchedule = {
-  MONDAY: cubeTypes.SKEWB,
-  TUESDAY: cubeTypes.THREE_BLD,
-  WEDNESDAY: cubeTypes.TWO,
-  THURSDAY: cubeTypes.THREE,
-  FRIDAY: cubeTypes.PYRAMINX,
-  SATURDAY: cubeTypes.THREE_OH,
-  SUNDAY: cubeTypes.CLOCK
-} as const;
+export type FmcResult = typeof fmcResults.$inferSelect;
+export type InsertFmcResult = z.infer<typeof insertFmcResultSchema>;
 
-export type DayOfWeek = keyof typeof daySchedule;
+export type ChallengeResult = typeof challengeResults.$inferSelect;
+export type InsertChallengeResult = Omit<z.infer<typeof insertChallengeResultSchema>, 'format' | 'solves'> & {
+  format: ResultFormat;
+  solves: SolveTime[];
+};
+
+export type Season = typeof seasons.$inferSelect;
+export type InsertSeason = Omit<z.infer<typeof insertSeasonSchema>, 'period' | 'standings'> & {
+  period: SeasonPeriod;
+  standings: SeasonStanding[];
+};
+
+export type ArchiveRetry = typeof archiveRetries.$inferSelect;
+export type InsertArchiveRetry = z.infer<typeof insertArchiveRetrySchema>;
+
+export type DailyPost = typeof dailyPosts.$inferSelect;
+export type InsertDailyPost = Omit<z.infer<typeof insertDailyPostSchema>, 'status'> & {
+  status: DailyPostStatus;
+};
 
 // User roles enum
 export const userRoles = {
@@ -105,6 +367,83 @@ export const loginSchema = z.object({
 export type User = typeof users.$inferSelect;
 export type LoginCredentials = z.infer<typeof loginSchema>;
 
+// Who performed an audited action
+export const auditActorTypes = {
+  DASHBOARD: "dashboard", // A dashboard user, by users.id
+  DISCORD: "discord" // A Discord user, by Discord user ID
+} as const;
+
+export type AuditActorType = typeof auditActorTypes[keyof typeof auditActorTypes];
+
+// Admin actions that change the bot's behavior
+export const auditActions = {
+  CONFIG_UPDATE: "config.update",
+  SETUP: "setup",
+  SCHEDULE_UPDATE: "schedule.update",
+  REACT_EMOJI_SET: "react-emoji.set",
+  DAILY_POST_TRIGGER: "daily-post.trigger",
+  THREAD_CLEANUP_TRIGGER: "thread-cleanup.trigger",
+  THREAD_CLOSE_RETRY: "thread-close.retry",
+  MANUAL_THREAD_CREATE: "manual-thread.create",
+  EMERGENCY_BACKUP: "emergency-backup"
+} as const;
+
+export type AuditAction = typeof auditActions[keyof typeof auditActions];
+
+export const auditResults = {
+  SUCCESS: "success",
+  FAILURE: "failure",
+  DENIED: "denied" // The actor was not allowed to do it
+} as const;
+
+export type AuditResult = typeof auditResults[keyof typeof auditResults];
+
+// Audit Log Table, one row per admin action, never updated
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorType: text("actor_type").notNull().$type<AuditActorType>(),
+  actorId: text("actor_id").notNull(),
+  actorName: text("actor_name").notNull(), // Username when the action was taken
+  action: text("action").notNull().$type<AuditAction>(),
+  guildId: text("guild_id"), // Guild the action applied to, if any
+  parameters: jsonb("parameters").notNull().default({}).$type<Record<string, unknown>>(),
+  result: text("result").notNull().$type<AuditResult>(),
+  error: text("error"), // Why the action failed or was denied
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLog).pick({
+  actorType: true,
+  actorId: true,
+  actorName: true,
+  action: true,
+  guildId: true,
+  parameters: true,
+  result: true,
+  error: true,
+});
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = Omit<z.infer<typeof insertAuditLogSchema>, 'actorType' | 'action' | 'parameters' | 'result'> & {
+  actorType: AuditActorType;
+  action: AuditAction;
+  parameters?: Record<string, unknown>;
+  result: AuditResult;
+};
+
+// Filters for reading the audit log, newest entries first
+export interface AuditLogQuery {
+  actorType?: AuditActorType;
+  actorName?: string;
+  action?: AuditAction;
+  guildId?: string;
+  result?: AuditResult;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
 // Analytics Tables
 // Command Usage Analytics
 export const commandUsage = pgTable("command_usage", {
@@ -120,16 +459,32 @@ export const commandUsage = pgTable("command_usage", {
   timestamp: timestamp("timestamp").notNull().defaultNow(),
 });
 
+// How much time a system metrics sample covers: minute samples are averaged
+// into hourly buckets, and those into daily buckets, as they age
+export const metricResolutions = {
+  MINUTE: "minute",
+  HOUR: "hour",
+  DAY: "day"
+} as const;
+
+export type MetricResolution = typeof metricResolutions[keyof typeof metricResolutions];
+
 // System Performance Metrics
 export const systemMetrics = pgTable("system_metrics", {
   id: serial("id").primaryKey(),
-  timestamp: timestamp("timestamp").notNull().defaultNow(),
+  timestamp: timestamp("timestamp").notNull().defaultNow(), // Start of the minute, hour or day for buckets
+  resolution: text("resolution").notNull().default(metricResolutions.MINUTE).$type<MetricResolution>(),
+  sampleCount: integer("sample_count").notNull().default(1), // Minute samples averaged into this one
   rssMemory: integer("rss_memory").notNull(), // RSS memory usage in bytes
   heapTotal: integer("heap_total").notNull(), // Total heap size in bytes
   heapUsed: integer("heap_used").notNull(), // Used heap size in bytes
   external: integer("external").notNull(), // External memory usage in bytes
   uptime: integer("uptime").notNull(), // Bot uptime in seconds
   activeThreads: integer("active_threads").notNull(), // Number of active threads
+  cpuPercent: real("cpu_percent"), // Share of one core used since the previous sample
+  eventLoopLag: real("event_loop_lag_ms"), // Mean event loop delay in milliseconds
+  eventLoopLagMax: real("event_loop_lag_max_ms"), // Longest event loop delay in milliseconds
+  wsPing: integer("ws_ping_ms"), // Discord websocket heartbeat ping, null while disconnected
   cpuUsage: jsonb("cpu_usage"), // CPU usage metrics
   loadAverage: jsonb("load_average"), // System load average
 });
@@ -155,6 +510,7 @@ export const scramblePerformance = pgTable("scramble_performance", {
   cubeType: text("cube_type").notNull(),
   scramble: text("scramble").notNull(),
   solveTime: integer("solve_time_ms"), // Time taken to solve in milliseconds
+  penalty: text("penalty").notNull().default("none").$type<SolvePenalty>(), // none, +2 or DNF
   isCustomScramble: boolean("is_custom_scramble").notNull().default(false),
   customParameters: jsonb("custom_parameters"), // For custom scrambles (moves, difficulty)
   timestamp: timestamp("timestamp").notNull().defaultNow(),
@@ -166,9 +522,9 @@ export const insertCommandUsageSchema = createInsertSchema(commandUsage).omit({
   timestamp: true,
 });
 
+// Timestamp is optional so downsampled buckets can be stored at their start
 export const insertSystemMetricsSchema = createInsertSchema(systemMetrics).omit({
   id: true,
-  timestamp: true,
 });
 
 export const insertDailyAnalyticsSchema = createInsertSchema(dailyAnalytics).omit({
@@ -178,6 +534,8 @@ export const insertDailyAnalyticsSchema = createInsertSchema(dailyAnalytics).omi
 export const insertScramblePerformanceSchema = createInsertSchema(scramblePerformance).omit({
   id: true,
   timestamp: true,
+}).extend({
+  penalty: z.enum(["none", "+2", "DNF"]).optional(),
 });
 
 // Types for application use
@@ -185,7 +543,9 @@ export type CommandUsage = typeof commandUsage.$inferSelect;
 export type InsertCommandUsage = z.infer<typeof insertCommandUsageSchema>;
 
 export type SystemMetrics = typeof systemMetrics.$inferSelect;
-export type InsertSystemMetrics = z.infer<typeof insertSystemMetricsSchema>;
+export type InsertSystemMetrics = Omit<z.infer<typeof insertSystemMetricsSchema>, 'resolution'> & {
+  resolution?: MetricResolution;
+};
 
 export type DailyAnalytics = typeof dailyAnalytics.$inferSelect;
 export type InsertDailyAnalytics = z.infer<typeof insertDailyAnalyticsSchema>;
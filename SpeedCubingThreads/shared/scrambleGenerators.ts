@@ -1,4 +1,10 @@
 import { CubeType, cubeTypes } from './schema';
+import { generateRandomState3x3Scramble } from './twoPhaseSolver';
+import { generateRandomState2x2Scramble, MIN_2X2_DISTANCE, MAX_2X2_DISTANCE } from './twoByTwoSolver';
+import { generateRandomStatePyraminxScramble, MIN_PYRAMINX_DISTANCE } from './pyraminxSolver';
+import { generateRandomStateSkewbScramble, MIN_SKEWB_DISTANCE } from './skewbSolver';
+import { generateRandomStateSquareOneScramble } from './squareOneSolver';
+import { FMC_SCRAMBLE_PADDING } from './fewestMoves';
 
 /**
  * Get a random integer between min and max (inclusive)
@@ -46,408 +52,181 @@ const sameAxis: Record<string, string[]> = {
 
 /**
  * Generate a 3x3 cube scramble
- * Format: WCA regulation-compliant 20 moves, optimized for challenge
- * - No move with its inverse in sequence (e.g., R L R')
- * - No redundant moves on the same axis (e.g., R L)
- * - Optimized for difficulty while maintaining WCA compliance
+ * Format: WCA-style random-state scramble. A uniformly random cube state is
+ * solved with the two-phase algorithm and the inverted solution is used, so
+ * every reachable state is equally likely (typically 19-21 moves)
  */
 function generate3x3Scramble(): string {
-  const moves = ['R', 'L', 'U', 'D', 'F', 'B'];
-  // Use standard WCA modifiers with balanced distribution
-  const modifiers = ['', '\'', '2'];
-  const scramble: string[] = [];
-  let lastMove = '';
-  let secondLastMove = '';
-
-  // WCA standard is 20 moves
-  for (let i = 0; i < 20; i++) {
-    // Filter out moves on the same axis as the last move
-    let availableMoves = [...moves];
-    
-    if (lastMove) {
-      // Remove moves on the same axis as the last move
-      availableMoves = availableMoves.filter(move => !sameAxis[lastMove].includes(move));
-    }
-    
-    // Don't allow a move to return to the state before the last move
-    // For example, avoid sequences like "R L R" or "R L R'"
-    if (secondLastMove && lastMove) {
-      // If we're potentially going back to the same face as two moves ago
-      if (secondLastMove === availableMoves.find(m => m === secondLastMove)) {
-        // Remove this option to avoid the pattern
-        availableMoves = availableMoves.filter(move => move !== secondLastMove);
-      }
-    }
-    
-    // Ensure we always have moves to choose from
-    if (availableMoves.length === 0) {
-      availableMoves = moves.filter(move => move !== lastMove);
-    }
-    
-    // For more challenging puzzles while staying WCA-compliant,
-    // occasionally prefer slice-based combinations (adjacent faces that create slice-like movements)
-    const adjacentPairs = [['R', 'F'], ['R', 'U'], ['U', 'F'], ['L', 'B'], ['L', 'D'], ['D', 'B']];
-    if (i > 0 && i % 5 === 0 && lastMove) {
-      const preferredPairs = adjacentPairs.filter(pair => pair.includes(lastMove));
-      if (preferredPairs.length > 0) {
-        const randomPair = getRandomElement(preferredPairs);
-        const preferredMove = randomPair.find(move => move !== lastMove);
-        if (preferredMove && availableMoves.includes(preferredMove)) {
-          // 60% chance to use the preferred adjacent face for harder patterns
-          if (Math.random() < 0.6) {
-            // Slightly bias toward double turns (harder to recognize)
-            const mod = Math.random() < 0.4 ? '2' : (Math.random() < 0.5 ? '\'' : '');
-            scramble.push(`${preferredMove}${mod}`);
-            secondLastMove = lastMove;
-            lastMove = preferredMove;
-            continue;
-          }
-        }
-      }
-    }
-    
-    const face = getRandomElement(availableMoves);
-    
-    // Slight bias toward inverse and double moves
-    // which tend to create more difficult recognition cases,
-    // but keeping it balanced enough to be WCA-compliant
-    let modifier;
-    const r = Math.random();
-    if (r < 0.33) {
-      modifier = '';
-    } else if (r < 0.66) {
-      modifier = '\'';
-    } else {
-      modifier = '2';
-    }
-    
-    scramble.push(`${face}${modifier}`);
-    secondLastMove = lastMove;
-    lastMove = face;
-  }
-
-  return scramble.join(' ');
+  return generateRandomState3x3Scramble();
 }
 
 /**
  * Generate a 2x2 cube scramble
- * Format: WCA regulation-compliant with 9-11 random moves (optimized for challenge)
- * Note: 2x2 cubes are typically scrambled using only R, U, F moves as they are sufficient
- * to reach all states and B, D, L moves are redundant since they can be achieved by
- * rotating the cube and using R, U, F instead.
+ * Format: WCA-style random-state scramble using R, U and F moves.
+ * A uniformly random state is solved optimally and the inverted solution is used;
+ * states closer than the WCA minimum of 4 moves are rejected
  */
 function generate2x2Scramble(): string {
-  // For 2x2, we only use R, U, F moves which is the standard practice
-  const moves = ['R', 'U', 'F'];
-  // Standard modifiers with balanced distribution
-  const modifiers = ['', '\'', '2'];
-  const scramble: string[] = [];
-  let lastMove = '';
-  let secondLastMove = '';
-  
-  // WCA regulation for 2x2 is 9-11 moves
-  const moveCount = getRandomInt(9, 11);
-  
-  // For 2x2, prioritize certain move combinations that create more complex patterns
-  // These are typical move combinations in 2x2 algorithms that create harder states
-  const hardPatterns = [
-    ['R', 'U'], ['R', 'F'], ['U', 'F']
-  ];
-  
-  for (let i = 0; i < moveCount; i++) {
-    // Filter out moves on the same axis as the last move
-    let availableMoves = [...moves];
-    
-    if (lastMove) {
-      // Remove moves on the same axis for harder patterns
-      // For 2x2 we can use the same axis mapping as 3x3
-      availableMoves = availableMoves.filter(move => 
-        !sameAxis[lastMove] || !sameAxis[lastMove].includes(move)
-      );
-    }
-    
-    // Don't allow a move to return to the state before the last move
-    if (secondLastMove && lastMove) {
-      if (secondLastMove === availableMoves.find(m => m === secondLastMove)) {
-        availableMoves = availableMoves.filter(move => move !== secondLastMove);
-      }
-    }
-    
-    // Ensure we always have moves to choose from
-    if (availableMoves.length === 0) {
-      availableMoves = moves.filter(move => move !== lastMove);
-    }
-    
-    // Occasionally prefer harder patterns while remaining WCA-compliant
-    if (i > 0 && i % 3 === 0 && lastMove) {
-      const relevantPatterns = hardPatterns.filter(pattern => pattern.includes(lastMove));
-      if (relevantPatterns.length > 0) {
-        const randomPattern = getRandomElement(relevantPatterns);
-        const nextMove = randomPattern.find(move => move !== lastMove);
-        if (nextMove && availableMoves.includes(nextMove)) {
-          // 60% chance to use this harder pattern
-          if (Math.random() < 0.6) {
-            // Slightly favor double turns (2) which create harder states
-            const mod = Math.random() < 0.4 ? '2' : (Math.random() < 0.5 ? '\'' : '');
-            scramble.push(`${nextMove}${mod}`);
-            secondLastMove = lastMove;
-            lastMove = nextMove;
-            continue;
-          }
-        }
-      }
-    }
-    
-    const face = getRandomElement(availableMoves);
-    
-    // Use slightly weighted modifiers to favor harder states
-    // while maintaining WCA compliance
-    let modifier;
-    const r = Math.random();
-    if (r < 0.3) {
-      modifier = '';
-    } else if (r < 0.65) {
-      modifier = '\'';
-    } else {
-      modifier = '2';
-    }
-    
-    scramble.push(`${face}${modifier}`);
-    secondLastMove = lastMove;
-    lastMove = face;
-  }
-
-  return scramble.join(' ');
+  return generateRandomState2x2Scramble(MIN_2X2_DISTANCE);
 }
 
 /**
  * Generate a Pyraminx scramble
- * Format: WCA regulation-compliant with 8-10 random moves (optimized for challenge) with up to 4 tip moves
+ * Format: WCA-style random-state scramble. A uniformly random state is solved
+ * optimally and the inverted solution is used (at least 6 moves, tips excluded);
+ * each tip is then randomized independently
  */
 function generatePyraminxScramble(): string {
-  const regularMoves = ['R', 'L', 'U', 'B'];
-  const tipMoves = ['r', 'l', 'u', 'b'];
-  // Balanced modifiers to ensure proper randomization
-  const modifiers = ['', '\''];
-  const scramble: string[] = [];
-  let lastMove = '';
-  let secondLastMove = '';
-  
-  // Use WCA regulation move count (8-10)
-  const moveCount = getRandomInt(8, 10);
+  return generateRandomStatePyraminxScramble(MIN_PYRAMINX_DISTANCE);
+}
+
+/**
+ * Generate a Skewb scramble
+ * Format: WCA-style random-state scramble using R, U, L and B.
+ * A uniformly random state is solved optimally and the inverted solution is used;
+ * states closer than the WCA minimum of 7 moves are rejected
+ */
+function generateSkewbScramble(): string {
+  return generateRandomStateSkewbScramble(MIN_SKEWB_DISTANCE);
+}
+
+/**
+ * Generate a Clock scramble
+ * Format: WCA notation (2019+): UR DR DL UL U R D L ALL, y2, U R D L ALL,
+ * each turning the dials by -5 to +6 hours, followed by the pins left up.
+ * The 14 amounts act as an invertible map on the 14 dials, so uniform
+ * amounts give a uniformly random state
+ */
+function generateClockScramble(): string {
+  const frontMoves = ['UR', 'DR', 'DL', 'UL', 'U', 'R', 'D', 'L', 'ALL'];
+  const backMoves = ['U', 'R', 'D', 'L', 'ALL'];
   
-  // Anti-rotation mapping to avoid cancellation patterns
-  const antiRotation: Record<string, string> = {
-    'R': 'L', 'L': 'R',
-    'U': 'B', 'B': 'U'
+  // Amounts are written as hours plus direction, e.g. 5+ or 3-
+  const turn = (move: string): string => {
+    const amount = getRandomInt(-5, 6);
+    return `${move}${Math.abs(amount)}${amount < 0 ? '-' : '+'}`;
   };
   
-  // Hard patterns that remain WCA compliant
-  const hardPatterns = [
-    ['R', 'L'], // Adjacent faces create challenging states
-    ['U', 'B'],
-    ['R', 'U'],
-    ['L', 'B']
-  ];
+  const scramble = [...frontMoves.map(turn), 'y2', ...backMoves.map(turn)];
   
-  for (let i = 0; i < moveCount; i++) {
-    // Generate a hard pattern occasionally
-    if (i % 3 === 0 && i+1 < moveCount) {
-      const pattern = getRandomElement(hardPatterns);
-      
-      // Check if we can apply this pattern without immediate redundancy
-      if (pattern[0] !== lastMove) {
-        // Apply the pattern with random modifiers
-        for (let j = 0; j < pattern.length; j++) {
-          const mod = getRandomElement(modifiers);
-          scramble.push(`${pattern[j]}${mod}`);
-        }
-        
-        // Update move tracking
-        secondLastMove = pattern[pattern.length - 2];
-        lastMove = pattern[pattern.length - 1];
-        
-        // Skip ahead in the loop
-        i += pattern.length - 1;
-        continue;
-      }
-    }
-    
-    // Standard move selection with anti-patterns
-    let availableMoves = [...regularMoves];
-    
-    // Avoid the same move twice in a row
-    availableMoves = availableMoves.filter(move => move !== lastMove);
-    
-    // Avoid creating cancellation patterns
-    if (secondLastMove && lastMove && secondLastMove === antiRotation[lastMove]) {
-      availableMoves = availableMoves.filter(move => move !== secondLastMove);
-    }
-    
-    // Ensure we have moves to choose from
-    if (availableMoves.length === 0) {
-      availableMoves = regularMoves.filter(move => move !== lastMove);
+  // Every pin independently ends up or down
+  const pinsUp = ['UR', 'DR', 'DL', 'UL'].filter(() => Math.random() < 0.5);
+
+  return [...scramble, ...pinsUp].join(' ');
+}
+
+/**
+ * Standard scramble lengths for the big cubes
+ */
+const bigCubeLengths: Record<number, number> = { 4: 40, 5: 60, 6: 80, 7: 100 };
+
+/**
+ * Every turn a big cube scramble may use, as face and number of layers.
+ * Wide turns go up to half the cube; on even cubes the half-cube turn is only
+ * used on U, R and F, since its opposite is the same turn plus a rotation
+ */
+function getBigCubeTurns(size: number): { face: string; layers: number }[] {
+  const turns: { face: string; layers: number }[] = [];
+  for (let layers = 1; layers <= Math.floor(size / 2); layers++) {
+    for (const face of ['U', 'R', 'F', 'D', 'L', 'B']) {
+      if (size % 2 === 0 && layers === size / 2 && !['U', 'R', 'F'].includes(face)) continue;
+      turns.push({ face, layers });
     }
-    
-    const move = getRandomElement(availableMoves);
-    // Slightly higher chance of inverse moves (which tend to create more difficult positions)
-    const modifier = Math.random() < 0.6 ? '\'' : '';
-    
-    scramble.push(`${move}${modifier}`);
-    secondLastMove = lastMove;
-    lastMove = move;
   }
-  
-  // Add tips as per WCA (0-4 tips)
-  // Each tip can only appear once
-  const usedTips = new Set<string>();
-  // Tips create easier states, so use fewer (0-2) for more challenge while remaining WCA compliant
-  const tipCount = getRandomInt(0, 2);
-  
-  for (let i = 0; i < tipCount; i++) {
-    const availableTips = tipMoves.filter(tip => !usedTips.has(tip));
-    if (availableTips.length === 0) break;
-    
-    const tip = getRandomElement(availableTips);
-    const modifier = getRandomElement(modifiers);
-    
-    scramble.push(`${tip}${modifier}`);
-    usedTips.add(tip);
-  }
-
-  return scramble.join(' ');
+  return turns;
 }
 
 /**
- * Generate a Skewb scramble
- * Format: WCA regulation-compliant - exactly 9 random moves (optimized for challenge)
+ * Generate a big cube (4x4 to 7x7) scramble
+ * Format: WCA-style random moves with wide turns written as Rw (two layers)
+ * and 3Rw (three layers). Turns on the same axis commute, so within a run of
+ * same-axis turns no face and depth is used twice (they would cancel or merge)
+ * @param size Cube size
+ * @param length Number of moves (optional, defaults to the standard length for the size)
  */
-function generateSkewbScramble(): string {
-  // For Skewb, the standard notation uses R, U, L, B referring to the 4 corners
-  const corners = ['R', 'U', 'L', 'B'];
-  // Equal distribution of clockwise and counterclockwise moves
-  const modifiers = ['', '\''];
+function generateBigCubeScramble(size: number, length: number = bigCubeLengths[size]): string {
+  const turns = getBigCubeTurns(size);
+  const modifiers = ['', '\'', '2'];
   const scramble: string[] = [];
-  let lastCorner = '';
-  let secondLastCorner = '';
-  
-  // Skewb adjacency map - which corners are adjacent
-  const adjacentCorners: Record<string, string[]> = {
-    'R': ['U', 'L', 'B'],
-    'U': ['R', 'L', 'B'],
-    'L': ['R', 'U', 'B'],
-    'B': ['R', 'U', 'L']
-  };
-  
-  // WCA regulation is exactly 9 moves for Skewb
-  for (let i = 0; i < 9; i++) {
-    // Standard move selection logic
-    let availableCorners = [...corners];
-    
-    // Don't repeat the immediate last corner (avoid redundancy)
-    availableCorners = availableCorners.filter(corner => corner !== lastCorner);
-    
-    // For Skewb, prioritize adjacent corners for harder scrambles
-    // This creates states that are harder to recognize but still WCA-compliant
-    if (lastCorner && adjacentCorners[lastCorner]) {
-      // 70% chance to use an adjacent corner
-      if (Math.random() < 0.7) {
-        const adjacentOptions = adjacentCorners[lastCorner]
-          .filter(corner => corner !== secondLastCorner);
-        
-        if (adjacentOptions.length > 0) {
-          const corner = getRandomElement(adjacentOptions);
-          // Slightly increase chance of inverse moves for difficulty while remaining balanced
-          const modifier = Math.random() < 0.55 ? '\'' : '';
-          
-          scramble.push(`${corner}${modifier}`);
-          secondLastCorner = lastCorner;
-          lastCorner = corner;
-          continue;
-        }
-      }
+  let axisRun: { face: string; layers: number }[] = [];
+
+  while (scramble.length < length) {
+    const turn = getRandomElement(turns);
+    const onSameAxis = axisRun.length > 0 && sameAxis[axisRun[0].face].includes(turn.face);
+    if (onSameAxis && axisRun.some(used => used.face === turn.face && used.layers === turn.layers)) {
+      continue;
     }
-    
-    // Regular move if we didn't use the adjacency logic
-    const corner = getRandomElement(availableCorners);
-    // Slightly increase chance of inverse moves for difficulty while remaining balanced
-    const modifier = Math.random() < 0.55 ? '\'' : '';
-    
-    scramble.push(`${corner}${modifier}`);
-    secondLastCorner = lastCorner;
-    lastCorner = corner;
+
+    axisRun = onSameAxis ? [...axisRun, turn] : [turn];
+    const notation = turn.layers === 1 ? turn.face
+      : turn.layers === 2 ? `${turn.face}w`
+      : `${turn.layers}${turn.face}w`;
+    scramble.push(notation + getRandomElement(modifiers));
   }
 
   return scramble.join(' ');
 }
 
 /**
- * Generate a Clock scramble
- * Format: WCA regulation-compliant with optimized difficulty
+ * Number of lines in a Megaminx scramble, as in competition, and the most
+ * a custom scramble may ask for
  */
-function generateClockScramble(): string {
-  // WCA Clock notation:
-  // - Pin configuration using UR DR DL UL (u=up, d=down)
-  // - Clock positions using UL UR DR DL ALL for each side
-  
+const MEGAMINX_LINES = 7;
+const MAX_MEGAMINX_LINES = 12;
+
+/**
+ * Generate a Megaminx scramble
+ * Format: WCA-style Pochmann notation, one line per row of the scramble sheet.
+ * Each line is 10 alternating R and D moves of two fifths (++ or --) followed
+ * by U after D++ or U' after D--
+ * @param lines Number of lines (optional, defaults to 7)
+ */
+function generateMegaminxScramble(lines: number = MEGAMINX_LINES): string {
   const scramble: string[] = [];
-  
-  // Generate pin configurations (u=pin up, d=pin down)
-  // In official WCA, all pin configurations are equally likely
-  // We'll select more difficult (asymmetric) configurations while remaining compliant
-  const pins: Record<string, string> = {
-    'UR': getRandomElement(['u', 'd']),
-    'DR': getRandomElement(['u', 'd']),
-    'DL': getRandomElement(['u', 'd']),
-    'UL': getRandomElement(['u', 'd'])
-  };
-  
-  // Make sure at least two pins are down for added difficulty
-  // But ensure this remains random as per WCA regulations
-  let downPinCount = Object.values(pins).filter(p => p === 'd').length;
-  if (downPinCount < 2) {
-    // Pick a random pin to flip
-    const positions = ['UR', 'DR', 'DL', 'UL'];
-    const randomPosition = getRandomElement(positions.filter(pos => pins[pos] === 'u'));
-    pins[randomPosition] = 'd';
-  }
-  
-  scramble.push(`(${pins.UR},${pins.DR},${pins.DL},${pins.UL})`);
-  
-  // First set of moves - 5 positions
-  const positions = ['UL', 'UR', 'DR', 'DL', 'ALL'];
-  
-  // WCA regulations specify hours between 0-6 
-  // But actually allow values from 0-11 in the notation
-  for (const pos of positions) {
-    // Using the standard 0-6 range per WCA
-    const hour = getRandomInt(0, 6);
-    
-    // For clock, adding + makes it clearer this is a clockwise movement
-    scramble.push(`${pos}${hour >= 0 ? '+' : ''}${hour}`);
-  }
-  
-  // y2 turn
-  scramble.push('y2');
-  
-  // Second set of moves after y2
-  for (const pos of positions) {
-    // Using the standard 0-6 range per WCA
-    const hour = getRandomInt(0, 6);
-    
-    scramble.push(`${pos}${hour >= 0 ? '+' : ''}${hour}`);
+
+  for (let line = 0; line < lines; line++) {
+    const moves: string[] = [];
+    for (let i = 0; i < 10; i++) {
+      moves.push(`${i % 2 === 0 ? 'R' : 'D'}${getRandomElement(['++', '--'])}`);
+    }
+    moves.push(moves[moves.length - 1] === 'D++' ? 'U' : 'U\'');
+    scramble.push(moves.join(' '));
   }
 
-  return scramble.join(' ');
+  return scramble.join('\n');
+}
+
+/**
+ * Generate a Square-1 scramble
+ * Format: WCA notation, (x,y) turns of the top and bottom layers in twelfths
+ * separated by / slices. A uniformly random shape and arrangement of the
+ * pieces is solved and the inverted solution is used, so every slice is legal
+ */
+function generateSquareOneScramble(): string {
+  return generateRandomStateSquareOneScramble();
+}
+
+/**
+ * Generate a Fewest Moves scramble
+ * Format: WCA-style random-state 3x3 scramble padded with R' U' F at both ends.
+ * The scramble in between may not start with an F or B turn or end with an
+ * R or L turn, so none of it cancels or commutes into the padding
+ */
+function generateFmcScramble(): string {
+  for (;;) {
+    const moves = generateRandomState3x3Scramble().split(' ');
+    if (!'FB'.includes(moves[0][0]) && !'RL'.includes(moves[moves.length - 1][0])) {
+      return [FMC_SCRAMBLE_PADDING, ...moves, FMC_SCRAMBLE_PADDING].join(' ');
+    }
+  }
 }
 
 /**
  * Generate a 3x3 BLD (Blindfolded) scramble
- * Format: 20 moves, same rules as 3x3
+ * Format: random-state, same rules as 3x3
  */
 function generate3x3BLDScramble(): string {
-  // BLD uses the same scramble format as 3x3, but we'll make it 20 moves
-  // to match standard 3x3 competition scrambles
+  // BLD uses the same random-state scrambler as 3x3
   return generate3x3Scramble();
 }
 
@@ -509,7 +288,10 @@ function generateCustom3x3Scramble(moves: number = 20, difficulty: string = 'med
       lastAxis = face;
     }
     
-    const modifier = getRandomElement(modifiers);
+    // Slice moves have no wide form
+    const modifier = ['M', 'E', 'S'].includes(face)
+      ? getRandomElement(modifiers.filter(mod => !mod.includes('w')))
+      : getRandomElement(modifiers);
     scramble.push(face + modifier);
   }
   
@@ -518,44 +300,28 @@ function generateCustom3x3Scramble(moves: number = 20, difficulty: string = 'med
 
 /**
  * Generate a custom 2x2 cube scramble with specified parameters
- * @param moves Number of moves (optional)
+ * The scramble is random-state; the parameters choose the optimal solution length
+ * @param moves Exact optimal solution length (optional, clamped to 4-11)
  * @param difficulty Difficulty level (optional)
  */
-function generateCustom2x2Scramble(moves: number = 10, difficulty: string = 'medium'): string {
-  // For 2x2, we only use RUF moves by convention
-  const faces = ['R', 'U', 'F'];
-  let modifiers: string[];
-  
-  // Adjust moves based on difficulty
-  if (difficulty === 'easy') {
-    moves = Math.min(moves, 8);
-    modifiers = ['', '\''];
-  } else if (difficulty === 'hard') {
-    moves = Math.max(moves, 11);
-    modifiers = ['', '\'', '2'];
-  } else {
-    // Medium difficulty
-    moves = Math.min(Math.max(moves, 9), 11);
-    modifiers = ['', '\'', '2'];
+function generateCustom2x2Scramble(moves?: number, difficulty: string = 'medium'): string {
+  if (moves) {
+    const distance = Math.min(Math.max(moves, MIN_2X2_DISTANCE), MAX_2X2_DISTANCE);
+    return generateRandomState2x2Scramble(distance, distance);
   }
   
-  const scramble: string[] = [];
-  let lastFace = '';
-  
-  for (let i = 0; i < moves; i++) {
-    let face;
-    
-    // Avoid repeating the same face
-    do {
-      face = getRandomElement(faces);
-    } while (face === lastFace);
-    
-    lastFace = face;
-    const modifier = getRandomElement(modifiers);
-    scramble.push(face + modifier);
+  switch (difficulty) {
+    case 'easy':
+      // States that can be solved in a few moves
+      return generateRandomState2x2Scramble(MIN_2X2_DISTANCE, 7);
+    case 'hard':
+      // The rarest and longest states
+      return generateRandomState2x2Scramble(10, MAX_2X2_DISTANCE);
+    case 'medium':
+    default:
+      // The most common distances, as in competition
+      return generateRandomState2x2Scramble(8, 9);
   }
-  
-  return scramble.join(' ');
 }
 
 /**
@@ -567,7 +333,7 @@ function generateCustom2x2Scramble(moves: number = 10, difficulty: string = 'med
 export function generateCustomScramble(cubeType: CubeType, moves?: number, difficulty: string = 'medium'): string {
   switch (cubeType) {
     case cubeTypes.TWO:
-      return generateCustom2x2Scramble(moves || 10, difficulty);
+      return generateCustom2x2Scramble(moves, difficulty);
     case cubeTypes.THREE:
       return generateCustom3x3Scramble(moves || 20, difficulty);
     case cubeTypes.THREE_BLD:
@@ -581,6 +347,21 @@ export function generateCustomScramble(cubeType: CubeType, moves?: number, diffi
       return generateSkewbScramble();
     case cubeTypes.CLOCK:
       return generateClockScramble();
+    case cubeTypes.FOUR:
+      return generateBigCubeScramble(4, moves);
+    case cubeTypes.FIVE:
+      return generateBigCubeScramble(5, moves);
+    case cubeTypes.SIX:
+      return generateBigCubeScramble(6, moves);
+    case cubeTypes.SEVEN:
+      return generateBigCubeScramble(7, moves);
+    case cubeTypes.MEGAMINX:
+      // The moves parameter is the number of lines
+      return generateMegaminxScramble(moves ? Math.min(moves, MAX_MEGAMINX_LINES) : MEGAMINX_LINES);
+    case cubeTypes.SQUARE_ONE:
+      return generateSquareOneScramble();
+    case cubeTypes.FMC:
+      return generateFmcScramble();
     default:
       return generateCustom3x3Scramble(moves || 20, difficulty);
   }
@@ -605,6 +386,20 @@ export function generateScramble(cubeType: CubeType): string {
       return generate3x3BLDScramble();
     case cubeTypes.THREE_OH:
       return generate3x3OHScramble();
+    case cubeTypes.FOUR:
+      return generateBigCubeScramble(4);
+    case cubeTypes.FIVE:
+      return generateBigCubeScramble(5);
+    case cubeTypes.SIX:
+      return generateBigCubeScramble(6);
+    case cubeTypes.SEVEN:
+      return generateBigCubeScramble(7);
+    case cubeTypes.MEGAMINX:
+      return generateMegaminxScramble();
+    case cubeTypes.SQUARE_ONE:
+      return generateSquareOneScramble();
+    case cubeTypes.FMC:
+      return generateFmcScramble();
     default:
       return generate3x3Scramble(); // Default to 3x3
   }
@@ -0,0 +1,473 @@
+/**
+ * Scramble preview diagrams in the style of the WCA scramble sheets:
+ * an unfolded net for cubes and the Skewb, the four faces of the Pyraminx
+ * laid out as one big triangle, the two halves of the Megaminx as flowers,
+ * the top and bottom of the Square-1 and both sides of the Clock.
+ * Diagrams are plain SVG strings so they work in the browser and on the server.
+ */
+import { CubeType, cubeTypes } from './schema';
+import { CubeState, cubeFaces } from './cubeModel';
+import {
+  PuzzleModel, applyScramble, getCubeModel, pyraminxModel, skewbModel, clockModel, megaminxModel, squareOneModel,
+  PyraminxPuzzleState, ClockState
+} from './puzzleModels';
+import { getPyraminxCornerColours, getPyraminxEdgeColour } from './pyraminxSolver';
+import { SkewbState, getSkewbCornerColour, getSkewbCenterColour } from './skewbSolver';
+import { MegaminxState, megaminxFaces, getMegaminxFaceVertices, MEGAMINX_FACE_SIZE } from './megaminxModel';
+import { SquareOneState, createSolvedSquareOne } from './squareOneSolver';
+
+type Point = [number, number];
+
+/**
+ * WCA default colour scheme for cubes and the Skewb
+ */
+const cubeColours: Record<string, string> = {
+  U: '#FFFFFF', R: '#E53935', F: '#43A047',
+  D: '#FDD835', L: '#FB8C00', B: '#1E88E5'
+};
+
+/**
+ * WCA default colour scheme for the Pyraminx, by face
+ */
+const pyraminxColours: Record<string, string> = {
+  F: '#43A047', L: '#E53935', R: '#1E88E5', D: '#FDD835'
+};
+
+/**
+ * WCA default colour scheme for the Megaminx
+ */
+const megaminxColours: Record<string, string> = {
+  U: '#FFFFFF', F: '#006600', L: '#8A1AFF', BL: '#FFCC00', BR: '#0000B3', R: '#DD0000',
+  D: '#999999', B: '#71E600', DBR: '#FF99FF', DR: '#FFFFB3', DL: '#88DDFF', DBL: '#FF8433'
+};
+
+/**
+ * WCA default colour scheme for the Square-1
+ */
+const squareOneColours: Record<string, string> = {
+  U: '#FDD835', R: '#43A047', F: '#E53935',
+  D: '#FFFFFF', L: '#1E88E5', B: '#FB8C00'
+};
+
+/**
+ * Side faces of the Square-1 clockwise from the top of the diagram, for the
+ * top seen from above (back at the top) and the bottom seen from below
+ * (front at the top)
+ */
+const squareOneSides = {
+  top: ['B', 'R', 'F', 'L'],
+  bottom: ['F', 'R', 'B', 'L']
+};
+
+/**
+ * Position of each face in the cube net, in face units
+ */
+const netLayout: Record<string, Point> = {
+  U: [1, 0], L: [0, 1], F: [1, 1], R: [2, 1], B: [3, 1], D: [1, 2]
+};
+
+/**
+ * Skewb corner positions at the top-left, top-right, bottom-left and
+ * bottom-right of each face as drawn in the net
+ * (URF = 0, UFL = 1, ULB = 2, UBR = 3, DFR = 4, DLF = 5, DBL = 6, DRB = 7)
+ */
+const skewbFaceCorners: Record<string, number[]> = {
+  U: [2, 3, 1, 0],
+  R: [0, 3, 4, 7],
+  F: [1, 0, 5, 4],
+  D: [5, 4, 6, 7],
+  L: [2, 1, 6, 5],
+  B: [3, 2, 7, 6]
+};
+
+/**
+ * Corners of each Pyraminx face, as vertex names with their position in the
+ * diagram (unit side length, the F face pointing up in the middle)
+ */
+const pyraminxFaceVertices: Record<string, [string, Point][]> = {
+  F: [['U', [1, 0]], ['L', [0.5, 1]], ['R', [1.5, 1]]],
+  L: [['B', [0, 0]], ['U', [1, 0]], ['L', [0.5, 1]]],
+  R: [['U', [1, 0]], ['B', [2, 0]], ['R', [1.5, 1]]],
+  D: [['L', [0.5, 1]], ['R', [1.5, 1]], ['B', [1, 2]]]
+};
+
+const FACE_SIZE = 90;
+const GAP = 6;
+const STROKE = '#222222';
+
+function formatPoints(points: Point[]): string {
+  return points.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+}
+
+function polygon(points: Point[], fill: string): string {
+  return `<polygon points="${formatPoints(points)}" fill="${fill}" stroke="${STROKE}" stroke-width="1.5" stroke-linejoin="round"/>`;
+}
+
+function svgDocument(width: number, height: number, body: string[]): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<rect width="${width}" height="${height}" fill="#2B2D31"/>`
+    + body.join('')
+    + '</svg>';
+}
+
+function lerp(a: Point, b: Point, t: number): Point {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+}
+
+/**
+ * Top-left corner of a face in the net
+ */
+function netOrigin(face: string): Point {
+  const [col, row] = netLayout[face];
+  return [GAP + col * (FACE_SIZE + GAP), GAP + row * (FACE_SIZE + GAP)];
+}
+
+function netSize(): [number, number] {
+  return [4 * FACE_SIZE + 5 * GAP, 3 * FACE_SIZE + 4 * GAP];
+}
+
+/**
+ * Render an NxN cube as an unfolded net
+ */
+export function renderCubeSvg(state: CubeState): string {
+  const { size, facelets } = state;
+  const sticker = FACE_SIZE / size;
+  const body: string[] = [];
+
+  cubeFaces.forEach((face, f) => {
+    const [x0, y0] = netOrigin(face);
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const x = x0 + col * sticker;
+        const y = y0 + row * sticker;
+        const colour = cubeColours[facelets[(f * size + row) * size + col]];
+        body.push(polygon([[x, y], [x + sticker, y], [x + sticker, y + sticker], [x, y + sticker]], colour));
+      }
+    }
+  });
+
+  const [width, height] = netSize();
+  return svgDocument(width, height, body);
+}
+
+/**
+ * Render a Skewb as an unfolded net: a corner triangle in each corner
+ * of every face around a diamond-shaped center
+ */
+export function renderSkewbSvg(state: SkewbState): string {
+  const body: string[] = [];
+
+  cubeFaces.forEach(face => {
+    const [x0, y0] = netOrigin(face);
+    const corners: Point[] = [[x0, y0], [x0 + FACE_SIZE, y0], [x0, y0 + FACE_SIZE], [x0 + FACE_SIZE, y0 + FACE_SIZE]];
+    const top = lerp(corners[0], corners[1], 0.5);
+    const bottom = lerp(corners[2], corners[3], 0.5);
+    const left = lerp(corners[0], corners[2], 0.5);
+    const right = lerp(corners[1], corners[3], 0.5);
+    const triangles: Point[][] = [
+      [corners[0], top, left],
+      [corners[1], right, top],
+      [corners[2], left, bottom],
+      [corners[3], bottom, right]
+    ];
+
+    triangles.forEach((points, i) => {
+      body.push(polygon(points, cubeColours[getSkewbCornerColour(state, skewbFaceCorners[face][i], face)]));
+    });
+    body.push(polygon([top, right, bottom, left], cubeColours[getSkewbCenterColour(state, face)]));
+  });
+
+  const [width, height] = netSize();
+  return svgDocument(width, height, body);
+}
+
+/**
+ * Render a Pyraminx as its four faces unfolded around the front face
+ */
+export function renderPyraminxSvg(state: PyraminxPuzzleState): string {
+  const side = 2 * FACE_SIZE;
+  const height = side * Math.sqrt(3) / 2;
+  const body: string[] = [];
+
+  for (const [face, corners] of Object.entries(pyraminxFaceVertices)) {
+    const scaled = corners.map(([, [x, y]]): Point => [GAP * 2 + x * side, GAP * 2 + y * height]);
+    const centre: Point = [
+      (scaled[0][0] + scaled[1][0] + scaled[2][0]) / 3,
+      (scaled[0][1] + scaled[1][1] + scaled[2][1]) / 3
+    ];
+    // Pull the faces apart slightly so the gaps between them show
+    const points = scaled.map(point => lerp(centre, point, 0.94));
+
+    points.forEach((point, i) => {
+      const vertex = corners[i][0];
+      const next = points[(i + 1) % 3];
+      const previous = points[(i + 2) % 3];
+      const towardsNext = lerp(point, next, 1 / 3);
+      const towardsPrevious = lerp(point, previous, 1 / 3);
+      const colours = getPyraminxCornerColours(state.puzzle, state.tips, vertex, face);
+
+      body.push(polygon([point, towardsNext, towardsPrevious], pyraminxColours[colours.tip]));
+      body.push(polygon([towardsNext, towardsPrevious, centre], pyraminxColours[colours.axial]));
+
+      const edgeColour = getPyraminxEdgeColour(state.puzzle, vertex, corners[(i + 1) % 3][0], face);
+      body.push(polygon([towardsNext, lerp(point, next, 2 / 3), centre], pyraminxColours[edgeColour]));
+    });
+  }
+
+  return svgDocument(Math.ceil(side * 2 + GAP * 4), Math.ceil(height * 2 + GAP * 4), body);
+}
+
+/**
+ * Rotate a point about a centre, clockwise on screen
+ */
+function rotatePoint(centre: Point, point: Point, angle: number): Point {
+  const dx = point[0] - centre[0];
+  const dy = point[1] - centre[1];
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [centre[0] + dx * cos - dy * sin, centre[1] + dx * sin + dy * cos];
+}
+
+function pentagonCentre(corners: Point[]): Point {
+  return [
+    corners.reduce((sum, p) => sum + p[0], 0) / corners.length,
+    corners.reduce((sum, p) => sum + p[1], 0) / corners.length
+  ];
+}
+
+/**
+ * Lay out a regular pentagon from two of its consecutive vertices,
+ * on the side of the edge away from the given point
+ */
+function unfoldPentagon(first: Point, second: Point, awayFrom: Point): Point[] {
+  const mid = lerp(first, second, 0.5);
+  const side = Math.hypot(second[0] - first[0], second[1] - first[1]);
+  const apothem = side / (2 * Math.tan(Math.PI / 5));
+  const normal: Point = [(first[1] - second[1]) / side, (second[0] - first[0]) / side];
+  const candidates: Point[] = [
+    [mid[0] + normal[0] * apothem, mid[1] + normal[1] * apothem],
+    [mid[0] - normal[0] * apothem, mid[1] - normal[1] * apothem]
+  ];
+  const distance = (p: Point) => Math.hypot(p[0] - awayFrom[0], p[1] - awayFrom[1]);
+  const centre = distance(candidates[0]) > distance(candidates[1]) ? candidates[0] : candidates[1];
+
+  // Turn the same way as from the first vertex to the second
+  const step = 2 * Math.PI / 5;
+  const turned = rotatePoint(centre, first, step);
+  const direction = Math.hypot(turned[0] - second[0], turned[1] - second[1]) < 1e-6 ? 1 : -1;
+  return [0, 1, 2, 3, 4].map(i => rotatePoint(centre, first, direction * i * step));
+}
+
+/**
+ * Lay out a face and the five faces around it, as in the WCA scramble sheets
+ * @param centre Face in the middle of the flower
+ * @param first Neighbour whose shared edge is drawn at the bottom
+ * @returns Corner positions of every face, in the face's vertex order
+ */
+function layoutMegaminxFlower(centre: number, first: number, origin: Point, side: number): Map<number, Point[]> {
+  const faceVertices = getMegaminxFaceVertices();
+  const layout = new Map<number, Point[]>();
+  const shared = (a: number, b: number) => faceVertices[a].filter(v => faceVertices[b].includes(v));
+
+  // Vertices counter-clockwise from the outside stay counter-clockwise on
+  // screen, so the edge shared with the first neighbour runs left to right
+  // along the bottom
+  const middle = faceVertices[centre];
+  const edge = shared(centre, first);
+  const bottomLeft = (middle.indexOf(edge[0]) + 1) % 5 === middle.indexOf(edge[1]) ? edge[0] : edge[1];
+  const points = unfoldPentagon(
+    [origin[0] - side / 2, origin[1]], [origin[0] + side / 2, origin[1]], [origin[0], origin[1] + side]
+  );
+  const offset = middle.indexOf(bottomLeft);
+  const centrePoints = middle.map((_, i) => points[(i - offset + 5) % 5]);
+  layout.set(centre, centrePoints);
+
+  faceVertices.forEach((vertices, face) => {
+    const common = shared(centre, face);
+    if (face === centre || common.length !== 2) return;
+    // Walk the neighbour's vertices starting on the shared edge, in its own order
+    const from = (vertices.indexOf(common[0]) + 1) % 5 === vertices.indexOf(common[1]) ? common[0] : common[1];
+    const to = from === common[0] ? common[1] : common[0];
+    const position = (vertex: number) => centrePoints[middle.indexOf(vertex)];
+    const unfolded = unfoldPentagon(position(from), position(to), pentagonCentre(centrePoints));
+    const startIndex = vertices.indexOf(from);
+    layout.set(face, vertices.map((_, i) => unfolded[(i - startIndex + 5) % 5]));
+  });
+
+  return layout;
+}
+
+/**
+ * Render a Megaminx as two flowers: U with the faces around it, and D with the
+ * faces around it
+ */
+export function renderMegaminxSvg(state: MegaminxState): string {
+  const side = FACE_SIZE * 0.55;
+  const flowerWidth = side * 4.6;
+  const height = Math.ceil(flowerWidth + GAP * 2);
+  const body: string[] = [];
+  const upper = layoutMegaminxFlower(
+    megaminxFaces.indexOf('U'), megaminxFaces.indexOf('F'), [GAP + flowerWidth / 2, height * 0.62], side
+  );
+  const lower = layoutMegaminxFlower(
+    megaminxFaces.indexOf('D'), megaminxFaces.indexOf('B'), [GAP * 3 + flowerWidth * 1.5, height * 0.62], side
+  );
+
+  for (const layout of [upper, lower]) {
+    layout.forEach((corners, face) => {
+      const colour = (sticker: number) => megaminxColours[state.facelets[face * MEGAMINX_FACE_SIZE + sticker]];
+      const centre = pentagonCentre(corners);
+      const inner = corners.map(corner => lerp(centre, corner, 0.5));
+      corners.forEach((corner, i) => {
+        const next = corners[(i + 1) % 5];
+        const previous = corners[(i + 4) % 5];
+        body.push(polygon([corner, lerp(corner, next, 0.36), inner[i], lerp(corner, previous, 0.36)], colour(1 + i)));
+        body.push(polygon([lerp(corner, next, 0.36), lerp(next, corner, 0.36), inner[(i + 1) % 5], inner[i]], colour(6 + i)));
+      });
+      body.push(polygon(inner, colour(0)));
+    });
+  }
+
+  return svgDocument(Math.ceil(flowerWidth * 2 + GAP * 4), height, body);
+}
+
+/**
+ * Angle of the start of every slot, clockwise from the top of the diagram.
+ * The slice runs 15 degrees off vertical: the top is seen from above and the
+ * bottom from below, both with the right half of the puzzle on the right.
+ */
+function squareOneSlotAngle(layer: 'top' | 'bottom', slot: number): number {
+  return (layer === 'top' ? 15 : -15) + slot * 30;
+}
+
+/**
+ * Side colours of every Square-1 piece, taken from where it sits when solved:
+ * one for an edge, the first and second half of a corner in slot order
+ */
+function getSquareOneSideColours(): Map<number, string[]> {
+  const solved = createSolvedSquareOne();
+  const colours = new Map<number, string[]>();
+  for (const layer of ['top', 'bottom'] as const) {
+    solved[layer].forEach((piece, slot) => {
+      const centre = squareOneSlotAngle(layer, slot) + 15;
+      const side = squareOneSides[layer][((Math.round(centre / 90) % 4) + 4) % 4];
+      colours.set(piece, [...(colours.get(piece) ?? []), side]);
+    });
+  }
+  return colours;
+}
+
+/**
+ * Render a Square-1 as its top and bottom layers side by side, with the
+ * middle layer below them. Every piece shows its top or bottom colour inside
+ * and its side colours around the outside.
+ */
+export function renderSquareOneSvg(state: SquareOneState): string {
+  const half = FACE_SIZE * 0.75;
+  const band = 1.3;
+  const size = half * 2 * Math.SQRT2 * band;
+  const sideColours = getSquareOneSideColours();
+  const body: string[] = [];
+
+  (['top', 'bottom'] as const).forEach((layer, l) => {
+    const centre: Point = [GAP * 2 + size / 2 + l * (size + GAP * 2), GAP * 2 + size / 2];
+    const at = (angle: number, radius: number): Point => [
+      centre[0] + Math.sin(angle * Math.PI / 180) * radius,
+      centre[1] - Math.cos(angle * Math.PI / 180) * radius
+    ];
+    const pieces = state[layer];
+
+    for (let slot = 0; slot < 12; slot++) {
+      const piece = pieces[slot];
+      if (piece === pieces[(slot + 11) % 12]) continue;
+      const start = squareOneSlotAngle(layer, slot);
+      // Corners 0-3 and edges 8-11 start on top
+      const face = squareOneColours[piece % 8 < 4 ? 'U' : 'D'];
+      const [first, second] = sideColours.get(piece)!.map(side => squareOneColours[side]);
+      const edgeRadius = half / Math.cos(Math.PI / 12);
+
+      if (piece >= 8) {
+        const outline = [at(start, edgeRadius), at(start + 30, edgeRadius)];
+        body.push(polygon([centre, ...outline.map(point => lerp(centre, point, band))], first));
+        body.push(polygon([centre, ...outline], face));
+      } else {
+        const outline = [at(start, edgeRadius), at(start + 30, half * Math.SQRT2), at(start + 60, edgeRadius)];
+        const outer = outline.map(point => lerp(centre, point, band));
+        body.push(polygon([centre, outer[0], outer[1]], first));
+        body.push(polygon([centre, outer[1], outer[2]], second));
+        body.push(polygon([centre, ...outline], face));
+      }
+    }
+  });
+
+  // Middle layer seen from the front: the right half shows the back once flipped
+  const barWidth = size * 0.8;
+  const barHeight = FACE_SIZE * 0.3;
+  const x = (size * 2 + GAP * 6 - barWidth) / 2;
+  const y = GAP * 3 + size;
+  const leftWidth = barWidth * 0.4;
+  body.push(polygon([[x, y], [x + leftWidth, y], [x + leftWidth, y + barHeight], [x, y + barHeight]], squareOneColours.F));
+  body.push(polygon(
+    [[x + leftWidth, y], [x + barWidth, y], [x + barWidth, y + barHeight], [x + leftWidth, y + barHeight]],
+    squareOneColours[state.middle ? 'B' : 'F']
+  ));
+
+  return svgDocument(Math.ceil(size * 2 + GAP * 6), Math.ceil(y + barHeight + GAP * 2), body);
+}
+
+/**
+ * Render both sides of a Clock, front on the left and back on the right,
+ * each dial with a hand pointing at its hour
+ */
+export function renderClockSvg(state: ClockState): string {
+  const faceSize = 3 * FACE_SIZE / 2;
+  const dialRadius = faceSize / 8;
+  const sides = [
+    { offset: 0, face: '#1F4E79', dial: '#DCEBFA', hand: '#C0392B' },
+    { offset: 9, face: '#DCEBFA', dial: '#1F4E79', hand: '#F1C40F' }
+  ];
+  const body: string[] = [];
+
+  sides.forEach((side, s) => {
+    const cx = GAP * 2 + faceSize / 2 + s * (faceSize + GAP * 2);
+    const cy = GAP * 2 + faceSize / 2;
+    body.push(`<circle cx="${cx}" cy="${cy}" r="${faceSize / 2}" fill="${side.face}" stroke="${STROKE}" stroke-width="2"/>`);
+
+    for (let i = 0; i < 9; i++) {
+      const x = cx + ((i % 3) - 1) * faceSize * 0.3;
+      const y = cy + (Math.floor(i / 3) - 1) * faceSize * 0.3;
+      const angle = state.dials[side.offset + i] * Math.PI / 6;
+      const handX = x + Math.sin(angle) * dialRadius * 0.85;
+      const handY = y - Math.cos(angle) * dialRadius * 0.85;
+      body.push(`<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${dialRadius.toFixed(1)}" fill="${side.dial}" stroke="${STROKE}" stroke-width="1.5"/>`);
+      body.push(`<line x1="${x.toFixed(1)}" y1="${y.toFixed(1)}" x2="${handX.toFixed(1)}" y2="${handY.toFixed(1)}" stroke="${side.hand}" stroke-width="3" stroke-linecap="round"/>`);
+    }
+  });
+
+  return svgDocument(Math.ceil(faceSize * 2 + GAP * 6), Math.ceil(faceSize + GAP * 4), body);
+}
+
+function scrambleSolved<State>(model: PuzzleModel<State>, scramble: string): State {
+  return applyScramble(model, model.createSolved(), scramble);
+}
+
+/**
+ * Render the state a scramble leaves the puzzle in
+ * @throws Error if the scramble contains illegal moves
+ */
+export function renderScrambleSvg(cubeType: CubeType, scramble: string): string {
+  switch (cubeType) {
+    case cubeTypes.PYRAMINX:
+      return renderPyraminxSvg(scrambleSolved(pyraminxModel, scramble));
+    case cubeTypes.SKEWB:
+      return renderSkewbSvg(scrambleSolved(skewbModel, scramble));
+    case cubeTypes.CLOCK:
+      return renderClockSvg(scrambleSolved(clockModel, scramble));
+    case cubeTypes.MEGAMINX:
+      return renderMegaminxSvg(scrambleSolved(megaminxModel, scramble));
+    case cubeTypes.SQUARE_ONE:
+      return renderSquareOneSvg(scrambleSolved(squareOneModel, scramble));
+    default:
+      return renderCubeSvg(scrambleSolved(getCubeModel(cubeType), scramble));
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Weekly and monthly seasons: members earn points for their placement in
+ * each daily challenge thread, and the points add up across the week's or
+ * month's events into season standings.
+ */
+import { getLocalDay } from './timeZones';
+
+/**
+ * How long a season runs
+ */
+export type SeasonPeriod = 'week' | 'month';
+
+export const SEASON_PERIODS: SeasonPeriod[] = ['week', 'month'];
+
+/**
+ * Points for 1st, 2nd, 3rd… place in a daily thread; places past the end of
+ * the table score nothing
+ */
+export const DEFAULT_SEASON_POINTS = [10, 8, 6, 5, 4, 3, 2, 1];
+
+export const MAX_SEASON_POINTS_PLACES = 25;
+
+/**
+ * A member's finishing place in one daily thread
+ */
+export interface ThreadPlacement {
+  userId: string;
+  username: string;
+  /** 1 for the best result; equal results share a place */
+  place: number;
+  points: number;
+}
+
+/**
+ * A member's place in a season
+ */
+export interface SeasonStanding {
+  rank: number;
+  userId: string;
+  username: string;
+  points: number;
+  /** Daily threads the member finished a result in */
+  threads: number;
+  wins: number;
+  podiums: number;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+/**
+ * ISO week key of a day given as midnight UTC, e.g. "2026-W42"
+ * Weeks start on Monday and belong to the year their Thursday falls in.
+ */
+function getIsoWeekKey(day: Date): string {
+  const thursday = new Date(day);
+  thursday.setUTCDate(day.getUTCDate() + 3 - ((day.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - yearStart) / 86400000 / 7) + 1;
+  return `${thursday.getUTCFullYear()}-W${week.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Key of the season a moment falls in: "2026-W42" for a week, "2026-10" for a month
+ * @param date The moment
+ * @param period The season length
+ * @param timeZone The guild's time zone, where seasons start at midnight
+ */
+export function getSeasonKey(date: Date, period: SeasonPeriod, timeZone: string): string {
+  const day = getLocalDay(date, timeZone);
+  if (period === 'week') return getIsoWeekKey(day);
+  return `${day.getUTCFullYear()}-${(day.getUTCMonth() + 1).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Key of the season before the one a moment falls in
+ */
+export function getPreviousSeasonKey(date: Date, period: SeasonPeriod, timeZone: string): string {
+  const day = getLocalDay(date, timeZone);
+  if (period === 'week') {
+    day.setUTCDate(day.getUTCDate() - 7);
+    return getIsoWeekKey(day);
+  }
+  const previous = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() - 1, 1));
+  return `${previous.getUTCFullYear()}-${(previous.getUTCMonth() + 1).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Whether a season key is written the way its period's keys are
+ */
+export function isSeasonKey(key: string, period: SeasonPeriod): boolean {
+  return period === 'week' ? /^\d{4}-W(0[1-9]|[1-4]\d|5[0-3])$/.test(key) : /^\d{4}-(0[1-9]|1[0-2])$/.test(key);
+}
+
+/**
+ * Readable name of a season: "Week 42, 2026" or "October 2026"
+ */
+export function formatSeasonName(key: string, period: SeasonPeriod): string {
+  const [year, rest] = key.split('-');
+  if (period === 'week') return `Week ${Number(rest.slice(1))}, ${year}`;
+  return `${MONTH_NAMES[Number(rest) - 1]} ${year}`;
+}
+
+/**
+ * Parse a points table written as numbers separated by commas or spaces,
+ * e.g. "10, 8, 6, 5"
+ * @returns The table, or null if it is not whole numbers from 0 to 1000 for
+ * 1 to 25 places
+ */
+export function parseSeasonPoints(text: string): number[] | null {
+  const entries = text.split(/[\s,]+/).filter(Boolean);
+  if (entries.length === 0 || entries.length > MAX_SEASON_POINTS_PLACES) return null;
+  if (!entries.every(entry => /^\d{1,4}$/.test(entry) && Number(entry) <= 1000)) return null;
+  return entries.map(Number);
+}
+
+/**
+ * Points for a place in a daily thread
+ * @param place The place, 1 for the best result
+ * @param pointsTable Points for each place from 1st down
+ */
+export function getPlacementPoints(place: number, pointsTable: number[]): number {
+  return pointsTable[place - 1] ?? 0;
+}
+
+/**
+ * Place the finished results of a daily thread and award their points
+ * Equal results share a place; DNFs are not placed and score nothing.
+ * @param results Each member's result, lower is better (a time or a move count), null for a DNF
+ * @param pointsTable Points for each place from 1st down
+ * @returns The placed members, best first
+ */
+export function placeThreadResults(
+  results: { userId: string; username: string; value: number | null }[],
+  pointsTable: number[]
+): ThreadPlacement[] {
+  const finished = results
+    .filter((result): result is { userId: string; username: string; value: number } => result.value !== null)
+    .sort((a, b) => a.value - b.value);
+
+  return finished.map(result => {
+    const place = finished.findIndex(other => other.value === result.value) + 1;
+    return {
+      userId: result.userId,
+      username: result.username,
+      place,
+      points: getPlacementPoints(place, pointsTable)
+    };
+  });
+}
+
+/**
+ * Add up the placements of a season's daily threads into standings
+ * Members are ranked by points, then wins, then podiums; members equal on
+ * all three share a rank.
+ * @param threads The placements of each daily thread in the season
+ * @returns The standings, best first
+ */
+export function buildSeasonStandings(threads: ThreadPlacement[][]): SeasonStanding[] {
+  const byUser = new Map<string, Omit<SeasonStanding, 'rank'>>();
+  for (const placements of threads) {
+    for (const placement of placements) {
+      const standing = byUser.get(placement.userId) || {
+        userId: placement.userId, username: placement.username, points: 0, threads: 0, wins: 0, podiums: 0
+      };
+      // Show the name the member used most recently
+      standing.username = placement.username;
+      standing.points += placement.points;
+      standing.threads++;
+      if (placement.place === 1) standing.wins++;
+      if (placement.place <= 3) standing.podiums++;
+      byUser.set(placement.userId, standing);
+    }
+  }
+
+  const compare = (a: Omit<SeasonStanding, 'rank'>, b: Omit<SeasonStanding, 'rank'>) =>
+    b.points - a.points || b.wins - a.wins || b.podiums - a.podiums;
+  const sorted = Array.from(byUser.values()).sort((a, b) => compare(a, b) || a.username.localeCompare(b.username));
+  return sorted.map(standing => ({
+    rank: sorted.findIndex(other => compare(other, standing) === 0) + 1,
+    ...standing
+  }));
+}
@@ -0,0 +1,341 @@
+/**
+ * Optimal solver for the Skewb.
+ *
+ * Turns follow WCA notation: R, U, L and B turn the half of the puzzle around
+ * the DRB, ULB, DLF and DBL corner respectively, so the URF corner never moves.
+ * The 8,748 reachable corner states are enumerated by a breadth-first search
+ * and combined with the 360 even center permutations, giving exactly
+ * 3,149,280 states. A full distance table over them is built lazily on
+ * first use, which makes optimal solving a simple walk down the table.
+ */
+import { OrbitState, OrbitMove, createSolvedOrbit, deriveOrbitMove, applyOrbitMove, getFaceletFace } from './pieceEngine';
+import { getPermutationIndex, setPermutationIndex, permutationParity, invertSequence } from './twoPhaseSolver';
+
+type Vector = [number, number, number];
+
+/**
+ * Outward normal of every face
+ */
+const faceNormals: Record<string, Vector> = {
+  U: [0, 1, 0], R: [1, 0, 0], F: [0, 0, 1],
+  D: [0, -1, 0], L: [-1, 0, 0], B: [0, 0, -1]
+};
+
+/**
+ * Corner positions with their faces in clockwise order:
+ * URF, UFL, ULB, UBR, DFR, DLF, DBL, DRB
+ */
+const cornerPositions = [
+  ['U', 'R', 'F'], ['U', 'F', 'L'], ['U', 'L', 'B'], ['U', 'B', 'R'],
+  ['D', 'F', 'R'], ['D', 'L', 'F'], ['D', 'B', 'L'], ['D', 'R', 'B']
+];
+
+/**
+ * Center positions: U, R, F, D, L, B
+ */
+const centerPositions = ['U', 'R', 'F', 'D', 'L', 'B'].map(face => [face]);
+
+/**
+ * Turn names with the corner position each turn rotates around
+ */
+const axes: { name: string; corner: number }[] = [
+  { name: 'R', corner: 7 },
+  { name: 'U', corner: 2 },
+  { name: 'L', corner: 5 },
+  { name: 'B', corner: 6 }
+];
+
+const N_CENTER = 360;
+const N_CORNER = 8748;
+const N_STATES = N_CENTER * N_CORNER;
+const N_MOVES = 8;
+
+/**
+ * WCA minimum optimal solution length for a Skewb scramble
+ */
+export const MIN_SKEWB_DISTANCE = 7;
+
+/**
+ * Longest optimal solution of any Skewb state
+ */
+export const MAX_SKEWB_DISTANCE = 11;
+
+/**
+ * Skewb state on the piece level
+ */
+export interface SkewbState {
+  corners: OrbitState;
+  centers: OrbitState;
+}
+
+interface SkewbTurn {
+  corners: OrbitMove;
+  centers: OrbitMove;
+}
+
+interface SkewbTables {
+  centerMove: Uint16Array;
+  cornerMove: Uint16Array;
+  cornerIndex: Map<string, number>;
+  distance: Int8Array;
+}
+
+let tables: SkewbTables | null = null;
+
+function dot(a: Vector, b: Vector): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vector, b: Vector): Vector {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function sumNormals(faces: string[]): Vector {
+  return faces.reduce<Vector>((sum, face) => {
+    const normal = faceNormals[face];
+    return [sum[0] + normal[0], sum[1] + normal[1], sum[2] + normal[2]];
+  }, [0, 0, 0]);
+}
+
+/**
+ * Clockwise turns around each axis corner, derived from the geometry:
+ * a 120 degree rotation of every piece on the same side as that corner
+ */
+const turns: SkewbTurn[] = axes.map(({ corner }) => {
+  const axis = sumNormals(cornerPositions[corner]);
+  const faceMap: Record<string, string> = {};
+
+  for (const [face, normal] of Object.entries(faceNormals)) {
+    // Rodrigues' formula for -120 degrees around axis / sqrt(3)
+    const c = cross(axis, normal);
+    const d = dot(axis, normal);
+    const image = [0, 1, 2].map(i => (-normal[i] - c[i] + axis[i] * d) / 2);
+    faceMap[face] = Object.keys(faceNormals).find(other =>
+      faceNormals[other].every((value, i) => value === image[i])
+    )!;
+  }
+
+  const inLayer = (positions: string[][]) => positions
+    .map((faces, i) => (dot(sumNormals(faces), axis) > 0 ? i : -1))
+    .filter(i => i >= 0);
+
+  return {
+    corners: deriveOrbitMove(cornerPositions, faceMap, inLayer(cornerPositions)),
+    centers: deriveOrbitMove(centerPositions, faceMap, inLayer(centerPositions))
+  };
+});
+
+/**
+ * Create a solved Skewb
+ */
+export function createSolvedSkewb(): SkewbState {
+  return { corners: createSolvedOrbit(8), centers: createSolvedOrbit(6) };
+}
+
+/**
+ * Apply a move (axis index * 2, plus 1 for a counter-clockwise turn)
+ */
+function applyMove(state: SkewbState, move: number): SkewbState {
+  const turn = turns[Math.floor(move / 2)];
+  let result = state;
+  for (let i = 0; i < (move % 2) + 1; i++) {
+    result = {
+      corners: applyOrbitMove(result.corners, turn.corners, 3),
+      centers: applyOrbitMove(result.centers, turn.centers, 1)
+    };
+  }
+  return result;
+}
+
+function moveName(move: number): string {
+  return axes[Math.floor(move / 2)].name + (move % 2 === 1 ? '\'' : '');
+}
+
+/**
+ * Apply a sequence of Skewb turns in WCA notation (e.g. "R U' B L")
+ */
+export function applySkewbMoves(state: SkewbState, sequence: string): SkewbState {
+  return sequence.trim().split(/\s+/).filter(token => token.length > 0).reduce((result, token) => {
+    const move = Array.from({ length: N_MOVES }, (_, m) => m).find(m => moveName(m) === token);
+    if (move === undefined) {
+      throw new Error(`Invalid Skewb move: ${token}`);
+    }
+    return applyMove(result, move);
+  }, state);
+}
+
+/**
+ * Colour shown on a face by the corner at a position
+ * @param corner Corner position (URF, UFL, ULB, UBR, DFR, DLF, DBL, DRB)
+ */
+export function getSkewbCornerColour(state: SkewbState, corner: number, face: string): string {
+  return getFaceletFace(cornerPositions, state.corners, corner, face);
+}
+
+/**
+ * Colour shown by the center of a face
+ */
+export function getSkewbCenterColour(state: SkewbState, face: string): string {
+  const index = centerPositions.findIndex(([center]) => center === face);
+  return centerPositions[state.centers.perm[index]][0];
+}
+
+/**
+ * Rank of an even permutation among the even permutations of the same size
+ */
+function getEvenPermutationIndex(values: number[]): number {
+  return Math.floor(getPermutationIndex(values) / 2);
+}
+
+function setEvenPermutationIndex(index: number, n: number): number[] {
+  const values = setPermutationIndex(index * 2, n);
+  return permutationParity(values) === 0 ? values : setPermutationIndex(index * 2 + 1, n);
+}
+
+function getCenters(state: SkewbState): number {
+  return getEvenPermutationIndex(state.centers.perm);
+}
+
+function setCenters(state: SkewbState, index: number): void {
+  state.centers.perm = setEvenPermutationIndex(index, 6);
+}
+
+function cornerKey(corners: OrbitState): string {
+  return `${corners.perm.join(',')}/${corners.ori.join(',')}`;
+}
+
+/**
+ * Enumerate the reachable corner states and build their move table
+ */
+function buildCornerTables(): { cornerMove: Uint16Array; cornerIndex: Map<string, number> } {
+  const states: SkewbState[] = [createSolvedSkewb()];
+  const cornerIndex = new Map([[cornerKey(states[0].corners), 0]]);
+  const cornerMove = new Uint16Array(N_CORNER * N_MOVES);
+
+  for (let i = 0; i < states.length; i++) {
+    for (let m = 0; m < N_MOVES; m++) {
+      const next = applyMove(states[i], m);
+      const key = cornerKey(next.corners);
+      if (!cornerIndex.has(key)) {
+        cornerIndex.set(key, states.length);
+        states.push(next);
+      }
+      cornerMove[i * N_MOVES + m] = cornerIndex.get(key)!;
+    }
+  }
+
+  return { cornerMove, cornerIndex };
+}
+
+/**
+ * Table index of a state
+ */
+function getIndex(state: SkewbState): number {
+  const corners = getTables().cornerIndex.get(cornerKey(state.corners));
+  if (corners === undefined) {
+    throw new Error('Unreachable Skewb corner state');
+  }
+  return getCenters(state) * N_CORNER + corners;
+}
+
+/**
+ * Build the move table for the center permutation
+ */
+function buildCenterMoveTable(): Uint16Array {
+  const table = new Uint16Array(N_CENTER * N_MOVES);
+  for (let value = 0; value < N_CENTER; value++) {
+    const state = createSolvedSkewb();
+    setCenters(state, value);
+    for (let m = 0; m < N_MOVES; m++) {
+      table[value * N_MOVES + m] = getCenters(applyMove(state, m));
+    }
+  }
+  return table;
+}
+
+/**
+ * Index reached from a state index by a move
+ */
+function nextIndex(t: SkewbTables, index: number, m: number): number {
+  const corners = index % N_CORNER;
+  const centers = Math.floor(index / N_CORNER);
+  return t.centerMove[centers * N_MOVES + m] * N_CORNER + t.cornerMove[corners * N_MOVES + m];
+}
+
+/**
+ * Build (or return the cached) move tables and the full distance table
+ */
+function getTables(): SkewbTables {
+  if (tables) return tables;
+
+  const t: SkewbTables = {
+    centerMove: buildCenterMoveTable(),
+    ...buildCornerTables(),
+    distance: new Int8Array(N_STATES).fill(-1)
+  };
+
+  t.distance[0] = 0;
+  for (let depth = 0; depth < MAX_SKEWB_DISTANCE; depth++) {
+    for (let index = 0; index < N_STATES; index++) {
+      if (t.distance[index] !== depth) continue;
+      for (let m = 0; m < N_MOVES; m++) {
+        const next = nextIndex(t, index, m);
+        if (t.distance[next] === -1) t.distance[next] = depth + 1;
+      }
+    }
+  }
+
+  tables = t;
+  return tables;
+}
+
+/**
+ * Optimal solution of a state given by its table index
+ */
+function solveIndex(index: number): string[] {
+  const t = getTables();
+  const solution: string[] = [];
+  while (t.distance[index] > 0) {
+    for (let m = 0; m < N_MOVES; m++) {
+      const next = nextIndex(t, index, m);
+      if (t.distance[next] === t.distance[index] - 1) {
+        solution.push(moveName(m));
+        index = next;
+        break;
+      }
+    }
+  }
+  return solution;
+}
+
+/**
+ * Solve a Skewb state optimally
+ * @returns The optimal solution in WCA notation
+ */
+export function solveSkewb(state: SkewbState): string {
+  return solveIndex(getIndex(state)).join(' ');
+}
+
+/**
+ * Generate a random-state Skewb scramble.
+ * Every index of the distance table is a legal state, so states are sampled
+ * uniformly and rejected until one falls in the distance range; the scramble
+ * is the inverse of its optimal solution.
+ * @param minDistance Minimum optimal solution length (defaults to the WCA minimum of 7)
+ * @param maxDistance Maximum optimal solution length
+ */
+export function generateRandomStateSkewbScramble(
+  minDistance: number = MIN_SKEWB_DISTANCE,
+  maxDistance: number = MAX_SKEWB_DISTANCE
+): string {
+  const t = getTables();
+  const min = Math.max(0, Math.min(minDistance, MAX_SKEWB_DISTANCE));
+  const max = Math.max(min, Math.min(maxDistance, MAX_SKEWB_DISTANCE));
+
+  let index: number;
+  do {
+    index = Math.floor(Math.random() * N_STATES);
+  } while (t.distance[index] < min || t.distance[index] > max);
+
+  return invertSequence(solveIndex(index).join(' '));
+}
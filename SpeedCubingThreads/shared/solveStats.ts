@@ -0,0 +1,170 @@
+/**
+ * Statistics from timed solves: a member's best single, best and current
+ * averages of 5, 12 and 100, and recent results for a trend line, for each
+ * event they practise; and the average of everyone's solves in each event.
+ */
+import { CubeType, cubeTypes, ScramblePerformance } from './schema';
+import { SolveTime, getSolveResult } from './solveTimes';
+import { getBestResult, getRollingAverages, getSessionAverage, getStandardDeviation } from './statistics';
+
+/**
+ * Rolling average sizes shown in statistics, as timers show them
+ */
+export const STATS_AVERAGE_SIZES = [5, 12, 100];
+
+/**
+ * Number of recent solves kept for the trend line
+ */
+export const STATS_TREND_LENGTH = 50;
+
+/**
+ * Most entries read from a member's history for their statistics
+ */
+export const STATS_HISTORY_LIMIT = 5000;
+
+/**
+ * Most recent solves per event that everyone's event averages are taken over
+ */
+export const EVENT_AVERAGE_SOLVE_LIMIT = 1000;
+
+/**
+ * Best and latest average of a number of consecutive solves
+ */
+export interface RollingAverageStats {
+  size: number;
+  /** Average of the latest solves in milliseconds, or null for a DNF average */
+  current: number | null;
+  /** Best average of any consecutive solves in milliseconds, or null if all were DNFs */
+  best: number | null;
+}
+
+/**
+ * A member's statistics for one event
+ */
+export interface EventStats {
+  cubeType: CubeType;
+  totalSolves: number;
+  dnfCount: number;
+  /** Best single in milliseconds, or null if every solve was a DNF */
+  bestSingle: number | null;
+  /** Standard deviation of the finished solves in milliseconds, or null with fewer than two */
+  standardDeviation: number | null;
+  /** One entry per average size there are enough solves for, smallest first */
+  averages: RollingAverageStats[];
+  /** Results of the latest solves, oldest first, null for a DNF */
+  trend: (number | null)[];
+  lastSolveAt: Date;
+}
+
+/**
+ * Average of everyone's solves in one event
+ */
+export interface EventAverage {
+  cubeType: CubeType;
+  solveCount: number;
+  dnfCount: number;
+  /** Best single in milliseconds, or null if every solve was a DNF */
+  bestSingle: number | null;
+  /** Trimmed average of all solves in milliseconds, or null for a DNF average */
+  averageSolveTime: number | null;
+  /** Standard deviation of the finished solves in milliseconds, or null with fewer than two */
+  standardDeviation: number | null;
+}
+
+/**
+ * Best and latest rolling average of a size over results in order
+ * @returns The averages, or null if there are fewer results than the size
+ */
+export function getRollingAverageStats(results: (number | null)[], size: number): RollingAverageStats | null {
+  const averages = getRollingAverages(results, size);
+  if (averages.length === 0) return null;
+  return { size, current: averages[averages.length - 1], best: getBestResult(averages) };
+}
+
+/**
+ * Whether an entry is a timed solve in one of the cube type events; Multi-BLD
+ * attempts and untimed entries are left out of statistics
+ */
+function isTimedEventSolve(entry: Pick<ScramblePerformance, 'cubeType' | 'solveTime'>): boolean {
+  return entry.solveTime !== null && (Object.values(cubeTypes) as string[]).includes(entry.cubeType);
+}
+
+/**
+ * Statistics for one event
+ * @param cubeType The event
+ * @param solves The member's solves in the event, oldest first
+ * @param lastSolveAt When the latest solve was done
+ */
+export function getEventStats(cubeType: CubeType, solves: SolveTime[], lastSolveAt: Date): EventStats {
+  const results = solves.map(getSolveResult);
+
+  return {
+    cubeType,
+    totalSolves: solves.length,
+    dnfCount: results.filter(result => result === null).length,
+    bestSingle: getBestResult(results),
+    standardDeviation: getStandardDeviation(results),
+    averages: STATS_AVERAGE_SIZES
+      .map(size => getRollingAverageStats(results, size))
+      .filter((average): average is RollingAverageStats => average !== null),
+    trend: results.slice(-STATS_TREND_LENGTH),
+    lastSolveAt
+  };
+}
+
+/**
+ * Statistics for each event in a member's solve history
+ * Entries without a time and events other than the cube types (such as
+ * Multi-BLD attempts) are left out.
+ * @param history The member's scramble performance entries, in any order
+ * @returns One entry per event, most practised first
+ */
+export function getSolveHistoryStats(history: ScramblePerformance[]): EventStats[] {
+  const events = Object.values(cubeTypes) as string[];
+  const byEvent = new Map<CubeType, ScramblePerformance[]>();
+  for (const entry of history) {
+    if (!isTimedEventSolve(entry)) continue;
+    const entries = byEvent.get(entry.cubeType as CubeType) || [];
+    entries.push(entry);
+    byEvent.set(entry.cubeType as CubeType, entries);
+  }
+
+  return Array.from(byEvent.entries())
+    .map(([cubeType, entries]) => {
+      const ordered = [...entries].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+      const solves = ordered.map(entry => ({ timeMs: entry.solveTime as number, penalty: entry.penalty }));
+      return getEventStats(cubeType, solves, new Date(ordered[ordered.length - 1].timestamp));
+    })
+    .sort((a, b) => b.totalSolves - a.totalSolves || events.indexOf(a.cubeType) - events.indexOf(b.cubeType));
+}
+
+/**
+ * Average of everyone's solves in each event
+ * Entries without a time and events other than the cube types are left out.
+ * Storage passes only each event's latest EVENT_AVERAGE_SOLVE_LIMIT solves.
+ * @param entries Scramble performance entries, in any order
+ * @returns One entry per event, in the order of cubeTypes
+ */
+export function getEventAverages(entries: Pick<ScramblePerformance, 'cubeType' | 'solveTime' | 'penalty'>[]): EventAverage[] {
+  const byEvent = new Map<CubeType, (number | null)[]>();
+  for (const entry of entries) {
+    if (!isTimedEventSolve(entry)) continue;
+    const results = byEvent.get(entry.cubeType as CubeType) || [];
+    results.push(getSolveResult({ timeMs: entry.solveTime as number, penalty: entry.penalty }));
+    byEvent.set(entry.cubeType as CubeType, results);
+  }
+
+  return (Object.values(cubeTypes) as CubeType[])
+    .filter(cubeType => byEvent.has(cubeType))
+    .map(cubeType => {
+      const results = byEvent.get(cubeType) as (number | null)[];
+      return {
+        cubeType,
+        solveCount: results.length,
+        dnfCount: results.filter(result => result === null).length,
+        bestSingle: getBestResult(results),
+        averageSolveTime: getSessionAverage(results),
+        standardDeviation: getStandardDeviation(results)
+      };
+    });
+}
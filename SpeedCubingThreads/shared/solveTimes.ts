@@ -0,0 +1,186 @@
+/**
+ * Solve times as members write them ("12.34", "1:02.50", "12.34+", "DNF"),
+ * WCA penalties, and the single, average of 5 and mean of 3 results ranked
+ * in challenge threads.
+ */
+import { getMean, getTrimmedAverage } from './statistics';
+
+/**
+ * Penalty on a solve: +2 seconds, or Did Not Finish
+ */
+export type SolvePenalty = 'none' | '+2' | 'DNF';
+
+/**
+ * One solve with its penalty
+ */
+export interface SolveTime {
+  /** Time on the timer in milliseconds, before any penalty (0 for a DNF without a time) */
+  timeMs: number;
+  penalty: SolvePenalty;
+}
+
+/**
+ * Formats a challenge can be run in and a result submitted in
+ */
+export type ResultFormat = 'single' | 'ao5' | 'mo3';
+
+export const RESULT_FORMATS: ResultFormat[] = ['single', 'ao5', 'mo3'];
+
+/**
+ * Number of solves each format takes
+ */
+export const RESULT_FORMAT_SOLVES: Record<ResultFormat, number> = {
+  single: 1,
+  ao5: 5,
+  mo3: 3
+};
+
+/**
+ * Extra scrambles generated with each format, used in place of a scramble
+ * that has to be replaced (as in WCA rounds: two for an Ao5, one for a Mo3)
+ */
+export const RESULT_FORMAT_EXTRAS: Record<ResultFormat, number> = {
+  single: 0,
+  ao5: 2,
+  mo3: 1
+};
+
+/**
+ * Short name of each format, as in WCA results
+ */
+export const RESULT_FORMAT_LABELS: Record<ResultFormat, string> = {
+  single: 'Single',
+  ao5: 'Ao5',
+  mo3: 'Mo3'
+};
+
+/**
+ * Parse a time written as seconds ("12.34") or minutes and seconds ("1:02.34")
+ * @returns The time in milliseconds, or null if it is not a time
+ */
+function parseClockTime(text: string): number | null {
+  const match = /^(?:(\d+):)?(\d+)(?:\.(\d{1,2}))?$/.exec(text);
+  if (!match) return null;
+
+  const minutes = match[1] ? Number(match[1]) : 0;
+  const seconds = Number(match[2]);
+  if (match[1] && seconds >= 60) return null;
+
+  const hundredths = Number((match[3] || '0').padEnd(2, '0'));
+  const timeMs = (minutes * 60 + seconds) * 1000 + hundredths * 10;
+  return timeMs > 0 ? timeMs : null;
+}
+
+/**
+ * Parse one solve: a time, a time followed by "+" or "+2" for a +2 penalty,
+ * or "DNF" (optionally with the time, as in "DNF(12.34)")
+ * @returns The solve, or null if the text is not a solve
+ */
+export function parseSolveTime(text: string): SolveTime | null {
+  const trimmed = text.trim();
+
+  const dnf = /^dnf(?:\((.+)\))?$/i.exec(trimmed);
+  if (dnf) {
+    const timeMs = dnf[1] ? parseClockTime(dnf[1]) : 0;
+    return timeMs === null ? null : { timeMs, penalty: 'DNF' };
+  }
+
+  const plusTwo = /^(.+?)\+2?$/.exec(trimmed);
+  const timeMs = parseClockTime(plusTwo ? plusTwo[1] : trimmed);
+  if (timeMs === null) return null;
+  return { timeMs, penalty: plusTwo ? '+2' : 'none' };
+}
+
+/**
+ * Result of one solve with its penalty applied
+ * @returns The time in milliseconds, or null for a DNF
+ */
+export function getSolveResult(solve: SolveTime): number | null {
+  if (solve.penalty === 'DNF') return null;
+  return solve.penalty === '+2' ? solve.timeMs + 2000 : solve.timeMs;
+}
+
+/**
+ * WCA average of 5: the best and worst solves are dropped and the other three
+ * averaged, rounded to the hundredth. A DNF counts as the worst solve, so one
+ * DNF is dropped and two make the average a DNF.
+ * @returns The average in milliseconds, or null for a DNF average
+ * @throws Error if there are not exactly five solves
+ */
+export function getAverageOfFive(solves: SolveTime[]): number | null {
+  if (solves.length !== 5) {
+    throw new Error(`An average of 5 needs 5 solves, not ${solves.length}`);
+  }
+  return getTrimmedAverage(solves.map(getSolveResult));
+}
+
+/**
+ * Indices of the best and worst solves of an average of 5
+ */
+function getTrimmedIndices(solves: SolveTime[]): { best: number; worst: number } {
+  const order = solves
+    .map((solve, i) => ({ i, result: getSolveResult(solve) }))
+    .sort((a, b) => (a.result ?? Infinity) - (b.result ?? Infinity) || a.i - b.i)
+    .map(entry => entry.i);
+  return { best: order[0], worst: order[order.length - 1] };
+}
+
+/**
+ * WCA mean of 3: the three solves averaged, rounded to the hundredth; any DNF
+ * makes the mean a DNF
+ * @returns The mean in milliseconds, or null for a DNF mean
+ * @throws Error if there are not exactly three solves
+ */
+export function getMeanOfThree(solves: SolveTime[]): number | null {
+  if (solves.length !== 3) {
+    throw new Error(`A mean of 3 needs 3 solves, not ${solves.length}`);
+  }
+  return getMean(solves.map(getSolveResult));
+}
+
+/**
+ * Result of a submission in its format: the single, the average of 5 or the mean of 3
+ * @returns The result in milliseconds, or null for a DNF
+ */
+export function getFormatResult(format: ResultFormat, solves: SolveTime[]): number | null {
+  if (format === 'ao5') return getAverageOfFive(solves);
+  if (format === 'mo3') return getMeanOfThree(solves);
+  return getSolveResult(solves[0]);
+}
+
+/**
+ * Format a result in milliseconds as WCA results are written:
+ * "9.87", "1:02.34", or "DNF" for null
+ */
+export function formatSolveTime(timeMs: number | null): string {
+  if (timeMs === null) return 'DNF';
+
+  const centiseconds = Math.round(timeMs / 10);
+  const minutes = Math.floor(centiseconds / 6000);
+  const seconds = Math.floor(centiseconds / 100) % 60;
+  const hundredths = (centiseconds % 100).toString().padStart(2, '0');
+  return minutes > 0
+    ? `${minutes}:${seconds.toString().padStart(2, '0')}.${hundredths}`
+    : `${seconds}.${hundredths}`;
+}
+
+/**
+ * Format one solve with its penalty: "12.34", "14.34+" or "DNF"
+ */
+export function formatSolve(solve: SolveTime): string {
+  if (solve.penalty === 'DNF') return 'DNF';
+  return solve.penalty === '+2' ? `${formatSolveTime(solve.timeMs + 2000)}+` : formatSolveTime(solve.timeMs);
+}
+
+/**
+ * Format the solves of a submission; in an average the dropped best and worst
+ * solves are in parentheses, as in "(10.50) 12.00 11.02 13.00 (DNF)"
+ */
+export function formatSolves(format: ResultFormat, solves: SolveTime[]): string {
+  if (format !== 'ao5') return solves.map(formatSolve).join(' ');
+
+  const { best, worst } = getTrimmedIndices(solves);
+  return solves
+    .map((solve, i) => (i === best || i === worst ? `(${formatSolve(solve)})` : formatSolve(solve)))
+    .join(' ');
+}
@@ -0,0 +1,650 @@
+/**
+ * Two-phase solver and random-state scrambler for the Square-1.
+ *
+ * Each layer is 12 slots of 30 degrees, numbered clockwise as seen from that
+ * layer and starting at the slice, so that the slice swaps slots 0-5 of the
+ * top with slots 0-5 of the bottom. A corner fills two slots and an edge one.
+ * Solved, the top reads corner-edge from the slice and the bottom edge-corner,
+ * which is why (1,0) / and (0,-1) / keep cube shape and a bare / does not.
+ * `(x,y)` turns the top and bottom layers x and y twelfths clockwise and `/`
+ * turns the right half 180 degrees, which is only possible when no piece
+ * straddles the slice on either layer.
+ *
+ * Phase 1 brings the puzzle to cube shape with a piece parity that cube shape
+ * can solve, walking down a distance table over every shape. Phase 2 solves
+ * the pieces with quarter turns of the layers and slices (an IDA* search with
+ * distance tables for the corners and the edges). Lengths count slices.
+ */
+import { getPermutationIndex, setPermutationIndex, permutationParity } from './twoPhaseSolver';
+
+/**
+ * Square-1 state
+ */
+export interface SquareOneState {
+  /** Piece in every slot of the top layer (corners 0-7, edges 8-15) */
+  top: number[];
+  /** Piece in every slot of the bottom layer */
+  bottom: number[];
+  /** Whether the right half of the middle layer is flipped */
+  middle: boolean;
+}
+
+/**
+ * A turn of both layers (in twelfths) or a slice
+ */
+type SquareOneMove = { top: number; bottom: number } | 'slice';
+
+interface ShapeTables {
+  /** Index of every valid layer shape mask, or -1 */
+  layerIndex: Int16Array;
+  layerMasks: number[];
+  /** Distance in slices to cube shape, by shape index and parity (-1 if invalid) */
+  distance: Int8Array;
+}
+
+/**
+ * Phase 2 tables. In cube shape the corners and the edges each fill eight
+ * positions, four per layer numbered in slot order; both orbits turn alike,
+ * and each slice swaps two positions of the top with the same two of the
+ * bottom. Which two depends on how the layers are aligned (see
+ * cubeShapeSlices), so the slice tables have one entry per slice type.
+ */
+interface PermutationTables {
+  /** Permutation after turns of a quarters on top and b quarters on the bottom, at index * 16 + a * 4 + b */
+  turn: Uint16Array;
+  cornerSlice: Uint16Array[];
+  edgeSlice: Uint16Array[];
+  /** Which four positions hold the top layer pieces of a permutation */
+  permSplit: Uint8Array;
+  /** Distance in slices to solved, by corner permutation, edge split and middle layer */
+  cornerDistance: Int8Array;
+  /** Distance in slices to solved, by edge permutation, corner split and middle layer */
+  edgeDistance: Int8Array;
+}
+
+/**
+ * A phase 2 step: turns in quarters, then a slice of the given type
+ */
+interface PiecesStep {
+  turn: number;
+  sliceType: number;
+}
+
+const N_PERM = 40320;
+const N_SPLIT = 70;
+const PHASE_2_MAX_DEPTH = 20;
+
+let shapeTables: ShapeTables | null = null;
+let permutationTables: PermutationTables | null = null;
+
+/**
+ * Create a solved Square-1
+ */
+export function createSolvedSquareOne(): SquareOneState {
+  return {
+    top: [0, 0, 8, 1, 1, 9, 2, 2, 10, 3, 3, 11],
+    bottom: [12, 4, 4, 13, 5, 5, 14, 6, 6, 15, 7, 7],
+    middle: false
+  };
+}
+
+function turnLayer(layer: number[], amount: number): number[] {
+  const result = new Array<number>(12);
+  layer.forEach((piece, i) => { result[((i + amount) % 12 + 12) % 12] = piece; });
+  return result;
+}
+
+/**
+ * Check if the slice can be turned: no piece may straddle it on either layer
+ */
+export function isSquareOneSliceable(state: SquareOneState): boolean {
+  return state.top[0] !== state.top[11] && state.top[5] !== state.top[6]
+    && state.bottom[0] !== state.bottom[11] && state.bottom[5] !== state.bottom[6];
+}
+
+function applyMove(state: SquareOneState, move: SquareOneMove): SquareOneState {
+  if (move === 'slice') {
+    return {
+      top: [...state.bottom.slice(0, 6), ...state.top.slice(6)],
+      bottom: [...state.top.slice(0, 6), ...state.bottom.slice(6)],
+      middle: !state.middle
+    };
+  }
+  return {
+    top: turnLayer(state.top, move.top),
+    bottom: turnLayer(state.bottom, move.bottom),
+    middle: state.middle
+  };
+}
+
+/**
+ * Parse a move in WCA notation: (x,y) or /
+ * @returns The move, or null if the token is not Square-1 notation
+ */
+function parseMove(token: string): SquareOneMove | null {
+  if (token === '/') return 'slice';
+  const match = /^\((-?\d+),(-?\d+)\)$/.exec(token);
+  return match ? { top: parseInt(match[1], 10), bottom: parseInt(match[2], 10) } : null;
+}
+
+/**
+ * Check one token of Square-1 notation; turn amounts go from -5 to 6 as in WCA scrambles
+ * @returns Why the token is illegal, or null for a legal move
+ */
+export function checkSquareOneMove(token: string): string | null {
+  const move = parseMove(token);
+  if (!move) return 'Unknown Square-1 move';
+  if (move !== 'slice' && [move.top, move.bottom].some(amount => amount < -5 || amount > 6)) {
+    return 'Square-1 turns go from -5 to 6 twelfths';
+  }
+  return null;
+}
+
+/**
+ * Apply one move in WCA notation
+ * @throws Error if the token is not a move or the slice is blocked
+ */
+export function applySquareOneMove(state: SquareOneState, token: string): SquareOneState {
+  const move = parseMove(token);
+  if (!move) {
+    throw new Error(`Invalid Square-1 move: ${token}`);
+  }
+  if (move === 'slice' && !isSquareOneSliceable(state)) {
+    throw new Error('Square-1 slice is blocked by a piece across it');
+  }
+  return applyMove(state, move);
+}
+
+/**
+ * Check if a Square-1 is solved, with the middle layer square
+ */
+export function isSquareOneSolved(state: SquareOneState): boolean {
+  const solved = createSolvedSquareOne();
+  return !state.middle
+    && state.top.every((piece, i) => piece === solved.top[i])
+    && state.bottom.every((piece, i) => piece === solved.bottom[i]);
+}
+
+/**
+ * Slots where a piece starts, i.e. that are not the second half of a corner
+ */
+function layerMask(layer: number[]): number {
+  let mask = 0;
+  for (let i = 0; i < 12; i++) {
+    if (layer[i] !== layer[(i + 11) % 12]) mask |= 1 << i;
+  }
+  return mask;
+}
+
+/**
+ * Pieces in the order the parity is read: top then bottom, each from slot 0
+ */
+function readPieces(state: SquareOneState): number[] {
+  const pieces: number[] = [];
+  for (const layer of [state.top, state.bottom]) {
+    const mask = layerMask(layer);
+    for (let i = 0; i < 12; i++) {
+      if (mask & (1 << i)) pieces.push(layer[i]);
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Combined parity of the corner and edge orders; cube shape moves keep it even
+ */
+function getShapeParity(state: SquareOneState): number {
+  const pieces = readPieces(state);
+  return permutationParity(pieces.filter(piece => piece < 8)) ^ permutationParity(pieces.filter(piece => piece >= 8));
+}
+
+/**
+ * Build a state with the given layer shapes, numbering the corners and the
+ * edges in the order the parity is read (so its parity is even)
+ */
+function createStateWithShape(topMask: number, bottomMask: number): SquareOneState {
+  let corner = 0;
+  let edge = 8;
+  const fill = (mask: number): number[] => {
+    const layer = new Array<number>(12);
+    for (let i = 0; i < 12; i++) {
+      if (!(mask & (1 << i))) continue;
+      const isCorner = !(mask & (1 << ((i + 1) % 12)));
+      layer[i] = isCorner ? corner++ : edge++;
+      if (isCorner) layer[(i + 1) % 12] = layer[i];
+    }
+    return layer;
+  };
+  const top = fill(topMask);
+  return { top, bottom: fill(bottomMask), middle: false };
+}
+
+function countCorners(mask: number): number {
+  let corners = 0;
+  for (let i = 0; i < 12; i++) {
+    if ((mask & (1 << i)) && !(mask & (1 << ((i + 1) % 12)))) corners++;
+  }
+  return corners;
+}
+
+/**
+ * Check if a mask describes a layer: every piece fills one or two slots
+ */
+function isValidLayerMask(mask: number): boolean {
+  if (mask === 0) return false;
+  for (let i = 0; i < 12; i++) {
+    const filled = (mask & (1 << i)) || (mask & (1 << ((i + 11) % 12)));
+    if (!filled) return false;
+  }
+  return true;
+}
+
+/**
+ * Build (or return the cached) shape distance table
+ */
+function getShapeTables(): ShapeTables {
+  if (shapeTables) return shapeTables;
+
+  const layerIndex = new Int16Array(1 << 12).fill(-1);
+  const layerMasks: number[] = [];
+  for (let mask = 0; mask < (1 << 12); mask++) {
+    if (isValidLayerMask(mask)) {
+      layerIndex[mask] = layerMasks.length;
+      layerMasks.push(mask);
+    }
+  }
+
+  const n = layerMasks.length;
+  const distance = new Int8Array(n * n * 2).fill(-1);
+  const nodeIndex = (state: SquareOneState, parity: number) =>
+    (layerIndex[layerMask(state.top)] * n + layerIndex[layerMask(state.bottom)]) * 2 + parity;
+
+  const solved = createSolvedSquareOne();
+  let level = [nodeIndex(solved, 0)];
+  distance[level[0]] = 0;
+
+  for (let depth = 0; level.length > 0; depth++) {
+    // Turns are free, so first close the level under turns of either layer
+    for (let i = 0; i < level.length; i++) {
+      const node = level[i];
+      const state = createStateWithShape(layerMasks[Math.floor(node / 2 / n)], layerMasks[Math.floor(node / 2) % n]);
+      for (let amount = 1; amount < 12; amount++) {
+        for (const move of [{ top: amount, bottom: 0 }, { top: 0, bottom: amount }]) {
+          const next = applyMove(state, move);
+          const nextNode = nodeIndex(next, (node % 2) ^ getShapeParity(next));
+          if (distance[nextNode] === -1) {
+            distance[nextNode] = depth;
+            level.push(nextNode);
+          }
+        }
+      }
+    }
+
+    const nextLevel: number[] = [];
+    for (const node of level) {
+      const state = createStateWithShape(layerMasks[Math.floor(node / 2 / n)], layerMasks[Math.floor(node / 2) % n]);
+      if (!isSquareOneSliceable(state)) continue;
+      const next = applyMove(state, 'slice');
+      const nextNode = nodeIndex(next, (node % 2) ^ getShapeParity(next));
+      if (distance[nextNode] === -1) {
+        distance[nextNode] = depth + 1;
+        nextLevel.push(nextNode);
+      }
+    }
+    level = nextLevel;
+  }
+
+  shapeTables = { layerIndex, layerMasks, distance };
+  return shapeTables;
+}
+
+function getShapeDistance(t: ShapeTables, state: SquareOneState): number {
+  const n = t.layerMasks.length;
+  const top = t.layerIndex[layerMask(state.top)];
+  const bottom = t.layerIndex[layerMask(state.bottom)];
+  return t.distance[(top * n + bottom) * 2 + getShapeParity(state)];
+}
+
+/**
+ * Phase 1: slices (each after a turn) that bring the puzzle to cube shape,
+ * ending with the turn that lines both layers up with the solved shape
+ */
+function solveShape(state: SquareOneState): { moves: SquareOneMove[]; state: SquareOneState } {
+  const t = getShapeTables();
+  const moves: SquareOneMove[] = [];
+  let depth = getShapeDistance(t, state);
+  if (depth < 0) {
+    throw new Error('Unreachable Square-1 shape');
+  }
+
+  while (depth > 0) {
+    let found = false;
+    for (let top = 0; top < 12 && !found; top++) {
+      for (let bottom = 0; bottom < 12 && !found; bottom++) {
+        const turned = applyMove(state, { top, bottom });
+        if (!isSquareOneSliceable(turned)) continue;
+        const next = applyMove(turned, 'slice');
+        if (getShapeDistance(t, next) === depth - 1) {
+          moves.push({ top, bottom }, 'slice');
+          state = next;
+          depth--;
+          found = true;
+        }
+      }
+    }
+  }
+
+  const solvedMasks = createSolvedSquareOne();
+  for (let top = 0; top < 12; top++) {
+    for (let bottom = 0; bottom < 12; bottom++) {
+      const turned = applyMove(state, { top, bottom });
+      if (layerMask(turned.top) === layerMask(solvedMasks.top) && layerMask(turned.bottom) === layerMask(solvedMasks.bottom)) {
+        moves.push({ top, bottom });
+        return { moves, state: turned };
+      }
+    }
+  }
+  throw new Error('Square-1 shape solver did not reach cube shape');
+}
+
+/**
+ * Positions each slice type swaps between the layers (top position i with
+ * bottom position 4 + i). Corner i sits at slot 3i + alignment and edge i at
+ * slot 3i + 2 + alignment, so the solved top has alignment 0 and the solved
+ * bottom alignment 1. With both layers at alignment 0 the slice takes corners
+ * and edges 0-1, and at alignment 1 it takes corners 0-1 and edges 3 and 0;
+ * other alignments cannot slice or break the shape. Changing alignment is a
+ * free turn between two slices.
+ */
+const cubeShapeSlices = [
+  { corners: [0, 1], edges: [0, 1] },
+  { corners: [0, 1], edges: [3, 0] }
+];
+
+function turnCubeShapePositions<T>(values: T[], top: number, bottom: number): T[] {
+  const next = new Array<T>(8);
+  for (let i = 0; i < 4; i++) {
+    next[(i + top) % 4] = values[i];
+    next[4 + (i + bottom) % 4] = values[4 + i];
+  }
+  return next;
+}
+
+function sliceCubeShapePositions<T>(values: T[], positions: number[]): T[] {
+  const next = [...values];
+  for (const i of positions) {
+    next[i] = values[4 + i];
+    next[4 + i] = values[i];
+  }
+  return next;
+}
+
+/**
+ * Breadth-first search over one orbit's permutation, the other orbit's split
+ * and the middle layer. Only slices count, so every node reached brings all
+ * its turns along at the same distance.
+ */
+function buildPiecesDistance(
+  turn: Uint16Array,
+  splitTurn: Uint8Array,
+  permSlice: Uint16Array[],
+  splitSlice: Uint8Array[],
+  solvedSplit: number
+): Int8Array {
+  const distance = new Int8Array(N_PERM * N_SPLIT * 2).fill(-1);
+  const visit = (perm: number, split: number, middle: number, depth: number): boolean => {
+    if (distance[(perm * N_SPLIT + split) * 2 + middle] !== -1) return false;
+    for (let ab = 0; ab < 16; ab++) {
+      distance[(turn[perm * 16 + ab] * N_SPLIT + splitTurn[split * 16 + ab]) * 2 + middle] = depth;
+    }
+    return true;
+  };
+
+  visit(0, solvedSplit, 0, 0);
+  for (let depth = 1, found = true; found; depth++) {
+    found = false;
+    for (let node = 0; node < distance.length; node++) {
+      if (distance[node] !== depth - 1) continue;
+      const perm = Math.floor(node / (N_SPLIT * 2));
+      const split = (node >> 1) % N_SPLIT;
+      for (let type = 0; type < cubeShapeSlices.length; type++) {
+        if (visit(permSlice[type][perm], splitSlice[type][split], (node & 1) ^ 1, depth)) found = true;
+      }
+    }
+  }
+  return distance;
+}
+
+/**
+ * Build (or return the cached) cube shape permutation tables
+ */
+function getPermutationTables(): PermutationTables {
+  if (permutationTables) return permutationTables;
+
+  const splitIndex = new Int8Array(256).fill(-1);
+  const splitMasks: number[] = [];
+  for (let mask = 0; mask < 256; mask++) {
+    let bits = 0;
+    for (let i = 0; i < 8; i++) bits += (mask >> i) & 1;
+    if (bits === 4) {
+      splitIndex[mask] = splitMasks.length;
+      splitMasks.push(mask);
+    }
+  }
+  const getSplit = (onTop: boolean[]) => splitIndex[onTop.reduce((mask, top, i) => (top ? mask | (1 << i) : mask), 0)];
+
+  const splitTurn = new Uint8Array(N_SPLIT * 16);
+  const cornerSplitSlice = cubeShapeSlices.map(() => new Uint8Array(N_SPLIT));
+  const edgeSplitSlice = cubeShapeSlices.map(() => new Uint8Array(N_SPLIT));
+  splitMasks.forEach((mask, index) => {
+    const onTop = Array.from({ length: 8 }, (_, i) => (mask & (1 << i)) !== 0);
+    for (let ab = 0; ab < 16; ab++) {
+      splitTurn[index * 16 + ab] = getSplit(turnCubeShapePositions(onTop, ab >> 2, ab & 3));
+    }
+    cubeShapeSlices.forEach((slice, type) => {
+      cornerSplitSlice[type][index] = getSplit(sliceCubeShapePositions(onTop, slice.corners));
+      edgeSplitSlice[type][index] = getSplit(sliceCubeShapePositions(onTop, slice.edges));
+    });
+  });
+
+  const turn = new Uint16Array(N_PERM * 16);
+  const cornerSlice = cubeShapeSlices.map(() => new Uint16Array(N_PERM));
+  const edgeSlice = cubeShapeSlices.map(() => new Uint16Array(N_PERM));
+  const permSplit = new Uint8Array(N_PERM);
+  for (let index = 0; index < N_PERM; index++) {
+    const perm = setPermutationIndex(index, 8);
+    for (let ab = 0; ab < 16; ab++) {
+      turn[index * 16 + ab] = getPermutationIndex(turnCubeShapePositions(perm, ab >> 2, ab & 3));
+    }
+    cubeShapeSlices.forEach((slice, type) => {
+      cornerSlice[type][index] = getPermutationIndex(sliceCubeShapePositions(perm, slice.corners));
+      edgeSlice[type][index] = getPermutationIndex(sliceCubeShapePositions(perm, slice.edges));
+    });
+    permSplit[index] = getSplit(perm.map(piece => piece < 4));
+  }
+
+  permutationTables = {
+    turn,
+    cornerSlice,
+    edgeSlice,
+    permSplit,
+    cornerDistance: buildPiecesDistance(turn, splitTurn, cornerSlice, edgeSplitSlice, permSplit[0]),
+    edgeDistance: buildPiecesDistance(turn, splitTurn, edgeSlice, cornerSplitSlice, permSplit[0])
+  };
+  return permutationTables;
+}
+
+function getPiecesBound(t: PermutationTables, corners: number, edges: number, middle: number): number {
+  return Math.max(
+    t.cornerDistance[(corners * N_SPLIT + t.permSplit[edges]) * 2 + middle],
+    t.edgeDistance[(edges * N_SPLIT + t.permSplit[corners]) * 2 + middle]
+  );
+}
+
+/**
+ * Depth-first search for exactly `depth` more slices; on success the steps
+ * are in `path` and the returned number is the final turn
+ */
+function searchPieces(
+  t: PermutationTables,
+  corners: number,
+  edges: number,
+  middle: number,
+  depth: number,
+  lastType: number,
+  path: PiecesStep[]
+): number {
+  if (depth === 0) {
+    if (middle !== 0) return -1;
+    for (let ab = 0; ab < 16; ab++) {
+      if (t.turn[corners * 16 + ab] === 0 && t.turn[edges * 16 + ab] === 0) return ab;
+    }
+    return -1;
+  }
+  if (getPiecesBound(t, corners, edges, middle) > depth) return -1;
+
+  for (let ab = 0; ab < 16; ab++) {
+    const turnedCorners = t.turn[corners * 16 + ab];
+    const turnedEdges = t.turn[edges * 16 + ab];
+    for (let type = 0; type < cubeShapeSlices.length; type++) {
+      // Two slices of the same type with no turn between them cancel out
+      if (ab === 0 && type === lastType) continue;
+      path.push({ turn: ab, sliceType: type });
+      const result = searchPieces(t, t.cornerSlice[type][turnedCorners], t.edgeSlice[type][turnedEdges], middle ^ 1, depth - 1, type, path);
+      if (result >= 0) return result;
+      path.pop();
+    }
+  }
+  return -1;
+}
+
+/**
+ * Pieces at the eight corner and eight edge positions of a state lined up as
+ * when solved (top at alignment 0, bottom at alignment 1)
+ */
+function readCubeShapePieces(state: SquareOneState): { corners: number[]; edges: number[] } {
+  const positions = [0, 1, 2, 3];
+  return {
+    corners: [...positions.map(i => state.top[3 * i]), ...positions.map(i => state.bottom[3 * i + 1])],
+    edges: [...positions.map(i => state.top[3 * i + 2]), ...positions.map(i => state.bottom[(3 * i + 3) % 12])]
+  };
+}
+
+/**
+ * Phase 2: solve the pieces of a cube shape state (lined up as when solved)
+ */
+function solvePieces(state: SquareOneState): SquareOneMove[] {
+  const t = getPermutationTables();
+  const solved = readCubeShapePieces(createSolvedSquareOne());
+  const pieces = readCubeShapePieces(state);
+  const corners = getPermutationIndex(pieces.corners.map(piece => solved.corners.indexOf(piece)));
+  const edges = getPermutationIndex(pieces.edges.map(piece => solved.edges.indexOf(piece)));
+  const middle = state.middle ? 1 : 0;
+
+  for (let depth = 0; depth <= PHASE_2_MAX_DEPTH; depth++) {
+    const path: PiecesStep[] = [];
+    const last = searchPieces(t, corners, edges, middle, depth, -1, path);
+    if (last < 0) continue;
+
+    // Back to twelfths: a slice of type 1 needs both layers at alignment 1
+    const moves: SquareOneMove[] = [];
+    let top = 0;
+    let bottom = 1;
+    for (const step of path) {
+      moves.push({ top: 3 * (step.turn >> 2) + step.sliceType - top, bottom: 3 * (step.turn & 3) + step.sliceType - bottom }, 'slice');
+      top = bottom = step.sliceType;
+    }
+    moves.push({ top: 3 * (last >> 2) - top, bottom: 3 * (last & 3) + 1 - bottom });
+    return moves;
+  }
+  throw new Error('Square-1 piece solver found no solution');
+}
+
+/**
+ * Amount in twelfths written the WCA way, from -5 to 6
+ */
+function normalizeAmount(amount: number): number {
+  const value = ((amount % 12) + 12) % 12;
+  return value > 6 ? value - 12 : value;
+}
+
+/**
+ * Write moves in WCA notation, merging consecutive turns and dropping empty ones
+ */
+function formatMoves(moves: SquareOneMove[]): string {
+  const merged: SquareOneMove[] = [];
+  for (const move of moves) {
+    const last = merged[merged.length - 1];
+    if (move !== 'slice' && last && last !== 'slice') {
+      merged[merged.length - 1] = { top: last.top + move.top, bottom: last.bottom + move.bottom };
+    } else {
+      merged.push(move);
+    }
+  }
+
+  return merged.flatMap(move => {
+    if (move === 'slice') return ['/'];
+    const top = normalizeAmount(move.top);
+    const bottom = normalizeAmount(move.bottom);
+    return top === 0 && bottom === 0 ? [] : [`(${top},${bottom})`];
+  }).join(' ');
+}
+
+function invertMoves(moves: SquareOneMove[]): SquareOneMove[] {
+  return [...moves].reverse().map(move => (move === 'slice' ? move : { top: -move.top, bottom: -move.bottom }));
+}
+
+function solveMoves(state: SquareOneState): SquareOneMove[] {
+  const shape = solveShape(state);
+  return [...shape.moves, ...solvePieces(shape.state)];
+}
+
+/**
+ * Solve a Square-1 state
+ * @returns The solution in WCA notation
+ */
+export function solveSquareOne(state: SquareOneState): string {
+  return formatMoves(solveMoves(state));
+}
+
+/**
+ * Pick a uniformly random state. Every pair of layer shapes with eight corners
+ * between them is reachable with every arrangement of the pieces, so a random
+ * shape pair is filled with shuffled pieces.
+ */
+function randomSquareOneState(): SquareOneState {
+  const { layerMasks } = getShapeTables();
+  const pairs: [number, number][] = [];
+  for (const top of layerMasks) {
+    for (const bottom of layerMasks) {
+      if (countCorners(top) + countCorners(bottom) === 8) pairs.push([top, bottom]);
+    }
+  }
+
+  const [topMask, bottomMask] = pairs[Math.floor(Math.random() * pairs.length)];
+  const shape = createStateWithShape(topMask, bottomMask);
+  const shuffle = (values: number[]) => {
+    for (let i = values.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [values[i], values[j]] = [values[j], values[i]];
+    }
+    return values;
+  };
+  const corners = shuffle([0, 1, 2, 3, 4, 5, 6, 7]);
+  const edges = shuffle([8, 9, 10, 11, 12, 13, 14, 15]);
+  const relabel = (piece: number) => (piece < 8 ? corners[piece] : edges[piece - 8]);
+
+  return {
+    top: shape.top.map(relabel),
+    bottom: shape.bottom.map(relabel),
+    middle: Math.random() < 0.5
+  };
+}
+
+/**
+ * Generate a random-state Square-1 scramble: the inverse of a two-phase
+ * solution of a uniformly random state, in WCA (x,y) / notation
+ */
+export function generateRandomStateSquareOneScramble(): string {
+  return formatMoves(invertMoves(solveMoves(randomSquareOneState())));
+}
@@ -0,0 +1,106 @@
+/**
+ * Statistics over solve results under the WCA rules, shared by challenge
+ * leaderboards, personal stats, analytics and the dashboard so that every
+ * number agrees. Results are in milliseconds with penalties applied, and null
+ * for a DNF.
+ */
+
+/**
+ * Round a result to the hundredth of a second, as WCA averages are
+ */
+export function roundToCentiseconds(timeMs: number): number {
+  return Math.round(timeMs / 10) * 10;
+}
+
+/**
+ * Number of results dropped from each end of an average: 5% of them,
+ * rounded up, and at least one
+ */
+export function getTrimCount(count: number): number {
+  return Math.max(1, Math.ceil(count * 0.05));
+}
+
+/**
+ * Results from best to worst, DNFs last
+ */
+function sortResults(results: (number | null)[]): (number | null)[] {
+  return [...results].sort((a, b) => (a ?? Infinity) - (b ?? Infinity));
+}
+
+/**
+ * Mean of results, rounded to the hundredth
+ * @returns The mean, or null if any result is a DNF
+ * @throws Error if there are no results
+ */
+export function getMean(results: (number | null)[]): number | null {
+  if (results.length === 0) {
+    throw new Error('A mean needs at least 1 result');
+  }
+  if (results.some(result => result === null)) return null;
+
+  const total = (results as number[]).reduce((sum, result) => sum + result, 0);
+  return roundToCentiseconds(total / results.length);
+}
+
+/**
+ * WCA-style average: the best and worst results are dropped (see getTrimCount)
+ * and the rest averaged, rounded to the hundredth. DNFs are the worst results,
+ * so the average is a DNF when more results are DNFs than are dropped.
+ * @returns The average, or null for a DNF average
+ * @throws Error if there are fewer than three results
+ */
+export function getTrimmedAverage(results: (number | null)[]): number | null {
+  if (results.length < 3) {
+    throw new Error(`An average needs at least 3 results, not ${results.length}`);
+  }
+
+  const trim = getTrimCount(results.length);
+  return getMean(sortResults(results).slice(trim, results.length - trim));
+}
+
+/**
+ * Average of a whole session: the trimmed average with three or more results,
+ * the mean of fewer
+ * @returns The average, or null for a DNF average or no results
+ */
+export function getSessionAverage(results: (number | null)[]): number | null {
+  if (results.length === 0) return null;
+  return results.length >= 3 ? getTrimmedAverage(results) : getMean(results);
+}
+
+/**
+ * Best-of-N result, as ranked in Bo3 rounds: the best finished result
+ * @returns The best result, or null if every result is a DNF
+ */
+export function getBestResult(results: (number | null)[]): number | null {
+  return sortResults(results)[0] ?? null;
+}
+
+/**
+ * Trimmed average of every run of consecutive results of a size, as timers
+ * show a rolling Ao5 or Ao12
+ * @param results Results in the order they were done
+ * @param size Number of results in each average (at least three)
+ * @returns One average per run, ending at results size-1 to the last;
+ * empty if there are fewer results than the size
+ */
+export function getRollingAverages(results: (number | null)[], size: number): (number | null)[] {
+  const averages: (number | null)[] = [];
+  for (let end = size; end <= results.length; end++) {
+    averages.push(getTrimmedAverage(results.slice(end - size, end)));
+  }
+  return averages;
+}
+
+/**
+ * Standard deviation of the finished results, rounded to the hundredth
+ * @returns The deviation, or null with fewer than two finished results
+ */
+export function getStandardDeviation(results: (number | null)[]): number | null {
+  const finished = results.filter((result): result is number => result !== null);
+  if (finished.length < 2) return null;
+
+  const mean = finished.reduce((sum, result) => sum + result, 0) / finished.length;
+  const variance = finished.reduce((sum, result) => sum + (result - mean) ** 2, 0) / finished.length;
+  return roundToCentiseconds(Math.sqrt(variance));
+}
@@ -0,0 +1,149 @@
+/**
+ * Wall-clock times in a guild's time zone: when a daily post at "16:00" in
+ * "Europe/Berlin" next happens as an instant, what day of the week it is
+ * there, and how to show the time. Daylight saving transitions are handled:
+ * a time skipped when clocks go forward runs as late as the clocks jumped,
+ * and a time repeated when they go back runs only the first time.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Whether a time zone is an IANA name the runtime knows, e.g. "Europe/Berlin"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a time of day in 24-hour "HH:MM" form
+ * @returns The hour and minute, or null if the time is not written that way
+ */
+export function parseTimeOfDay(time: string): { hour: number; minute: number } | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  if (!match) return null;
+  return { hour: Number(match[1]), minute: Number(match[2]) };
+}
+
+/**
+ * The wall-clock date and time of a moment in a time zone, as if it were UTC
+ */
+function getWallClock(date: Date, timeZone: string): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23',
+    year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return new Date(Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')));
+}
+
+/**
+ * Offset of a time zone from UTC at a moment, in milliseconds
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return getWallClock(date, timeZone).getTime() - wholeSeconds;
+}
+
+/**
+ * The calendar day a moment falls on in a time zone, as midnight UTC of that day
+ */
+export function getLocalDay(date: Date, timeZone: string): Date {
+  const wallClock = getWallClock(date, timeZone);
+  return new Date(Date.UTC(wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate()));
+}
+
+/**
+ * The calendar date a moment falls on in a time zone, e.g. "2026-10-19"
+ */
+export function getLocalDateKey(date: Date, timeZone: string): string {
+  return getLocalDay(date, timeZone).toISOString().slice(0, 10);
+}
+
+/**
+ * Day of the week a moment falls on in a time zone, 0 for Sunday as Date.getDay
+ */
+export function getLocalDayOfWeek(date: Date, timeZone: string): number {
+  return getLocalDay(date, timeZone).getUTCDay();
+}
+
+/**
+ * The instant a wall-clock time happens in a time zone
+ * @param wallClock The date and time as if it were UTC
+ * @param timeZone The time zone
+ * @returns The first instant showing that time; for a time skipped by a
+ * daylight saving change, the instant as far after the change as the time is
+ */
+function getZonedInstant(wallClock: Date, timeZone: string): Date {
+  // A transition changes the offset; the offsets half a day either side are the ones before and after it
+  const offsetBefore = getTimeZoneOffset(new Date(wallClock.getTime() - DAY_MS / 2), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallClock.getTime() + DAY_MS / 2), timeZone);
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map(offset => new Date(wallClock.getTime() - offset))
+    .filter(instant => getWallClock(instant, timeZone).getTime() === wallClock.getTime());
+  if (candidates.length > 0) {
+    return new Date(Math.min(...candidates.map(instant => instant.getTime())));
+  }
+
+  // The time was skipped when the clocks went forward
+  return new Date(wallClock.getTime() - offsetBefore);
+}
+
+/**
+ * The next time a daily post at a time of day runs
+ * @param timeToPost The time of day in 24-hour "HH:MM" form
+ * @param timeZone The time zone the time is in
+ * @param after The moment to look from (default: now); a post at exactly this moment is not counted
+ * @throws Error if the time of day is not written as "HH:MM"
+ */
+export function getNextDailyRun(timeToPost: string, timeZone: string, after: Date = new Date()): Date {
+  const time = parseTimeOfDay(timeToPost);
+  if (!time) {
+    throw new Error(`Invalid time of day "${timeToPost}", expected HH:MM`);
+  }
+
+  const today = getLocalDay(after, timeZone);
+  for (let daysAhead = 0; ; daysAhead++) {
+    const wallClock = new Date(today.getTime() + daysAhead * DAY_MS + time.hour * HOUR_MS + time.minute * MINUTE_MS);
+    const run = getZonedInstant(wallClock, timeZone);
+    if (run.getTime() > after.getTime()) return run;
+  }
+}
+
+/**
+ * The latest time a daily post at a time of day ran, at or before a moment
+ * @param timeToPost The time of day in 24-hour "HH:MM" form
+ * @param timeZone The time zone the time is in
+ * @param at The moment to look back from (default: now)
+ * @throws Error if the time of day is not written as "HH:MM"
+ */
+export function getPreviousDailyRun(timeToPost: string, timeZone: string, at: Date = new Date()): Date {
+  const time = parseTimeOfDay(timeToPost);
+  if (!time) {
+    throw new Error(`Invalid time of day "${timeToPost}", expected HH:MM`);
+  }
+
+  const today = getLocalDay(at, timeZone);
+  for (let daysBack = 0; ; daysBack++) {
+    const wallClock = new Date(today.getTime() - daysBack * DAY_MS + time.hour * HOUR_MS + time.minute * MINUTE_MS);
+    const run = getZonedInstant(wallClock, timeZone);
+    if (run.getTime() <= at.getTime()) return run;
+  }
+}
+
+/**
+ * A moment's time of day in a time zone with the zone's short name, e.g. "4:00 PM GMT+5:30"
+ */
+export function formatZonedTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short'
+  }).format(date);
+}
@@ -0,0 +1,76 @@
+/**
+ * Sparkline-style trend charts of recent solves: each single as a point on a
+ * line, the rolling average of 5 over it, and the best single as a dashed
+ * guide. Faster solves are lower. DNFs are marked in red along the top.
+ * Charts are plain SVG strings so they work in the browser and on the server.
+ */
+import { getRollingAverages } from './statistics';
+
+const WIDTH = 480;
+const HEIGHT = 120;
+const PADDING = 10;
+
+const BACKGROUND = '#2B2D31';
+const SINGLE_COLOUR = '#5865F2';
+const AVERAGE_COLOUR = '#2ECC71';
+const BEST_COLOUR = '#F1C40F';
+const DNF_COLOUR = '#E74C3C';
+
+function polyline(points: [number, number][], colour: string, width: number): string {
+  const coords = points.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+  return `<polyline points="${coords}" fill="none" stroke="${colour}" stroke-width="${width}" stroke-linejoin="round" stroke-linecap="round"/>`;
+}
+
+/**
+ * Render the trend of recent results
+ * @param results Results in milliseconds, oldest first, null for a DNF
+ * @returns The chart; an empty chart if no solve was finished
+ */
+export function renderTrendSvg(results: (number | null)[]): string {
+  const body: string[] = [];
+  const finished = results.filter((result): result is number => result !== null);
+  const xAt = (i: number) => results.length > 1 ? PADDING + i * (WIDTH - PADDING * 2) / (results.length - 1) : WIDTH / 2;
+
+  if (finished.length > 0) {
+    const fastest = Math.min(...finished);
+    const range = Math.max(Math.max(...finished) - fastest, 1);
+    // Keep the top band free for DNF marks
+    const yAt = (timeMs: number) => HEIGHT - PADDING - ((timeMs - fastest) / range) * (HEIGHT - PADDING * 3);
+
+    const bestY = yAt(fastest).toFixed(1);
+    body.push(`<line x1="${PADDING}" y1="${bestY}" x2="${WIDTH - PADDING}" y2="${bestY}" stroke="${BEST_COLOUR}" stroke-width="1" stroke-dasharray="4 4"/>`);
+
+    const singles = results
+      .map((result, i) => result === null ? null : [xAt(i), yAt(result)] as [number, number])
+      .filter((point): point is [number, number] => point !== null);
+    if (singles.length > 1) {
+      body.push(polyline(singles, SINGLE_COLOUR, 1.5));
+    }
+    singles.forEach(([x, y]) => {
+      body.push(`<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="2.5" fill="${SINGLE_COLOUR}"/>`);
+    });
+
+    // Rolling average of 5, broken where an average is a DNF
+    let segment: [number, number][] = [];
+    [...getRollingAverages(results, 5), null].forEach((average, i) => {
+      if (average !== null) {
+        segment.push([xAt(i + 4), yAt(average)]);
+        return;
+      }
+      if (segment.length > 1) {
+        body.push(polyline(segment, AVERAGE_COLOUR, 2.5));
+      }
+      segment = [];
+    });
+  }
+
+  results.forEach((result, i) => {
+    if (result !== null) return;
+    body.push(`<circle cx="${xAt(i).toFixed(1)}" cy="${PADDING}" r="3" fill="${DNF_COLOUR}"/>`);
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">`
+    + `<rect width="${WIDTH}" height="${HEIGHT}" fill="${BACKGROUND}"/>`
+    + body.join('')
+    + '</svg>';
+}
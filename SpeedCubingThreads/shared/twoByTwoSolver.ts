@@ -0,0 +1,181 @@
+/**
+ * Optimal solver for the 2x2 cube.
+ *
+ * The DBL corner is kept fixed, so every state is reachable with R, U and F
+ * turns only. A state is encoded as (permutation of the other 7 corners,
+ * orientation of 6 of them), giving exactly 5040 * 729 = 3,674,160 states.
+ * A full distance table over all states is built lazily on first use, which
+ * makes optimal solving a simple walk down the table.
+ */
+import {
+  CubieCube, createSolvedCube, moveCubes, moveName, multiplyCubes,
+  getPermutationIndex, setPermutationIndex, invertSequence
+} from './twoPhaseSolver';
+
+/**
+ * Corner positions that move; DBL (position 6) stays fixed
+ */
+const slots = [0, 1, 2, 3, 4, 5, 7];
+
+/**
+ * Allowed moves as indices into moveCubes: U, U2, U', R, R2, R', F, F2, F'
+ */
+const moves = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+
+const N_PERM = 5040;
+const N_TWIST = 729;
+const N_STATES = N_PERM * N_TWIST;
+const N_MOVES = moves.length;
+
+/**
+ * WCA minimum optimal solution length for a 2x2 scramble
+ */
+export const MIN_2X2_DISTANCE = 4;
+
+/**
+ * Longest optimal solution of any 2x2 state (God's number, half turn metric)
+ */
+export const MAX_2X2_DISTANCE = 11;
+
+interface TwoByTwoTables {
+  permMove: Uint16Array;
+  twistMove: Uint16Array;
+  distance: Int8Array;
+}
+
+let tables: TwoByTwoTables | null = null;
+
+function getPerm(cube: CubieCube): number {
+  return getPermutationIndex(slots.map(slot => {
+    const piece = cube.cp[slot];
+    return piece < 6 ? piece : piece - 1;
+  }));
+}
+
+function setPerm(cube: CubieCube, perm: number): void {
+  setPermutationIndex(perm, 7).forEach((piece, i) => {
+    cube.cp[slots[i]] = piece < 6 ? piece : piece + 1;
+  });
+}
+
+function getTwist(cube: CubieCube): number {
+  let twist = 0;
+  for (let i = 0; i < 6; i++) twist = twist * 3 + cube.co[slots[i]];
+  return twist;
+}
+
+function setTwist(cube: CubieCube, twist: number): void {
+  let sum = 0;
+  for (let i = 5; i >= 0; i--) {
+    cube.co[slots[i]] = twist % 3;
+    sum += twist % 3;
+    twist = Math.floor(twist / 3);
+  }
+  cube.co[7] = (3 - sum % 3) % 3;
+}
+
+/**
+ * Build (or return the cached) move tables and the full distance table
+ */
+function getTables(): TwoByTwoTables {
+  if (tables) return tables;
+
+  const permMove = new Uint16Array(N_PERM * N_MOVES);
+  for (let perm = 0; perm < N_PERM; perm++) {
+    const cube = createSolvedCube();
+    setPerm(cube, perm);
+    moves.forEach((move, m) => {
+      permMove[perm * N_MOVES + m] = getPerm(multiplyCubes(cube, moveCubes[move]));
+    });
+  }
+
+  const twistMove = new Uint16Array(N_TWIST * N_MOVES);
+  for (let twist = 0; twist < N_TWIST; twist++) {
+    const cube = createSolvedCube();
+    setTwist(cube, twist);
+    moves.forEach((move, m) => {
+      twistMove[twist * N_MOVES + m] = getTwist(multiplyCubes(cube, moveCubes[move]));
+    });
+  }
+
+  const distance = new Int8Array(N_STATES).fill(-1);
+  distance[0] = 0;
+  for (let depth = 0; depth < MAX_2X2_DISTANCE; depth++) {
+    for (let index = 0; index < N_STATES; index++) {
+      if (distance[index] !== depth) continue;
+      const perm = Math.floor(index / N_TWIST);
+      const twist = index % N_TWIST;
+      for (let m = 0; m < N_MOVES; m++) {
+        const next = permMove[perm * N_MOVES + m] * N_TWIST + twistMove[twist * N_MOVES + m];
+        if (distance[next] === -1) distance[next] = depth + 1;
+      }
+    }
+  }
+
+  tables = { permMove, twistMove, distance };
+  return tables;
+}
+
+/**
+ * Optimal solution of a state given by its table index
+ */
+function solveIndex(index: number): string[] {
+  const t = getTables();
+  const solution: string[] = [];
+  while (t.distance[index] > 0) {
+    const perm = Math.floor(index / N_TWIST);
+    const twist = index % N_TWIST;
+    for (let m = 0; m < N_MOVES; m++) {
+      const next = t.permMove[perm * N_MOVES + m] * N_TWIST + t.twistMove[twist * N_MOVES + m];
+      if (t.distance[next] === t.distance[index] - 1) {
+        solution.push(moveName(moves[m]));
+        index = next;
+        break;
+      }
+    }
+  }
+  return solution;
+}
+
+/**
+ * Solve a 2x2 state optimally using R, U and F turns
+ * @param cube Cube state with the DBL corner solved (only corners are read)
+ * @returns The optimal solution in face turn notation
+ */
+export function solve2x2(cube: CubieCube): string {
+  if (cube.cp[6] !== 6 || cube.co[6] !== 0) {
+    throw new Error('The DBL corner must be solved to use the 2x2 solver');
+  }
+  return solveIndex(getPerm(cube) * N_TWIST + getTwist(cube)).join(' ');
+}
+
+/**
+ * Get the optimal solution length of a 2x2 state
+ */
+export function get2x2Distance(cube: CubieCube): number {
+  return getTables().distance[getPerm(cube) * N_TWIST + getTwist(cube)];
+}
+
+/**
+ * Generate a random-state 2x2 scramble whose optimal solution length is within a range.
+ * States are sampled uniformly and rejected until one falls in the range,
+ * so the result is uniform among all states at those distances.
+ * @param minDistance Minimum optimal solution length (defaults to the WCA minimum of 4)
+ * @param maxDistance Maximum optimal solution length
+ */
+export function generateRandomState2x2Scramble(
+  minDistance: number = MIN_2X2_DISTANCE,
+  maxDistance: number = MAX_2X2_DISTANCE
+): string {
+  const t = getTables();
+  const min = Math.max(0, Math.min(minDistance, MAX_2X2_DISTANCE));
+  const max = Math.max(min, Math.min(maxDistance, MAX_2X2_DISTANCE));
+
+  let index: number;
+  do {
+    index = Math.floor(Math.random() * N_STATES);
+  } while (t.distance[index] < min || t.distance[index] > max);
+
+  // The scramble is the inverse of the optimal solution
+  return invertSequence(solveIndex(index).join(' '));
+}
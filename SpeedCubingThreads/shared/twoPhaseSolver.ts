@@ -0,0 +1,561 @@
+/**
+ * Kociemba two-phase solver for the 3x3 cube.
+ *
+ * Phase 1 brings the cube into the subgroup H = <U, D, R2, L2, F2, B2>
+ * (all corners and edges oriented, UD-slice edges inside the slice).
+ * Phase 2 solves the cube using only moves from H.
+ * Both phases are IDA* searches over coordinate move tables with
+ * precomputed pruning tables. The tables are built lazily on first use.
+ */
+
+// Corner positions: URF, UFL, ULB, UBR, DFR, DLF, DBL, DRB
+// Edge positions: UR, UF, UL, UB, DR, DF, DL, DB, FR, FL, BL, BR
+
+/**
+ * Cube on the cubie level.
+ * cp[i] / ep[i] is the piece that sits at position i,
+ * co[i] / eo[i] is the orientation of that piece.
+ */
+export interface CubieCube {
+  cp: number[];
+  co: number[];
+  ep: number[];
+  eo: number[];
+}
+
+/**
+ * Face names in the order used by the move tables
+ */
+const faceNames = ['U', 'R', 'F', 'D', 'L', 'B'];
+
+/**
+ * Suffixes for quarter turn, half turn and inverse quarter turn
+ */
+const powerSuffixes = ['', '2', '\''];
+
+/**
+ * The six basic face turns on the cubie level (U, R, F, D, L, B)
+ */
+const basicMoves: CubieCube[] = [
+  { // U
+    cp: [3, 0, 1, 2, 4, 5, 6, 7], co: [0, 0, 0, 0, 0, 0, 0, 0],
+    ep: [3, 0, 1, 2, 4, 5, 6, 7, 8, 9, 10, 11], eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]
+  },
+  { // R
+    cp: [4, 1, 2, 0, 7, 5, 6, 3], co: [2, 0, 0, 1, 1, 0, 0, 2],
+    ep: [8, 1, 2, 3, 11, 5, 6, 7, 4, 9, 10, 0], eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]
+  },
+  { // F
+    cp: [1, 5, 2, 3, 0, 4, 6, 7], co: [1, 2, 0, 0, 2, 1, 0, 0],
+    ep: [0, 9, 2, 3, 4, 8, 6, 7, 1, 5, 10, 11], eo: [0, 1, 0, 0, 0, 1, 0, 0, 1, 1, 0, 0]
+  },
+  { // D
+    cp: [0, 1, 2, 3, 5, 6, 7, 4], co: [0, 0, 0, 0, 0, 0, 0, 0],
+    ep: [0, 1, 2, 3, 5, 6, 7, 4, 8, 9, 10, 11], eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]
+  },
+  { // L
+    cp: [0, 2, 6, 3, 4, 1, 5, 7], co: [0, 1, 2, 0, 0, 2, 1, 0],
+    ep: [0, 1, 10, 3, 4, 5, 9, 7, 8, 2, 6, 11], eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]
+  },
+  { // B
+    cp: [0, 1, 3, 7, 4, 5, 2, 6], co: [0, 0, 1, 2, 0, 0, 2, 1],
+    ep: [0, 1, 2, 11, 4, 5, 6, 10, 8, 9, 3, 7], eo: [0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 1, 1]
+  }
+];
+
+/**
+ * Moves allowed in phase 2: U, U2, U', D, D2, D', R2, L2, F2, B2
+ */
+const phase2Moves = [0, 1, 2, 9, 10, 11, 4, 13, 7, 16];
+
+const N_TWIST = 2187;
+const N_FLIP = 2048;
+const N_SLICE = 495;
+const N_PERM_8 = 40320;
+const N_SLICE_PERM = 24;
+const N_MOVES = 18;
+
+/**
+ * Create a solved cube
+ */
+export function createSolvedCube(): CubieCube {
+  return {
+    cp: [0, 1, 2, 3, 4, 5, 6, 7],
+    co: [0, 0, 0, 0, 0, 0, 0, 0],
+    ep: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+    eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]
+  };
+}
+
+/**
+ * Multiply two cubes: the result is the state reached by applying b to a
+ */
+export function multiplyCubes(a: CubieCube, b: CubieCube): CubieCube {
+  const result = createSolvedCube();
+  for (let i = 0; i < 8; i++) {
+    result.cp[i] = a.cp[b.cp[i]];
+    result.co[i] = (a.co[b.cp[i]] + b.co[i]) % 3;
+  }
+  for (let i = 0; i < 12; i++) {
+    result.ep[i] = a.ep[b.ep[i]];
+    result.eo[i] = (a.eo[b.ep[i]] + b.eo[i]) % 2;
+  }
+  return result;
+}
+
+/**
+ * The 18 face turns on the cubie level, indexed as face * 3 + power
+ */
+export const moveCubes: CubieCube[] = (() => {
+  const moves: CubieCube[] = [];
+  for (const basic of basicMoves) {
+    let current = basic;
+    for (let power = 0; power < 3; power++) {
+      moves.push(current);
+      current = multiplyCubes(current, basic);
+    }
+  }
+  return moves;
+})();
+
+/**
+ * Get the name of a move index (e.g. 4 -> "R2")
+ */
+export function moveName(move: number): string {
+  return faceNames[Math.floor(move / 3)] + powerSuffixes[move % 3];
+}
+
+/**
+ * Parse a face turn sequence such as "R U2 F'" into move indices
+ * @throws Error if a token is not a plain face turn
+ */
+export function parseFaceTurns(sequence: string): number[] {
+  const tokens = sequence.trim().split(/\s+/).filter(token => token.length > 0);
+  return tokens.map(token => {
+    const match = /^([URFDLB])(2|')?$/.exec(token);
+    if (!match) {
+      throw new Error(`Invalid face turn "${token}"`);
+    }
+    const power = match[2] === '2' ? 1 : match[2] === '\'' ? 2 : 0;
+    return faceNames.indexOf(match[1]) * 3 + power;
+  });
+}
+
+/**
+ * Apply a list of move indices to a cube and return the new state
+ */
+export function applyMoves(cube: CubieCube, moves: number[]): CubieCube {
+  return moves.reduce((state, move) => multiplyCubes(state, moveCubes[move]), cube);
+}
+
+/**
+ * Binomial coefficient, 0 when k > n
+ */
+function choose(n: number, k: number): number {
+  if (k > n || k < 0) return 0;
+  let result = 1;
+  for (let i = 0; i < k; i++) {
+    result = result * (n - i) / (i + 1);
+  }
+  return result;
+}
+
+/**
+ * Lehmer code of a permutation of the values 0..n-1
+ */
+export function getPermutationIndex(values: number[]): number {
+  let index = 0;
+  for (let i = 0; i < values.length; i++) {
+    let smaller = 0;
+    for (let j = i + 1; j < values.length; j++) {
+      if (values[j] < values[i]) smaller++;
+    }
+    index = index * (values.length - i) + smaller;
+  }
+  return index;
+}
+
+/**
+ * Inverse of getPermutationIndex
+ */
+export function setPermutationIndex(index: number, n: number): number[] {
+  const digits: number[] = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    const base = n - i;
+    digits[i] = index % base;
+    index = Math.floor(index / base);
+  }
+  const available = Array.from({ length: n }, (_, i) => i);
+  return digits.map(digit => available.splice(digit, 1)[0]);
+}
+
+/**
+ * Parity of a permutation (0 = even, 1 = odd)
+ */
+export function permutationParity(values: number[]): number {
+  let parity = 0;
+  for (let i = 0; i < values.length; i++) {
+    for (let j = i + 1; j < values.length; j++) {
+      if (values[i] > values[j]) parity ^= 1;
+    }
+  }
+  return parity;
+}
+
+// Coordinate getters and setters
+
+function getTwist(cube: CubieCube): number {
+  let twist = 0;
+  for (let i = 0; i < 7; i++) twist = twist * 3 + cube.co[i];
+  return twist;
+}
+
+function setTwist(cube: CubieCube, twist: number): void {
+  let sum = 0;
+  for (let i = 6; i >= 0; i--) {
+    cube.co[i] = twist % 3;
+    sum += cube.co[i];
+    twist = Math.floor(twist / 3);
+  }
+  cube.co[7] = (3 - sum % 3) % 3;
+}
+
+function getFlip(cube: CubieCube): number {
+  let flip = 0;
+  for (let i = 0; i < 11; i++) flip = flip * 2 + cube.eo[i];
+  return flip;
+}
+
+function setFlip(cube: CubieCube, flip: number): void {
+  let sum = 0;
+  for (let i = 10; i >= 0; i--) {
+    cube.eo[i] = flip % 2;
+    sum += cube.eo[i];
+    flip = Math.floor(flip / 2);
+  }
+  cube.eo[11] = sum % 2;
+}
+
+/**
+ * Location of the four UD-slice edges, ignoring their order (0 when solved)
+ */
+function getSlice(cube: CubieCube): number {
+  let slice = 0;
+  let found = 0;
+  for (let j = 11; j >= 0; j--) {
+    if (cube.ep[j] >= 8) {
+      slice += choose(11 - j, found + 1);
+      found++;
+    }
+  }
+  return slice;
+}
+
+function setSlice(cube: CubieCube, slice: number): void {
+  cube.ep.fill(-1);
+  let remaining = 4;
+  for (let j = 0; j < 12; j++) {
+    if (slice - choose(11 - j, remaining) >= 0) {
+      cube.ep[j] = 8 + 4 - remaining;
+      slice -= choose(11 - j, remaining);
+      remaining--;
+    }
+  }
+  let other = 0;
+  for (let j = 0; j < 12; j++) {
+    if (cube.ep[j] === -1) cube.ep[j] = other++;
+  }
+}
+
+interface TwoPhaseTables {
+  twistMove: Uint16Array;
+  flipMove: Uint16Array;
+  sliceMove: Uint16Array;
+  cornerPermMove: Uint16Array;
+  edgePermMove: Uint16Array;
+  slicePermMove: Uint8Array;
+  twistSlicePrune: Int8Array;
+  flipSlicePrune: Int8Array;
+  cornerSlicePrune: Int8Array;
+  edgeSlicePrune: Int8Array;
+}
+
+let tables: TwoPhaseTables | null = null;
+
+/**
+ * Build a coordinate move table by decoding each coordinate into a cube,
+ * applying every allowed move and encoding the result again
+ */
+function buildMoveTable(
+  size: number,
+  allowedMoves: number[],
+  decode: (coordinate: number) => CubieCube,
+  encode: (cube: CubieCube) => number,
+  table: Uint16Array | Uint8Array
+): void {
+  for (let coordinate = 0; coordinate < size; coordinate++) {
+    const cube = decode(coordinate);
+    for (const move of allowedMoves) {
+      table[coordinate * N_MOVES + move] = encode(multiplyCubes(cube, moveCubes[move]));
+    }
+  }
+}
+
+/**
+ * Breadth-first fill of a pruning table over the product of two coordinates
+ */
+function buildPruningTable(
+  sizeA: number,
+  sizeB: number,
+  moveA: Uint16Array,
+  moveB: Uint16Array | Uint8Array,
+  allowedMoves: number[]
+): Int8Array {
+  const table = new Int8Array(sizeA * sizeB).fill(-1);
+  table[0] = 0;
+  let filled = 1;
+  let depth = 0;
+  while (filled < table.length) {
+    let added = 0;
+    for (let index = 0; index < table.length; index++) {
+      if (table[index] !== depth) continue;
+      const a = Math.floor(index / sizeB);
+      const b = index % sizeB;
+      for (const move of allowedMoves) {
+        const next = moveA[a * N_MOVES + move] * sizeB + moveB[b * N_MOVES + move];
+        if (table[next] === -1) {
+          table[next] = depth + 1;
+          added++;
+        }
+      }
+    }
+    if (added === 0) break;
+    filled += added;
+    depth++;
+  }
+  return table;
+}
+
+/**
+ * Build (or return the cached) move and pruning tables
+ */
+function getTables(): TwoPhaseTables {
+  if (tables) return tables;
+
+  const allMoves = Array.from({ length: N_MOVES }, (_, i) => i);
+
+  const twistMove = new Uint16Array(N_TWIST * N_MOVES);
+  buildMoveTable(N_TWIST, allMoves, twist => {
+    const cube = createSolvedCube();
+    setTwist(cube, twist);
+    return cube;
+  }, getTwist, twistMove);
+
+  const flipMove = new Uint16Array(N_FLIP * N_MOVES);
+  buildMoveTable(N_FLIP, allMoves, flip => {
+    const cube = createSolvedCube();
+    setFlip(cube, flip);
+    return cube;
+  }, getFlip, flipMove);
+
+  const sliceMove = new Uint16Array(N_SLICE * N_MOVES);
+  buildMoveTable(N_SLICE, allMoves, slice => {
+    const cube = createSolvedCube();
+    setSlice(cube, slice);
+    return cube;
+  }, getSlice, sliceMove);
+
+  const cornerPermMove = new Uint16Array(N_PERM_8 * N_MOVES);
+  buildMoveTable(N_PERM_8, phase2Moves, index => {
+    const cube = createSolvedCube();
+    cube.cp = setPermutationIndex(index, 8);
+    return cube;
+  }, cube => getPermutationIndex(cube.cp), cornerPermMove);
+
+  const edgePermMove = new Uint16Array(N_PERM_8 * N_MOVES);
+  buildMoveTable(N_PERM_8, phase2Moves, index => {
+    const cube = createSolvedCube();
+    cube.ep = [...setPermutationIndex(index, 8), 8, 9, 10, 11];
+    return cube;
+  }, cube => getPermutationIndex(cube.ep.slice(0, 8)), edgePermMove);
+
+  const slicePermMove = new Uint8Array(N_SLICE_PERM * N_MOVES);
+  buildMoveTable(N_SLICE_PERM, phase2Moves, index => {
+    const cube = createSolvedCube();
+    cube.ep = [0, 1, 2, 3, 4, 5, 6, 7, ...setPermutationIndex(index, 4).map(e => e + 8)];
+    return cube;
+  }, cube => getPermutationIndex(cube.ep.slice(8).map(e => e - 8)), slicePermMove);
+
+  tables = {
+    twistMove,
+    flipMove,
+    sliceMove,
+    cornerPermMove,
+    edgePermMove,
+    slicePermMove,
+    twistSlicePrune: buildPruningTable(N_TWIST, N_SLICE, twistMove, sliceMove, allMoves),
+    flipSlicePrune: buildPruningTable(N_FLIP, N_SLICE, flipMove, sliceMove, allMoves),
+    cornerSlicePrune: buildPruningTable(N_PERM_8, N_SLICE_PERM, cornerPermMove, slicePermMove, phase2Moves),
+    edgeSlicePrune: buildPruningTable(N_PERM_8, N_SLICE_PERM, edgePermMove, slicePermMove, phase2Moves)
+  };
+  return tables;
+}
+
+/**
+ * Whether a move may follow the previous one.
+ * Disallows turning the same face twice and fixes the order of opposite faces (e.g. "U D" but never "D U").
+ */
+function isAllowedAfter(move: number, previous: number): boolean {
+  if (previous < 0) return true;
+  const face = Math.floor(move / 3);
+  const previousFace = Math.floor(previous / 3);
+  if (face === previousFace) return false;
+  if (face % 3 === previousFace % 3 && face < previousFace) return false;
+  return true;
+}
+
+/**
+ * Solve a cube with the two-phase algorithm
+ * @param cube The cube state to solve
+ * @param maxLength Stop at the first solution with at most this many moves
+ * @returns The solution as move indices
+ */
+function solveMoves(cube: CubieCube, maxLength: number): number[] {
+  const t = getTables();
+  const phase1Path: number[] = [];
+  const phase2Path: number[] = [];
+
+  const phase2Search = (cornerPerm: number, edgePerm: number, slicePerm: number, togo: number, previous: number): boolean => {
+    if (togo === 0) {
+      return cornerPerm === 0 && edgePerm === 0 && slicePerm === 0;
+    }
+    for (const move of phase2Moves) {
+      if (!isAllowedAfter(move, previous)) continue;
+      const nextCorner = t.cornerPermMove[cornerPerm * N_MOVES + move];
+      const nextEdge = t.edgePermMove[edgePerm * N_MOVES + move];
+      const nextSlice = t.slicePermMove[slicePerm * N_MOVES + move];
+      const estimate = Math.max(
+        t.cornerSlicePrune[nextCorner * N_SLICE_PERM + nextSlice],
+        t.edgeSlicePrune[nextEdge * N_SLICE_PERM + nextSlice]
+      );
+      if (estimate >= togo) continue;
+      phase2Path.push(move);
+      if (phase2Search(nextCorner, nextEdge, nextSlice, togo - 1, move)) return true;
+      phase2Path.pop();
+    }
+    return false;
+  };
+
+  const startPhase2 = (phase1Length: number): boolean => {
+    const reached = applyMoves(cube, phase1Path);
+    const cornerPerm = getPermutationIndex(reached.cp);
+    const edgePerm = getPermutationIndex(reached.ep.slice(0, 8));
+    const slicePerm = getPermutationIndex(reached.ep.slice(8).map(e => e - 8));
+    const estimate = Math.max(
+      t.cornerSlicePrune[cornerPerm * N_SLICE_PERM + slicePerm],
+      t.edgeSlicePrune[edgePerm * N_SLICE_PERM + slicePerm]
+    );
+    const previous = phase1Length > 0 ? phase1Path[phase1Length - 1] : -1;
+    for (let depth = estimate; depth <= maxLength - phase1Length; depth++) {
+      if (phase2Search(cornerPerm, edgePerm, slicePerm, depth, previous)) return true;
+    }
+    return false;
+  };
+
+  const phase1Search = (twist: number, flip: number, slice: number, togo: number, previous: number): boolean => {
+    if (togo === 0) {
+      if (twist !== 0 || flip !== 0 || slice !== 0) return false;
+      // A phase 1 solution ending in a phase 2 move was already tried one level shallower
+      if (previous >= 0 && phase2Moves.includes(previous)) return false;
+      return startPhase2(phase1Path.length);
+    }
+    for (let move = 0; move < N_MOVES; move++) {
+      if (!isAllowedAfter(move, previous)) continue;
+      const nextTwist = t.twistMove[twist * N_MOVES + move];
+      const nextFlip = t.flipMove[flip * N_MOVES + move];
+      const nextSlice = t.sliceMove[slice * N_MOVES + move];
+      const estimate = Math.max(
+        t.twistSlicePrune[nextTwist * N_SLICE + nextSlice],
+        t.flipSlicePrune[nextFlip * N_SLICE + nextSlice]
+      );
+      if (estimate >= togo) continue;
+      phase1Path.push(move);
+      if (phase1Search(nextTwist, nextFlip, nextSlice, togo - 1, move)) return true;
+      phase1Path.pop();
+    }
+    return false;
+  };
+
+  const twist = getTwist(cube);
+  const flip = getFlip(cube);
+  const slice = getSlice(cube);
+  const initialEstimate = Math.max(
+    t.twistSlicePrune[twist * N_SLICE + slice],
+    t.flipSlicePrune[flip * N_SLICE + slice]
+  );
+
+  for (let depth = initialEstimate; depth <= maxLength; depth++) {
+    if (phase1Search(twist, flip, slice, depth, -1)) {
+      return [...phase1Path, ...phase2Path];
+    }
+  }
+  throw new Error(`No solution found within ${maxLength} moves`);
+}
+
+/**
+ * Solve a cube state with the two-phase algorithm
+ * @param cube The cube state to solve
+ * @param maxLength Maximum solution length (default: 21, which is found quickly for any state)
+ * @returns The solution in standard face turn notation
+ */
+export function solve3x3(cube: CubieCube, maxLength: number = 21): string {
+  return solveMoves(cube, maxLength).map(moveName).join(' ');
+}
+
+/**
+ * Check that a cubie cube describes a reachable 3x3 state
+ */
+export function isValidCubieCube(cube: CubieCube): boolean {
+  const isPermutation = (values: number[]) =>
+    [...values].sort((a, b) => a - b).every((value, index) => value === index);
+  if (!isPermutation(cube.cp) || !isPermutation(cube.ep)) return false;
+  if (cube.co.reduce((sum, o) => sum + o, 0) % 3 !== 0) return false;
+  if (cube.eo.reduce((sum, o) => sum + o, 0) % 2 !== 0) return false;
+  return permutationParity(cube.cp) === permutationParity(cube.ep);
+}
+
+/**
+ * Pick a uniformly random reachable cube state
+ */
+export function randomCubieCube(): CubieCube {
+  const cube = createSolvedCube();
+  cube.cp = setPermutationIndex(Math.floor(Math.random() * N_PERM_8), 8);
+  cube.ep = setPermutationIndex(Math.floor(Math.random() * 479001600), 12);
+  // Corner and edge permutation parities must match; swapping two edges
+  // keeps the distribution uniform over the reachable states
+  if (permutationParity(cube.cp) !== permutationParity(cube.ep)) {
+    [cube.ep[0], cube.ep[1]] = [cube.ep[1], cube.ep[0]];
+  }
+  setTwist(cube, Math.floor(Math.random() * N_TWIST));
+  setFlip(cube, Math.floor(Math.random() * N_FLIP));
+  return cube;
+}
+
+/**
+ * Invert a move sequence written in face turn notation (e.g. "R U2 F'" -> "F U2 R'")
+ */
+export function invertSequence(sequence: string): string {
+  return sequence.trim().split(/\s+/).filter(token => token.length > 0).reverse().map(token => {
+    if (token.endsWith('\'')) return token.slice(0, -1);
+    if (token.endsWith('2')) return token;
+    return `${token}'`;
+  }).join(' ');
+}
+
+/**
+ * Generate a random-state 3x3 scramble: the inverse of a two-phase solution
+ * of a uniformly random cube state
+ */
+export function generateRandomState3x3Scramble(): string {
+  return invertSequence(solve3x3(randomCubieCube()));
+}